@@ -11,22 +11,61 @@ import type {
   ConsentChangeListener,
   ConsentManagerConfig,
   ConsentDebugInfo,
+  ConsentSource,
+  CategoryDefinition,
+  ConsentMigration,
+  ConsentKeyProvider,
+  ConsentSigner,
+  ConsentStorageFormat,
+  ConsentSyncConfig,
+  PrivacySignal,
+  PrivacySignalConfig,
+  RegulationProfile,
+  ResolvedRegulationProfile,
   StorageAdapter,
 } from './types';
 import { LocalStorageAdapter } from './storage';
 import {
   validateConsentState,
   validateCustomCategories,
+  validatePreviousCustomCategories,
   validateStorageKey,
   validateDuration,
   validateVersion,
+  validatePrivacySignals,
+  validateCategoryRegistry,
+  validateMigrations,
+  validateSyncConfig,
+  validateRegulationProfiles,
+  validateRegion,
+  validateLocale,
+  getStoredCategoryNames,
 } from './validation';
 import {
   signConsentState,
   verifyConsentState,
   getOrCreateSecret,
+  createSecretSigner,
+  canonicalizeConsentState,
   type SignedConsentState,
 } from './crypto';
+import {
+  CompactCategoryMismatchError,
+  parseStoredConsent,
+  serializeStoredConsent,
+  toCompactPrecision,
+} from './compact';
+import { decryptConsentRecord, encryptConsentRecord, isEncryptedConsent } from './encryption';
+import { detectPrivacySignal } from './privacySignals';
+import { BUILT_IN_CATEGORIES, DEFAULT_CATEGORY_DEFINITIONS } from './categories';
+import { migrateConsentState } from './migrations';
+import { createConsentSync, type ConsentSync } from './sync';
+import {
+  DEFAULT_PROFILE_NAME,
+  DEFAULT_REGULATION_PROFILES,
+  findProfileForRegion,
+  resolveRegulationProfile,
+} from './regulations';
 
 const DEFAULT_STORAGE_KEY = 'cookie_consent';
 const DEFAULT_CONSENT_VERSION = 1;
@@ -37,17 +76,34 @@ const MAX_CONSENT_CHANGES_PER_WINDOW = 5;
 // Prevent memory leaks from excessive listeners
 const MAX_LISTENERS = 100;
 
+// loadConsent result for a record whose signature the signer couldn't check; it stays stored
+const UNVERIFIED = Symbol('unverified');
+
 export class ConsentManager {
   private listeners: Set<ConsentChangeListener> = new Set();
   private currentState: ConsentState | null = null;
-  private secret: string = '';
+  private signer: ConsentSigner | null = null;
+  private encryption: ConsentKeyProvider | null = null;
   private loadingPromise: Promise<ConsentState | null> | null = null;
   private isInitialized: boolean = false;
   private lastConsentChangeTimestamps: number[] = [];
-  private config: Required<Omit<ConsentManagerConfig, 'onConsentChange' | 'customCategories' | 'enableIntegrity'>> & {
+  private privacySignal: PrivacySignal | null = null;
+  private sync: ConsentSync | null = null;
+  private profile: ResolvedRegulationProfile;
+  private locale: string | null = null;
+  // Server-provided consent, trusted until storage has been verified
+  private initialState: ConsentState | null = null;
+  private pendingInitialState: ConsentState | null = null;
+  // Bumped by every local decision, so a storage read that started earlier can't overwrite it
+  private decisionCount = 0;
+  private revalidation: Promise<ConsentState | null> = Promise.resolve(null);
+  private config: Required<Omit<ConsentManagerConfig, 'onConsentChange' | 'customCategories' | 'enableIntegrity' | 'privacySignals' | 'migrations' | 'signer' | 'encryption' | 'sync' | 'profiles' | 'region' | 'defaultProfile' | 'locale' | 'initialState'>> & {
     customCategories: string[];
     onConsentChange?: ConsentChangeListener;
     enableIntegrity: boolean;
+    privacySignals: Required<PrivacySignalConfig> | null;
+    migrations: Record<number, ConsentMigration>;
+    sync: Required<ConsentSyncConfig> | null;
   };
 
   constructor(config: ConsentManagerConfig = {}) {
@@ -72,27 +128,152 @@ export class ConsentManager {
       throw new Error(`Invalid version: ${versionValidation.error}`);
     }
 
-    // Validate custom categories
-    const customCategories = config.customCategories ?? [];
+    // Validate category registry
+    const registryValidation = validateCategoryRegistry(config.categories ?? {});
+    if (!registryValidation.success) {
+      throw new Error(`Invalid category registry: ${registryValidation.error}`);
+    }
+
+    // Validate custom categories (registry entries beyond the built-ins are included)
+    const customCategories = [...(config.customCategories ?? [])];
+    for (const name of Object.keys(registryValidation.data)) {
+      if (!(BUILT_IN_CATEGORIES as readonly string[]).includes(name) && !customCategories.includes(name)) {
+        customCategories.push(name);
+      }
+    }
     const categoriesValidation = validateCustomCategories(customCategories);
     if (!categoriesValidation.success) {
       throw new Error(`Invalid custom categories: ${categoriesValidation.error}`);
     }
 
+    // Validate the category lists of earlier releases
+    const previousCategoriesValidation = validatePreviousCustomCategories(config.previousCustomCategories ?? []);
+    if (!previousCategoriesValidation.success) {
+      throw new Error(`Invalid previous custom categories: ${previousCategoriesValidation.error}`);
+    }
+
+    // Validate migrations
+    const migrationsValidation = validateMigrations(config.migrations ?? {}, versionValidation.data);
+    if (!migrationsValidation.success) {
+      throw new Error(`Invalid migrations: ${migrationsValidation.error}`);
+    }
+
+    // Validate privacy signal handling
+    const privacySignalsValidation = validatePrivacySignals(
+      config.privacySignals,
+      categoriesValidation.data
+    );
+    if (!privacySignalsValidation.success) {
+      throw new Error(`Invalid privacy signals: ${privacySignalsValidation.error}`);
+    }
+
+    // Validate regulation profiles; custom profiles take precedence over built-ins
+    const optionalCategories = ['essential', 'analytics', 'marketing', ...categoriesValidation.data].filter(
+      (category) => category !== 'essential' && registryValidation.data[category]?.required !== true
+    );
+    const profilesValidation = validateRegulationProfiles(config.profiles ?? {}, optionalCategories);
+    if (!profilesValidation.success) {
+      throw new Error(`Invalid regulation profiles: ${profilesValidation.error}`);
+    }
+    const profiles: Record<string, RegulationProfile> = { ...profilesValidation.data };
+    for (const [name, profile] of Object.entries(DEFAULT_REGULATION_PROFILES)) {
+      if (!Object.prototype.hasOwnProperty.call(profiles, name)) {
+        profiles[name] = profile;
+      }
+    }
+
+    const defaultProfile = config.defaultProfile ?? DEFAULT_PROFILE_NAME;
+    if (!Object.prototype.hasOwnProperty.call(profiles, defaultProfile)) {
+      throw new Error(`Invalid default profile: "${defaultProfile}" is not defined`);
+    }
+
+    let profileName = defaultProfile;
+    if (config.region) {
+      const regionValidation = validateRegion(config.region);
+      if (!regionValidation.success) {
+        throw new Error(`Invalid region: ${regionValidation.error}`);
+      }
+      profileName = findProfileForRegion(regionValidation.data, profiles) ?? defaultProfile;
+    }
+    this.profile = resolveRegulationProfile(profileName, profiles[profileName], optionalCategories);
+
+    // Validate locale
+    if (config.locale !== undefined) {
+      const localeValidation = validateLocale(config.locale);
+      if (!localeValidation.success) {
+        throw new Error(`Invalid locale: ${localeValidation.error}`);
+      }
+      this.locale = localeValidation.data;
+    }
+
+    // Validate storage format
+    const storageFormat = config.storageFormat ?? 'json';
+    if (storageFormat !== 'json' && storageFormat !== 'compact') {
+      throw new Error(`Invalid storage format: "${storageFormat}" must be 'json' or 'compact'`);
+    }
+
+    // Validate cross-tab sync
+    const syncValidation = validateSyncConfig(config.sync);
+    if (!syncValidation.success) {
+      throw new Error(`Invalid sync config: ${syncValidation.error}`);
+    }
+
     this.config = {
       storageKey: storageKeyValidation.data,
       duration: durationValidation.data,
       version: versionValidation.data,
       storage: config.storage ?? new LocalStorageAdapter(),
+      storageFormat,
       customCategories: categoriesValidation.data,
+      previousCustomCategories: previousCategoriesValidation.data,
+      categories: { ...DEFAULT_CATEGORY_DEFINITIONS, ...registryValidation.data },
       onConsentChange: config.onConsentChange,
       debug: config.debug ?? false,
       enableIntegrity: config.enableIntegrity ?? true,
+      privacySignals: privacySignalsValidation.data,
+      migrations: migrationsValidation.data,
+      repromptForNewCategories: config.repromptForNewCategories ?? false,
+      sync: syncValidation.data,
     };
 
-    // Initialize secret for integrity verification
+    // Detect GPC/DNT once, at load time
+    if (this.config.privacySignals) {
+      this.privacySignal = detectPrivacySignal(this.config.privacySignals.honor);
+    }
+
+    // Initialize signer for integrity verification
+    // Fall back to a per-device secret only when no signer is provided
     if (this.config.enableIntegrity) {
-      this.secret = getOrCreateSecret(this.config.storageKey);
+      this.signer = config.signer ?? createSecretSigner(getOrCreateSecret(this.config.storageKey));
+    }
+    this.encryption = config.encryption ?? null;
+
+    // Follow consent changes made in other tabs and windows
+    if (this.config.sync) {
+      this.sync = createConsentSync({
+        storageKey: this.config.storageKey,
+        storage: this.config.storage,
+        config: this.config.sync,
+        onExternalChange: () => {
+          this.revalidate().catch((error) => {
+            console.error('[ConsentManager] Error revalidating consent:', error);
+          });
+        },
+      });
+    }
+
+    // Seed consent read on the server so the first render matches it
+    if (config.initialState) {
+      const seedValidation = validateConsentState(config.initialState, this.config.customCategories);
+      if (!seedValidation.success) {
+        console.error('[ConsentManager] Ignoring invalid initial state:', seedValidation.error);
+      } else if (Date.now() > seedValidation.data.expiresAt) {
+        this.log('Initial state has expired, ignoring');
+      } else {
+        this.initialState = seedValidation.data as ConsentState;
+        this.pendingInitialState = this.initialState;
+        this.currentState = this.initialState;
+      }
     }
 
     // Register global change listener if provided
@@ -117,22 +298,55 @@ export class ConsentManager {
       return this.loadingPromise;
     }
 
-    this.loadingPromise = this.loadConsent()
+    // A decision made while loading is newer than the stored record
+    const decisionCount = this.decisionCount;
+    const isCurrent = () => this.decisionCount === decisionCount;
+
+    this.loadingPromise = this.loadConsent(isCurrent)
+      .then((state) => (state !== UNVERIFIED && isCurrent() ? this.applyPrivacySignal(state) : state))
       .then((state) => {
         this.isInitialized = true;
         this.loadingPromise = null;
-        return state;
+        if (state === UNVERIFIED) {
+          // Keep the initial state, if any; revalidate() retries the record
+          this.pendingInitialState = null;
+        } else if (isCurrent()) {
+          this.currentState = state;
+          this.reconcileInitialState(state);
+        } else {
+          this.log('Consent was decided while loading, keeping the newer decision');
+        }
+        return this.currentState;
       })
       .catch((error) => {
         console.error('[ConsentManager] Error during initialization:', error);
         this.isInitialized = true; // Mark as initialized even on error
         this.loadingPromise = null;
+        this.reconcileInitialState(null);
         return null;
       });
 
     return this.loadingPromise;
   }
 
+  /**
+   * Replace the initial state with the verified stored consent
+   * Listeners are notified when they disagree; a missing record is reported as a withdrawal
+   */
+  private reconcileInitialState(state: ConsentState | null): void {
+    const seed = this.pendingInitialState;
+    if (!seed) {
+      return;
+    }
+    this.pendingInitialState = null;
+    this.currentState = state;
+
+    if (!state || canonicalizeConsentState(seed) !== canonicalizeConsentState(state)) {
+      this.log('Stored consent differs from the initial state, reconciling:', state);
+      this.notifyListeners(state ?? this.createWithdrawnState());
+    }
+  }
+
   /**
    * Log debug messages if debug mode is enabled
    */
@@ -166,8 +380,18 @@ export class ConsentManager {
 
   /**
    * Load consent state from storage
+   * Doesn't touch the current state; callers decide whether the result is still current.
+   * Storage is only cleared or rewritten while isCurrent() holds, so a decision saved
+   * during the read is never removed or overwritten. Returns UNVERIFIED, keeping the
+   * record, when the signer can't check it (e.g. its endpoint is down).
    */
-  private async loadConsent(): Promise<ConsentState | null> {
+  private async loadConsent(isCurrent: () => boolean): Promise<ConsentState | null | typeof UNVERIFIED> {
+    const clear = async (): Promise<void> => {
+      if (isCurrent()) {
+        await this.clearConsent();
+      }
+    };
+
     try {
       const stored = await this.config.storage.getItem(this.config.storageKey);
       if (!stored) {
@@ -175,44 +399,91 @@ export class ConsentManager {
         return null;
       }
 
-      // Parse JSON (may throw)
+      // Decrypt envelopes; failures are handled like integrity failures
+      const encrypted = isEncryptedConsent(stored);
+      let record = stored;
+      if (encrypted) {
+        const decrypted = this.encryption
+          ? await decryptConsentRecord(stored, this.encryption, this.config.storageKey)
+          : null;
+        if (decrypted === null) {
+          console.error('[ConsentManager] Decryption failed - data may have been tampered with or the key is unavailable');
+          this.log('Decryption failed, clearing consent');
+          await clear();
+          return null;
+        }
+        record = decrypted;
+      }
+
+      // Parse JSON or compact records (may throw)
       let parsed: unknown;
+      let storedFormat: ConsentStorageFormat;
       try {
-        parsed = JSON.parse(stored);
+        ({ format: storedFormat, data: parsed } = parseStoredConsent(
+          record,
+          this.getCategories(),
+          this.config.previousCustomCategories.map((categories) => [...BUILT_IN_CATEGORIES, ...categories])
+        ));
       } catch (parseError) {
+        // Keep the record in case its categories come back; the next decision replaces it
+        if (parseError instanceof CompactCategoryMismatchError) {
+          this.log('Stored consent uses an unknown category list, prompting again');
+          return null;
+        }
         console.error('[ConsentManager] Failed to parse stored consent:', parseError);
-        await this.clearConsent();
+        await clear();
         return null;
       }
 
       // Verify integrity signature if enabled
       let state: ConsentState;
-      if (this.config.enableIntegrity) {
-        const verification = await verifyConsentState(parsed as SignedConsentState, this.secret);
+      let legacySignature = false;
+      if (this.signer) {
+        const verification = await verifyConsentState(parsed as SignedConsentState, this.signer);
+        if (verification.unavailable) {
+          this.log('Integrity check unavailable, keeping stored consent for a later check');
+          return UNVERIFIED;
+        }
         if (!verification.valid || !verification.state) {
           console.error('[ConsentManager] Integrity verification failed - data may have been tampered with');
           this.log('Integrity check failed, clearing consent');
-          await this.clearConsent();
+          await clear();
           return null;
         }
         state = verification.state;
+        legacySignature = verification.legacySignature === true;
       } else {
         // Skip integrity check if disabled
-        const validation = validateConsentState(parsed, this.config.customCategories);
+        // Keep stored categories for now so migrations can read renamed ones
+        const validation = validateConsentState(parsed, getStoredCategoryNames(parsed));
         if (!validation.success) {
           console.error('[ConsentManager] Invalid consent state:', validation.error);
           this.log('Invalid consent state structure, clearing');
-          await this.clearConsent();
+          await clear();
           return null;
         }
         state = validation.data as ConsentState;
       }
 
+      // Migrate consent stored under an older version
+      const migrated = state.version !== this.config.version;
+      if (migrated) {
+        const result = await this.migrateConsent(state, isCurrent);
+        if (!result) {
+          this.log(
+            `Consent version mismatch (stored: ${state.version}, current: ${this.config.version}), clearing`
+          );
+          await clear();
+          return null;
+        }
+        state = result;
+      }
+
       // Additional validation even after signature check (defense in depth)
       const validation = validateConsentState(state, this.config.customCategories);
       if (!validation.success) {
         console.error('[ConsentManager] Invalid consent state after integrity check:', validation.error);
-        await this.clearConsent();
+        await clear();
         return null;
       }
       state = validation.data as ConsentState;
@@ -220,34 +491,114 @@ export class ConsentManager {
       // Check if consent has expired
       if (Date.now() > state.expiresAt) {
         this.log('Consent has expired, clearing');
-        await this.clearConsent();
+        await clear();
         return null;
       }
 
-      // Check version compatibility
-      if (state.version !== this.config.version) {
-        this.log(
-          `Consent version mismatch (stored: ${state.version}, current: ${this.config.version}), clearing`
-        );
-        await this.clearConsent();
-        return null;
+      // Upgrade unversioned signatures, records stored in the other format and
+      // plain records once encryption is enabled (migrations rewrite on their own)
+      const needsRewrite =
+        (legacySignature && this.signer !== null) ||
+        storedFormat !== this.config.storageFormat ||
+        encrypted !== (this.encryption !== null);
+      if (!migrated && needsRewrite && isCurrent()) {
+        try {
+          state = await this.writeConsent(state);
+          this.log('Rewrote consent state in the current signature, storage format and encryption');
+        } catch (error) {
+          console.error('[ConsentManager] Error rewriting consent:', error);
+        }
       }
 
-      this.currentState = state;
       this.log('Loaded consent state:', state);
       return state;
     } catch (error) {
       console.error('[ConsentManager] Error loading consent:', error);
-      await this.clearConsent();
+      await clear();
       return null;
     }
   }
 
+  /**
+   * Run migrations from the stored version up to the current version
+   * Categories new to the current version are denied and marked undecided.
+   * Returns null if there is no migration path.
+   */
+  private async migrateConsent(state: ConsentState, isCurrent: () => boolean): Promise<ConsentState | null> {
+    const migration = migrateConsentState(state, {
+      version: this.config.version,
+      migrations: this.config.migrations,
+      customCategories: this.config.customCategories,
+      requiredCategories: this.getCategories().filter((category) => this.isCategoryRequired(category)),
+    });
+    if (!migration.success) {
+      this.log(migration.error);
+      return null;
+    }
+    const result = migration.data;
+
+    // A newer decision replaces the record anyway
+    if (!isCurrent()) {
+      this.log(`Migrated consent from version ${state.version} to ${result.version} without saving`);
+      return result;
+    }
+
+    // Persist so the migration only runs once
+    const stored = await this.writeConsent(result);
+    this.log(`Migrated consent from version ${state.version} to ${stored.version}`, stored);
+    return stored;
+  }
+
+  /**
+   * Apply the configured opt-out to a stored decision when a privacy signal was detected
+   * Only overrides it if configured to and it doesn't already comply. Without a stored
+   * decision nothing is saved: the opt-out applies through getDefaultPreferences().
+   */
+  private async applyPrivacySignal(state: ConsentState | null): Promise<ConsentState | null> {
+    const settings = this.config.privacySignals;
+    if (!settings || !this.privacySignal) {
+      return state;
+    }
+
+    if (!state) {
+      this.log(`Privacy signal detected (${this.privacySignal}), applying opt-out to defaults`);
+      return state;
+    }
+
+    if (!settings.overrideStored) {
+      return state;
+    }
+
+    const { optOut } = settings;
+    if (Object.keys(optOut).every((category) => state[category] === optOut[category])) {
+      return state;
+    }
+
+    const preferences: ConsentPreferences = {
+      analytics: state.analytics,
+      marketing: state.marketing,
+    };
+    for (const category of this.config.customCategories) {
+      preferences[category] = state[category] === true;
+    }
+    Object.assign(preferences, optOut);
+
+    this.log(`Privacy signal detected (${this.privacySignal}), applying opt-out`);
+    try {
+      return await this.saveConsent(preferences, this.privacySignal);
+    } catch (error) {
+      console.error('[ConsentManager] Error applying privacy signal:', error);
+      return state;
+    }
+  }
 
   /**
    * Save consent state to storage
    */
-  private async saveConsent(preferences: ConsentPreferences): Promise<ConsentState> {
+  private async saveConsent(
+    preferences: ConsentPreferences,
+    source: ConsentSource = 'user'
+  ): Promise<ConsentState> {
     // Check rate limit to prevent abuse
     if (!this.checkRateLimit()) {
       const error = new Error('Rate limit exceeded: Too many consent changes in a short time');
@@ -261,49 +612,107 @@ export class ConsentManager {
     const state: ConsentState = {
       version: this.config.version,
       essential: true, // Always true
-      analytics: preferences.analytics,
-      marketing: preferences.marketing,
+      analytics: this.resolveChoice('analytics', preferences.analytics),
+      marketing: this.resolveChoice('marketing', preferences.marketing),
       timestamp,
       expiresAt,
+      source,
     };
+    if (this.locale) {
+      state.locale = this.locale;
+    }
 
     // Add custom categories
     for (const category of this.config.customCategories) {
-      state[category] = preferences[category] ?? false;
+      state[category] = this.resolveChoice(category, preferences[category] ?? false);
     }
 
     try {
-      // Sign the state if integrity is enabled
-      let stateToStore: ConsentState | SignedConsentState = state;
-      if (this.config.enableIntegrity) {
-        stateToStore = await signConsentState(state, this.secret);
-        this.log('Signed consent state with integrity signature');
-      }
-
-      await this.config.storage.setItem(this.config.storageKey, JSON.stringify(stateToStore));
-      this.currentState = state; // Store unsigned state in memory
-      this.log('Saved consent state:', state);
-      this.notifyListeners(state);
-      return state;
+      const stored = await this.writeConsent(state);
+      this.currentState = stored; // Store unsigned state in memory
+      this.decisionCount++;
+      this.pendingInitialState = null;
+      this.log('Saved consent state:', stored);
+      this.sync?.notify();
+      this.notifyListeners(stored);
+      return stored;
     } catch (error) {
       console.error('[ConsentManager] Error saving consent:', error);
       throw error; // Throw instead of silently returning to surface the error
     }
   }
 
+  /**
+   * Sign a state if integrity is enabled, write it in the configured format and
+   * encrypt it if encryption is enabled
+   * Returns the state as written; compact records keep timestamps to the decisecond
+   */
+  private async writeConsent(state: ConsentState): Promise<ConsentState> {
+    const stateToWrite = this.config.storageFormat === 'compact' ? toCompactPrecision(state) : state;
+
+    let stateToStore: ConsentState | SignedConsentState = stateToWrite;
+    if (this.signer) {
+      stateToStore = await signConsentState(stateToWrite, this.signer);
+      this.log('Signed consent state with integrity signature');
+    }
+
+    let value = serializeStoredConsent(stateToStore, this.config.storageFormat, this.getCategories());
+    if (this.encryption) {
+      value = await encryptConsentRecord(value, this.encryption, this.config.storageKey);
+    }
+
+    await this.config.storage.setItem(this.config.storageKey, value, { expiresAt: stateToWrite.expiresAt });
+    return stateToWrite;
+  }
+
   /**
    * Clear consent from storage
    */
   private async clearConsent(): Promise<void> {
     try {
       await this.config.storage.removeItem(this.config.storageKey);
-      this.currentState = null;
       this.log('Cleared consent');
     } catch (error) {
       console.error('[ConsentManager] Error clearing consent:', error);
     }
   }
 
+  /**
+   * Apply the user's choice unless the category is required or not revocable
+   * under the active regulation profile
+   */
+  private resolveChoice(category: string, choice: boolean): boolean {
+    if (this.isCategoryRequired(category)) {
+      return true;
+    }
+    if (!this.profile.revocable.includes(category)) {
+      return this.profile.defaults[category] ?? false;
+    }
+    return choice;
+  }
+
+  /**
+   * Build the "reject all" state reported when consent is withdrawn
+   */
+  private createWithdrawnState(): ConsentState {
+    const timestamp = Date.now();
+    const state: ConsentState = {
+      version: this.config.version,
+      essential: true,
+      analytics: this.resolveChoice('analytics', false),
+      marketing: this.resolveChoice('marketing', false),
+      timestamp,
+      expiresAt: timestamp,
+      source: 'user',
+    };
+
+    // Add custom categories as false (required and non-revocable categories keep their value)
+    for (const category of this.config.customCategories) {
+      state[category] = this.resolveChoice(category, false);
+    }
+
+    return state;
+  }
   /**
    * Notify all listeners of consent changes
    */
@@ -348,23 +757,62 @@ export class ConsentManager {
     return this.currentState !== null;
   }
 
+  /**
+   * Categories added since the user last decided (after a version migration)
+   */
+  public getUndecidedCategories(): string[] {
+    const undecided = this.currentState?.undecided;
+    return Array.isArray(undecided) ? [...undecided] : [];
+  }
+
+  /**
+   * Check if the banner should be shown: no decision yet, or undecided
+   * categories when repromptForNewCategories is enabled
+   */
+  public needsConsentPrompt(): boolean {
+    if (!this.currentState) {
+      return true;
+    }
+    return this.config.repromptForNewCategories && this.getUndecidedCategories().length > 0;
+  }
+
   /**
    * Check if a specific category is consented
    */
   public async hasConsentFor(category: string): Promise<boolean> {
     await this.ensureLoaded();
-    if (!this.currentState) return false;
-    return this.currentState[category] === true;
+    return this.hasConsentForSync(category);
   }
 
   /**
    * Check if a specific category is consented (synchronous)
+   * Before a decision, follows the regulation profile's defaults
    */
   public hasConsentForSync(category: string): boolean {
-    if (!this.currentState) return false;
+    if (!this.currentState) return this.getDefaultPreferences()[category] === true;
     return this.currentState[category] === true;
   }
 
+  /**
+   * Get the category states that apply before the user decides
+   * Everything optional is denied under opt-in; granted under opt-out and notice-only.
+   * A detected privacy signal's opt-out takes precedence over the profile defaults.
+   */
+  public getDefaultPreferences(): ConsentPreferences {
+    const defaults: Record<string, boolean | undefined> = {
+      ...this.profile.defaults,
+      ...(this.privacySignal ? this.config.privacySignals?.optOut : undefined),
+    };
+    const preferences: ConsentPreferences = {
+      analytics: this.resolveChoice('analytics', defaults.analytics ?? false),
+      marketing: this.resolveChoice('marketing', defaults.marketing ?? false),
+    };
+    for (const category of this.config.customCategories) {
+      preferences[category] = this.resolveChoice(category, defaults[category] ?? false);
+    }
+    return preferences;
+  }
+
   /**
    * Accept all cookies
    */
@@ -410,27 +858,69 @@ export class ConsentManager {
    * Withdraw consent (GDPR requirement)
    */
   public async withdrawConsent(): Promise<void> {
+    // Without a record, opt-out and notice-only profiles fall back to granted defaults,
+    // so the withdrawal itself has to be stored
+    if (this.profile.model !== 'opt-in') {
+      await this.rejectAll();
+      this.log('Consent withdrawn (stored as opt-out)');
+      return;
+    }
+
     await this.clearConsent();
+    this.currentState = null;
+    this.decisionCount++;
+    this.pendingInitialState = null;
+    this.sync?.notify();
 
     // Notify listeners with a "reject all" state without saving
-    const withdrawnState: ConsentState = {
-      version: this.config.version,
-      essential: true,
-      analytics: false,
-      marketing: false,
-      timestamp: Date.now(),
-      expiresAt: Date.now(),
+    this.notifyListeners(this.createWithdrawnState());
+    this.log('Consent withdrawn');
+  }
+
+  /**
+   * Re-read consent from storage, e.g. after another tab changed it
+   * Runs the full load pipeline (signature, validation, migrations, expiry) and
+   * notifies listeners if the result differs from the current state.
+   * Consent removed elsewhere is reported as a withdrawal.
+   */
+  public revalidate(): Promise<ConsentState | null> {
+    const run = async (): Promise<ConsentState | null> => {
+      await this.ensureLoaded();
+      const previous = this.currentState;
+      const decisionCount = this.decisionCount;
+      const isCurrent = () => this.decisionCount === decisionCount;
+
+      const stored = await this.loadConsent(isCurrent);
+      if (stored === UNVERIFIED || !isCurrent()) {
+        return this.currentState;
+      }
+      this.currentState = stored;
+
+      if (JSON.stringify(previous) !== JSON.stringify(stored)) {
+        this.log('Consent changed in another tab or window:', stored);
+        this.notifyListeners(stored ?? this.createWithdrawnState());
+      }
+
+      // A record from another tab may need the opt-out (overrideStored); with nothing
+      // stored it already applies through the defaults
+      return this.applyPrivacySignal(stored);
     };
 
-    // Add custom categories as false
-    for (const category of this.config.customCategories) {
-      withdrawnState[category] = false;
-    }
+    // Serialize so overlapping events can't interleave loads
+    this.revalidation = this.revalidation.then(run, run);
+    return this.revalidation;
+  }
 
-    this.notifyListeners(withdrawnState);
-    this.log('Consent withdrawn');
+  /**
+   * Stop cross-tab sync and remove all listeners
+   */
+  public destroy(): void {
+    this.sync?.destroy();
+    this.sync = null;
+    this.removeAllListeners();
   }
 
+
   /**
    * Subscribe to consent changes
    * @returns Unsubscribe function
@@ -476,6 +966,94 @@ export class ConsentManager {
     return this.listeners.size;
   }
 
+  /**
+   * Get all consent categories: essential, analytics, marketing, then custom categories
+   */
+  public getCategories(): string[] {
+    return ['essential', 'analytics', 'marketing', ...this.config.customCategories];
+  }
+
+  /**
+   * Get metadata for a category, if declared (built-ins always have defaults)
+   */
+  public getCategoryDefinition(category: string): CategoryDefinition | undefined {
+    return Object.prototype.hasOwnProperty.call(this.config.categories, category)
+      ? this.config.categories[category]
+      : undefined;
+  }
+
+  /**
+   * Get metadata for all declared categories, keyed by category name
+   */
+  public getCategoryDefinitions(): Record<string, CategoryDefinition> {
+    return { ...this.config.categories };
+  }
+
+  /**
+   * Check if a category is always granted (essential or declared required)
+   */
+  public isCategoryRequired(category: string): boolean {
+    return category === 'essential' || this.getCategoryDefinition(category)?.required === true;
+  }
+
+  /**
+   * Check if the user can change a category under the active regulation profile
+   */
+  public isCategoryRevocable(category: string): boolean {
+    return !this.isCategoryRequired(category) && this.profile.revocable.includes(category);
+  }
+
+  /**
+   * Get the regulation profile selected for the configured region
+   */
+  public getRegulationProfile(): ResolvedRegulationProfile {
+    return {
+      ...this.profile,
+      regions: [...this.profile.regions],
+      defaults: { ...this.profile.defaults },
+      revocable: [...this.profile.revocable],
+    };
+  }
+
+  /**
+   * Get the initial state the manager was seeded with, if it was accepted
+   * Stays the same after reconciliation, so server and hydration renders can match
+   */
+  public getInitialState(): ConsentState | null {
+    return this.initialState;
+  }
+
+  /**
+   * Set the locale of the consent text currently shown to the user
+   * Recorded with subsequent decisions; pass null to stop recording a locale
+   */
+  public setLocale(locale: string | null): void {
+    if (locale === null) {
+      this.locale = null;
+      return;
+    }
+
+    const validation = validateLocale(locale);
+    if (!validation.success) {
+      throw new Error(`Invalid locale: ${validation.error}`);
+    }
+    this.locale = validation.data;
+  }
+
+  /**
+   * Get the locale recorded with new decisions, if any
+   */
+  public getLocale(): string | null {
+    return this.locale;
+  }
+
+  /**
+   * Get the privacy signal (GPC/DNT) detected at load time, if honored
+   */
+  public getPrivacySignal(): PrivacySignal | null {
+    return this.privacySignal;
+  }
+
   /**
    * Get consent state for debugging
    */
@@ -490,6 +1068,8 @@ export class ConsentManager {
       daysRemaining: state ? Math.floor((state.expiresAt - now) / (24 * 60 * 60 * 1000)) : null,
       storageKey: this.config.storageKey,
       version: this.config.version,
+      privacySignal: this.privacySignal,
+      profile: this.profile.name,
     };
   }
 }
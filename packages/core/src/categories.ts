@@ -0,0 +1,34 @@
+/**
+ * Built-in consent categories and their default metadata
+ */
+
+import type { CategoryRegistry } from './types';
+
+export const BUILT_IN_CATEGORIES = ['essential', 'analytics', 'marketing'] as const;
+
+/**
+ * Definitions used for built-in categories not declared in the registry
+ */
+export const DEFAULT_CATEGORY_DEFINITIONS: CategoryRegistry = {
+  essential: {
+    label: 'Essential',
+    description: 'Required for the site to work. These cannot be turned off.',
+    required: true,
+  },
+  analytics: {
+    label: 'Analytics',
+    description: 'Help us understand how visitors use the site.',
+  },
+  marketing: {
+    label: 'Marketing',
+    description: 'Used to show relevant ads and measure campaigns.',
+  },
+};
+
+/**
+ * Readable fallback label for a category without a registry entry, e.g. 'social_media' -> 'Social media'
+ */
+export function formatCategoryName(category: string): string {
+  const words = category.replace(/[-_]+/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,265 @@
+/**
+ * Consent cleanup
+ *
+ * Deletes cookies and Web Storage entries declared by a category's registry
+ * entry once that category is denied or consent is withdrawn.
+ */
+
+import type { ConsentManager } from './ConsentManager';
+import type { ConsentState, CookieDeclaration } from './types';
+import { parseCookies } from './storage/cookieStorage';
+
+const HOST_PREFIX = '__Host-';
+
+export interface ConsentCleanupReport {
+  /** Categories that were purged */
+  categories: string[];
+  /** Deleted cookie names (no longer readable from document.cookie afterwards) */
+  cookies: string[];
+  /** Deleted localStorage keys */
+  localStorage: string[];
+  /** Deleted sessionStorage keys */
+  sessionStorage: string[];
+}
+
+export interface ConsentCleanupOptions {
+  /**
+   * Extra domains to delete cookies on, in addition to the current host and its parents
+   */
+  domains?: string[];
+
+  /**
+   * Extra paths to delete cookies on, in addition to '/' and the current path's parents
+   */
+  paths?: string[];
+
+  /**
+   * Called after each purge that removed at least one entry
+   */
+  onCleanup?: (report: ConsentCleanupReport) => void;
+}
+
+export interface ConsentCleanup {
+  /** Purge entries declared for the given categories, regardless of consent */
+  purge(categories: string[]): ConsentCleanupReport;
+  /** Stop listening to the manager */
+  destroy(): void;
+}
+
+/**
+ * Install consent cleanup, driven by ConsentManager.onChange
+ * Purges every category that becomes denied, including on withdrawal and when
+ * stored consent already denies it at load time
+ */
+export function installConsentCleanup(
+  manager: ConsentManager,
+  options: ConsentCleanupOptions = {}
+): ConsentCleanup {
+  // Categories already purged for the current decision
+  let denied = new Set<string>();
+  let destroyed = false;
+
+  const purge = (categories: string[]): ConsentCleanupReport => {
+    const declarations = categories.flatMap(
+      (category) => manager.getCategoryDefinition(category)?.cookies ?? []
+    );
+
+    const report: ConsentCleanupReport = {
+      categories,
+      cookies: deleteCookies(declarations, options),
+      localStorage: deleteStorageKeys(declarations, 'localStorage'),
+      sessionStorage: deleteStorageKeys(declarations, 'sessionStorage'),
+    };
+
+    const removed = report.cookies.length + report.localStorage.length + report.sessionStorage.length;
+    if (removed > 0) {
+      try {
+        options.onCleanup?.(report);
+      } catch (error) {
+        console.error('[ConsentCleanup] Error in onCleanup callback:', error);
+      }
+    }
+    return report;
+  };
+
+  const update = (state: ConsentState) => {
+    if (destroyed) {
+      return;
+    }
+
+    const nowDenied = manager
+      .getCategories()
+      .filter((category) => !manager.isCategoryRequired(category) && state[category] !== true);
+
+    // Only categories that were not already denied (granted -> denied transitions)
+    const newlyDenied = nowDenied.filter((category) => !denied.has(category));
+    denied = new Set(nowDenied);
+
+    if (newlyDenied.length > 0) {
+      purge(newlyDenied);
+    }
+  };
+
+  // Covers rejectAll/setPreferences and withdrawConsent (all-denied state)
+  const unsubscribe = manager.onChange(update);
+
+  // Stored consent is loaded without notifying listeners
+  manager.getConsent().then((state) => {
+    if (state) {
+      update(state);
+    }
+  });
+
+  return {
+    purge,
+    destroy: () => {
+      destroyed = true;
+      unsubscribe();
+    },
+  };
+}
+
+/**
+ * Convert a declaration name with '*' wildcards to a RegExp
+ */
+function toPattern(name: string): RegExp {
+  const escaped = name
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+function matchesAny(name: string, patterns: RegExp[]): boolean {
+  return patterns.some((pattern) => pattern.test(name));
+}
+
+/**
+ * Delete matching cookies on every domain and path they may have been set on
+ * document.cookie only exposes names, so each candidate combination is expired.
+ * Returns the names that are gone afterwards; cookies on other domains or paths remain.
+ */
+function deleteCookies(
+  declarations: CookieDeclaration[],
+  options: ConsentCleanupOptions
+): string[] {
+  if (typeof document === 'undefined') {
+    return [];
+  }
+
+  const patterns = declarations
+    .filter((declaration) => (declaration.storage ?? 'cookie') === 'cookie')
+    .map((declaration) => toPattern(declaration.name));
+  if (patterns.length === 0) {
+    return [];
+  }
+
+  const names = Array.from(parseCookies(document.cookie).keys()).filter((name) =>
+    matchesAny(name, patterns)
+  );
+  if (names.length === 0) {
+    return [];
+  }
+
+  const domains = [undefined, ...getParentDomains(), ...(options.domains ?? [])];
+  const paths = Array.from(new Set(['/', ...getParentPaths(), ...(options.paths ?? [])]));
+
+  // Deleting needs the same Secure and Partitioned attributes as setting (required by
+  // __Secure-/__Host- names and CHIPS); pages served over http can't have set either
+  const secure = typeof location !== 'undefined' && location.protocol === 'https:';
+  const attributeSets = secure ? ['; secure', '; secure; partitioned'] : [''];
+
+  for (const name of names) {
+    // __Host- cookies only exist on the host itself, at path '/'
+    const hostOnly = name.startsWith(HOST_PREFIX);
+    for (const domain of hostOnly ? [undefined] : domains) {
+      for (const path of hostOnly ? ['/'] : paths) {
+        for (const attributes of attributeSets) {
+          try {
+            document.cookie =
+              `${name}=; max-age=0; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=${path}` +
+              (domain ? `; domain=${domain}` : '') +
+              attributes;
+          } catch (error) {
+            console.error('[ConsentCleanup] Error deleting cookie:', name, error);
+          }
+        }
+      }
+    }
+  }
+
+  const remaining = parseCookies(document.cookie);
+  return names.filter((name) => !remaining.has(name));
+}
+
+/**
+ * The current host and each parent domain, e.g. shop.example.com -> .shop.example.com, .example.com
+ */
+function getParentDomains(): string[] {
+  if (typeof location === 'undefined' || !location.hostname) {
+    return [];
+  }
+
+  const hostname = location.hostname;
+  // IP addresses have no parent domains
+  if (/^[\d.]+$/.test(hostname) || hostname.includes(':')) {
+    return [];
+  }
+
+  const parts = hostname.split('.');
+  const domains: string[] = [];
+  // Stop before the top-level domain; browsers reject public suffixes anyway
+  for (let i = 0; i < parts.length - 1; i++) {
+    domains.push(`.${parts.slice(i).join('.')}`);
+  }
+  return domains;
+}
+
+/**
+ * Each parent of the current path, e.g. /a/b/c -> /a, /a/b, /a/b/c
+ */
+function getParentPaths(): string[] {
+  if (typeof location === 'undefined' || !location.pathname) {
+    return [];
+  }
+
+  const segments = location.pathname.split('/').filter(Boolean);
+  return segments.map((_, i) => `/${segments.slice(0, i + 1).join('/')}`);
+}
+
+/**
+ * Delete matching localStorage or sessionStorage keys
+ */
+function deleteStorageKeys(
+  declarations: CookieDeclaration[],
+  storageType: 'localStorage' | 'sessionStorage'
+): string[] {
+  const patterns = declarations
+    .filter((declaration) => declaration.storage === storageType)
+    .map((declaration) => toPattern(declaration.name));
+  if (patterns.length === 0) {
+    return [];
+  }
+
+  try {
+    const storage = storageType === 'localStorage' ? globalThis.localStorage : globalThis.sessionStorage;
+    if (!storage) {
+      return [];
+    }
+
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key !== null && matchesAny(key, patterns)) {
+        keys.push(key);
+      }
+    }
+    for (const key of keys) {
+      storage.removeItem(key);
+    }
+    return keys;
+  } catch (error) {
+    console.error(`[ConsentCleanup] Error accessing ${storageType}:`, error);
+    return [];
+  }
+}
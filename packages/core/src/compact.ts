@@ -0,0 +1,316 @@
+/**
+ * Compact consent encoding
+ * A versioned, web-safe Base64 alternative to the JSON storage format,
+ * shared by ConsentManager and the server entry point
+ */
+
+import type { ConsentSource, ConsentState, ConsentStorageFormat } from './types';
+import type { SignedConsentState } from './crypto';
+import { BitReader, BitWriter } from './tcf/bits';
+
+/**
+ * Current compact format version, stored in the first 6 bits
+ */
+export const COMPACT_CONSENT_VERSION = 1;
+
+const DECISECOND_MS = 100;
+const MAX_CATEGORIES = 63;
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+const MAX_STRING_LENGTH = 1023;
+const SOURCES: Array<ConsentSource | undefined> = [undefined, 'user', 'gpc', 'dnt'];
+const HMAC_SIGNATURE_REGEX = /^v1\.([0-9a-f]{64})$/;
+const COMPACT_REGEX = /^[A-Za-z0-9_-]+$/;
+
+enum SignatureKind {
+  None = 0,
+  /** "v1." HMAC-SHA256, stored as its 256 raw bits */
+  HmacV1 = 1,
+  /** Any other signer output, stored as a string */
+  Other = 2,
+}
+
+// Fields with a fixed place in the layout; everything else must be a category
+const FIXED_FIELDS = new Set([
+  'version',
+  'timestamp',
+  'expiresAt',
+  'source',
+  'undecided',
+  'locale',
+  '__signature',
+  '__keyId',
+]);
+
+/**
+ * Thrown when a compact record was written under a category list that isn't known
+ * Its bits can't be matched to names, so the record is neither read nor discarded
+ */
+export class CompactCategoryMismatchError extends Error {
+  constructor(
+    /** Number of categories in the record */
+    public readonly count: number
+  ) {
+    super(`Invalid compact consent: record has ${count} categories from an unknown category list`);
+    this.name = 'CompactCategoryMismatchError';
+  }
+}
+
+/**
+ * Whether a stored value uses the compact format (JSON records start with '{')
+ */
+export function isCompactConsent(value: string): boolean {
+  return COMPACT_REGEX.test(value);
+}
+
+/**
+ * Round timestamps down to what the compact format stores (deciseconds)
+ * Apply before signing, so the signature still matches after a round trip
+ */
+export function toCompactPrecision<T extends ConsentState | SignedConsentState>(state: T): T {
+  const timestamp = Math.floor(state.timestamp / DECISECOND_MS) * DECISECOND_MS;
+  const expiresAt = Math.floor(state.expiresAt / DECISECOND_MS) * DECISECOND_MS;
+  return { ...state, timestamp, expiresAt };
+}
+
+/**
+ * Encode a (signed) consent state in the compact format
+ *
+ * Layout: format version (6 bits), consent version (10), timestamp in deciseconds (36),
+ * time until expiry in deciseconds (32), source (2), category count (6), a fingerprint of
+ * the category names (16) and one bit per category in registry order, optional undecided
+ * bits, locale, signature and key id.
+ * Timestamps must already be at decisecond precision (see toCompactPrecision).
+ */
+export function encodeCompactConsent(state: ConsentState | SignedConsentState, categories: string[]): string {
+  try {
+    if (categories.length > MAX_CATEGORIES) {
+      throw new Error(`at most ${MAX_CATEGORIES} categories can be encoded`);
+    }
+    for (const key of Object.keys(state)) {
+      // Undefined fields are dropped, as JSON.stringify would
+      if (!FIXED_FIELDS.has(key) && !categories.includes(key) && state[key] !== undefined) {
+        throw new Error(`"${key}" is not a registered category`);
+      }
+    }
+    if (state.timestamp % DECISECOND_MS !== 0 || state.expiresAt % DECISECOND_MS !== 0) {
+      throw new Error('timestamps must be whole deciseconds');
+    }
+    const sourceIndex = SOURCES.indexOf(state.source as ConsentSource | undefined);
+    if (sourceIndex === -1) {
+      throw new Error(`unknown source "${state.source}"`);
+    }
+
+    const writer = new BitWriter();
+    writer.writeInt(COMPACT_CONSENT_VERSION, 6);
+    writer.writeInt(state.version, 10);
+    writer.writeInt(state.timestamp / DECISECOND_MS, 36);
+    writer.writeInt((state.expiresAt - state.timestamp) / DECISECOND_MS, 32);
+    writer.writeInt(sourceIndex, 2);
+
+    writer.writeInt(categories.length, 6);
+    writer.writeInt(fingerprintCategories(categories), 16);
+    for (const category of categories) {
+      if (typeof state[category] !== 'boolean') {
+        throw new Error(`category "${category}" is missing`);
+      }
+      writer.writeBool(state[category] === true);
+    }
+
+    const undecided = state.undecided;
+    writer.writeBool(Array.isArray(undecided));
+    if (Array.isArray(undecided)) {
+      for (const category of undecided) {
+        if (!categories.includes(category)) {
+          throw new Error(`undecided category "${category}" is not registered`);
+        }
+      }
+      for (const category of categories) {
+        writer.writeBool(undecided.includes(category));
+      }
+    }
+
+    writeOptionalString(writer, state.locale);
+
+    const signature = state.__signature;
+    const hmac = typeof signature === 'string' ? HMAC_SIGNATURE_REGEX.exec(signature) : null;
+    if (hmac) {
+      writer.writeInt(SignatureKind.HmacV1, 2);
+      writer.writeBits(Array.from(hmac[1], (digit) => parseInt(digit, 16).toString(2).padStart(4, '0')).join(''));
+    } else if (typeof signature === 'string') {
+      writer.writeInt(SignatureKind.Other, 2);
+      writeString(writer, signature);
+    } else {
+      writer.writeInt(SignatureKind.None, 2);
+    }
+
+    writeOptionalString(writer, state.__keyId);
+
+    return writer.toBase64Url();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid compact consent: ${message}`);
+  }
+}
+
+/**
+ * Decode a compact value into the object encodeCompactConsent was given
+ * The result is untrusted: verify it with verifyConsentState or validateConsentState.
+ * Category bits are named by the first list (the current registry, then earlier ones)
+ * whose leading names match the record's fingerprint, so categories appended since
+ * the record was written stay unset and earlier names can be migrated. Records from
+ * an unknown list throw CompactCategoryMismatchError instead of being read by position.
+ */
+export function decodeCompactConsent(
+  value: string,
+  categories: string[],
+  previousCategories: string[][] = []
+): SignedConsentState {
+  if (typeof value !== 'string' || !isCompactConsent(value)) {
+    throw new Error('Invalid compact consent: must be a non-empty web-safe Base64 string');
+  }
+
+  try {
+    const reader = BitReader.fromBase64Url(value);
+    const formatVersion = reader.readInt(6);
+    if (formatVersion !== COMPACT_CONSENT_VERSION) {
+      throw new Error(`unsupported format version ${formatVersion}`);
+    }
+
+    const version = reader.readInt(10);
+    const timestamp = reader.readInt(36) * DECISECOND_MS;
+    const expiresAt = timestamp + reader.readInt(32) * DECISECOND_MS;
+    const source = SOURCES[reader.readInt(2)];
+
+    const state: SignedConsentState = {
+      version,
+      essential: false,
+      analytics: false,
+      marketing: false,
+      timestamp,
+      expiresAt,
+    };
+    if (source !== undefined) {
+      state.source = source;
+    }
+
+    const count = reader.readInt(6);
+    const fingerprint = reader.readInt(16);
+    const stored = [categories, ...previousCategories]
+      .map((list) => list.slice(0, count))
+      .find((list) => list.length === count && fingerprintCategories(list) === fingerprint);
+    if (!stored) {
+      throw new CompactCategoryMismatchError(count);
+    }
+    for (const category of stored) {
+      state[category] = reader.readBool();
+    }
+
+    if (reader.readBool()) {
+      state.undecided = stored.filter(() => reader.readBool());
+    }
+
+    const locale = readOptionalString(reader);
+    if (locale !== undefined) {
+      state.locale = locale;
+    }
+
+    const signatureKind = reader.readInt(2);
+    if (signatureKind === SignatureKind.HmacV1) {
+      let hex = '';
+      for (let i = 0; i < 64; i++) {
+        hex += reader.readInt(4).toString(16);
+      }
+      state.__signature = `v1.${hex}`;
+    } else if (signatureKind === SignatureKind.Other) {
+      state.__signature = readString(reader);
+    } else if (signatureKind !== SignatureKind.None) {
+      throw new Error(`unknown signature kind ${signatureKind}`);
+    }
+
+    const keyId = readOptionalString(reader);
+    if (keyId !== undefined) {
+      state.__keyId = keyId;
+    }
+
+    return state;
+  } catch (error) {
+    if (error instanceof CompactCategoryMismatchError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid compact consent: ${message}`);
+  }
+}
+
+/**
+ * Parse a stored consent value in either format
+ * Throws when the value is neither valid JSON nor a valid compact record
+ */
+export function parseStoredConsent(
+  stored: string,
+  categories: string[],
+  previousCategories: string[][] = []
+): { format: ConsentStorageFormat; data: unknown } {
+  if (isCompactConsent(stored)) {
+    return { format: 'compact', data: decodeCompactConsent(stored, categories, previousCategories) };
+  }
+  return { format: 'json', data: JSON.parse(stored) };
+}
+
+/**
+ * Serialize a (signed) consent state in the given format
+ */
+export function serializeStoredConsent(
+  state: ConsentState | SignedConsentState,
+  format: ConsentStorageFormat,
+  categories: string[]
+): string {
+  return format === 'compact' ? encodeCompactConsent(state, categories) : JSON.stringify(state);
+}
+
+// 32-bit FNV-1a over the names in order, folded to 16 bits
+function fingerprintCategories(categories: string[]): number {
+  const names = categories.join(',');
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < names.length; i++) {
+    hash = Math.imul(hash ^ names.charCodeAt(i), FNV_PRIME) >>> 0;
+  }
+  return (hash ^ (hash >>> 16)) & 0xffff;
+}
+
+// Strings are URI-encoded so every character fits in 7 bits
+
+function writeString(writer: BitWriter, value: string): void {
+  const encoded = encodeURIComponent(value);
+  if (encoded.length > MAX_STRING_LENGTH) {
+    throw new Error(`strings are limited to ${MAX_STRING_LENGTH} encoded characters`);
+  }
+  writer.writeInt(encoded.length, 10);
+  for (let i = 0; i < encoded.length; i++) {
+    writer.writeInt(encoded.charCodeAt(i), 7);
+  }
+}
+
+function readString(reader: BitReader): string {
+  const length = reader.readInt(10);
+  let encoded = '';
+  for (let i = 0; i < length; i++) {
+    encoded += String.fromCharCode(reader.readInt(7));
+  }
+  return decodeURIComponent(encoded);
+}
+
+function writeOptionalString(writer: BitWriter, value: unknown): void {
+  writer.writeBool(value !== undefined);
+  if (value !== undefined) {
+    if (typeof value !== 'string') {
+      throw new Error('expected a string');
+    }
+    writeString(writer, value);
+  }
+}
+
+function readOptionalString(reader: BitReader): string | undefined {
+  return reader.readBool() ? readString(reader) : undefined;
+}
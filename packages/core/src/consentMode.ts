@@ -0,0 +1,196 @@
+/**
+ * Google Consent Mode v2 bridge
+ *
+ * Maps consent categories onto Consent Mode signals and keeps gtag in sync
+ * with a ConsentManager.
+ */
+
+import type { ConsentManager } from './ConsentManager';
+import type { ConsentCategory, ConsentPreferences, ConsentState } from './types';
+
+export type ConsentModeSignal =
+  | 'ad_storage'
+  | 'ad_user_data'
+  | 'ad_personalization'
+  | 'analytics_storage'
+  | 'functionality_storage'
+  | 'personalization_storage'
+  | 'security_storage';
+
+export type ConsentModeValue = 'granted' | 'denied';
+
+export type ConsentModeSignals = Partial<Record<ConsentModeSignal, ConsentModeValue>>;
+
+/**
+ * Maps each signal to the categories that must all be granted for it
+ * 'essential' is always granted
+ */
+export type ConsentModeMapping = Partial<Record<ConsentModeSignal, ConsentCategory[]>>;
+
+/**
+ * Default category to signal mapping
+ */
+export const DEFAULT_CONSENT_MODE_MAPPING: ConsentModeMapping = {
+  ad_storage: ['marketing'],
+  ad_user_data: ['marketing'],
+  ad_personalization: ['marketing'],
+  analytics_storage: ['analytics'],
+  functionality_storage: ['essential'],
+  security_storage: ['essential'],
+};
+
+/**
+ * Default signals applied only to the listed regions
+ */
+export interface ConsentModeRegionDefault {
+  /** ISO 3166-2 region codes, e.g. ['ES', 'US-CA'] */
+  region: string[];
+  signals: ConsentModeSignals;
+}
+
+export type GtagFunction = (...args: any[]) => void;
+
+export interface GoogleConsentModeOptions {
+  /** Category to signal mapping (default: DEFAULT_CONSENT_MODE_MAPPING) */
+  mapping?: ConsentModeMapping;
+  /**
+   * Global defaults emitted before any tags load
+   * (default: the manager's regulation profile defaults; under opt-in only
+   * essential-backed signals are granted)
+   */
+  defaults?: ConsentModeSignals;
+  /** Region-specific defaults */
+  regions?: ConsentModeRegionDefault[];
+  /** Milliseconds tags should wait for an update before firing */
+  waitForUpdate?: number;
+  /** Redact ad click identifiers while ad_storage is denied */
+  adsDataRedaction?: boolean;
+  /** Pass ad click information through URLs while storage is denied */
+  urlPassthrough?: boolean;
+  /** gtag implementation (default: window.gtag, created if missing) */
+  gtag?: GtagFunction;
+  /** Name of the data layer used when creating gtag (default: 'dataLayer') */
+  dataLayerName?: string;
+}
+
+export interface GoogleConsentMode {
+  /** Signals most recently sent with 'update' (null before the first update) */
+  getSignals(): ConsentModeSignals | null;
+  /** Stop listening to the manager */
+  destroy(): void;
+}
+
+/**
+ * Map a consent state or preferences onto Consent Mode signals
+ * A null state (no decision yet) grants only essential-backed signals
+ */
+export function mapConsentStateToSignals(
+  state: ConsentState | ConsentPreferences | null,
+  mapping: ConsentModeMapping = DEFAULT_CONSENT_MODE_MAPPING
+): ConsentModeSignals {
+  const signals: ConsentModeSignals = {};
+
+  for (const [signal, categories] of Object.entries(mapping) as Array<[ConsentModeSignal, ConsentCategory[]]>) {
+    const granted = categories.every(
+      (category) => category === 'essential' || state?.[category] === true
+    );
+    signals[signal] = granted ? 'granted' : 'denied';
+  }
+
+  return signals;
+}
+
+/**
+ * Install the Consent Mode bridge
+ * Call before loading gtag.js/GTM so the default command precedes any tags
+ */
+export function installGoogleConsentMode(
+  manager: ConsentManager,
+  options: GoogleConsentModeOptions = {}
+): GoogleConsentMode {
+  const mapping = options.mapping ?? DEFAULT_CONSENT_MODE_MAPPING;
+  const gtag = options.gtag ?? resolveGtag(options.dataLayerName ?? 'dataLayer');
+  let lastSignals: ConsentModeSignals | null = null;
+  let destroyed = false;
+
+  const send = (...args: any[]) => {
+    try {
+      gtag(...args);
+    } catch (error) {
+      console.error('[ConsentMode] Error calling gtag:', error);
+    }
+  };
+
+  // Defaults: global first, region-specific entries take precedence in gtag
+  const waitForUpdate =
+    options.waitForUpdate !== undefined ? { wait_for_update: options.waitForUpdate } : {};
+  send('consent', 'default', {
+    ...(options.defaults ?? mapConsentStateToSignals(manager.getDefaultPreferences(), mapping)),
+    ...waitForUpdate,
+  });
+  for (const regionDefault of options.regions ?? []) {
+    send('consent', 'default', {
+      ...regionDefault.signals,
+      region: regionDefault.region,
+      ...waitForUpdate,
+    });
+  }
+
+  if (options.adsDataRedaction !== undefined) {
+    send('set', 'ads_data_redaction', options.adsDataRedaction);
+  }
+  if (options.urlPassthrough !== undefined) {
+    send('set', 'url_passthrough', options.urlPassthrough);
+  }
+
+  const update = (state: ConsentState) => {
+    if (destroyed) {
+      return;
+    }
+    const signals = mapConsentStateToSignals(state, mapping);
+    if (lastSignals && JSON.stringify(lastSignals) === JSON.stringify(signals)) {
+      return;
+    }
+    lastSignals = signals;
+    send('consent', 'update', signals);
+  };
+
+  // Covers acceptAll/rejectAll/setPreferences and withdrawConsent (all-denied state)
+  const unsubscribe = manager.onChange(update);
+
+  // Stored consent is loaded without notifying listeners
+  manager.getConsent().then((state) => {
+    if (state) {
+      update(state);
+    }
+  });
+
+  return {
+    getSignals: () => lastSignals,
+    destroy: () => {
+      destroyed = true;
+      unsubscribe();
+    },
+  };
+}
+
+/**
+ * Return window.gtag, defining the standard data layer shim if needed
+ */
+function resolveGtag(dataLayerName: string): GtagFunction {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+
+  const win = window as any;
+  if (typeof win.gtag === 'function') {
+    return win.gtag;
+  }
+
+  win[dataLayerName] = win[dataLayerName] || [];
+  win.gtag = function gtag() {
+    // gtag.js expects the Arguments object, not an array
+    win[dataLayerName].push(arguments);
+  };
+  return win.gtag;
+}
@@ -3,48 +3,45 @@
  * Provides HMAC-based integrity verification to prevent tampering
  */
 
-import type { ConsentState } from './types';
+import type { ConsentSignature, ConsentSigner, ConsentState } from './types';
 
 /**
- * Generate a simple HMAC-like signature using built-in crypto or fallback
- * This prevents basic tampering with consent data in storage
+ * Current signature format: "v1." followed by hex-encoded HMAC-SHA256
  */
-export async function generateSignature(data: string, secret: string): Promise<string> {
-  try {
-    // Use Web Crypto API if available (browser/modern environments)
-    if (typeof crypto !== 'undefined' && crypto.subtle) {
-      const encoder = new TextEncoder();
-      const keyData = encoder.encode(secret);
-      const messageData = encoder.encode(data);
-
-      const cryptoKey = await crypto.subtle.importKey(
-        'raw',
-        keyData,
-        { name: 'HMAC', hash: 'SHA-256' },
-        false,
-        ['sign']
-      );
+export const SIGNATURE_VERSION = 'v1';
+const SIGNATURE_PREFIX = `${SIGNATURE_VERSION}.`;
 
-      const signature = await crypto.subtle.sign('HMAC', cryptoKey, messageData);
+export type SignatureFormat = 'v1' | 'legacy-hmac' | 'legacy-hash' | 'unknown';
 
-      // Convert to hex string
-      return Array.from(new Uint8Array(signature))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-    } else {
-      // Fallback for environments without Web Crypto API
-      // This is a simple hash for integrity checking (not cryptographically secure)
-      return await fallbackHash(data + secret);
-    }
-  } catch (error) {
-    console.error('[Crypto] Error generating signature:', error);
-    // Use fallback on error
-    return await fallbackHash(data + secret);
+/**
+ * Detect the format of a stored signature
+ * - 'legacy-hmac': unversioned hex HMAC-SHA256 (verifiable, should be re-signed)
+ * - 'legacy-hash': unversioned 32-bit fallback hash (forgeable, never accepted)
+ */
+export function getSignatureFormat(signature: string): SignatureFormat {
+  if (signature.startsWith(SIGNATURE_PREFIX) && /^[0-9a-f]{64}$/.test(signature.slice(SIGNATURE_PREFIX.length))) {
+    return 'v1';
+  }
+  if (/^[0-9a-f]{64}$/.test(signature)) {
+    return 'legacy-hmac';
   }
+  if (/^[0-9a-f]{1,8}$/.test(signature)) {
+    return 'legacy-hash';
+  }
+  return 'unknown';
+}
+
+/**
+ * Generate an HMAC-SHA256 signature in the current versioned format
+ * Uses Web Crypto when available and an identical pure-JS implementation otherwise
+ */
+export async function generateSignature(data: string, secret: string): Promise<string> {
+  return SIGNATURE_PREFIX + toHex(await hmacSha256(secret, data));
 }
 
 /**
  * Verify signature matches the data
+ * Accepts current and legacy HMAC signatures; legacy 32-bit hashes always fail
  */
 export async function verifySignature(
   data: string,
@@ -52,8 +49,13 @@ export async function verifySignature(
   secret: string
 ): Promise<boolean> {
   try {
-    const expectedSignature = await generateSignature(data, secret);
-    return constantTimeCompare(signature, expectedSignature);
+    const format = getSignatureFormat(signature);
+    if (format !== 'v1' && format !== 'legacy-hmac') {
+      return false;
+    }
+    const expected = toHex(await hmacSha256(secret, data));
+    const actual = format === 'v1' ? signature.slice(SIGNATURE_PREFIX.length) : signature;
+    return constantTimeCompare(actual, expected);
   } catch (error) {
     console.error('[Crypto] Error verifying signature:', error);
     return false;
@@ -76,21 +78,179 @@ function constantTimeCompare(a: string, b: string): boolean {
   return result === 0;
 }
 
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
 /**
- * Fallback hash function for environments without Web Crypto API
- * Uses a simple but effective hash algorithm
+ * HMAC-SHA256 over UTF-8 encoded key and message
  */
-async function fallbackHash(str: string): Promise<string> {
-  let hash = 0;
+async function hmacSha256(secret: string, data: string): Promise<Uint8Array> {
+  const keyData = utf8Encode(secret);
+  const messageData = utf8Encode(data);
 
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
+  // Use Web Crypto API if available (browser/modern environments)
+  // Missing on insecure origins, in older WebViews and some test runtimes
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    try {
+      const cryptoKey = await crypto.subtle.importKey(
+        'raw',
+        keyData,
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+      );
+      return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, messageData));
+    } catch (error) {
+      console.error('[Crypto] Web Crypto HMAC failed, using JS implementation:', error);
+    }
+  }
+
+  return hmacSha256Js(keyData, messageData);
+}
+
+/**
+ * HMAC (RFC 2104) with SHA-256; output is identical to Web Crypto
+ */
+function hmacSha256Js(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const blockSize = 64;
+  let blockKey = key.length > blockSize ? sha256(key) : key;
+
+  const padded = new Uint8Array(blockSize);
+  padded.set(blockKey);
+  blockKey = padded;
+
+  const inner = new Uint8Array(blockSize + message.length);
+  const outer = new Uint8Array(blockSize + 32);
+  for (let i = 0; i < blockSize; i++) {
+    inner[i] = blockKey[i] ^ 0x36;
+    outer[i] = blockKey[i] ^ 0x5c;
   }
+  inner.set(message, blockSize);
+  outer.set(sha256(inner), blockSize);
 
-  // Convert to positive hex string
-  return Math.abs(hash).toString(16).padStart(8, '0');
+  return sha256(outer);
+}
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * SHA-256 (FIPS 180-4)
+ */
+function sha256(message: Uint8Array): Uint8Array {
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the bit length (big-endian)
+  const paddedLength = Math.ceil((message.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bitLength = message.length * 8;
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let t = 0; t < 16; t++) {
+      w[t] = view.getUint32(offset + t * 4);
+    }
+    for (let t = 16; t < 64; t++) {
+      const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+      const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+      w[t] = w[t - 16] + s0 + w[t - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let t = 0; t < 64; t++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (hh + S1 + ch + SHA256_K[t] + w[t]) >>> 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) >>> 0;
+
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  for (let i = 0; i < 8; i++) {
+    digestView.setUint32(i * 4, h[i]);
+  }
+  return digest;
+}
+
+/**
+ * UTF-8 encode a string (TextEncoder is missing in some older WebViews)
+ */
+function utf8Encode(str: string): Uint8Array<ArrayBuffer> {
+  if (typeof TextEncoder !== 'undefined') {
+    return new TextEncoder().encode(str);
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i < str.length; i++) {
+    let code = str.charCodeAt(i);
+    // Combine surrogate pairs; lone surrogates become U+FFFD like TextEncoder
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < str.length) {
+      const next = str.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+    if (code >= 0xd800 && code <= 0xdfff) {
+      code = 0xfffd;
+    }
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
 }
 
 /**
@@ -164,54 +324,209 @@ export interface SignedConsentState {
   timestamp: number;
   expiresAt: number;
   __signature?: string;
-  [key: string]: boolean | number | string | undefined;
+  __keyId?: string; // Id of the key that produced __signature (absent for device secrets)
+  [key: string]: boolean | number | string | string[] | undefined;
 }
 
 /**
- * Sign consent state data
+ * Create a signer backed by a single HMAC secret (no key id)
+ * This is how device-local secrets from getOrCreateSecret are used
+ */
+export function createSecretSigner(secret: string): ConsentSigner {
+  return {
+    sign: async (data) => ({ signature: await generateSignature(data, secret) }),
+    verify: (data, { signature }) => verifySignature(data, signature, secret),
+  };
+}
+
+/**
+ * Create a signer backed by a rotating set of HMAC keys
+ * Signs with the current key; verifies with whichever key the record names
+ */
+export function createKeyRingSigner(options: {
+  keys: Record<string, string>;
+  currentKeyId: string;
+}): ConsentSigner {
+  const { keys, currentKeyId } = options;
+  if (!Object.prototype.hasOwnProperty.call(keys, currentKeyId)) {
+    throw new Error(`Unknown current key id: "${currentKeyId}"`);
+  }
+
+  return {
+    sign: async (data) => ({
+      signature: await generateSignature(data, keys[currentKeyId]),
+      keyId: currentKeyId,
+    }),
+    verify: async (data, { signature, keyId }) => {
+      // Records without a key id can only have come from the current key
+      const id = keyId ?? currentKeyId;
+      if (!Object.prototype.hasOwnProperty.call(keys, id)) {
+        return false;
+      }
+      return verifySignature(data, signature, keys[id]);
+    },
+  };
+}
+
+/**
+ * Thrown by createRemoteSigner when the endpoint can't be reached or gives no usable answer
+ * Unlike a `false` from verify, this says nothing about the record, so stored consent is kept
+ */
+export class SignerUnavailableError extends Error {
+  constructor(
+    message: string,
+    /** Underlying network or parsing error, if any */
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'SignerUnavailableError';
+  }
+}
+
+/**
+ * Response of a createSignerRequestHandler endpoint
+ */
+interface RemoteSignerResponse {
+  signature?: unknown;
+  keyId?: unknown;
+  valid?: unknown;
+}
+
+/**
+ * Create a signer that delegates to a server endpoint
+ * The endpoint holds the key (e.g. tied to an HttpOnly session cookie), so the
+ * secret never reaches the page. See createSignerRequestHandler in the server entry.
+ * Network and endpoint errors reject with SignerUnavailableError.
+ */
+export function createRemoteSigner(options: {
+  /** Endpoint accepting { action: 'sign' | 'verify', ... } POST requests */
+  endpoint: string;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Extra request headers, e.g. a CSRF token */
+  headers?: Record<string, string>;
+}): ConsentSigner {
+  const request = async (body: Record<string, unknown>): Promise<RemoteSignerResponse> => {
+    const fetchImpl = options.fetch ?? fetch;
+    let response: Response;
+    try {
+      response = await fetchImpl(options.endpoint, {
+        method: 'POST',
+        credentials: 'include', // Send the HttpOnly session cookie
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new SignerUnavailableError('Signer endpoint could not be reached', error);
+    }
+    if (!response.ok) {
+      throw new SignerUnavailableError(`Signer endpoint responded with ${response.status}`);
+    }
+    let result: unknown;
+    try {
+      result = await response.json();
+    } catch (error) {
+      throw new SignerUnavailableError('Signer endpoint returned invalid JSON', error);
+    }
+    if (typeof result !== 'object' || result === null) {
+      throw new SignerUnavailableError('Signer endpoint returned no result');
+    }
+    return result as RemoteSignerResponse;
+  };
+
+  return {
+    sign: async (data) => {
+      const result = await request({ action: 'sign', data });
+      if (typeof result.signature !== 'string') {
+        throw new Error('Signer endpoint returned no signature');
+      }
+      return {
+        signature: result.signature,
+        keyId: typeof result.keyId === 'string' ? result.keyId : undefined,
+      };
+    },
+    verify: async (data, signature) => {
+      const result = await request({ action: 'verify', data, ...signature });
+      if (typeof result.valid !== 'boolean') {
+        throw new SignerUnavailableError('Signer endpoint returned no verification result');
+      }
+      return result.valid;
+    },
+  };
+}
+
+/**
+ * Canonical JSON used for signing (sorted keys, signature metadata excluded)
+ */
+export function canonicalizeConsentState(state: ConsentState | SignedConsentState): string {
+  const { __signature, __keyId, ...stateWithoutSig } = state as SignedConsentState;
+  return JSON.stringify(stateWithoutSig, Object.keys(stateWithoutSig).sort());
+}
+
+function toSigner(secretOrSigner: string | ConsentSigner): ConsentSigner {
+  return typeof secretOrSigner === 'string' ? createSecretSigner(secretOrSigner) : secretOrSigner;
+}
+
+/**
+ * Sign consent state data with a secret or signer
  */
 export async function signConsentState(
   state: ConsentState,
-  secret: string
+  secretOrSigner: string | ConsentSigner
 ): Promise<SignedConsentState> {
-  // Create a copy without signature field
-  const { __signature, ...stateWithoutSig } = state as SignedConsentState;
-
   // Create canonical JSON representation (sorted keys for consistency)
-  const canonical = JSON.stringify(stateWithoutSig, Object.keys(stateWithoutSig).sort());
+  const canonical = canonicalizeConsentState(state);
 
   // Generate signature
-  const signature = await generateSignature(canonical, secret);
+  const { signature, keyId }: ConsentSignature = await toSigner(secretOrSigner).sign(canonical);
 
-  // Return state with signature
+  // Return state with signature (and key id when the signer uses one)
+  const { __signature, __keyId, ...stateWithoutSig } = state as SignedConsentState;
   return {
-    ...state,
+    ...stateWithoutSig,
     __signature: signature,
+    ...(keyId !== undefined && { __keyId: keyId }),
   };
 }
 
 /**
  * Verify consent state signature
+ * `unavailable` is set when the signer could not check the signature (e.g. its
+ * endpoint is down); the record may still be genuine
  */
 export async function verifyConsentState(
   signedState: SignedConsentState,
-  secret: string
-): Promise<{ valid: boolean; state: ConsentState | null }> {
+  secretOrSigner: string | ConsentSigner
+): Promise<{ valid: boolean; state: ConsentState | null; legacySignature?: boolean; unavailable?: boolean }> {
   try {
-    const { __signature, ...stateWithoutSig } = signedState;
+    const { __signature, __keyId, ...stateWithoutSig } = signedState;
 
-    if (!__signature) {
+    if (typeof __signature !== 'string' || (__keyId !== undefined && typeof __keyId !== 'string')) {
       return { valid: false, state: null };
     }
 
     // Create canonical JSON representation
-    const canonical = JSON.stringify(stateWithoutSig, Object.keys(stateWithoutSig).sort());
+    const canonical = canonicalizeConsentState(signedState);
 
-    // Verify signature
-    const valid = await verifySignature(canonical, __signature, secret);
+    // Verify signature; a signer that throws couldn't decide either way
+    let valid: boolean;
+    try {
+      valid = await toSigner(secretOrSigner).verify(canonical, {
+        signature: __signature,
+        keyId: __keyId,
+      });
+    } catch (error) {
+      console.error('[Crypto] Signature could not be verified:', error);
+      return { valid: false, state: null, unavailable: true };
+    }
 
     if (valid) {
-      return { valid: true, state: stateWithoutSig as ConsentState };
+      return {
+        valid: true,
+        state: stateWithoutSig as ConsentState,
+        // Unversioned signatures verify but should be re-signed in the current format
+        legacySignature: getSignatureFormat(__signature) === 'legacy-hmac',
+      };
     } else {
       return { valid: false, state: null };
     }
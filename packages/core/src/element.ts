@@ -0,0 +1,59 @@
+/**
+ * @kev1nramos/cookie-consent-core/element
+ *
+ * Framework-free <cookie-consent-banner> custom element for static sites
+ * and CMS pages. Importing this entry registers the element in browsers.
+ */
+
+import { CookieConsentBannerElement } from './element/CookieConsentBannerElement';
+import type { CookieConsentErrorEventDetail, CookieConsentEventDetail } from './element/types';
+
+export const COOKIE_CONSENT_BANNER_TAG = 'cookie-consent-banner';
+
+/**
+ * Register the banner element under a tag name (default: 'cookie-consent-banner')
+ * Does nothing outside the browser or when the tag is already defined
+ */
+export function defineCookieConsentBanner(tagName: string = COOKIE_CONSENT_BANNER_TAG): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) {
+    return;
+  }
+  // A constructor can only be registered once, so other tags get a subclass
+  customElements.define(
+    tagName,
+    tagName === COOKIE_CONSENT_BANNER_TAG
+      ? CookieConsentBannerElement
+      : class extends CookieConsentBannerElement {}
+  );
+}
+
+defineCookieConsentBanner();
+
+export { CookieConsentBannerElement };
+
+export { defaultElementTheme } from './element/types';
+
+export type {
+  CookieConsentElementTheme,
+  CookieConsentElementContent,
+  CookieConsentElementPreferencesContent,
+  CookieConsentElementLinks,
+  CookieConsentElementBehavior,
+  CookieConsentElementAccessibility,
+  CookieConsentElementConfig,
+  CookieConsentEventDetail,
+  CookieConsentErrorEventDetail,
+} from './element/types';
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'cookie-consent-banner': CookieConsentBannerElement;
+  }
+  interface HTMLElementEventMap {
+    'consent-accept': CustomEvent<CookieConsentEventDetail>;
+    'consent-reject': CustomEvent<CookieConsentEventDetail>;
+    'consent-save': CustomEvent<CookieConsentEventDetail>;
+    'consent-change': CustomEvent<CookieConsentEventDetail>;
+    'consent-error': CustomEvent<CookieConsentErrorEventDetail>;
+  }
+}
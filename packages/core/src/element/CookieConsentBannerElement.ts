@@ -0,0 +1,820 @@
+/**
+ * Cookie Consent Banner Element
+ *
+ * Framework-free <cookie-consent-banner> custom element wrapping a
+ * ConsentManager, rendered in Shadow DOM
+ */
+
+import { ConsentManager } from '../ConsentManager';
+import { formatCategoryName } from '../categories';
+import { LocalStorageAdapter, CookieStorageAdapter, MemoryStorageAdapter } from '../storage';
+import { validateLocale } from '../validation';
+import { DEFAULT_LOCALE, getBrowserLocales, getDocumentLocale, resolveLocale } from '../locale';
+import { getTranslation, type ConsentTranslation } from '../translations';
+import type { ConsentManagerConfig, ConsentPreferences, ConsentState, StorageAdapter } from '../types';
+import { createElementStyles, mergeElementTheme } from './styles';
+import type {
+  CookieConsentElementAccessibility,
+  CookieConsentElementBehavior,
+  CookieConsentElementConfig,
+  CookieConsentElementContent,
+  CookieConsentElementLinks,
+  CookieConsentElementPreferencesContent,
+  CookieConsentElementTheme,
+  CookieConsentErrorEventDetail,
+  CookieConsentEventDetail,
+} from './types';
+
+/**
+ * Options settable as JSON attributes or as properties
+ */
+interface ElementOptions {
+  content: CookieConsentElementContent;
+  locales: Record<string, CookieConsentElementContent>;
+  preferences: CookieConsentElementPreferencesContent;
+  preferencesLocales: Record<string, CookieConsentElementPreferencesContent>;
+  theme: CookieConsentElementTheme;
+  links: CookieConsentElementLinks;
+  behavior: CookieConsentElementBehavior;
+  accessibility: CookieConsentElementAccessibility;
+  config: CookieConsentElementConfig;
+}
+
+type OptionName = keyof ElementOptions;
+
+const OPTION_NAMES: OptionName[] = [
+  'content',
+  'locales',
+  'preferences',
+  'preferencesLocales',
+  'theme',
+  'links',
+  'behavior',
+  'accessibility',
+  'config',
+];
+
+// JSON attribute for each option, e.g. preferences-locales
+const OPTION_ATTRIBUTES = new Map<string, OptionName>(
+  OPTION_NAMES.map((name) => [name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`), name])
+);
+
+/**
+ * Properties a page can set before the element is defined
+ */
+type UpgradableProperties = Partial<ElementOptions> & {
+  locale: string | null;
+  defaultLocale: string | null;
+  manager: ConsentManager | null;
+};
+
+const UPGRADABLE_PROPERTIES: Array<keyof UpgradableProperties> = [
+  ...OPTION_NAMES,
+  'locale',
+  'defaultLocale',
+  'manager',
+];
+
+/**
+ * Content and labels for the locale being shown
+ */
+interface LocalizedContent {
+  locale: string;
+  content: CookieConsentElementContent;
+  preferences: CookieConsentElementPreferencesContent;
+  labels: ConsentTranslation;
+}
+
+// Importing the element on the server must not throw
+const BaseElement: typeof HTMLElement =
+  typeof HTMLElement !== 'undefined' ? HTMLElement : (class {} as unknown as typeof HTMLElement);
+
+export class CookieConsentBannerElement extends BaseElement {
+  static get observedAttributes(): string[] {
+    return [...OPTION_ATTRIBUTES.keys(), 'locale', 'default-locale'];
+  }
+
+  private properties: Partial<ElementOptions> = {};
+  private attributeOptions: Partial<ElementOptions> = {};
+  private sharedManager: ConsentManager | null = null;
+  private activeManager: ConsentManager | null = null;
+  private ownsManager = false;
+  private unsubscribe: (() => void) | null = null;
+  private connected = false;
+  private loaded = false;
+  private isOpen = false;
+  private isPreferencesOpen = false;
+  private choices: Record<string, boolean> = {};
+  private showTimer: ReturnType<typeof setTimeout> | null = null;
+  private hideTimer: ReturnType<typeof setTimeout> | null = null;
+  private previousFocus: Element | null = null;
+
+  // ===== Options =====
+
+  /** Content/copy (attribute: JSON) */
+  get content(): CookieConsentElementContent {
+    return this.getOption('content') ?? {};
+  }
+  set content(value: CookieConsentElementContent) {
+    this.setOption('content', value);
+  }
+
+  /** Content per locale, keyed by BCP 47 tag ('en', 'pt-BR'); replaces content (attribute: JSON) */
+  get locales(): Record<string, CookieConsentElementContent> | undefined {
+    return this.getOption('locales');
+  }
+  set locales(value: Record<string, CookieConsentElementContent> | undefined) {
+    this.setOption('locales', value);
+  }
+
+  /** Preferences panel content/copy (attribute: JSON) */
+  get preferences(): CookieConsentElementPreferencesContent {
+    return this.getOption('preferences') ?? {};
+  }
+  set preferences(value: CookieConsentElementPreferencesContent) {
+    this.setOption('preferences', value);
+  }
+
+  /** Preferences panel content per locale, keyed like locales (attribute: preferences-locales, JSON) */
+  get preferencesLocales(): Record<string, CookieConsentElementPreferencesContent> | undefined {
+    return this.getOption('preferencesLocales');
+  }
+  set preferencesLocales(value: Record<string, CookieConsentElementPreferencesContent> | undefined) {
+    this.setOption('preferencesLocales', value);
+  }
+
+  /** Theme configuration (attribute: JSON) */
+  get theme(): CookieConsentElementTheme {
+    return this.getOption('theme') ?? {};
+  }
+  set theme(value: CookieConsentElementTheme) {
+    this.setOption('theme', value);
+  }
+
+  /** Links configuration (attribute: JSON) */
+  get links(): CookieConsentElementLinks {
+    return this.getOption('links') ?? {};
+  }
+  set links(value: CookieConsentElementLinks) {
+    this.setOption('links', value);
+  }
+
+  /** Behavior configuration (attribute: JSON) */
+  get behavior(): CookieConsentElementBehavior {
+    return this.getOption('behavior') ?? {};
+  }
+  set behavior(value: CookieConsentElementBehavior) {
+    this.setOption('behavior', value);
+  }
+
+  /** Accessibility configuration (attribute: JSON) */
+  get accessibility(): CookieConsentElementAccessibility {
+    return this.getOption('accessibility') ?? {};
+  }
+  set accessibility(value: CookieConsentElementAccessibility) {
+    this.setOption('accessibility', value);
+  }
+
+  /** Consent manager configuration (attribute: JSON); read once, when the manager is created */
+  get config(): CookieConsentElementConfig {
+    return this.getOption('config') ?? {};
+  }
+  set config(value: CookieConsentElementConfig) {
+    this.setOption('config', value);
+  }
+
+  /**
+   * Locale to display, recorded with the decision (default: <html lang>, then navigator.languages with locales)
+   * Falls back along its chain, e.g. 'pt-BR' -> 'pt' -> defaultLocale
+   */
+  get locale(): string | null {
+    return this.getAttribute('locale');
+  }
+  set locale(value: string | null) {
+    this.setStringAttribute('locale', value);
+  }
+
+  /** Locale used when no requested locale is available (attribute: default-locale; default: 'en') */
+  get defaultLocale(): string | null {
+    return this.getAttribute('default-locale');
+  }
+  set defaultLocale(value: string | null) {
+    this.setStringAttribute('default-locale', value);
+  }
+
+  /**
+   * Consent manager in use
+   * Assign an existing manager to share it with the rest of the page
+   */
+  get manager(): ConsentManager | null {
+    return this.activeManager ?? this.sharedManager;
+  }
+  set manager(value: ConsentManager | null) {
+    this.sharedManager = value;
+    if (this.connected) {
+      this.teardown();
+      this.setup();
+    }
+  }
+
+  // ===== Lifecycle =====
+
+  connectedCallback(): void {
+    if (!this.shadowRoot) {
+      this.attachShadow({ mode: 'open' });
+    }
+    // Properties set before the element was defined shadow the accessors
+    for (const name of UPGRADABLE_PROPERTIES) {
+      this.upgradeProperty(name);
+    }
+    this.connected = true;
+    this.setup();
+  }
+
+  disconnectedCallback(): void {
+    this.connected = false;
+    this.teardown();
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    if (oldValue === newValue) {
+      return;
+    }
+    const option = OPTION_ATTRIBUTES.get(name);
+    if (option) {
+      this.setAttributeOption(option, parseJsonAttribute(name, newValue));
+    }
+    if (this.connected) {
+      this.render();
+    }
+  }
+
+  // ===== Public API =====
+
+  /**
+   * Show the banner now, whether or not a decision is needed
+   */
+  show(): void {
+    this.clearTimers();
+    this.isOpen = true;
+    this.render();
+    // Trigger animation
+    this.showTimer = setTimeout(() => {
+      this.showTimer = null;
+      this.shadowRoot?.querySelector('.root')?.classList.add('visible');
+    }, 10);
+  }
+
+  /**
+   * Hide the banner and the preferences panel
+   */
+  hide(): void {
+    this.clearTimers();
+    this.closePreferences();
+    this.shadowRoot?.querySelector('.root')?.classList.remove('visible');
+    this.hideTimer = setTimeout(() => {
+      this.hideTimer = null;
+      this.isOpen = false;
+      this.render();
+    }, this.behavior.animationDuration ?? 300);
+  }
+
+  /**
+   * Open the preferences panel, e.g. from a "Cookie settings" footer link
+   */
+  openPreferences(): void {
+    const manager = this.activeManager;
+    if (!manager || !this.shadowRoot) {
+      return;
+    }
+
+    // Start from the stored choice (or the profile's defaults)
+    const consent = manager.getConsentSync();
+    const defaults = manager.getDefaultPreferences();
+    this.choices = {};
+    for (const category of manager.getCategories()) {
+      if (manager.isCategoryRevocable(category)) {
+        this.choices[category] = consent ? consent[category] === true : defaults[category] === true;
+      }
+    }
+
+    this.previousFocus = getActiveElement();
+    this.isPreferencesOpen = true;
+    this.render();
+    document.addEventListener('keydown', this.handleKeyDown);
+    this.shadowRoot.querySelector<HTMLElement>('.preferences')?.focus();
+  }
+
+  /**
+   * Close the preferences panel and return focus to where it was
+   */
+  closePreferences(): void {
+    if (!this.isPreferencesOpen) {
+      return;
+    }
+    this.isPreferencesOpen = false;
+    document.removeEventListener('keydown', this.handleKeyDown);
+    this.render();
+    if (this.previousFocus instanceof HTMLElement) {
+      this.previousFocus.focus();
+    }
+    this.previousFocus = null;
+  }
+
+  // ===== Internals =====
+
+  private getOption<K extends OptionName>(name: K): ElementOptions[K] | undefined {
+    return this.properties[name] ?? this.attributeOptions[name];
+  }
+
+  private setOption<K extends OptionName>(name: K, value: ElementOptions[K] | undefined): void {
+    this.properties[name] = value;
+    if (this.connected) {
+      this.render();
+    }
+  }
+
+  private setAttributeOption<K extends OptionName>(name: K, value: ElementOptions[K] | undefined): void {
+    this.attributeOptions[name] = value;
+  }
+
+  private setStringAttribute(name: string, value: string | null): void {
+    if (value === null) {
+      this.removeAttribute(name);
+    } else {
+      this.setAttribute(name, value);
+    }
+  }
+
+  private upgradeProperty<K extends keyof UpgradableProperties>(name: K): void {
+    if (!Object.prototype.hasOwnProperty.call(this, name)) {
+      return;
+    }
+    const element: UpgradableProperties = this;
+    const value = element[name];
+    Reflect.deleteProperty(this, name);
+    element[name] = value;
+  }
+
+  private setup(): void {
+    const manager = this.sharedManager ?? new ConsentManager(toManagerConfig(this.config));
+    this.activeManager = manager;
+    this.ownsManager = manager !== this.sharedManager;
+
+    // Covers acceptAll/rejectAll/setPreferences, withdrawConsent and other tabs
+    this.unsubscribe = manager.onChange((state) => {
+      this.dispatch('consent-change', state);
+      this.update();
+    });
+
+    // Stored consent is loaded without notifying listeners
+    manager.getConsent().then(() => {
+      if (this.activeManager !== manager) {
+        return;
+      }
+      this.loaded = true;
+      this.update();
+    });
+
+    this.render();
+  }
+
+  private teardown(): void {
+    this.clearTimers();
+    document.removeEventListener('keydown', this.handleKeyDown);
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.ownsManager) {
+      this.activeManager?.destroy();
+    }
+    this.activeManager = null;
+    this.ownsManager = false;
+    this.loaded = false;
+    this.isOpen = false;
+    this.isPreferencesOpen = false;
+  }
+
+  private clearTimers(): void {
+    if (this.showTimer !== null) {
+      clearTimeout(this.showTimer);
+      this.showTimer = null;
+    }
+    if (this.hideTimer !== null) {
+      clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+    }
+  }
+
+  /**
+   * Show the banner after the configured delay once a decision is needed
+   */
+  private update(): void {
+    const manager = this.activeManager;
+    if (!manager || !this.loaded || this.isOpen || this.showTimer !== null) {
+      return;
+    }
+    if (manager.needsConsentPrompt()) {
+      this.showTimer = setTimeout(() => {
+        this.showTimer = null;
+        this.show();
+      }, this.behavior.showDelay ?? 1000);
+    }
+  }
+
+  /**
+   * Pick the content for the locale, as the React banner does
+   * With locales, the best match for the page or the visitor; a single
+   * content object is assumed to be in the page language
+   */
+  private localize(): LocalizedContent {
+    const { locales, preferencesLocales } = this;
+    const requested = this.locale;
+    const defaultLocale = this.defaultLocale ?? DEFAULT_LOCALE;
+    const documentLocale = getDocumentLocale();
+
+    let locale: string;
+    if (locales) {
+      const detected = documentLocale ? [documentLocale, ...getBrowserLocales()] : getBrowserLocales();
+      locale = resolveLocale(Object.keys(locales), requested ? [requested] : detected, defaultLocale);
+    } else {
+      locale = requested ?? documentLocale ?? defaultLocale;
+    }
+
+    return {
+      locale,
+      content: (locales ? locales[locale] : this.content) ?? {},
+      preferences:
+        (preferencesLocales
+          ? preferencesLocales[resolveLocale(Object.keys(preferencesLocales), [locale], defaultLocale)]
+          : this.preferences) ?? {},
+      labels: getTranslation(locale),
+    };
+  }
+
+  private dispatch(type: string, state: ConsentState): void {
+    this.dispatchEvent(
+      new CustomEvent<CookieConsentEventDetail>(type, { detail: { state }, bubbles: true, composed: true })
+    );
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      this.closePreferences();
+    }
+  };
+
+  private handleAcceptAll = (): Promise<void> => this.saveConsent('accept', (manager) => manager.acceptAll());
+
+  private handleRejectAll = (): Promise<void> => this.saveConsent('reject', (manager) => manager.rejectAll());
+
+  private handleSavePreferences = (): Promise<void> =>
+    this.saveConsent('save', (manager) => {
+      const preferences: ConsentPreferences = {
+        analytics: this.choices.analytics ?? false,
+        marketing: this.choices.marketing ?? false,
+      };
+      for (const category of manager.getCategories()) {
+        if (manager.isCategoryRevocable(category)) {
+          preferences[category] = this.choices[category] ?? false;
+        }
+      }
+      return manager.setPreferences(preferences);
+    });
+
+  // Buttons only render with a manager, but a click can land after teardown
+  private async saveConsent(
+    action: CookieConsentErrorEventDetail['action'],
+    save: (manager: ConsentManager) => Promise<ConsentState>
+  ): Promise<void> {
+    const manager = this.activeManager;
+    if (!manager) {
+      return;
+    }
+    let state: ConsentState;
+    try {
+      state = await save(manager);
+    } catch (error) {
+      // Rate limited or storage failed; stay open so the user can try again
+      console.error('[CookieConsentBanner] Error saving consent:', error);
+      this.dispatchEvent(
+        new CustomEvent<CookieConsentErrorEventDetail>('consent-error', {
+          detail: { action, error },
+          bubbles: true,
+          composed: true,
+        })
+      );
+      return;
+    }
+    this.dispatch(`consent-${action}`, state);
+    this.hide();
+  }
+
+  // ===== Rendering =====
+
+  private render(): void {
+    const root = this.shadowRoot;
+    const manager = this.activeManager;
+    if (!root || !manager) {
+      return;
+    }
+
+    // Record which text the user saw with their decision
+    const localized = this.localize();
+    manager.setLocale(validateLocale(localized.locale).success ? localized.locale : null);
+
+    const theme = mergeElementTheme(this.theme);
+    const { animationDuration = 300 } = this.behavior;
+    const style = document.createElement('style');
+    style.textContent = createElementStyles(theme, animationDuration);
+
+    // Keep the animation state across re-renders
+    const wasVisible = root.querySelector('.root')?.classList.contains('visible') ?? false;
+    const nodes: Node[] = [style];
+    if (this.isOpen) {
+      const banner = this.renderBanner(manager, localized);
+      banner.classList.toggle('visible', wasVisible);
+      nodes.push(banner);
+    }
+    if (this.isPreferencesOpen) {
+      nodes.push(...this.renderPreferences(manager, localized));
+    }
+    root.replaceChildren(...nodes);
+  }
+
+  private renderBanner(manager: ConsentManager, { content, labels: translation }: LocalizedContent): HTMLElement {
+    const links = this.links;
+    const labels = translation.banner;
+    const {
+      position = 'bottom',
+      backdropBlur = true,
+      closeOnBackdropClick = false,
+      showCustomizeButton = true,
+    } = this.behavior;
+    const {
+      bannerLabel = translation.accessibility.bannerLabel,
+      acceptButtonLabel,
+      rejectButtonLabel,
+    } = this.accessibility;
+
+    // Layout follows the regulation profile selected for the visitor's region
+    const variant = manager.getRegulationProfile().banner;
+
+    const backdrop = createElement('div', { class: `backdrop${backdropBlur ? ' blur' : ''}`, part: 'backdrop' });
+    backdrop.setAttribute('aria-hidden', 'true');
+    if (closeOnBackdropClick) {
+      backdrop.addEventListener('click', () => this.hide());
+    }
+
+    const description = createElement('div', { class: 'description', part: 'description' });
+    const slot = createElement('slot', { name: 'description' }, content.description);
+    description.append(slot);
+    if (links.cookiePolicy) {
+      description.append(
+        ' ',
+        createElement('a', { href: links.cookiePolicy, part: 'link' }, content.learnMoreText || labels.learnMoreText)
+      );
+    }
+    if (links.cookieSettings) {
+      description.append(
+        ' · ',
+        createElement(
+          'a',
+          { href: links.cookieSettings, class: 'secondary', part: 'link' },
+          content.managePreferencesText || labels.managePreferencesText
+        )
+      );
+    }
+
+    const actions = createElement('div', { class: 'actions', part: 'actions' });
+    if (showCustomizeButton && variant !== 'notice') {
+      const customize = createElement(
+        'button',
+        { type: 'button', class: 'customize', part: 'button customize-button', 'aria-haspopup': 'dialog' },
+        content.customizeButton || labels.customizeButton
+      );
+      customize.addEventListener('click', () => this.openPreferences());
+      actions.append(customize);
+    }
+    if (variant !== 'notice') {
+      const reject = createElement(
+        'button',
+        { type: 'button', class: 'secondary-button', part: 'button reject-button', 'aria-label': rejectButtonLabel },
+        variant === 'opt-out'
+          ? content.optOutButton || labels.optOutButton
+          : content.rejectButton || labels.rejectButton
+      );
+      reject.addEventListener('click', this.handleRejectAll);
+      actions.append(reject);
+    }
+    const accept = createElement(
+      'button',
+      { type: 'button', class: 'cta', part: 'button accept-button', 'aria-label': acceptButtonLabel },
+      variant === 'opt-in'
+        ? content.acceptButton || labels.acceptButton
+        : content.acknowledgeButton || labels.acknowledgeButton
+    );
+    accept.addEventListener('click', this.handleAcceptAll);
+    actions.append(accept);
+
+    const inner = createElement('div', { class: 'inner' });
+    inner.append(
+      createElement('div', {}, createElement('h2', { part: 'title' }, content.title ?? ''), description),
+      actions
+    );
+
+    const banner = createElement('div', {
+      class: `banner ${position}`,
+      part: 'banner',
+      role: 'dialog',
+      'aria-live': 'polite',
+      'aria-label': bannerLabel,
+    });
+    banner.append(inner);
+
+    return createElement('div', { class: 'root' }, backdrop, banner);
+  }
+
+  private renderPreferences(
+    manager: ConsentManager,
+    { preferences, labels: translation }: LocalizedContent
+  ): HTMLElement[] {
+    const labels = translation.preferences;
+    const {
+      title = labels.title,
+      description,
+      saveButton = labels.saveButton,
+      acceptAllButton = labels.acceptAllButton,
+      rejectAllButton = labels.rejectAllButton,
+      alwaysActiveLabel = labels.alwaysActiveLabel,
+      closeButtonLabel = labels.closeButtonLabel,
+      cookiesLabel = labels.cookiesLabel,
+      categories: categoryContent = {},
+    } = preferences;
+    const { preferencesLabel = translation.accessibility.preferencesLabel } = this.accessibility;
+    const defaults = manager.getDefaultPreferences();
+
+    const backdrop = createElement('div', { class: 'preferences-backdrop', part: 'preferences-backdrop' });
+    backdrop.setAttribute('aria-hidden', 'true');
+    backdrop.addEventListener('click', () => this.closePreferences());
+
+    const close = createElement(
+      'button',
+      { type: 'button', class: 'close', part: 'close-button', 'aria-label': closeButtonLabel },
+      '×'
+    );
+    close.addEventListener('click', () => this.closePreferences());
+
+    const list = createElement('ul', { class: 'categories' });
+    for (const category of manager.getCategories()) {
+      // Content overrides take precedence over the manager's category registry
+      const definition = manager.getCategoryDefinition(category);
+      const label = categoryContent[category]?.label ?? definition?.label ?? formatCategoryName(category);
+      const categoryDescription = categoryContent[category]?.description ?? definition?.description;
+      const cookies = definition?.cookies ?? [];
+      const isRevocable = manager.isCategoryRevocable(category);
+      const isAlwaysActive =
+        manager.isCategoryRequired(category) || (!isRevocable && defaults[category] === true);
+      const labelId = `cookie-category-${category}`;
+
+      const header = createElement(
+        'div',
+        { class: 'category-header' },
+        createElement('span', { id: labelId, class: 'category-label' }, label)
+      );
+      if (isAlwaysActive) {
+        header.append(createElement('span', { class: 'always-active' }, alwaysActiveLabel));
+      } else if (isRevocable) {
+        const toggle = createElement('button', {
+          type: 'button',
+          class: 'switch',
+          part: 'switch',
+          role: 'switch',
+          'aria-checked': String(this.choices[category] === true),
+          'aria-labelledby': labelId,
+        });
+        // Update in place so the switch keeps focus
+        toggle.addEventListener('click', () => {
+          this.choices[category] = !this.choices[category];
+          toggle.setAttribute('aria-checked', String(this.choices[category]));
+        });
+        header.append(toggle);
+      }
+
+      const item = createElement('li', { class: 'category', part: 'category' }, header);
+      if (categoryDescription) {
+        item.append(createElement('div', { class: 'category-description' }, categoryDescription));
+      }
+      if (cookies.length > 0) {
+        const cookieList = createElement('ul');
+        for (const cookie of cookies) {
+          cookieList.append(
+            createElement('li', {}, createElement('code', {}, cookie.name), ` · ${cookie.duration} · ${cookie.purpose}`)
+          );
+        }
+        item.append(
+          createElement('details', {}, createElement('summary', {}, `${cookiesLabel} (${cookies.length})`), cookieList)
+        );
+      }
+      list.append(item);
+    }
+
+    const rejectAll = createElement('button', { type: 'button', class: 'secondary-button', part: 'button' }, rejectAllButton);
+    rejectAll.addEventListener('click', this.handleRejectAll);
+    const acceptAll = createElement('button', { type: 'button', class: 'secondary-button', part: 'button' }, acceptAllButton);
+    acceptAll.addEventListener('click', this.handleAcceptAll);
+    const save = createElement('button', { type: 'button', class: 'cta', part: 'button save-button' }, saveButton);
+    save.addEventListener('click', this.handleSavePreferences);
+
+    const panel = createElement(
+      'div',
+      {
+        class: 'preferences',
+        part: 'preferences',
+        role: 'dialog',
+        'aria-modal': 'true',
+        'aria-label': preferencesLabel,
+        tabindex: '-1',
+      },
+      createElement('div', { class: 'preferences-header' }, createElement('h2', {}, title), close)
+    );
+    if (description) {
+      panel.append(createElement('div', { class: 'description' }, description));
+    }
+    panel.append(list, createElement('div', { class: 'actions' }, rejectAll, acceptAll, save));
+
+    return [backdrop, panel];
+  }
+}
+
+/**
+ * Create an element with attributes and children
+ * Text is set as text nodes, never parsed as HTML
+ */
+function createElement<K extends keyof HTMLElementTagNameMap>(
+  tagName: K,
+  attributes: Record<string, string | undefined> = {},
+  ...children: Array<Node | string | undefined>
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tagName);
+  for (const [name, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      element.setAttribute(name, value);
+    }
+  }
+  for (const child of children) {
+    if (child !== undefined) {
+      element.append(child);
+    }
+  }
+  return element;
+}
+
+/**
+ * Parse a JSON attribute, logging and ignoring invalid values
+ * Only checks for an object; its fields are read like property values
+ */
+function parseJsonAttribute<T extends object>(name: string, value: string | null): T | undefined {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('expected a JSON object');
+    }
+    return parsed as T;
+  } catch (error) {
+    console.error(`[CookieConsentBanner] Ignoring invalid "${name}" attribute:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a named storage adapter from the config attribute
+ */
+function toManagerConfig(config: CookieConsentElementConfig): ConsentManagerConfig {
+  const { storage, ...rest } = config;
+  if (typeof storage !== 'string') {
+    return { ...rest, storage };
+  }
+
+  const adapters: Record<string, () => StorageAdapter> = {
+    local: () => new LocalStorageAdapter(),
+    cookie: () => new CookieStorageAdapter(),
+    memory: () => new MemoryStorageAdapter(),
+  };
+  if (!adapters[storage]) {
+    console.error(`[CookieConsentBanner] Unknown storage "${storage}", using localStorage`);
+    return rest;
+  }
+  return { ...rest, storage: adapters[storage]() };
+}
+
+// Focus inside shadow roots is reported on the host; follow it down
+function getActiveElement(): Element | null {
+  let active = document.activeElement;
+  while (active?.shadowRoot?.activeElement) {
+    active = active.shadowRoot.activeElement;
+  }
+  return active;
+}
@@ -0,0 +1,291 @@
+/**
+ * Shadow DOM styles for the banner element
+ */
+
+import { defaultElementTheme, type CookieConsentElementTheme } from './types';
+
+export type ResolvedElementTheme = typeof defaultElementTheme;
+
+/**
+ * Merge a partial user theme with the defaults
+ */
+export function mergeElementTheme(userTheme?: CookieConsentElementTheme): ResolvedElementTheme {
+  return {
+    colors: { ...defaultElementTheme.colors, ...userTheme?.colors },
+    fonts: { ...defaultElementTheme.fonts, ...userTheme?.fonts },
+    borderRadius: userTheme?.borderRadius ?? defaultElementTheme.borderRadius,
+    spacing: { ...defaultElementTheme.spacing, ...userTheme?.spacing },
+  };
+}
+
+/**
+ * Build the stylesheet for a theme
+ * `all: initial` on the host stops inherited page styles (fonts, colors,
+ * line-height) from leaking into the shadow tree
+ */
+export function createElementStyles(theme: ResolvedElementTheme, animationDuration: number): string {
+  const { colors } = theme;
+
+  return `
+:host {
+  all: initial;
+  display: contents;
+}
+* {
+  box-sizing: border-box;
+}
+[hidden] {
+  display: none !important;
+}
+.backdrop {
+  position: fixed;
+  inset: 0;
+  z-index: 9998;
+  background-color: ${colors.backdrop};
+  opacity: 0;
+  transition: opacity ${animationDuration}ms ease-out;
+}
+.backdrop.blur {
+  backdrop-filter: blur(4px);
+  -webkit-backdrop-filter: blur(4px);
+}
+.banner {
+  position: fixed;
+  left: 0;
+  right: 0;
+  z-index: 9999;
+  background-color: ${colors.banner};
+  color: ${colors.text};
+  font-family: ${theme.fonts.family};
+  transition: all ${animationDuration}ms ease-out;
+}
+.banner.bottom {
+  bottom: 0;
+  transform: translateY(100%);
+}
+.banner.top {
+  top: 0;
+  transform: translateY(-100%);
+}
+.banner.center {
+  top: 50%;
+  left: 50%;
+  right: auto;
+  width: calc(100% - 2rem);
+  max-width: 600px;
+  border-radius: ${theme.borderRadius};
+  opacity: 0;
+  transform: translate(-50%, -50%) scale(0.95);
+}
+.visible .backdrop {
+  opacity: 1;
+}
+.visible .banner.bottom,
+.visible .banner.top {
+  transform: translateY(0);
+}
+.visible .banner.center {
+  opacity: 1;
+  transform: translate(-50%, -50%);
+}
+.inner {
+  width: 100%;
+  max-width: 1280px;
+  margin: 0 auto;
+  padding: ${theme.spacing.padding};
+  display: flex;
+  flex-direction: column;
+  gap: ${theme.spacing.gap};
+}
+h2 {
+  font-size: 1.125rem;
+  font-weight: bold;
+  margin: 0 0 0.5rem;
+  color: ${colors.text};
+}
+.description {
+  font-size: 0.875rem;
+  line-height: 1.6;
+  color: ${colors.textSecondary};
+}
+a {
+  color: ${colors.links};
+  text-decoration: underline;
+  transition: opacity 150ms;
+}
+a:hover {
+  opacity: 0.8;
+}
+a.secondary {
+  color: ${colors.textSecondary};
+}
+.actions {
+  display: flex;
+  flex-direction: row;
+  flex-wrap: wrap;
+  justify-content: flex-end;
+  gap: 0.75rem;
+}
+button {
+  font: inherit;
+  padding: 0.625rem 1.25rem;
+  border-radius: ${theme.borderRadius};
+  font-size: 0.875rem;
+  font-weight: bold;
+  cursor: pointer;
+  transition: all 150ms;
+}
+button:hover {
+  transform: scale(1.02);
+}
+button:active {
+  transform: scale(0.98);
+}
+button:focus-visible,
+[role='dialog']:focus-visible {
+  outline: 2px solid ${colors.cta};
+  outline-offset: 2px;
+}
+.customize {
+  background-color: transparent;
+  color: ${colors.secondaryButtonText};
+  border: 1px solid rgba(255, 255, 255, 0.3);
+}
+.secondary-button {
+  background-color: ${colors.secondaryButton};
+  color: ${colors.secondaryButtonText};
+  border: 1px solid rgba(255, 255, 255, 0.3);
+}
+.cta {
+  background-color: ${colors.cta};
+  color: ${colors.ctaText};
+  border: none;
+}
+.cta:hover {
+  opacity: 0.9;
+}
+.preferences-backdrop {
+  position: fixed;
+  inset: 0;
+  z-index: 10000;
+  background-color: ${colors.backdrop};
+}
+.preferences {
+  position: fixed;
+  top: 50%;
+  left: 50%;
+  transform: translate(-50%, -50%);
+  width: calc(100% - 2rem);
+  max-width: 560px;
+  max-height: calc(100vh - 2rem);
+  overflow-y: auto;
+  z-index: 10001;
+  background-color: ${colors.banner};
+  color: ${colors.text};
+  font-family: ${theme.fonts.family};
+  border-radius: ${theme.borderRadius};
+  padding: ${theme.spacing.padding};
+}
+.preferences-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  gap: ${theme.spacing.gap};
+}
+.preferences-header h2 {
+  margin: 0;
+}
+.close {
+  padding: 0;
+  background: none;
+  border: none;
+  color: ${colors.text};
+  font-size: 1.25rem;
+  line-height: 1;
+}
+.preferences .description {
+  margin-top: 0.5rem;
+}
+.categories {
+  list-style: none;
+  padding: 0;
+  margin: ${theme.spacing.gap} 0;
+}
+.category {
+  padding: 0.75rem 0;
+  border-top: 1px solid rgba(255, 255, 255, 0.2);
+}
+.category-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${theme.spacing.gap};
+}
+.category-label {
+  font-weight: bold;
+  font-size: 0.9375rem;
+}
+.category-description,
+.always-active,
+details {
+  font-size: 0.8125rem;
+  line-height: 1.5;
+  color: ${colors.textSecondary};
+}
+.category-description,
+details {
+  margin-top: 0.25rem;
+}
+summary {
+  cursor: pointer;
+}
+details ul {
+  padding-left: 1rem;
+  margin: 0.25rem 0 0;
+}
+.switch {
+  position: relative;
+  width: 2.75rem;
+  height: 1.5rem;
+  flex-shrink: 0;
+  padding: 0;
+  border-radius: 9999px;
+  border: none;
+  background-color: ${colors.secondaryButton};
+}
+.switch[aria-checked='true'] {
+  background-color: ${colors.cta};
+}
+.switch::after {
+  content: '';
+  position: absolute;
+  top: 0.1875rem;
+  left: 0.1875rem;
+  width: 1.125rem;
+  height: 1.125rem;
+  border-radius: 9999px;
+  background-color: ${colors.ctaText};
+  transition: left 150ms;
+}
+.switch[aria-checked='true']::after {
+  left: 1.4375rem;
+}
+.switch:hover,
+.switch:active {
+  transform: none;
+}
+@media (max-width: 640px) {
+  .actions {
+    flex-direction: column;
+  }
+}
+@media (prefers-reduced-motion: reduce) {
+  .backdrop,
+  .banner,
+  button,
+  .switch::after {
+    transition: none;
+  }
+}
+`;
+}
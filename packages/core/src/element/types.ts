@@ -0,0 +1,186 @@
+/**
+ * Cookie Consent Banner Element Type Definitions
+ *
+ * Framework-free mirrors of the React banner's theme, content, links,
+ * behavior and accessibility options
+ */
+
+import type { ConsentManagerConfig, ConsentState, StorageAdapter } from '../types';
+
+/**
+ * Theme configuration for the banner element
+ */
+export interface CookieConsentElementTheme {
+  colors?: {
+    /** Banner background color (default: #8F93FF) */
+    banner?: string;
+    /** Primary CTA button background (default: #27EAA6) */
+    cta?: string;
+    /** CTA button text color (default: #FFFFFF) */
+    ctaText?: string;
+    /** Banner text color (default: #FFFFFF) */
+    text?: string;
+    /** Banner text secondary color (default: rgba(255,255,255,0.9)) */
+    textSecondary?: string;
+    /** Link color (default: #27EAA6) */
+    links?: string;
+    /** Secondary button background (default: rgba(255,255,255,0.2)) */
+    secondaryButton?: string;
+    /** Secondary button text (default: #FFFFFF) */
+    secondaryButtonText?: string;
+    /** Backdrop color (default: rgba(0,0,0,0.2)) */
+    backdrop?: string;
+  };
+  fonts?: {
+    /** Font family (default: system font stack) */
+    family?: string;
+  };
+  borderRadius?: string;
+  spacing?: {
+    padding?: string;
+    gap?: string;
+  };
+}
+
+/**
+ * Content/copy for the banner element
+ * A `slot="description"` child replaces the description with rich content
+ */
+export interface CookieConsentElementContent {
+  /** Banner title */
+  title?: string;
+  /** Banner description/message */
+  description?: string;
+  /** Accept all button text (default: 'Accept All', translated for the locale) */
+  acceptButton?: string;
+  /** Reject all button text (default: 'Reject All', translated for the locale) */
+  rejectButton?: string;
+  /** Learn more link text (default: 'Learn more', translated for the locale) */
+  learnMoreText?: string;
+  /** Manage preferences link text (default: 'Manage preferences', translated for the locale) */
+  managePreferencesText?: string;
+  /** Customize button text (default: 'Customize', translated for the locale) */
+  customizeButton?: string;
+  /** Opt-out button text for the 'opt-out' variant (default: 'Do Not Sell or Share My Personal Information', translated) */
+  optOutButton?: string;
+  /** Dismiss button text for the 'opt-out' and 'notice' variants (default: 'Got it', translated for the locale) */
+  acknowledgeButton?: string;
+}
+
+/**
+ * Content/copy for the preferences panel opened by the Customize button
+ */
+export interface CookieConsentElementPreferencesContent {
+  /** Panel title (default: 'Cookie preferences') */
+  title?: string;
+  /** Panel description */
+  description?: string;
+  /** Save button text (default: 'Save choices') */
+  saveButton?: string;
+  /** Accept all button text (default: 'Accept all') */
+  acceptAllButton?: string;
+  /** Reject all button text (default: 'Reject all') */
+  rejectAllButton?: string;
+  /** Label shown instead of a toggle for essential cookies (default: 'Always active') */
+  alwaysActiveLabel?: string;
+  /** ARIA label for the close button (default: 'Close') */
+  closeButtonLabel?: string;
+  /** Summary text for a category's cookie declarations (default: 'Cookies used') */
+  cookiesLabel?: string;
+  /** Per-category labels and descriptions, keyed by category name */
+  categories?: Record<string, { label?: string; description?: string }>;
+}
+
+/**
+ * Links configuration for cookie policy and settings
+ */
+export interface CookieConsentElementLinks {
+  /** Cookie policy page URL */
+  cookiePolicy?: string;
+  /** Cookie settings/preferences page URL */
+  cookieSettings?: string;
+  /** Privacy policy page URL */
+  privacyPolicy?: string;
+}
+
+/**
+ * Behavior configuration
+ */
+export interface CookieConsentElementBehavior {
+  /** Delay before showing banner in milliseconds (default: 1000) */
+  showDelay?: number;
+  /** Banner position (default: 'bottom') */
+  position?: 'top' | 'bottom' | 'center';
+  /** Enable backdrop blur effect (default: true) */
+  backdropBlur?: boolean;
+  /** Close banner on backdrop click (default: false) */
+  closeOnBackdropClick?: boolean;
+  /** Animation duration in milliseconds (default: 300) */
+  animationDuration?: number;
+  /** Show a Customize button that opens the preferences panel (default: true) */
+  showCustomizeButton?: boolean;
+}
+
+/**
+ * Accessibility configuration
+ */
+export interface CookieConsentElementAccessibility {
+  /** ARIA label for banner (default: 'Cookie consent banner') */
+  bannerLabel?: string;
+  /** ARIA label for accept button */
+  acceptButtonLabel?: string;
+  /** ARIA label for reject button */
+  rejectButtonLabel?: string;
+  /** ARIA label for preferences panel (default: 'Cookie preferences') */
+  preferencesLabel?: string;
+}
+
+/**
+ * Consent manager configuration for the element
+ * In the `config` attribute, storage is named: 'local', 'cookie' or 'memory'
+ */
+export type CookieConsentElementConfig = Omit<ConsentManagerConfig, 'storage'> & {
+  storage?: StorageAdapter | 'local' | 'cookie' | 'memory';
+};
+
+/**
+ * Detail of the consent-accept, consent-reject, consent-save and consent-change events
+ * consent-change carries a "reject all" state after a withdrawal
+ */
+export interface CookieConsentEventDetail {
+  state: ConsentState;
+}
+
+/**
+ * Detail of the consent-error event, fired when a decision could not be saved
+ * (rate limited, storage or signer failure); the banner stays open
+ */
+export interface CookieConsentErrorEventDetail {
+  action: 'accept' | 'reject' | 'save';
+  error: unknown;
+}
+
+/**
+ * Default theme values (same as the React banner)
+ */
+export const defaultElementTheme = {
+  colors: {
+    banner: '#8F93FF',
+    cta: '#27EAA6',
+    ctaText: '#FFFFFF',
+    text: '#FFFFFF',
+    textSecondary: 'rgba(255, 255, 255, 0.9)',
+    links: '#27EAA6',
+    secondaryButton: 'rgba(255, 255, 255, 0.2)',
+    secondaryButtonText: '#FFFFFF',
+    backdrop: 'rgba(0, 0, 0, 0.2)',
+  },
+  fonts: {
+    family: 'system-ui, -apple-system, sans-serif',
+  },
+  borderRadius: '0.5rem',
+  spacing: {
+    padding: '1rem',
+    gap: '0.75rem',
+  },
+};
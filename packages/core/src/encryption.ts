@@ -0,0 +1,154 @@
+/**
+ * Encrypted-at-rest consent records
+ * Wraps stored records in AES-GCM envelopes so they can't be read from storage or DevTools
+ */
+
+import type { ConsentEncryptionKey, ConsentKeyProvider } from './types';
+
+/**
+ * Current envelope format: "e1.<keyId>.<iv>.<ciphertext>", web-safe Base64 parts
+ * The key id part is empty for providers without key ids
+ */
+export const ENCRYPTION_VERSION = 'e1';
+const ENVELOPE_PREFIX = `${ENCRYPTION_VERSION}.`;
+const ENVELOPE_REGEX = /^e1\.([A-Za-z0-9_-]{0,64})\.([A-Za-z0-9_-]{16})\.([A-Za-z0-9_-]+)$/;
+const KEY_ID_REGEX = /^[A-Za-z0-9_-]{1,64}$/;
+const IV_LENGTH = 12;
+
+/**
+ * Whether a stored value is an encrypted envelope
+ * JSON records start with '{' and compact records never contain '.'
+ */
+export function isEncryptedConsent(value: string): boolean {
+  return value.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Encrypt a serialized record (JSON or compact) into an envelope
+ * The storage key is bound as additional data, so records can't be moved between keys
+ */
+export async function encryptConsentRecord(
+  record: string,
+  provider: ConsentKeyProvider,
+  storageKey: string
+): Promise<string> {
+  const subtle = getSubtle();
+  const { key, keyId }: ConsentEncryptionKey = await provider.getEncryptionKey();
+  if (keyId !== undefined && !KEY_ID_REGEX.test(keyId)) {
+    throw new Error('Invalid encryption key id: use 1-64 letters, digits, "_" or "-"');
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(storageKey) },
+    key,
+    new TextEncoder().encode(record)
+  );
+  return `${ENVELOPE_PREFIX}${keyId ?? ''}.${bytesToBase64Url(iv)}.${bytesToBase64Url(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt an envelope back into the serialized record
+ * Returns null when the envelope is malformed, the key is unknown or authentication fails
+ */
+export async function decryptConsentRecord(
+  envelope: string,
+  provider: ConsentKeyProvider,
+  storageKey: string
+): Promise<string | null> {
+  const match = ENVELOPE_REGEX.exec(envelope);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const key = await provider.getDecryptionKey(match[1] || undefined);
+    if (!key) {
+      return null;
+    }
+    const plaintext = await getSubtle().decrypt(
+      { name: 'AES-GCM', iv: base64UrlToBytes(match[2]), additionalData: new TextEncoder().encode(storageKey) },
+      key,
+      base64UrlToBytes(match[3])
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch (error) {
+    console.error('[Crypto] Error decrypting consent record:', error);
+    return null;
+  }
+}
+
+/**
+ * Create a key provider backed by a rotating set of AES-GCM keys
+ * Keys are CryptoKeys or raw 128/256-bit keys in web-safe Base64.
+ * Encrypts with the current key; decrypts with whichever key the envelope names.
+ */
+export function createKeyRingKeyProvider(options: {
+  keys: Record<string, CryptoKey | string>;
+  currentKeyId: string;
+}): ConsentKeyProvider {
+  const { keys, currentKeyId } = options;
+  if (!Object.prototype.hasOwnProperty.call(keys, currentKeyId)) {
+    throw new Error(`Unknown current key id: "${currentKeyId}"`);
+  }
+  for (const keyId of Object.keys(keys)) {
+    if (!KEY_ID_REGEX.test(keyId)) {
+      throw new Error(`Invalid encryption key id: "${keyId}"`);
+    }
+  }
+
+  // Import each raw key once
+  const imported = new Map<string, Promise<CryptoKey>>();
+  const getKey = (keyId: string): Promise<CryptoKey> => {
+    let key = imported.get(keyId);
+    if (!key) {
+      key = importKey(keys[keyId]);
+      imported.set(keyId, key);
+    }
+    return key;
+  };
+
+  return {
+    getEncryptionKey: async () => ({ key: await getKey(currentKeyId), keyId: currentKeyId }),
+    getDecryptionKey: async (keyId) => {
+      // Envelopes without a key id can only have come from the current key
+      const id = keyId ?? currentKeyId;
+      return Object.prototype.hasOwnProperty.call(keys, id) ? getKey(id) : null;
+    },
+  };
+}
+
+async function importKey(key: CryptoKey | string): Promise<CryptoKey> {
+  if (typeof key !== 'string') {
+    return key;
+  }
+  const raw = base64UrlToBytes(key);
+  if (raw.length !== 16 && raw.length !== 32) {
+    throw new Error('Invalid encryption key: expected 128 or 256 bits in web-safe Base64');
+  }
+  return getSubtle().importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+function getSubtle(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Consent encryption requires Web Crypto (a secure context)');
+  }
+  return crypto.subtle;
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,293 @@
+/**
+ * IAB GPP CMP API (__gpp, version 1.1)
+ *
+ * Exposes the standard `__gpp` command surface on window and keeps the
+ * GPP string in sync with a ConsentManager.
+ */
+
+import type { ConsentManager } from '../ConsentManager';
+import { addLocatorFrame, removeLocatorFrame } from '../tcf/locatorFrame';
+import {
+  consentStateToGppSections,
+  encodeGppString,
+  GPP_SECTIONS,
+  type GppSection,
+  type GppSectionName,
+  type GppSectionOptions,
+  type GppSections,
+} from './gppString';
+
+const GPP_API_VERSION = '1.1';
+const LOCATOR_FRAME_NAME = '__gppLocator';
+
+export type GppSignalStatus = 'not ready' | 'ready';
+export type GppDisplayStatus = 'visible' | 'hidden' | 'disabled';
+
+/**
+ * Return value of the ping command, also sent with every event
+ */
+export interface GppPingReturn {
+  gppVersion: string;
+  cmpStatus: 'loaded';
+  cmpDisplayStatus: GppDisplayStatus;
+  signalStatus: GppSignalStatus;
+  supportedAPIs: string[];
+  cmpId: number;
+  sectionList: number[];
+  applicableSections: number[];
+  gppString: string;
+  parsedSections: GppSections;
+}
+
+export type GppEventName = 'listenerRegistered' | 'signalStatus' | 'sectionChange' | 'cmpDisplayStatus';
+
+/**
+ * Payload delivered to addEventListener callbacks
+ */
+export interface GppEvent {
+  eventName: GppEventName;
+  listenerId: number;
+  data: unknown;
+  pingData: GppPingReturn;
+}
+
+/**
+ * Value passed to a callback: ping data, an event, a section or field value, a boolean answer, or null on failure
+ */
+export type GppApiReturn = GppPingReturn | GppEvent | GppSection | GppSection[string] | null;
+
+export type GppApiCallback = (returnValue: GppApiReturn, success: boolean) => void;
+
+export type GppApiFunction = (
+  command: string,
+  callback: GppApiCallback,
+  parameter?: unknown,
+  version?: string
+) => void;
+
+declare global {
+  interface Window {
+    /** IAB GPP CMP API; before it loads, the IAB stub queues calls in `queue` and `events` */
+    __gpp?: GppApiFunction & { queue?: unknown[][]; events?: unknown[][] };
+  }
+}
+
+export interface GppApiOptions extends GppSectionOptions {
+  /** CMP id registered with the IAB */
+  cmpId: number;
+  /**
+   * Section ids that apply to the current user (default: the included sections)
+   * Use [-1] when unknown
+   */
+  applicableSections?: number[];
+}
+
+export interface GppApi {
+  /** Current GPP string */
+  getGppString(): string;
+  /** Current section values */
+  getSections(): GppSections;
+  /** Remove window.__gpp and stop listening to the manager */
+  destroy(): void;
+}
+
+/**
+ * Install the __gpp CMP API, driven by ConsentManager.onChange
+ * Before a decision, sections follow the manager's regulation profile defaults.
+ * Processes any calls queued by the IAB stub before installation.
+ */
+export function installGppApi(manager: ConsentManager, options: GppApiOptions): GppApi {
+  const eventListeners = new Map<number, GppApiCallback>();
+  let nextListenerId = 1;
+  let destroyed = false;
+  // Stored consent has been read; until then sections reflect profile defaults
+  let loaded = false;
+  let signalStatus: GppSignalStatus = 'not ready';
+  let displayStatus: GppDisplayStatus = 'hidden';
+  let sections: GppSections = {};
+  let gppString = '';
+
+  const sectionNames = (): GppSectionName[] => Object.keys(sections) as GppSectionName[];
+  const sectionList = () => sectionNames().map((name) => GPP_SECTIONS[name].id);
+
+  const buildPingData = (): GppPingReturn => ({
+    gppVersion: GPP_API_VERSION,
+    cmpStatus: 'loaded',
+    cmpDisplayStatus: displayStatus,
+    signalStatus,
+    supportedAPIs: Object.entries(GPP_SECTIONS).map(([name, definition]) => `${definition.id}:${name}`),
+    cmpId: options.cmpId,
+    sectionList: sectionList(),
+    applicableSections: options.applicableSections ?? sectionList(),
+    gppString,
+    parsedSections: sections,
+  });
+
+  const emit = (eventName: GppEventName, data: unknown) => {
+    eventListeners.forEach((callback, listenerId) => {
+      try {
+        callback({ eventName, listenerId, data, pingData: buildPingData() } satisfies GppEvent, true);
+      } catch (error) {
+        console.error('[GPP] Error in event listener:', error);
+      }
+    });
+  };
+
+  const update = () => {
+    if (destroyed) {
+      return;
+    }
+
+    const previous = sections;
+    const previousDisplayStatus = displayStatus;
+    const gpc = manager.getPrivacySignal() === 'gpc';
+
+    sections = consentStateToGppSections(
+      manager.getConsentSync() ?? manager.getDefaultPreferences(),
+      options,
+      gpc
+    );
+    gppString = encodeGppString(sections);
+    displayStatus = manager.needsConsentPrompt() ? 'visible' : 'hidden';
+
+    if (displayStatus !== previousDisplayStatus) {
+      emit('cmpDisplayStatus', displayStatus);
+    }
+    for (const name of sectionNames()) {
+      if (JSON.stringify(previous[name]) !== JSON.stringify(sections[name])) {
+        emit('sectionChange', name);
+      }
+    }
+    // Signals stay "not ready" until stored consent has been read, then ready for good
+    if (loaded && signalStatus === 'not ready') {
+      signalStatus = 'ready';
+      emit('signalStatus', signalStatus);
+    }
+  };
+
+  const api: GppApiFunction = (command, callback, parameter) => {
+    if (typeof callback !== 'function') {
+      return;
+    }
+
+    switch (command) {
+      case 'ping':
+        callback(buildPingData(), true);
+        break;
+      case 'addEventListener': {
+        const listenerId = nextListenerId++;
+        eventListeners.set(listenerId, callback);
+        callback(
+          { eventName: 'listenerRegistered', listenerId, data: true, pingData: buildPingData() } satisfies GppEvent,
+          true
+        );
+        break;
+      }
+      case 'removeEventListener':
+        callback(eventListeners.delete(parameter as number), true);
+        break;
+      case 'hasSection':
+        callback(typeof parameter === 'string' ? Object.prototype.hasOwnProperty.call(sections, parameter) : false, true);
+        break;
+      case 'getSection':
+        callback(getSection(sections, parameter), true);
+        break;
+      case 'getField': {
+        // Parameter is "<section>.<field>", e.g. "usnat.SaleOptOut"
+        const [name, field] = typeof parameter === 'string' ? parameter.split('.') : [];
+        const section = getSection(sections, name);
+        callback(section && field && Object.prototype.hasOwnProperty.call(section, field) ? section[field] : null, true);
+        break;
+      }
+      default:
+        callback(null, false);
+    }
+  };
+
+  update();
+
+  // Covers acceptAll/rejectAll/setPreferences and withdrawConsent
+  const unsubscribe = manager.onChange(() => update());
+
+  // Stored consent is loaded without notifying listeners
+  manager.getConsent().then(() => {
+    loaded = true;
+    update();
+  });
+
+  const messageHandler = (event: MessageEvent) => handlePostMessage(api, event);
+
+  if (typeof window !== 'undefined') {
+    const stub = window.__gpp;
+    const queued = Array.isArray(stub?.queue) ? stub.queue : [];
+    const queuedEvents = Array.isArray(stub?.events) ? stub.events : [];
+    window.__gpp = api;
+    for (const args of [...queuedEvents, ...queued]) {
+      api(...(args as Parameters<GppApiFunction>));
+    }
+    addLocatorFrame(LOCATOR_FRAME_NAME);
+    window.addEventListener('message', messageHandler);
+  }
+
+  return {
+    getGppString: () => gppString,
+    getSections: () => sections,
+    destroy: () => {
+      destroyed = true;
+      unsubscribe();
+      eventListeners.clear();
+      if (typeof window !== 'undefined') {
+        if (window.__gpp === api) {
+          delete window.__gpp;
+        }
+        window.removeEventListener('message', messageHandler);
+        removeLocatorFrame(LOCATOR_FRAME_NAME);
+      }
+    },
+  };
+}
+
+function getSection(sections: GppSections, name: unknown) {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(sections, name)
+    ? sections[name as GppSectionName] ?? null
+    : null;
+}
+
+interface GppCallMessage {
+  __gppCall?: {
+    command?: unknown;
+    parameter?: unknown;
+    version?: string;
+    callId?: unknown;
+  };
+}
+
+/**
+ * Answer __gppCall messages from nested frames
+ */
+function handlePostMessage(api: GppApiFunction, event: MessageEvent): void {
+  let data: unknown = event.data;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return;
+    }
+  }
+
+  const call = typeof data === 'object' && data !== null ? (data as GppCallMessage).__gppCall : undefined;
+  if (!call || typeof call.command !== 'string' || !event.source) {
+    return;
+  }
+
+  const wasString = typeof event.data === 'string';
+  api(
+    call.command,
+    (returnValue, success) => {
+      const message = { __gppReturn: { returnValue, success, callId: call.callId } };
+      (event.source as Window).postMessage(wasString ? JSON.stringify(message) : message, '*');
+    },
+    call.parameter,
+    call.version
+  );
+}
@@ -0,0 +1,430 @@
+/**
+ * IAB Global Privacy Platform (GPP) string encoding and decoding
+ *
+ * Supports the US national (usnat) and state (usca, usva, usco, usut, usct)
+ * sections. Other sections are listed in the header but not decoded.
+ */
+
+import type { ConsentCategory, ConsentPreferences, ConsentState } from '../types';
+import { BitReader, BitWriter } from '../tcf/bits';
+
+const GPP_HEADER_TYPE = 3;
+const GPP_VERSION = 1;
+const GPC_SUBSECTION_TYPE = 1;
+
+export type GppSectionName = 'usnat' | 'usca' | 'usva' | 'usco' | 'usut' | 'usct';
+
+interface GppFieldDefinition {
+  name: string;
+  /** Number of 2-bit values for list fields */
+  count?: number;
+}
+
+interface GppSectionDefinition {
+  id: number;
+  version: number;
+  fields: GppFieldDefinition[];
+  /** Whether the section carries a GPC subsection */
+  gpc: boolean;
+}
+
+const MSPA_FIELDS: GppFieldDefinition[] = [
+  { name: 'MspaCoveredTransaction' },
+  { name: 'MspaOptOutOptionMode' },
+  { name: 'MspaServiceProviderMode' },
+];
+
+/**
+ * Core segment layouts (version 1 of each section); every field is 2 bits
+ */
+export const GPP_SECTIONS: Record<GppSectionName, GppSectionDefinition> = {
+  usnat: {
+    id: 7,
+    version: 1,
+    gpc: true,
+    fields: [
+      { name: 'SharingNotice' },
+      { name: 'SaleOptOutNotice' },
+      { name: 'SharingOptOutNotice' },
+      { name: 'TargetedAdvertisingOptOutNotice' },
+      { name: 'SensitiveDataProcessingOptOutNotice' },
+      { name: 'SensitiveDataLimitUseNotice' },
+      { name: 'SaleOptOut' },
+      { name: 'SharingOptOut' },
+      { name: 'TargetedAdvertisingOptOut' },
+      { name: 'SensitiveDataProcessing', count: 12 },
+      { name: 'KnownChildSensitiveDataConsents', count: 2 },
+      { name: 'PersonalDataConsents' },
+      ...MSPA_FIELDS,
+    ],
+  },
+  usca: {
+    id: 8,
+    version: 1,
+    gpc: true,
+    fields: [
+      { name: 'SaleOptOutNotice' },
+      { name: 'SharingOptOutNotice' },
+      { name: 'SensitiveDataLimitUseNotice' },
+      { name: 'SaleOptOut' },
+      { name: 'SharingOptOut' },
+      { name: 'SensitiveDataProcessing', count: 9 },
+      { name: 'KnownChildSensitiveDataConsents', count: 2 },
+      { name: 'PersonalDataConsents' },
+      ...MSPA_FIELDS,
+    ],
+  },
+  usva: {
+    id: 9,
+    version: 1,
+    gpc: false,
+    fields: [
+      { name: 'SharingNotice' },
+      { name: 'SaleOptOutNotice' },
+      { name: 'TargetedAdvertisingOptOutNotice' },
+      { name: 'SaleOptOut' },
+      { name: 'TargetedAdvertisingOptOut' },
+      { name: 'SensitiveDataProcessing', count: 8 },
+      { name: 'KnownChildSensitiveDataConsents' },
+      ...MSPA_FIELDS,
+    ],
+  },
+  usco: {
+    id: 10,
+    version: 1,
+    gpc: true,
+    fields: [
+      { name: 'SharingNotice' },
+      { name: 'SaleOptOutNotice' },
+      { name: 'TargetedAdvertisingOptOutNotice' },
+      { name: 'SaleOptOut' },
+      { name: 'TargetedAdvertisingOptOut' },
+      { name: 'SensitiveDataProcessing', count: 7 },
+      { name: 'KnownChildSensitiveDataConsents' },
+      ...MSPA_FIELDS,
+    ],
+  },
+  usut: {
+    id: 11,
+    version: 1,
+    gpc: false,
+    fields: [
+      { name: 'SharingNotice' },
+      { name: 'SaleOptOutNotice' },
+      { name: 'TargetedAdvertisingOptOutNotice' },
+      { name: 'SensitiveDataProcessingOptOutNotice' },
+      { name: 'SaleOptOut' },
+      { name: 'TargetedAdvertisingOptOut' },
+      { name: 'SensitiveDataProcessing', count: 8 },
+      { name: 'KnownChildSensitiveDataConsents' },
+      ...MSPA_FIELDS,
+    ],
+  },
+  usct: {
+    id: 12,
+    version: 1,
+    gpc: true,
+    fields: [
+      { name: 'SharingNotice' },
+      { name: 'SaleOptOutNotice' },
+      { name: 'TargetedAdvertisingOptOutNotice' },
+      { name: 'SaleOptOut' },
+      { name: 'TargetedAdvertisingOptOut' },
+      { name: 'SensitiveDataProcessing', count: 8 },
+      { name: 'KnownChildSensitiveDataConsents', count: 3 },
+      ...MSPA_FIELDS,
+    ],
+  },
+};
+
+/**
+ * Field values of a decoded or to-be-encoded section
+ * 2-bit fields use 0 = not applicable, 1 = yes / opted out, 2 = no / did not opt out
+ */
+export interface GppSection {
+  Version: number;
+  /** Global Privacy Control, for sections with a GPC subsection */
+  Gpc?: boolean;
+  [field: string]: number | number[] | boolean | undefined;
+}
+
+export type GppSections = Partial<Record<GppSectionName, GppSection>>;
+
+export interface DecodedGppString {
+  /** All section ids in the header, including unsupported ones */
+  sectionIds: number[];
+  /** Decoded supported sections */
+  sections: GppSections;
+}
+
+/**
+ * Categories whose denial counts as an opt-out, per opt-out type
+ * A listed category that is not granted triggers the opt-out
+ */
+export interface GppMapping {
+  sale?: ConsentCategory[];
+  sharing?: ConsentCategory[];
+  targetedAdvertising?: ConsentCategory[];
+}
+
+export const DEFAULT_GPP_MAPPING: Required<GppMapping> = {
+  sale: ['marketing'],
+  sharing: ['marketing'],
+  targetedAdvertising: ['marketing'],
+};
+
+export interface GppSectionOptions {
+  /** Sections to include (default: ['usnat']) */
+  sections?: GppSectionName[];
+  /** Category to opt-out mapping (default: DEFAULT_GPP_MAPPING) */
+  mapping?: GppMapping;
+  /**
+   * Which notices were given; omitted notices are encoded as not applicable
+   * (default: sharing, sale, sharing opt-out and targeted advertising opt-out notices given)
+   */
+  notices?: {
+    sharing?: boolean;
+    saleOptOut?: boolean;
+    sharingOptOut?: boolean;
+    targetedAdvertisingOptOut?: boolean;
+    sensitiveDataProcessingOptOut?: boolean;
+    sensitiveDataLimitUse?: boolean;
+  };
+  /** Whether the transaction is covered by the IAB MSPA (default: false) */
+  mspaCoveredTransaction?: boolean;
+  /** MSPA mode for covered transactions (default: 'opt-out-option') */
+  mspaMode?: 'opt-out-option' | 'service-provider';
+  /** Treat an active GPC signal as a sale, sharing and targeted advertising opt-out (default: true) */
+  honorGpc?: boolean;
+}
+
+const DEFAULT_NOTICES: NonNullable<GppSectionOptions['notices']> = {
+  sharing: true,
+  saleOptOut: true,
+  sharingOptOut: true,
+  targetedAdvertisingOptOut: true,
+};
+
+const NOTICE_FIELDS: Record<keyof NonNullable<GppSectionOptions['notices']>, string> = {
+  sharing: 'SharingNotice',
+  saleOptOut: 'SaleOptOutNotice',
+  sharingOptOut: 'SharingOptOutNotice',
+  targetedAdvertisingOptOut: 'TargetedAdvertisingOptOutNotice',
+  sensitiveDataProcessingOptOut: 'SensitiveDataProcessingOptOutNotice',
+  sensitiveDataLimitUse: 'SensitiveDataLimitUseNotice',
+};
+
+/**
+ * Look up a section by its numeric id
+ */
+export function getGppSectionName(id: number): GppSectionName | null {
+  const entry = Object.entries(GPP_SECTIONS).find(([, definition]) => definition.id === id);
+  return entry ? (entry[0] as GppSectionName) : null;
+}
+
+/**
+ * Encode sections as a GPP string ("header~section~section")
+ */
+export function encodeGppString(sections: GppSections): string {
+  const names = (Object.keys(sections) as GppSectionName[]).filter((name) => sections[name] !== undefined);
+  for (const name of names) {
+    if (!Object.prototype.hasOwnProperty.call(GPP_SECTIONS, name)) {
+      throw new Error(`Unsupported GPP section: ${name}`);
+    }
+  }
+  names.sort((a, b) => GPP_SECTIONS[a].id - GPP_SECTIONS[b].id);
+
+  const header = new BitWriter();
+  header.writeInt(GPP_HEADER_TYPE, 6);
+  header.writeInt(GPP_VERSION, 6);
+  writeFibonacciRange(header, names.map((name) => GPP_SECTIONS[name].id));
+
+  return [header.toBase64Url(), ...names.map((name) => encodeSection(name, sections[name]!))].join('~');
+}
+
+/**
+ * Decode a GPP string
+ * Throws on malformed input
+ */
+export function decodeGppString(gppString: string): DecodedGppString {
+  try {
+    const [headerSegment, ...encodedSections] = gppString.split('~');
+    const header = BitReader.fromBase64Url(headerSegment);
+
+    const type = header.readInt(6);
+    if (type !== GPP_HEADER_TYPE) {
+      throw new Error(`unexpected header type ${type}`);
+    }
+    const version = header.readInt(6);
+    if (version !== GPP_VERSION) {
+      throw new Error(`unsupported version ${version}`);
+    }
+
+    const sectionIds = readFibonacciRange(header);
+    if (sectionIds.length !== encodedSections.length) {
+      throw new Error(`header lists ${sectionIds.length} sections but ${encodedSections.length} are present`);
+    }
+
+    const sections: GppSections = {};
+    sectionIds.forEach((id, index) => {
+      const name = getGppSectionName(id);
+      if (name) {
+        sections[name] = decodeSection(name, encodedSections[index]);
+      }
+    });
+
+    return { sectionIds, sections };
+  } catch (error) {
+    throw new Error(`Invalid GPP string: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Derive US section fields from a consent state or default preferences
+ */
+export function consentStateToGppSections(
+  state: ConsentState | ConsentPreferences | null,
+  options: GppSectionOptions = {},
+  gpc: boolean = false
+): GppSections {
+  const mapping = { ...DEFAULT_GPP_MAPPING, ...options.mapping };
+  const notices = options.notices ?? DEFAULT_NOTICES;
+  const honorGpc = options.honorGpc ?? true;
+
+  const optedOut = (categories: ConsentCategory[]) =>
+    (honorGpc && gpc) ||
+    categories.some((category) => category !== 'essential' && state?.[category] !== true);
+
+  const values: Record<string, number> = {
+    SaleOptOut: optedOut(mapping.sale) ? 1 : 2,
+    SharingOptOut: optedOut(mapping.sharing) ? 1 : 2,
+    TargetedAdvertisingOptOut: optedOut(mapping.targetedAdvertising) ? 1 : 2,
+    MspaCoveredTransaction: options.mspaCoveredTransaction ? 1 : 2,
+    MspaOptOutOptionMode: options.mspaCoveredTransaction
+      ? (options.mspaMode ?? 'opt-out-option') === 'opt-out-option' ? 1 : 2
+      : 0,
+    MspaServiceProviderMode: options.mspaCoveredTransaction
+      ? options.mspaMode === 'service-provider' ? 1 : 2
+      : 0,
+  };
+  for (const [notice, field] of Object.entries(NOTICE_FIELDS)) {
+    const given = notices[notice as keyof typeof notices];
+    values[field] = given === undefined ? 0 : given ? 1 : 2;
+  }
+
+  const sections: GppSections = {};
+  for (const name of options.sections ?? ['usnat']) {
+    if (!Object.prototype.hasOwnProperty.call(GPP_SECTIONS, name)) {
+      throw new Error(`Unsupported GPP section: ${name}`);
+    }
+    const definition = GPP_SECTIONS[name];
+
+    const section: GppSection = { Version: definition.version };
+    for (const field of definition.fields) {
+      section[field.name] = field.count ? new Array(field.count).fill(0) : values[field.name] ?? 0;
+    }
+    if (definition.gpc) {
+      section.Gpc = gpc;
+    }
+    sections[name] = section;
+  }
+
+  return sections;
+}
+
+function encodeSection(name: GppSectionName, section: GppSection): string {
+  const definition = GPP_SECTIONS[name];
+  const core = new BitWriter();
+  core.writeInt(section.Version ?? definition.version, 6);
+
+  for (const field of definition.fields) {
+    const value = section[field.name];
+    if (field.count) {
+      const list = Array.isArray(value) ? value : [];
+      for (let i = 0; i < field.count; i++) {
+        core.writeInt(list[i] ?? 0, 2);
+      }
+    } else {
+      core.writeInt(typeof value === 'number' ? value : 0, 2);
+    }
+  }
+
+  let encoded = core.toBase64Url();
+  if (definition.gpc && section.Gpc !== undefined) {
+    const gpc = new BitWriter();
+    gpc.writeInt(GPC_SUBSECTION_TYPE, 2);
+    gpc.writeBool(section.Gpc);
+    encoded += `.${gpc.toBase64Url()}`;
+  }
+  return encoded;
+}
+
+function decodeSection(name: GppSectionName, encoded: string): GppSection {
+  const definition = GPP_SECTIONS[name];
+  const [coreSegment, ...subsections] = encoded.split('.');
+  const core = BitReader.fromBase64Url(coreSegment);
+
+  const section: GppSection = { Version: core.readInt(6) };
+  if (section.Version !== definition.version) {
+    throw new Error(`unsupported ${name} version ${section.Version}`);
+  }
+
+  for (const field of definition.fields) {
+    if (field.count) {
+      section[field.name] = Array.from({ length: field.count }, () => core.readInt(2));
+    } else {
+      section[field.name] = core.readInt(2);
+    }
+  }
+
+  for (const subsection of subsections) {
+    const reader = BitReader.fromBase64Url(subsection);
+    if (definition.gpc && reader.readInt(2) === GPC_SUBSECTION_TYPE) {
+      section.Gpc = reader.readBool();
+    }
+  }
+
+  return section;
+}
+
+/**
+ * Write sorted ids as Fibonacci-coded ranges (header SectionIds field)
+ */
+function writeFibonacciRange(writer: BitWriter, ids: number[]): void {
+  const ranges: Array<[number, number]> = [];
+  for (const id of ids) {
+    const last = ranges[ranges.length - 1];
+    if (last && id === last[1] + 1) {
+      last[1] = id;
+    } else {
+      ranges.push([id, id]);
+    }
+  }
+
+  writer.writeInt(ranges.length, 12);
+  let previous = 0;
+  for (const [start, end] of ranges) {
+    writer.writeBool(start !== end);
+    writer.writeFibonacci(start - previous);
+    if (start !== end) {
+      writer.writeFibonacci(end - start);
+    }
+    previous = end;
+  }
+}
+
+function readFibonacciRange(reader: BitReader): number[] {
+  const count = reader.readInt(12);
+  const ids: number[] = [];
+  let previous = 0;
+  for (let i = 0; i < count; i++) {
+    const isRange = reader.readBool();
+    const start = previous + reader.readFibonacci();
+    const end = isRange ? start + reader.readFibonacci() : start;
+    for (let id = start; id <= end; id++) {
+      ids.push(id);
+    }
+    previous = end;
+  }
+  return ids;
+}
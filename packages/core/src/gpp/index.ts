@@ -0,0 +1,36 @@
+/**
+ * IAB Global Privacy Platform support (US state sections)
+ */
+
+export {
+  encodeGppString,
+  decodeGppString,
+  consentStateToGppSections,
+  getGppSectionName,
+  GPP_SECTIONS,
+  DEFAULT_GPP_MAPPING,
+} from './gppString';
+
+export type {
+  GppSectionName,
+  GppSection,
+  GppSections,
+  GppMapping,
+  GppSectionOptions,
+  DecodedGppString,
+} from './gppString';
+
+export { installGppApi } from './cmpApi';
+
+export type {
+  GppApi,
+  GppApiOptions,
+  GppApiCallback,
+  GppApiReturn,
+  GppApiFunction,
+  GppEvent,
+  GppEventName,
+  GppPingReturn,
+  GppSignalStatus,
+  GppDisplayStatus,
+} from './cmpApi';
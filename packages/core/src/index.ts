@@ -12,17 +12,38 @@ export type {
   ConsentPreferences,
   ConsentChangeListener,
   StorageAdapter,
+  StorageSetOptions,
+  ConsentStorageFormat,
   ConsentManagerConfig,
   ConsentDebugInfo,
+  ConsentSource,
+  PrivacySignal,
+  PrivacySignalConfig,
+  CategoryDefinition,
+  CategoryRegistry,
+  CookieDeclaration,
+  VendorDeclaration,
+  ConsentSigner,
+  ConsentSignature,
+  ConsentKeyProvider,
+  ConsentEncryptionKey,
+  ConsentSyncConfig,
+  ConsentModel,
+  BannerVariant,
+  RegulationProfile,
+  ResolvedRegulationProfile,
 } from './types';
 
 export {
   LocalStorageAdapter,
   CookieStorageAdapter,
   MemoryStorageAdapter,
+  IndexedDBStorageAdapter,
+  CookieSizeError,
+  MAX_COOKIE_SIZE,
 } from './storage';
 
-export type { CookieStorageOptions } from './storage';
+export type { CookieStorageOptions, IndexedDBStorageOptions, IndexedDBStorageBackend } from './storage';
 
 export {
   validateConsentState,
@@ -30,13 +51,146 @@ export {
   validateStorageKey,
   validateDuration,
   validateVersion,
+  validatePrivacySignals,
+  validateCategoryRegistry,
+  validateRegulationProfiles,
+  validateRegion,
+  validateLocale,
 } from './validation';
 
+export { DEFAULT_CATEGORY_DEFINITIONS, formatCategoryName } from './categories';
+
+export {
+  DEFAULT_REGULATION_PROFILES,
+  findProfileForRegion,
+  resolveRegulationProfile,
+} from './regulations';
+
+export { detectPrivacySignal } from './privacySignals';
+
+export {
+  DEFAULT_LOCALE,
+  getLocaleFallbackChain,
+  resolveLocale,
+  getDocumentLocale,
+  getBrowserLocales,
+} from './locale';
+
+export { defaultTranslations, getTranslation } from './translations';
+
+export type { ConsentTranslation } from './translations';
+
+export { installScriptBlocker } from './scriptBlocker';
+
+export type { ScriptBlocker, ScriptBlockerOptions } from './scriptBlocker';
+
+export { installConsentCleanup } from './cleanup';
+
+export type { ConsentCleanup, ConsentCleanupOptions, ConsentCleanupReport } from './cleanup';
+
 export {
   signConsentState,
   verifyConsentState,
   generateSignature,
   verifySignature,
+  getSignatureFormat,
+  SIGNATURE_VERSION,
   getOrCreateSecret,
+  createSecretSigner,
+  createKeyRingSigner,
+  createRemoteSigner,
+  SignerUnavailableError,
+  canonicalizeConsentState,
   type SignedConsentState,
+  type SignatureFormat,
 } from './crypto';
+
+export {
+  encryptConsentRecord,
+  decryptConsentRecord,
+  isEncryptedConsent,
+  createKeyRingKeyProvider,
+  ENCRYPTION_VERSION,
+} from './encryption';
+
+export {
+  encodeCompactConsent,
+  decodeCompactConsent,
+  isCompactConsent,
+  toCompactPrecision,
+  CompactCategoryMismatchError,
+  COMPACT_CONSENT_VERSION,
+} from './compact';
+
+export {
+  encodeTCString,
+  decodeTCString,
+  consentStateToTCModel,
+  tcModelToConsentPreferences,
+  installTcfApi,
+  DEFAULT_TCF_PURPOSE_MAPPING,
+  TCF_PURPOSE_COUNT,
+  TCFRestrictionType,
+} from './tcf';
+
+export type {
+  TCModel,
+  TCModelOptions,
+  TCFChoices,
+  TCFPurposeMapping,
+  TCPublisherRestriction,
+  TCData,
+  TCFApi,
+  TCFApiOptions,
+  TCFApiCallback,
+  TCFApiReturn,
+  TCFApiFunction,
+  TCFEventStatus,
+  TCFPingReturn,
+} from './tcf';
+
+export {
+  encodeGppString,
+  decodeGppString,
+  consentStateToGppSections,
+  getGppSectionName,
+  installGppApi,
+  GPP_SECTIONS,
+  DEFAULT_GPP_MAPPING,
+} from './gpp';
+
+export type {
+  GppSectionName,
+  GppSection,
+  GppSections,
+  GppMapping,
+  GppSectionOptions,
+  DecodedGppString,
+  GppApi,
+  GppApiOptions,
+  GppApiCallback,
+  GppApiReturn,
+  GppApiFunction,
+  GppEvent,
+  GppEventName,
+  GppPingReturn,
+  GppSignalStatus,
+  GppDisplayStatus,
+} from './gpp';
+
+export {
+  installGoogleConsentMode,
+  mapConsentStateToSignals,
+  DEFAULT_CONSENT_MODE_MAPPING,
+} from './consentMode';
+
+export type {
+  ConsentModeSignal,
+  ConsentModeValue,
+  ConsentModeSignals,
+  ConsentModeMapping,
+  ConsentModeRegionDefault,
+  GoogleConsentMode,
+  GoogleConsentModeOptions,
+  GtagFunction,
+} from './consentMode';
@@ -0,0 +1,65 @@
+/**
+ * Locale detection and fallback resolution
+ */
+
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * Fallback chain for a locale, most specific first
+ * e.g. 'zh-Hant-TW' -> ['zh-Hant-TW', 'zh-Hant', 'zh']
+ */
+export function getLocaleFallbackChain(locale: string): string[] {
+  const parts = locale.replace(/_/g, '-').split('-').filter(Boolean);
+  const chain: string[] = [];
+  for (let i = parts.length; i > 0; i--) {
+    chain.push(parts.slice(0, i).join('-'));
+  }
+  return chain;
+}
+
+/**
+ * Pick the best available locale for the requested ones
+ * Each requested locale's fallback chain is tried in order, then defaultLocale's.
+ * Matching is case-insensitive; the available spelling is returned.
+ */
+export function resolveLocale(
+  available: string[],
+  requested: string[],
+  defaultLocale: string = DEFAULT_LOCALE
+): string {
+  const byLowerCase = new Map(available.map((locale) => [locale.toLowerCase(), locale]));
+
+  for (const locale of [...requested, defaultLocale]) {
+    for (const candidate of getLocaleFallbackChain(locale)) {
+      const match = byLowerCase.get(candidate.toLowerCase());
+      if (match) {
+        return match;
+      }
+    }
+  }
+
+  return available[0] ?? defaultLocale;
+}
+
+/**
+ * The page language from <html lang>, if set
+ */
+export function getDocumentLocale(): string | null {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+  return document.documentElement.lang || null;
+}
+
+/**
+ * The visitor's preferred languages, most preferred first
+ */
+export function getBrowserLocales(): string[] {
+  if (typeof navigator === 'undefined') {
+    return [];
+  }
+  if (navigator.languages?.length) {
+    return [...navigator.languages];
+  }
+  return navigator.language ? [navigator.language] : [];
+}
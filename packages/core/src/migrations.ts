@@ -0,0 +1,70 @@
+/**
+ * Consent version migrations
+ * Pure upgrade logic shared by ConsentManager and the server entry point
+ */
+
+import type { ConsentMigration, ConsentState } from './types';
+import { validateConsentState } from './validation';
+
+export interface MigrationContext {
+  /** Target (current) version */
+  version: number;
+  /** Migrations keyed by the version they upgrade from */
+  migrations: Record<number, ConsentMigration>;
+  /** Custom categories of the target version */
+  customCategories: string[];
+  /** Categories that are always granted */
+  requiredCategories: string[];
+}
+
+/**
+ * Run migrations from the state's version up to the target version
+ * Categories new to the target version are denied and marked undecided
+ */
+export function migrateConsentState(
+  state: ConsentState,
+  context: MigrationContext
+): { success: true; data: ConsentState } | { success: false; error: string } {
+  if (state.version > context.version) {
+    return { success: false, error: `Cannot downgrade from version ${state.version}` };
+  }
+
+  let migrated: ConsentState = { ...state };
+  while (migrated.version < context.version) {
+    const fromVersion = migrated.version;
+    const migrate = context.migrations[fromVersion];
+    if (!migrate) {
+      return { success: false, error: `No migration registered for version ${fromVersion}` };
+    }
+
+    try {
+      migrated = { ...migrate({ ...migrated }), version: fromVersion + 1 };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: `Migration from version ${fromVersion} failed: ${message}` };
+    }
+  }
+
+  const categories = ['analytics', 'marketing', ...context.customCategories];
+  const undecided = new Set(Array.isArray(migrated.undecided) ? migrated.undecided : []);
+  for (const category of categories) {
+    if (typeof migrated[category] === 'boolean') {
+      continue;
+    }
+    const required = context.requiredCategories.includes(category);
+    migrated[category] = required;
+    if (!required) {
+      undecided.add(category);
+    }
+  }
+  if (undecided.size > 0) {
+    migrated.undecided = Array.from(undecided);
+  }
+
+  const validation = validateConsentState(migrated, context.customCategories);
+  if (!validation.success) {
+    return { success: false, error: `Invalid consent state after migration: ${validation.error}` };
+  }
+
+  return { success: true, data: validation.data as ConsentState };
+}
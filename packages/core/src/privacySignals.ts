@@ -0,0 +1,52 @@
+/**
+ * Browser privacy signal detection
+ * Global Privacy Control (GPC) and Do Not Track (DNT)
+ */
+
+import type { PrivacySignal } from './types';
+
+/**
+ * Non-standard or not yet typed navigator and window properties
+ */
+interface PrivacySignalNavigator {
+  globalPrivacyControl?: boolean | string;
+  doNotTrack?: string | null;
+  msDoNotTrack?: string;
+}
+
+interface PrivacySignalWindow {
+  doNotTrack?: string;
+}
+
+/**
+ * Detect an active privacy signal, checking the honored signals in order
+ * Returns null outside the browser or when no honored signal is set
+ */
+export function detectPrivacySignal(
+  honor: PrivacySignal[] = ['gpc']
+): PrivacySignal | null {
+  if (typeof navigator === 'undefined') {
+    return null;
+  }
+
+  const nav: PrivacySignalNavigator = navigator;
+
+  for (const signal of honor) {
+    if (signal === 'gpc') {
+      // Spec value is a boolean; some extensions expose '1'
+      if (nav.globalPrivacyControl === true || nav.globalPrivacyControl === '1') {
+        return 'gpc';
+      }
+    } else if (signal === 'dnt') {
+      const dnt =
+        nav.doNotTrack ??
+        (typeof window !== 'undefined' ? (window as PrivacySignalWindow).doNotTrack : undefined) ??
+        nav.msDoNotTrack;
+      if (dnt === '1' || dnt === 'yes') {
+        return 'dnt';
+      }
+    }
+  }
+
+  return null;
+}
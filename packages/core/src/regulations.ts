@@ -0,0 +1,84 @@
+/**
+ * Jurisdiction-aware regulation profiles
+ *
+ * Selects opt-in, opt-out or notice-only consent rules from a region code
+ * supplied by the host (e.g. an edge geo header).
+ */
+
+import type { BannerVariant, ConsentModel, RegulationProfile, ResolvedRegulationProfile } from './types';
+
+/**
+ * EU member states, the rest of the EEA, the UK and Switzerland
+ */
+const GDPR_REGIONS = [
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+  'IS', 'LI', 'NO',
+  'GB', 'CH',
+];
+
+/**
+ * Built-in profiles; override or extend them with the `profiles` config option
+ */
+export const DEFAULT_REGULATION_PROFILES: Record<string, RegulationProfile> = {
+  gdpr: { model: 'opt-in', regions: GDPR_REGIONS },
+  us: { model: 'opt-out', regions: ['US'] },
+  notice: { model: 'notice-only', regions: [] },
+};
+
+export const DEFAULT_PROFILE_NAME = 'gdpr';
+
+const MODEL_BANNERS: Record<ConsentModel, BannerVariant> = {
+  'opt-in': 'opt-in',
+  'opt-out': 'opt-out',
+  'notice-only': 'notice',
+};
+
+/**
+ * Find the profile for a region
+ * Exact codes ('US-CA') win over country codes ('US'); custom profiles win over built-ins.
+ * Returns null when nothing matches.
+ */
+export function findProfileForRegion(
+  region: string,
+  profiles: Record<string, RegulationProfile>
+): string | null {
+  const code = region.toUpperCase();
+  const country = code.split('-')[0];
+
+  const matches = (candidate: string) =>
+    Object.keys(profiles).find((name) =>
+      (profiles[name].regions ?? []).some((entry) => entry.toUpperCase() === candidate)
+    ) ?? null;
+
+  return matches(code) ?? (country !== code ? matches(country) : null);
+}
+
+/**
+ * Resolve a profile's defaults for the given optional categories
+ */
+export function resolveRegulationProfile(
+  name: string,
+  profile: RegulationProfile,
+  optionalCategories: string[]
+): ResolvedRegulationProfile {
+  const grantedByDefault = profile.model !== 'opt-in';
+
+  const defaults: Record<string, boolean> = {};
+  for (const category of optionalCategories) {
+    defaults[category] = profile.defaults?.[category] ?? grantedByDefault;
+  }
+
+  return {
+    name,
+    model: profile.model,
+    regions: [...(profile.regions ?? [])],
+    defaults,
+    revocable: profile.revocable
+      ? optionalCategories.filter((category) => profile.revocable!.includes(category))
+      : profile.model === 'notice-only'
+        ? []
+        : [...optionalCategories],
+    banner: profile.banner ?? MODEL_BANNERS[profile.model],
+  };
+}
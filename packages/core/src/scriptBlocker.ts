@@ -0,0 +1,197 @@
+/**
+ * Automatic script unblocking
+ *
+ * Activates `<script type="text/plain" data-consent-category="...">` tags
+ * once their categories are granted.
+ */
+
+import type { ConsentManager } from './ConsentManager';
+
+const DEFAULT_CATEGORY_ATTRIBUTE = 'data-consent-category';
+const ORIGINAL_TYPE_ATTRIBUTE = 'data-consent-type';
+const ACTIVATED_ATTRIBUTE = 'data-consent-activated';
+const DEFAULT_LOAD_TIMEOUT_MS = 10000;
+
+export interface ScriptBlockerOptions {
+  /**
+   * Element to search for blocked scripts (default: document)
+   */
+  root?: ParentNode;
+
+  /**
+   * Attribute holding the required categories (default: 'data-consent-category')
+   * Multiple categories may be separated by spaces or commas; all must be granted
+   */
+  attribute?: string;
+
+  /**
+   * Watch for blocked scripts added after installation (default: true)
+   */
+  observe?: boolean;
+
+  /**
+   * Milliseconds to wait for an external script before running the next one (default: 10000)
+   * Covers scripts that never fire load or error
+   */
+  loadTimeout?: number;
+
+  /**
+   * Called after each script is activated
+   */
+  onActivate?: (script: HTMLScriptElement, categories: string[]) => void;
+}
+
+export interface ScriptBlocker {
+  /** Activate any pending scripts whose categories are granted */
+  activate(): Promise<void>;
+  /** Stop listening to the manager and DOM */
+  destroy(): void;
+}
+
+/**
+ * Install the script blocker, driven by ConsentManager.onChange
+ * Scripts are activated in document order; a script never runs twice
+ */
+export function installScriptBlocker(
+  manager: ConsentManager,
+  options: ScriptBlockerOptions = {}
+): ScriptBlocker {
+  const attribute = options.attribute ?? DEFAULT_CATEGORY_ATTRIBUTE;
+  const loadTimeout = options.loadTimeout ?? DEFAULT_LOAD_TIMEOUT_MS;
+  const activated = new WeakSet<Element>();
+  let queue: Promise<void> = Promise.resolve();
+  let destroyed = false;
+
+  const isGranted = (category: string) =>
+    category === 'essential' || manager.hasConsentForSync(category);
+
+  const activate = (): Promise<void> => {
+    if (destroyed || typeof document === 'undefined') {
+      return queue;
+    }
+
+    const root = options.root ?? document;
+    const pending = Array.from(
+      root.querySelectorAll<HTMLScriptElement>(`script[type="text/plain"][${attribute}]`)
+    ).filter((script) => {
+      if (activated.has(script) || script.hasAttribute(ACTIVATED_ATTRIBUTE)) {
+        return false;
+      }
+      return parseCategories(script.getAttribute(attribute)).every(isGranted);
+    });
+
+    // Mark synchronously so overlapping calls cannot queue the same tag twice
+    for (const script of pending) {
+      activated.add(script);
+      script.setAttribute(ACTIVATED_ATTRIBUTE, 'true');
+    }
+
+    // Chain onto earlier activations to keep execution in document order
+    for (const script of pending) {
+      queue = queue.then(() => runScript(script, attribute, loadTimeout, options.onActivate));
+    }
+    return queue;
+  };
+
+  const unsubscribe = manager.onChange(() => {
+    activate();
+  });
+
+  // Stored consent is loaded without notifying listeners
+  manager.getConsent().then(() => {
+    activate();
+  });
+
+  let observer: MutationObserver | null = null;
+  if ((options.observe ?? true) && typeof MutationObserver !== 'undefined' && typeof document !== 'undefined') {
+    observer = new MutationObserver(() => {
+      activate();
+    });
+    observer.observe(options.root ?? document, { childList: true, subtree: true });
+  }
+
+  return {
+    activate,
+    destroy: () => {
+      destroyed = true;
+      unsubscribe();
+      observer?.disconnect();
+    },
+  };
+}
+
+function parseCategories(value: string | null): string[] {
+  return (value ?? '').split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Replace a blocked script with an executable clone
+ * Resolves once an external script has loaded, failed or timed out so the next one waits
+ */
+function runScript(
+  original: HTMLScriptElement,
+  attribute: string,
+  loadTimeout: number,
+  onActivate?: ScriptBlockerOptions['onActivate']
+): Promise<void> {
+  return new Promise((settle) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resolve = () => {
+      clearTimeout(timer);
+      settle();
+    };
+
+    if (!original.parentNode) {
+      resolve();
+      return;
+    }
+
+    const script = document.createElement('script');
+    for (const { name, value } of Array.from(original.attributes)) {
+      if (name !== 'type' && name !== ORIGINAL_TYPE_ATTRIBUTE) {
+        script.setAttribute(name, value);
+      }
+    }
+
+    // Restore an explicit type such as "module"
+    const originalType = original.getAttribute(ORIGINAL_TYPE_ATTRIBUTE);
+    if (originalType) {
+      script.type = originalType;
+    }
+
+    // Browsers hide the nonce attribute after parsing; copy the property
+    if (original.nonce) {
+      script.nonce = original.nonce;
+    }
+
+    if (script.src) {
+      // Dynamically inserted scripts are async by default
+      script.async = original.hasAttribute('async');
+      script.addEventListener('load', () => resolve(), { once: true });
+      script.addEventListener('error', () => {
+        console.error('[ScriptBlocker] Failed to load script:', script.src);
+        resolve();
+      }, { once: true });
+      timer = setTimeout(() => {
+        console.warn('[ScriptBlocker] Timed out waiting for script:', script.src);
+        settle();
+      }, loadTimeout);
+    } else {
+      script.text = original.text;
+    }
+
+    try {
+      original.replaceWith(script);
+      onActivate?.(script, parseCategories(original.getAttribute(attribute)));
+    } catch (error) {
+      console.error('[ScriptBlocker] Error activating script:', error);
+      resolve();
+      return;
+    }
+
+    // Async external scripts and inline scripts don't block the queue
+    if (!script.src || script.async) {
+      resolve();
+    }
+  });
+}
@@ -0,0 +1,501 @@
+/**
+ * @kev1nramos/cookie-consent-core/server
+ *
+ * Read, verify and write consent cookies from server and edge runtimes
+ * (Next.js middleware, Cloudflare Workers) without document.cookie
+ */
+
+import type {
+  ConsentManagerConfig,
+  ConsentKeyProvider,
+  ConsentPreferences,
+  ConsentSigner,
+  ConsentState,
+  ConsentStorageFormat,
+} from './types';
+import type { CookieStorageOptions } from './storage/cookieStorage';
+import {
+  DEFAULT_MAX_COOKIE_CHUNKS,
+  getChunkName,
+  getCookieName,
+  parseCookies,
+  readCookieValue,
+  serializeChunkedCookie,
+  serializeCookie,
+  validateCookieOptions,
+} from './storage/cookieStorage';
+import {
+  validateConsentState,
+  validateCategoryRegistry,
+  validateCustomCategories,
+  validatePreviousCustomCategories,
+  validateDuration,
+  validateMigrations,
+  validateStorageKey,
+  validateVersion,
+  getStoredCategoryNames,
+} from './validation';
+import {
+  signConsentState,
+  verifyConsentState,
+  canonicalizeConsentState,
+  type SignedConsentState,
+} from './crypto';
+import { migrateConsentState } from './migrations';
+import {
+  CompactCategoryMismatchError,
+  parseStoredConsent,
+  serializeStoredConsent,
+  toCompactPrecision,
+} from './compact';
+import { decryptConsentRecord, encryptConsentRecord, isEncryptedConsent } from './encryption';
+import { BUILT_IN_CATEGORIES } from './categories';
+
+const DEFAULT_STORAGE_KEY = 'cookie_consent';
+const DEFAULT_CONSENT_VERSION = 1;
+const DEFAULT_CONSENT_DURATION_DAYS = 365;
+
+/**
+ * Options for reading and writing consent on the server
+ * Mirrors the ConsentManagerConfig used on the client
+ */
+export interface ServerConsentOptions
+  extends Pick<
+    ConsentManagerConfig,
+    | 'storageKey'
+    | 'storageFormat'
+    | 'version'
+    | 'duration'
+    | 'customCategories'
+    | 'previousCustomCategories'
+    | 'categories'
+    | 'migrations'
+  > {
+  /**
+   * HMAC secret for verifying and signing `__signature`
+   * Without a secret, signatures are ignored on read and omitted on write
+   */
+  secret?: string;
+
+  /**
+   * Signer for verifying and signing `__signature` (takes precedence over `secret`)
+   * Use the same key ring as the client's remote signer endpoint
+   */
+  signer?: ConsentSigner;
+
+  /**
+   * Key provider for encrypted records, sharing keys with the client's `encryption` option
+   * Without one, encrypted records are reported as invalid and writes are not encrypted
+   */
+  encryption?: ConsentKeyProvider;
+}
+
+export type ServerConsentStatus =
+  | 'valid'
+  | 'missing'
+  | 'invalid'
+  | 'tampered'
+  | 'expired'
+  | 'version-mismatch'
+  | 'unavailable';
+
+/**
+ * Result of reading consent on the server
+ */
+export type ServerConsentResult =
+  | { status: 'valid'; state: ConsentState; migrated: boolean }
+  | { status: Exclude<ServerConsentStatus, 'valid'>; state: null; error?: string };
+
+interface ResolvedServerOptions {
+  storageKey: string;
+  storageFormat: ConsentStorageFormat;
+  version: number;
+  duration: number;
+  customCategories: string[];
+  previousCustomCategories: string[][];
+  requiredCategories: string[];
+  migrations: NonNullable<ConsentManagerConfig['migrations']>;
+  signer?: string | ConsentSigner;
+  encryption?: ConsentKeyProvider;
+}
+
+/**
+ * Validate options the same way the ConsentManager constructor does
+ */
+function resolveOptions(options: ServerConsentOptions): ResolvedServerOptions {
+  const storageKey = validateStorageKey(options.storageKey ?? DEFAULT_STORAGE_KEY);
+  if (!storageKey.success) {
+    throw new Error(`Invalid storage key: ${storageKey.error}`);
+  }
+
+  const storageFormat = options.storageFormat ?? 'json';
+  if (storageFormat !== 'json' && storageFormat !== 'compact') {
+    throw new Error(`Invalid storage format: "${storageFormat}" must be 'json' or 'compact'`);
+  }
+
+  const version = validateVersion(options.version ?? DEFAULT_CONSENT_VERSION);
+  if (!version.success) {
+    throw new Error(`Invalid version: ${version.error}`);
+  }
+
+  const duration = validateDuration(options.duration ?? DEFAULT_CONSENT_DURATION_DAYS);
+  if (!duration.success) {
+    throw new Error(`Invalid duration: ${duration.error}`);
+  }
+
+  const registry = validateCategoryRegistry(options.categories ?? {});
+  if (!registry.success) {
+    throw new Error(`Invalid category registry: ${registry.error}`);
+  }
+
+  const customCategories = [...(options.customCategories ?? [])];
+  for (const name of Object.keys(registry.data)) {
+    if (!(BUILT_IN_CATEGORIES as readonly string[]).includes(name) && !customCategories.includes(name)) {
+      customCategories.push(name);
+    }
+  }
+  const categories = validateCustomCategories(customCategories);
+  if (!categories.success) {
+    throw new Error(`Invalid custom categories: ${categories.error}`);
+  }
+
+  const previousCategories = validatePreviousCustomCategories(options.previousCustomCategories ?? []);
+  if (!previousCategories.success) {
+    throw new Error(`Invalid previous custom categories: ${previousCategories.error}`);
+  }
+
+  const migrations = validateMigrations(options.migrations ?? {}, version.data);
+  if (!migrations.success) {
+    throw new Error(`Invalid migrations: ${migrations.error}`);
+  }
+
+  return {
+    storageKey: storageKey.data,
+    storageFormat,
+    version: version.data,
+    duration: duration.data,
+    customCategories: categories.data,
+    previousCustomCategories: previousCategories.data,
+    requiredCategories: Object.keys(registry.data).filter((name) => registry.data[name].required),
+    migrations: migrations.data,
+    signer: options.signer ?? options.secret,
+    encryption: options.encryption,
+  };
+}
+
+/**
+ * Verify a raw stored consent value (the JSON or compact record written by a storage adapter)
+ * Runs the same pipeline as ConsentManager: integrity, validation, migrations, expiry
+ */
+export async function verifyStoredConsent(
+  stored: string | null | undefined,
+  options: ServerConsentOptions = {}
+): Promise<ServerConsentResult> {
+  const config = resolveOptions(options);
+
+  if (!stored) {
+    return { status: 'missing', state: null };
+  }
+
+  let record = stored;
+  if (isEncryptedConsent(stored)) {
+    if (!config.encryption) {
+      return { status: 'invalid', state: null, error: 'Stored consent is encrypted and no key provider was given' };
+    }
+    const decrypted = await decryptConsentRecord(stored, config.encryption, config.storageKey);
+    if (decrypted === null) {
+      return { status: 'tampered', state: null, error: 'Decryption failed' };
+    }
+    record = decrypted;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseStoredConsent(
+      record,
+      getCategoryNames(config),
+      config.previousCustomCategories.map((categories) => [...BUILT_IN_CATEGORIES, ...categories])
+    ).data;
+  } catch (error) {
+    // The client asks again for records from an unknown category list
+    if (error instanceof CompactCategoryMismatchError) {
+      return { status: 'version-mismatch', state: null, error: error.message };
+    }
+    return { status: 'invalid', state: null, error: 'Stored consent is not valid JSON or compact consent' };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { status: 'invalid', state: null, error: 'Stored consent must be an object' };
+  }
+
+  let candidate: unknown;
+  if (config.signer) {
+    const verification = await verifyConsentState(parsed as SignedConsentState, config.signer);
+    if (verification.unavailable) {
+      return { status: 'unavailable', state: null, error: 'Signer could not verify the signature' };
+    }
+    if (!verification.valid || !verification.state) {
+      return { status: 'tampered', state: null, error: 'Integrity verification failed' };
+    }
+    candidate = verification.state;
+  } else {
+    const { __signature, __keyId, ...unsigned } = parsed as SignedConsentState;
+    candidate = unsigned;
+  }
+
+  const initial = validateConsentState(candidate, getStoredCategoryNames(candidate));
+  if (!initial.success) {
+    return { status: 'invalid', state: null, error: initial.error };
+  }
+  let state = initial.data as ConsentState;
+
+  let migrated = false;
+  if (state.version !== config.version) {
+    const migration = migrateConsentState(state, {
+      version: config.version,
+      migrations: config.migrations,
+      customCategories: config.customCategories,
+      requiredCategories: config.requiredCategories,
+    });
+    if (!migration.success) {
+      return { status: 'version-mismatch', state: null, error: migration.error };
+    }
+    state = migration.data;
+    migrated = true;
+  }
+
+  const validation = validateConsentState(state, config.customCategories);
+  if (!validation.success) {
+    return { status: 'invalid', state: null, error: validation.error };
+  }
+  state = validation.data as ConsentState;
+
+  if (Date.now() > state.expiresAt) {
+    return { status: 'expired', state: null };
+  }
+
+  // Plain object, so it can be passed to client components as initialState
+  return { status: 'valid', state: { ...state }, migrated };
+}
+
+/**
+ * Read consent from a raw Cookie header
+ * Reassembles values chunked by CookieStorageAdapter; pass hostPrefix if the client uses it
+ */
+export async function readConsentFromCookieHeader(
+  cookieHeader: string | null | undefined,
+  options: ServerConsentOptions & Pick<CookieStorageOptions, 'hostPrefix'> = {}
+): Promise<ServerConsentResult> {
+  const name = getCookieName(options.storageKey ?? DEFAULT_STORAGE_KEY, options);
+  const stored = cookieHeader ? readCookieValue(parseCookies(cookieHeader), name) ?? undefined : undefined;
+  return verifyStoredConsent(stored, options);
+}
+
+/**
+ * Read consent from a Fetch API Request (middleware, Workers, route handlers)
+ */
+export async function readConsentFromRequest(
+  request: Request,
+  options: ServerConsentOptions & Pick<CookieStorageOptions, 'hostPrefix'> = {}
+): Promise<ServerConsentResult> {
+  return readConsentFromCookieHeader(request.headers.get('cookie'), options);
+}
+
+/**
+ * Build a consent state from preferences, as ConsentManager would when saving
+ */
+export function createConsentState(
+  preferences: ConsentPreferences,
+  options: ServerConsentOptions = {}
+): ConsentState {
+  const config = resolveOptions(options);
+  const timestamp = Date.now();
+
+  const state: ConsentState = {
+    version: config.version,
+    essential: true,
+    analytics: config.requiredCategories.includes('analytics') || preferences.analytics,
+    marketing: config.requiredCategories.includes('marketing') || preferences.marketing,
+    timestamp,
+    expiresAt: timestamp + config.duration * 24 * 60 * 60 * 1000,
+    source: 'user',
+  };
+
+  for (const category of config.customCategories) {
+    state[category] = config.requiredCategories.includes(category) || (preferences[category] ?? false);
+  }
+
+  // Match what the client reads back from a compact record
+  return config.storageFormat === 'compact' ? toCompactPrecision(state) : state;
+}
+
+/**
+ * Serialize a consent state as a Set-Cookie header value
+ * Max-Age follows the state's expiresAt; signs the state when a secret or signer is provided
+ * Throws CookieSizeError when the state needs more than one cookie (see serializeConsentCookies)
+ */
+export async function serializeConsentCookie(
+  state: ConsentState,
+  options: ServerConsentOptions & CookieStorageOptions = {}
+): Promise<string> {
+  const [cookie] = await serializeConsentCookies(state, { ...options, maxChunks: 1 });
+  return cookie;
+}
+
+/**
+ * Serialize a consent state as Set-Cookie header values, one per header
+ * Splits states over 4 KB across chunk cookies the way CookieStorageAdapter does,
+ * and expires chunk cookies left over from a longer state
+ */
+export async function serializeConsentCookies(
+  state: ConsentState,
+  options: ServerConsentOptions & CookieStorageOptions = {}
+): Promise<string[]> {
+  const config = resolveOptions(options);
+  const cookieOptions = resolveCookieOptions(options);
+
+  const validation = validateConsentState(state, config.customCategories);
+  if (!validation.success) {
+    throw new Error(`Invalid consent state: ${validation.error}`);
+  }
+
+  const stateToStore: ConsentState =
+    config.storageFormat === 'compact' ? toCompactPrecision(validation.data) : validation.data;
+  const valueToStore = config.signer ? await signConsentState(stateToStore, config.signer) : stateToStore;
+  let value = serializeStoredConsent(valueToStore, config.storageFormat, getCategoryNames(config));
+  if (config.encryption) {
+    value = await encryptConsentRecord(value, config.encryption, config.storageKey);
+  }
+
+  const name = getCookieName(config.storageKey, cookieOptions);
+  const maxAge = Math.max(0, Math.floor((state.expiresAt - Date.now()) / 1000));
+  const cookies = serializeChunkedCookie(name, value, { ...cookieOptions, maxAge });
+
+  // The request's chunk cookies are unknown here, so clear every unused slot
+  const usedChunks = cookies.length > 1 ? cookies.length - 1 : 0;
+  const maxChunks = cookieOptions.maxChunks ?? DEFAULT_MAX_COOKIE_CHUNKS;
+  for (let index = usedChunks; index < maxChunks && maxChunks > 1; index++) {
+    cookies.unshift(serializeCookie(getChunkName(name, index), '', { ...cookieOptions, maxAge: 0 }));
+  }
+  return cookies;
+}
+
+/**
+ * Serialize a Set-Cookie header value that deletes the consent cookie
+ * Chunk cookies left behind are ignored once the base cookie is gone
+ */
+export function serializeClearConsentCookie(
+  options: Pick<ServerConsentOptions, 'storageKey'> & CookieStorageOptions = {}
+): string {
+  const storageKey = validateStorageKey(options.storageKey ?? DEFAULT_STORAGE_KEY);
+  if (!storageKey.success) {
+    throw new Error(`Invalid storage key: ${storageKey.error}`);
+  }
+  const cookieOptions = resolveCookieOptions(options);
+  return serializeCookie(getCookieName(storageKey.data, cookieOptions), '', { ...cookieOptions, maxAge: 0 });
+}
+
+/**
+ * Categories in registry order, as ConsentManager.getCategories() returns them
+ */
+function getCategoryNames(config: ResolvedServerOptions): string[] {
+  return ['essential', 'analytics', 'marketing', ...config.customCategories];
+}
+
+function resolveCookieOptions(options: CookieStorageOptions): CookieStorageOptions {
+  const validation = validateCookieOptions(options);
+  if (!validation.success) {
+    throw new Error(`Invalid cookie options: ${validation.error}`);
+  }
+  return validation.data;
+}
+
+/**
+ * Body of a createRemoteSigner request, unchecked
+ */
+interface SignerRequestBody {
+  action?: unknown;
+  data?: unknown;
+  signature?: unknown;
+  keyId?: unknown;
+}
+
+/**
+ * Create a Fetch API handler for the client's createRemoteSigner endpoint
+ * Resolve the signer per request, e.g. from a key tied to an HttpOnly session cookie,
+ * so the signing key never reaches the browser
+ * Verification answers { valid } whenever it can decide; error statuses mean the client keeps its record
+ */
+export function createSignerRequestHandler(
+  getSigner: (request: Request) => ConsentSigner | Promise<ConsentSigner>
+): (request: Request) => Promise<Response> {
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+
+  return async (request) => {
+    if (request.method !== 'POST') {
+      return json({ error: 'Method not allowed' }, 405);
+    }
+
+    let body: SignerRequestBody | null;
+    try {
+      body = await request.json();
+    } catch {
+      return json({ error: 'Request body is not valid JSON' }, 400);
+    }
+
+    if (typeof body !== 'object' || body === null || typeof body.data !== 'string') {
+      return json({ error: 'Missing data to sign' }, 400);
+    }
+    const { action, data, signature, keyId } = body;
+
+    // Only sign canonical consent states, not arbitrary strings; such data never verifies
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      parsed = null;
+    }
+    const validation = validateConsentState(parsed, getStoredCategoryNames(parsed));
+    if (!validation.success || canonicalizeConsentState(parsed as ConsentState) !== data) {
+      return action === 'verify' ? json({ valid: false }) : json({ error: 'Data is not a consent state' }, 400);
+    }
+
+    try {
+      const signer = await getSigner(request);
+
+      if (action === 'sign') {
+        return json(await signer.sign(data));
+      }
+
+      if (action === 'verify') {
+        if (typeof signature !== 'string' || (keyId !== undefined && typeof keyId !== 'string')) {
+          return json({ error: 'Missing signature' }, 400);
+        }
+        const valid = await signer.verify(data, { signature, keyId });
+        return json({ valid });
+      }
+
+      return json({ error: 'Unknown action' }, 400);
+    } catch (error) {
+      console.error('[Server] Error handling signer request:', error);
+      return json({ error: 'Signer unavailable' }, 500);
+    }
+  };
+}
+
+export { createKeyRingSigner, createSecretSigner } from './crypto';
+export { createKeyRingKeyProvider } from './encryption';
+export type {
+  ConsentState,
+  ConsentPreferences,
+  ConsentSigner,
+  ConsentSignature,
+  ConsentKeyProvider,
+  ConsentEncryptionKey,
+} from './types';
+export type { CookieStorageOptions } from './storage/cookieStorage';
+export { CookieSizeError, MAX_COOKIE_SIZE } from './storage/cookieStorage';
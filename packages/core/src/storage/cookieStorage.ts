@@ -3,7 +3,7 @@
  * Works in both browser and edge runtime environments
  */
 
-import type { StorageAdapter } from '../types';
+import type { StorageAdapter, StorageSetOptions } from '../types';
 import { validateStorageKey } from '../validation';
 
 export interface CookieStorageOptions {
@@ -26,12 +26,248 @@ export interface CookieStorageOptions {
    * SameSite attribute (default: 'Lax')
    */
   sameSite?: 'Strict' | 'Lax' | 'None';
+
+  /**
+   * Partitioned attribute (CHIPS), for consent stored inside third-party embeds
+   * Requires secure
+   */
+  partitioned?: boolean;
+
+  /**
+   * Prefix the cookie name with `__Host-`, so it can only be set by this host over HTTPS
+   * Requires secure, path '/' and no domain
+   */
+  hostPrefix?: boolean;
+
+  /**
+   * Maximum number of cookies a value may be split across (default: 3, max: 10)
+   * Use 1 to disable chunking; larger values throw CookieSizeError
+   */
+  maxChunks?: number;
+}
+
+const DEFAULT_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+/** Browsers drop cookies whose name and value exceed 4096 bytes */
+export const MAX_COOKIE_SIZE = 4096;
+export const MAX_COOKIE_CHUNKS = 10;
+export const DEFAULT_MAX_COOKIE_CHUNKS = 3;
+const HOST_PREFIX = '__Host-';
+
+// The base cookie of a chunked value holds "chunks:<count>"; parts live in "<name>.<index>"
+const CHUNK_MARKER_REGEX = /^chunks:(\d+)$/;
+
+/**
+ * Thrown when a value does not fit in the allowed number of cookies
+ */
+export class CookieSizeError extends Error {
+  constructor(
+    /** Cookie name, including any prefix */
+    public readonly cookieName: string,
+    /** Bytes needed for the name and URI-encoded value */
+    public readonly size: number,
+    /** Bytes available across the allowed chunks */
+    public readonly limit: number
+  ) {
+    super(`Cookie "${cookieName}" needs ${size} bytes, but at most ${limit} fit in the allowed cookies`);
+    this.name = 'CookieSizeError';
+  }
+}
+
+/**
+ * Check attribute combinations browsers would reject
+ */
+export function validateCookieOptions(
+  options: CookieStorageOptions
+): { success: true; data: CookieStorageOptions } | { success: false; error: string } {
+  const secure = options.secure ?? true;
+  if (options.hostPrefix && (!secure || (options.path ?? '/') !== '/' || options.domain)) {
+    return { success: false, error: '__Host- cookies must be secure, use path "/" and set no domain' };
+  }
+  if (options.partitioned && !secure) {
+    return { success: false, error: 'Partitioned cookies must be secure' };
+  }
+  const maxChunks = options.maxChunks ?? DEFAULT_MAX_COOKIE_CHUNKS;
+  if (!Number.isInteger(maxChunks) || maxChunks < 1 || maxChunks > MAX_COOKIE_CHUNKS) {
+    return { success: false, error: `maxChunks must be an integer between 1 and ${MAX_COOKIE_CHUNKS}` };
+  }
+  return { success: true, data: options };
+}
+
+/**
+ * Cookie name for a storage key, with the `__Host-` prefix when enabled
+ * The key must already be validated
+ */
+export function getCookieName(key: string, options: Pick<CookieStorageOptions, 'hostPrefix'> = {}): string {
+  return options.hostPrefix ? `${HOST_PREFIX}${key}` : key;
+}
+
+/**
+ * Name of one chunk cookie of a chunked value
+ */
+export function getChunkName(name: string, index: number): string {
+  return `${name}.${index}`;
+}
+
+/**
+ * Read a value written by serializeChunkedCookie, reassembling chunks
+ * Returns null when the cookie or any of its chunks is missing
+ */
+export function readCookieValue(cookies: Map<string, string>, name: string): string | null {
+  const value = cookies.get(name);
+  if (value === undefined) {
+    return null;
+  }
+
+  const marker = CHUNK_MARKER_REGEX.exec(value);
+  if (!marker) {
+    return value;
+  }
+
+  const count = Number(marker[1]);
+  if (count < 1 || count > MAX_COOKIE_CHUNKS) {
+    return null;
+  }
+  const parts: string[] = [];
+  for (let index = 0; index < count; index++) {
+    const part = cookies.get(getChunkName(name, index));
+    if (part === undefined) {
+      return null;
+    }
+    parts.push(part);
+  }
+  return parts.join('');
+}
+
+/**
+ * Split a value into name/value pairs that each fit in one cookie
+ * A value that fits is kept in a single cookie; otherwise the base cookie
+ * holds the chunk count and is listed last
+ */
+function splitCookieValue(
+  name: string,
+  value: string,
+  maxChunks: number = DEFAULT_MAX_COOKIE_CHUNKS
+): Array<[string, string]> {
+  const encodedSize = encodeURIComponent(value).length;
+  if (name.length + encodedSize <= MAX_COOKIE_SIZE) {
+    return [[name, value]];
+  }
+
+  // Chunk names are the longest; size every chunk against the last one
+  const chunkCapacity = MAX_COOKIE_SIZE - getChunkName(name, maxChunks - 1).length;
+  const parts: string[] = [];
+  let part = '';
+  let partSize = 0;
+  // Iterate by code point so surrogate pairs stay together
+  for (const char of value) {
+    const charSize = encodeURIComponent(char).length;
+    if (partSize + charSize > chunkCapacity) {
+      parts.push(part);
+      part = '';
+      partSize = 0;
+    }
+    part += char;
+    partSize += charSize;
+  }
+  parts.push(part);
+
+  if (maxChunks < 2 || parts.length > maxChunks) {
+    const limit = maxChunks < 2 ? MAX_COOKIE_SIZE : chunkCapacity * maxChunks;
+    throw new CookieSizeError(name, name.length + encodedSize, limit);
+  }
+
+  return [
+    ...parts.map((chunk, index): [string, string] => [getChunkName(name, index), chunk]),
+    [name, `chunks:${parts.length}`],
+  ];
+}
+
+/**
+ * Build the cookie strings for a value, split across chunks when it exceeds MAX_COOKIE_SIZE
+ * Throws CookieSizeError when it needs more than maxChunks cookies
+ */
+export function serializeChunkedCookie(
+  name: string,
+  value: string,
+  options: CookieStorageOptions & { maxAge?: number; httpOnly?: boolean } = {}
+): string[] {
+  return splitCookieValue(name, value, options.maxChunks).map(([chunkName, chunkValue]) =>
+    serializeCookie(chunkName, chunkValue, options)
+  );
+}
+
+/**
+ * Parse a Cookie header or document.cookie string into name/value pairs
+ * Values are URI-decoded; the first occurrence of a name wins
+ */
+export function parseCookies(cookieString: string): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const cookie of cookieString.split(';')) {
+    const [name, ...valueParts] = cookie.trim().split('=');
+    if (!name || cookies.has(name)) {
+      continue;
+    }
+    try {
+      cookies.set(name, decodeURIComponent(valueParts.join('=')));
+    } catch {
+      // Skip values that are not valid URI encodings
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Build a cookie string for document.cookie or a Set-Cookie header
+ * The name must already be validated
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  options: CookieStorageOptions & { maxAge?: number; httpOnly?: boolean } = {}
+): string {
+  let cookieString = `${name}=${encodeURIComponent(value)}`;
+
+  // Add path
+  cookieString += `; path=${options.path ?? '/'}`;
+
+  // Add domain if specified
+  if (options.domain) {
+    cookieString += `; domain=${options.domain}`;
+  }
+
+  // Add secure flag
+  if (options.secure ?? true) {
+    cookieString += '; secure';
+  }
+
+  // Only meaningful in Set-Cookie headers; document.cookie cannot set it
+  if (options.httpOnly) {
+    cookieString += '; httponly';
+  }
+
+  // Add SameSite attribute
+  cookieString += `; samesite=${options.sameSite ?? 'Lax'}`;
+
+  // Partitioned (CHIPS) requires Secure
+  if (options.partitioned) {
+    cookieString += '; partitioned';
+  }
+
+  cookieString += `; max-age=${options.maxAge ?? DEFAULT_MAX_AGE_SECONDS}`;
+
+  return cookieString;
 }
 
 export class CookieStorageAdapter implements StorageAdapter {
   private options: CookieStorageOptions;
 
   constructor(options: CookieStorageOptions = {}) {
+    const validation = validateCookieOptions(options);
+    if (!validation.success) {
+      throw new Error(`Invalid cookie options: ${validation.error}`);
+    }
+
     this.options = {
       path: '/',
       secure: true,
@@ -53,21 +289,14 @@ export class CookieStorageAdapter implements StorageAdapter {
     }
 
     try {
-      const cookies = document.cookie.split(';');
-      for (const cookie of cookies) {
-        const [name, ...valueParts] = cookie.trim().split('=');
-        if (name === keyValidation.data) {
-          return decodeURIComponent(valueParts.join('='));
-        }
-      }
-      return null;
+      return readCookieValue(parseCookies(document.cookie), getCookieName(keyValidation.data, this.options));
     } catch (error) {
       console.error('[CookieStorageAdapter] Error reading cookie:', error);
       return null;
     }
   }
 
-  setItem(key: string, value: string): void {
+  setItem(key: string, value: string, options: StorageSetOptions = {}): void {
     if (typeof document === 'undefined') {
       return;
     }
@@ -80,29 +309,19 @@ export class CookieStorageAdapter implements StorageAdapter {
     }
 
     try {
-      const encodedValue = encodeURIComponent(value);
-      let cookieString = `${keyValidation.data}=${encodedValue}`;
-
-      // Add path
-      cookieString += `; path=${this.options.path}`;
+      const name = getCookieName(keyValidation.data, this.options);
+      // Expire with the consent record; without one, keep the cookie for a year
+      const maxAge =
+        options.expiresAt !== undefined ? Math.max(0, Math.floor((options.expiresAt - Date.now()) / 1000)) : undefined;
 
-      // Add domain if specified
-      if (this.options.domain) {
-        cookieString += `; domain=${this.options.domain}`;
-      }
-
-      // Add secure flag
-      if (this.options.secure) {
-        cookieString += '; secure';
+      // Throws CookieSizeError before anything is written
+      const cookies = serializeChunkedCookie(name, value, { ...this.options, maxAge });
+      for (const cookie of cookies) {
+        document.cookie = cookie;
       }
 
-      // Add SameSite attribute
-      cookieString += `; samesite=${this.options.sameSite}`;
-
-      // Set max-age to 1 year (will be overridden by consent expiration logic)
-      cookieString += `; max-age=${365 * 24 * 60 * 60}`;
-
-      document.cookie = cookieString;
+      // Drop chunks left over from a longer value
+      this.removeChunks(name, cookies.length > 1 ? cookies.length - 1 : 0);
     } catch (error) {
       console.error('[CookieStorageAdapter] Error writing cookie:', error);
       throw error;
@@ -122,15 +341,22 @@ export class CookieStorageAdapter implements StorageAdapter {
     }
 
     try {
-      let cookieString = `${keyValidation.data}=; max-age=0; path=${this.options.path}`;
-
-      if (this.options.domain) {
-        cookieString += `; domain=${this.options.domain}`;
-      }
-
-      document.cookie = cookieString;
+      // Deleting needs the same attributes as setting (Secure, Partitioned)
+      const name = getCookieName(keyValidation.data, this.options);
+      document.cookie = serializeCookie(name, '', { ...this.options, maxAge: 0 });
+      this.removeChunks(name, 0);
     } catch (error) {
       console.error('[CookieStorageAdapter] Error removing cookie:', error);
     }
   }
+
+  private removeChunks(name: string, from: number): void {
+    const cookies = parseCookies(document.cookie);
+    for (let index = from; index < MAX_COOKIE_CHUNKS; index++) {
+      const chunkName = getChunkName(name, index);
+      if (cookies.has(chunkName)) {
+        document.cookie = serializeCookie(chunkName, '', { ...this.options, maxAge: 0 });
+      }
+    }
+  }
 }
@@ -3,6 +3,8 @@
  */
 
 export { LocalStorageAdapter } from './localStorage';
-export { CookieStorageAdapter } from './cookieStorage';
+export { CookieStorageAdapter, CookieSizeError, MAX_COOKIE_SIZE } from './cookieStorage';
 export { MemoryStorageAdapter } from './memoryStorage';
+export { IndexedDBStorageAdapter } from './indexedDBStorage';
 export type { CookieStorageOptions } from './cookieStorage';
+export type { IndexedDBStorageOptions, IndexedDBStorageBackend } from './indexedDBStorage';
@@ -0,0 +1,218 @@
+/**
+ * IndexedDB storage adapter for PWAs and service workers
+ * Survives private-browsing modes that clear localStorage, and can be read from workers
+ */
+
+import type { StorageAdapter } from '../types';
+import { MemoryStorageAdapter } from './memoryStorage';
+
+export interface IndexedDBStorageOptions {
+  /**
+   * Database name (default: 'cookie-consent')
+   */
+  databaseName?: string;
+
+  /**
+   * Object store name (default: 'consent')
+   */
+  storeName?: string;
+
+  /**
+   * IndexedDB factory (default: the global indexedDB)
+   * Pass one from fake-indexeddb to run in Node
+   */
+  indexedDB?: IDBFactory;
+
+  /**
+   * Called when opening waits for another connection to close before upgrading
+   */
+  onBlocked?: () => void;
+
+  /**
+   * How long a blocked upgrade may wait before falling back to memory, in ms (default: 3000)
+   */
+  blockedTimeout?: number;
+}
+
+export type IndexedDBStorageBackend = 'indexeddb' | 'memory';
+
+const DEFAULT_DATABASE_NAME = 'cookie-consent';
+const DEFAULT_STORE_NAME = 'consent';
+const DEFAULT_BLOCKED_TIMEOUT_MS = 3000;
+
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private options: Required<Pick<IndexedDBStorageOptions, 'databaseName' | 'storeName' | 'blockedTimeout'>> &
+    IndexedDBStorageOptions;
+  private database: Promise<IDBDatabase | null> | null = null;
+  // Used when IndexedDB is missing or can't be opened (SSR, some private modes)
+  private fallback = new MemoryStorageAdapter();
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    this.options = {
+      databaseName: DEFAULT_DATABASE_NAME,
+      storeName: DEFAULT_STORE_NAME,
+      blockedTimeout: DEFAULT_BLOCKED_TIMEOUT_MS,
+      ...options,
+    };
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const database = await this.open();
+    if (!database) {
+      return this.fallback.getItem(key);
+    }
+    try {
+      const value = await this.run(database, 'readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    } catch (error) {
+      console.error('[IndexedDBStorageAdapter] Error reading from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      this.fallback.setItem(key, value);
+      return;
+    }
+    try {
+      await this.run(database, 'readwrite', (store) => store.put(value, key));
+    } catch (error) {
+      console.error('[IndexedDBStorageAdapter] Error writing to IndexedDB:', error);
+      throw error;
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      this.fallback.removeItem(key);
+      return;
+    }
+    try {
+      await this.run(database, 'readwrite', (store) => store.delete(key));
+    } catch (error) {
+      console.error('[IndexedDBStorageAdapter] Error removing from IndexedDB:', error);
+    }
+  }
+
+  /**
+   * Where records are kept, opening the database if needed
+   * 'memory' means IndexedDB is unavailable and records last only for this page
+   */
+  async getBackend(): Promise<IndexedDBStorageBackend> {
+    return (await this.open()) ? 'indexeddb' : 'memory';
+  }
+
+  /**
+   * Close the connection; the next read or write reopens it
+   */
+  async close(): Promise<void> {
+    const database = await this.database;
+    this.database = null;
+    database?.close();
+  }
+
+  /**
+   * Open the database once, on first use
+   */
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = this.openDatabase().catch((error) => {
+        console.error('[IndexedDBStorageAdapter] Error opening IndexedDB, using memory storage:', error);
+        return null;
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Open at the current version, upgrading when the object store is missing
+   * (a new database, or another store added to an existing one)
+   */
+  private openDatabase(version?: number): Promise<IDBDatabase | null> {
+    const factory = this.options.indexedDB ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+    if (!factory) {
+      return Promise.resolve(null);
+    }
+
+    const { databaseName, storeName, blockedTimeout } = this.options;
+    return new Promise((resolve, reject) => {
+      const request = factory.open(databaseName, version);
+      let blockedTimer: ReturnType<typeof setTimeout> | undefined;
+      let settled = false;
+
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(storeName)) {
+          database.createObjectStore(storeName);
+        }
+      };
+
+      // A connection that never closes would block the upgrade, and every read, forever
+      request.onblocked = () => {
+        console.warn('[IndexedDBStorageAdapter] Upgrade blocked until other connections to the database close');
+        this.options.onBlocked?.();
+        if (blockedTimer === undefined) {
+          blockedTimer = setTimeout(() => {
+            settled = true;
+            reject(new Error(`Upgrade still blocked after ${blockedTimeout}ms`));
+          }, blockedTimeout);
+        }
+      };
+
+      request.onsuccess = () => {
+        clearTimeout(blockedTimer);
+        const database = request.result;
+        // Opened after falling back to memory; don't hold a connection that is never used
+        if (settled) {
+          database.close();
+          return;
+        }
+        settled = true;
+
+        if (!database.objectStoreNames.contains(storeName)) {
+          const nextVersion = database.version + 1;
+          database.close();
+          resolve(this.openDatabase(nextVersion));
+          return;
+        }
+
+        // Close when another tab upgrades the database, so it isn't blocked; reopen on next use
+        database.onversionchange = () => {
+          database.close();
+          this.database = null;
+        };
+        // The browser may close the connection, e.g. when site data is cleared
+        database.onclose = () => {
+          this.database = null;
+        };
+        resolve(database);
+      };
+
+      request.onerror = () => {
+        clearTimeout(blockedTimer);
+        settled = true;
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Run one request in its own transaction and resolve once the transaction completes
+   */
+  private run<T>(
+    database: IDBDatabase,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(this.options.storeName, mode);
+      const request = operation(transaction.objectStore(this.options.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+  }
+}
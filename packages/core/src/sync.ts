@@ -0,0 +1,133 @@
+/**
+ * Cross-tab and cross-window consent synchronization
+ *
+ * Detects consent written by other tabs through storage events (localStorage),
+ * BroadcastChannel messages, and polling or focus checks (cookies, IndexedDB).
+ */
+
+import type { ConsentSyncConfig, StorageAdapter } from './types';
+import { LocalStorageAdapter } from './storage/localStorage';
+import { CookieStorageAdapter } from './storage/cookieStorage';
+import { IndexedDBStorageAdapter } from './storage/indexedDBStorage';
+import { MemoryStorageAdapter } from './storage/memoryStorage';
+
+const CHANNEL_PREFIX = 'cookie-consent:';
+
+export interface ConsentSync {
+  /** Announce a local change to other tabs */
+  notify(): void;
+  /** Stop listening */
+  destroy(): void;
+}
+
+export interface ConsentSyncOptions {
+  storageKey: string;
+  storage: StorageAdapter;
+  config: Required<ConsentSyncConfig>;
+  /** Called when another tab may have changed the stored consent */
+  onExternalChange: () => void;
+}
+
+/**
+ * Start synchronizing a storage key across tabs
+ * Returns null outside the browser and for storage that isn't shared between tabs
+ */
+export function createConsentSync(options: ConsentSyncOptions): ConsentSync | null {
+  const { storageKey, storage, config, onExternalChange } = options;
+
+  if (typeof window === 'undefined' || storage instanceof MemoryStorageAdapter) {
+    return null;
+  }
+
+  const cleanups: Array<() => void> = [];
+  let lastValue: string | null | undefined;
+
+  // Read the raw value and report whether it changed since the last read
+  const readValue = async (): Promise<boolean> => {
+    try {
+      const value = await storage.getItem(storageKey);
+      const changed = lastValue !== undefined && value !== lastValue;
+      lastValue = value;
+      return changed;
+    } catch (error) {
+      console.error('[ConsentSync] Error reading storage:', error);
+      return false;
+    }
+  };
+
+  const check = () => {
+    readValue().then((changed) => {
+      if (changed) {
+        onExternalChange();
+      }
+    });
+  };
+
+  readValue();
+
+  // localStorage fires 'storage' in every other tab on the same origin
+  if (storage instanceof LocalStorageAdapter) {
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means localStorage.clear() was called
+      if (event.key === storageKey || event.key === null) {
+        lastValue = event.key === null ? null : event.newValue;
+        onExternalChange();
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    cleanups.push(() => window.removeEventListener('storage', handleStorage));
+  }
+
+  let channel: BroadcastChannel | null = null;
+  if (config.broadcastChannel && typeof BroadcastChannel !== 'undefined') {
+    try {
+      channel = new BroadcastChannel(CHANNEL_PREFIX + storageKey);
+      channel.onmessage = (event: MessageEvent) => {
+        if (event.data?.type === 'change') {
+          readValue();
+          onExternalChange();
+        }
+      };
+      cleanups.push(() => channel?.close());
+    } catch (error) {
+      console.error('[ConsentSync] Error opening BroadcastChannel:', error);
+      channel = null;
+    }
+  }
+
+  // Cookies and IndexedDB have no change event; poll for writes from other tabs and workers
+  const pollable = storage instanceof CookieStorageAdapter || storage instanceof IndexedDBStorageAdapter;
+  if (pollable && config.pollInterval > 0) {
+    const timer = setInterval(check, config.pollInterval);
+    cleanups.push(() => clearInterval(timer));
+  }
+
+  if (config.revalidateOnFocus && typeof document !== 'undefined') {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') {
+        check();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    cleanups.push(() => document.removeEventListener('visibilitychange', handleVisibility));
+  }
+
+  return {
+    notify: () => {
+      // Record our own write so polling doesn't treat it as external
+      readValue();
+      try {
+        channel?.postMessage({ type: 'change' });
+      } catch (error) {
+        console.error('[ConsentSync] Error posting change:', error);
+      }
+    },
+    destroy: () => {
+      for (const cleanup of cleanups) {
+        cleanup();
+      }
+      cleanups.length = 0;
+      channel = null;
+    },
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Bit-level reader/writer and web-safe Base64 used by IAB string formats
+ */
+
+const BASE64URL_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Accumulates fixed-width fields into a bit string
+ */
+export class BitWriter {
+  private bits: string = '';
+
+  get length(): number {
+    return this.bits.length;
+  }
+
+  writeInt(value: number, width: number): void {
+    if (!Number.isInteger(value) || value < 0 || value >= Math.pow(2, width)) {
+      throw new Error(`Value ${value} does not fit in ${width} bits`);
+    }
+    // Avoid bitwise operators: timestamps need 36 bits
+    this.bits += value.toString(2).padStart(width, '0');
+  }
+
+  writeBool(value: boolean): void {
+    this.bits += value ? '1' : '0';
+  }
+
+  /**
+   * Write two upper-case letters as 6-bit offsets from 'A'
+   */
+  writeLetters(value: string): void {
+    const normalized = value.toUpperCase();
+    if (!/^[A-Z]{2}$/.test(normalized)) {
+      throw new Error(`Expected a two-letter code, got "${value}"`);
+    }
+    this.writeInt(normalized.charCodeAt(0) - 65, 6);
+    this.writeInt(normalized.charCodeAt(1) - 65, 6);
+  }
+
+  /**
+   * Write a fixed-width bitfield where bit N (1-based) is set when N is in ids
+   */
+  writeBitfield(ids: Iterable<number>, width: number): void {
+    const set = new Set(ids);
+    for (let id = 1; id <= width; id++) {
+      this.bits += set.has(id) ? '1' : '0';
+    }
+  }
+
+  /**
+   * Write a positive integer with Fibonacci coding (Zeckendorf bits, then a terminating 1)
+   */
+  writeFibonacci(value: number): void {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Fibonacci coding requires a positive integer, got ${value}`);
+    }
+
+    const fibs = [1, 2];
+    while (fibs[fibs.length - 1] + fibs[fibs.length - 2] <= value) {
+      fibs.push(fibs[fibs.length - 1] + fibs[fibs.length - 2]);
+    }
+
+    let remaining = value;
+    const bits = new Array<string>(fibs.length).fill('0');
+    for (let i = fibs.length - 1; i >= 0; i--) {
+      if (fibs[i] <= remaining) {
+        bits[i] = '1';
+        remaining -= fibs[i];
+      }
+    }
+    this.bits += bits.join('').replace(/0+$/, '') + '1';
+  }
+
+  writeBits(bits: string): void {
+    this.bits += bits;
+  }
+
+  toBits(): string {
+    return this.bits;
+  }
+
+  /**
+   * Encode as unpadded web-safe Base64, zero-padding to a whole byte first
+   */
+  toBase64Url(): string {
+    return encodeBase64Url(this.bits);
+  }
+}
+
+/**
+ * Reads fixed-width fields from a bit string
+ */
+export class BitReader {
+  private offset: number = 0;
+
+  constructor(private readonly bits: string) {}
+
+  static fromBase64Url(value: string): BitReader {
+    return new BitReader(decodeBase64Url(value));
+  }
+
+  get remaining(): number {
+    return this.bits.length - this.offset;
+  }
+
+  readInt(width: number): number {
+    if (width > this.remaining) {
+      throw new Error('Unexpected end of bit string');
+    }
+    const value = parseInt(this.bits.slice(this.offset, this.offset + width), 2);
+    this.offset += width;
+    return value;
+  }
+
+  readBool(): boolean {
+    return this.readInt(1) === 1;
+  }
+
+  readFibonacci(): number {
+    let value = 0;
+    let previousBit = false;
+    let a = 1;
+    let b = 2;
+    for (;;) {
+      const bit = this.readBool();
+      if (bit && previousBit) {
+        return value;
+      }
+      if (bit) {
+        value += a;
+      }
+      previousBit = bit;
+      [a, b] = [b, a + b];
+    }
+  }
+
+  readLetters(): string {
+    return String.fromCharCode(this.readInt(6) + 65, this.readInt(6) + 65);
+  }
+
+  readBitfield(width: number): number[] {
+    const ids: number[] = [];
+    for (let id = 1; id <= width; id++) {
+      if (this.readBool()) {
+        ids.push(id);
+      }
+    }
+    return ids;
+  }
+}
+
+export function encodeBase64Url(bits: string): string {
+  let padded = bits;
+  if (padded.length % 8 !== 0) {
+    padded += '0'.repeat(8 - (padded.length % 8));
+  }
+  if (padded.length % 6 !== 0) {
+    padded += '0'.repeat(6 - (padded.length % 6));
+  }
+
+  let result = '';
+  for (let i = 0; i < padded.length; i += 6) {
+    result += BASE64URL_ALPHABET[parseInt(padded.slice(i, i + 6), 2)];
+  }
+  return result;
+}
+
+export function decodeBase64Url(value: string): string {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new Error('Invalid web-safe Base64 string');
+  }
+
+  let bits = '';
+  for (const char of value) {
+    bits += BASE64URL_ALPHABET.indexOf(char).toString(2).padStart(6, '0');
+  }
+  return bits;
+}
@@ -0,0 +1,339 @@
+/**
+ * IAB TCF v2.2 CMP API (__tcfapi)
+ *
+ * Exposes the standard `__tcfapi` command surface on window and keeps the
+ * TC string in sync with a ConsentManager.
+ */
+
+import type { ConsentManager } from '../ConsentManager';
+import type { ConsentState, StorageAdapter } from '../types';
+import {
+  consentStateToTCModel,
+  encodeTCString,
+  TCF_PURPOSE_COUNT,
+  type TCFChoices,
+  type TCModel,
+  type TCModelOptions,
+} from './tcString';
+import { addLocatorFrame, removeLocatorFrame } from './locatorFrame';
+
+const TCF_API_VERSION = 2;
+const TCF_API_VERSION_STRING = '2.2';
+const LOCATOR_FRAME_NAME = '__tcfapiLocator';
+const DEFAULT_TC_STORAGE_KEY = 'euconsent-v2';
+
+export type TCFEventStatus = 'tcloaded' | 'cmpuishown' | 'useractioncomplete';
+
+/**
+ * TCData object returned by getTCData and addEventListener
+ */
+export interface TCData {
+  tcString: string;
+  tcfPolicyVersion: number;
+  cmpId: number;
+  cmpVersion: number;
+  gdprApplies: boolean;
+  eventStatus: TCFEventStatus;
+  cmpStatus: 'loaded';
+  listenerId?: number;
+  isServiceSpecific: boolean;
+  useNonStandardTexts: boolean;
+  publisherCC: string;
+  purposeOneTreatment: boolean;
+  purpose: {
+    consents: Record<number, boolean>;
+    legitimateInterests: Record<number, boolean>;
+  };
+  vendor: {
+    consents: Record<number, boolean>;
+    legitimateInterests: Record<number, boolean>;
+  };
+  specialFeatureOptins: Record<number, boolean>;
+}
+
+/**
+ * Return value of the ping command
+ */
+export interface TCFPingReturn {
+  gdprApplies: boolean;
+  cmpLoaded: boolean;
+  cmpStatus: 'loaded';
+  displayStatus: 'visible' | 'hidden' | 'disabled';
+  apiVersion: string;
+  cmpVersion: number;
+  cmpId: number;
+  gvlVersion: number;
+  tcfPolicyVersion: number;
+}
+
+/**
+ * Value passed to a callback: ping data, TC data, the removeEventListener result, or null on failure
+ */
+export type TCFApiReturn = TCFPingReturn | TCData | boolean | null;
+
+export type TCFApiCallback = (returnValue: TCFApiReturn, success: boolean) => void;
+
+export type TCFApiFunction = (
+  command: string,
+  version: number | undefined,
+  callback: TCFApiCallback,
+  parameter?: unknown
+) => void;
+
+declare global {
+  interface Window {
+    /** IAB TCF CMP API; before it loads, the IAB stub queues calls in `a` */
+    __tcfapi?: TCFApiFunction & { a?: unknown[][] };
+  }
+}
+
+export interface TCFApiOptions extends TCModelOptions {
+  /** Whether GDPR applies to the current user (default: true) */
+  gdprApplies?: boolean;
+  /**
+   * Optional storage for the TC string, e.g. a CookieStorageAdapter so
+   * server-side bidders can read `euconsent-v2`
+   */
+  storage?: StorageAdapter;
+  /** Key used to persist the TC string (default: 'euconsent-v2') */
+  storageKey?: string;
+}
+
+export interface TCFApi {
+  /** Current TC string ('' until the user has decided) */
+  getTCString(): string;
+  /** Current TC model */
+  getTCModel(): TCModel;
+  /** Apply explicit per-purpose/per-vendor choices and re-encode */
+  setChoices(choices: TCFChoices): void;
+  /** Remove window.__tcfapi and stop listening to the manager */
+  destroy(): void;
+}
+
+/**
+ * Install the __tcfapi CMP API, driven by ConsentManager.onChange
+ * Processes any calls queued by the IAB stub before installation
+ */
+export function installTcfApi(manager: ConsentManager, options: TCFApiOptions): TCFApi {
+  const gdprApplies = options.gdprApplies ?? true;
+  const storageKey = options.storageKey ?? DEFAULT_TC_STORAGE_KEY;
+  const eventListeners = new Map<number, TCFApiCallback>();
+  let nextListenerId = 1;
+  let destroyed = false;
+  let choices: TCFChoices = {};
+  let state: ConsentState | null = manager.getConsentSync();
+  let model = consentStateToTCModel(state, options, choices);
+  let tcString = '';
+  let eventStatus: TCFEventStatus = state ? 'tcloaded' : 'cmpuishown';
+  let displayStatus: TCFPingReturn['displayStatus'] = state ? 'hidden' : 'visible';
+
+  const buildTCData = (vendorIds?: number[], listenerId?: number): TCData => {
+    const vendorFilter = Array.isArray(vendorIds) ? vendorIds : undefined;
+    return {
+      tcString,
+      tcfPolicyVersion: model.tcfPolicyVersion,
+      cmpId: model.cmpId,
+      cmpVersion: model.cmpVersion,
+      gdprApplies,
+      eventStatus,
+      cmpStatus: 'loaded',
+      listenerId,
+      isServiceSpecific: model.isServiceSpecific,
+      useNonStandardTexts: model.useNonStandardTexts,
+      publisherCC: model.publisherCC,
+      purposeOneTreatment: model.purposeOneTreatment,
+      purpose: {
+        consents: toIdMap(model.purposeConsents, range(TCF_PURPOSE_COUNT)),
+        legitimateInterests: toIdMap(model.purposeLegitimateInterests, range(TCF_PURPOSE_COUNT)),
+      },
+      vendor: {
+        consents: toIdMap(model.vendorConsents, vendorFilter ?? model.disclosedVendors),
+        legitimateInterests: toIdMap(
+          model.vendorLegitimateInterests,
+          vendorFilter ?? model.disclosedVendors
+        ),
+      },
+      specialFeatureOptins: toIdMap(model.specialFeatureOptIns, range(2)),
+    };
+  };
+
+  const update = (status: TCFEventStatus): void => {
+    const previousTCString = tcString;
+    model = consentStateToTCModel(state, options, choices);
+    tcString = state ? encodeTCString(model) : '';
+    eventStatus = status;
+    displayStatus = state ? 'hidden' : 'visible';
+
+    if (options.storage && tcString !== previousTCString) {
+      try {
+        const result = tcString
+          ? options.storage.setItem(storageKey, tcString)
+          : options.storage.removeItem(storageKey);
+        Promise.resolve(result).catch((error) => {
+          console.error('[TCF] Error persisting TC string:', error);
+        });
+      } catch (error) {
+        console.error('[TCF] Error persisting TC string:', error);
+      }
+    }
+
+    eventListeners.forEach((callback, listenerId) => {
+      try {
+        callback(buildTCData(undefined, listenerId), true);
+      } catch (error) {
+        console.error('[TCF] Error in event listener:', error);
+      }
+    });
+  };
+
+  const api: TCFApiFunction = (command, version, callback, parameter) => {
+    if (typeof callback !== 'function') {
+      return;
+    }
+
+    if (version !== undefined && version !== 0 && version !== TCF_API_VERSION) {
+      callback(null, false);
+      return;
+    }
+
+    switch (command) {
+      case 'ping':
+        callback(
+          {
+            gdprApplies,
+            cmpLoaded: true,
+            cmpStatus: 'loaded',
+            displayStatus,
+            apiVersion: TCF_API_VERSION_STRING,
+            cmpVersion: model.cmpVersion,
+            cmpId: model.cmpId,
+            gvlVersion: model.vendorListVersion,
+            tcfPolicyVersion: model.tcfPolicyVersion,
+          } satisfies TCFPingReturn,
+          true
+        );
+        break;
+      case 'getTCData':
+        callback(buildTCData(parameter as number[] | undefined), true);
+        break;
+      case 'addEventListener': {
+        const listenerId = nextListenerId++;
+        eventListeners.set(listenerId, callback);
+        callback(buildTCData(undefined, listenerId), true);
+        break;
+      }
+      case 'removeEventListener':
+        callback(eventListeners.delete(parameter as number), true);
+        break;
+      default:
+        callback(null, false);
+    }
+  };
+
+  // Initial encoding (tcloaded if a decision is already stored)
+  update(eventStatus);
+
+  const unsubscribe = manager.onChange((newState) => {
+    // onChange fires synchronously with the cached state on subscribe
+    if (newState === state) {
+      return;
+    }
+    // withdrawConsent notifies with a reject-all state but clears storage
+    state = manager.hasConsentSync() ? newState : null;
+    update(state ? 'useractioncomplete' : 'cmpuishown');
+  });
+
+  // Pick up state once the manager finishes loading from storage
+  manager.getConsent().then((loaded) => {
+    if (loaded && !state && !destroyed) {
+      state = loaded;
+      update('tcloaded');
+    }
+  });
+
+  const messageHandler = (event: MessageEvent) => handlePostMessage(api, event);
+
+  if (typeof window !== 'undefined') {
+    const stub = window.__tcfapi;
+    const queued = Array.isArray(stub?.a) ? stub.a : [];
+    window.__tcfapi = api;
+    for (const args of queued) {
+      api(...(args as Parameters<TCFApiFunction>));
+    }
+    addLocatorFrame(LOCATOR_FRAME_NAME);
+    window.addEventListener('message', messageHandler);
+  }
+
+  return {
+    getTCString: () => tcString,
+    getTCModel: () => model,
+    setChoices: (newChoices: TCFChoices) => {
+      choices = newChoices;
+      update(state ? 'useractioncomplete' : eventStatus);
+    },
+    destroy: () => {
+      destroyed = true;
+      unsubscribe();
+      eventListeners.clear();
+      if (typeof window !== 'undefined') {
+        if (window.__tcfapi === api) {
+          delete window.__tcfapi;
+        }
+        window.removeEventListener('message', messageHandler);
+        removeLocatorFrame(LOCATOR_FRAME_NAME);
+      }
+    },
+  };
+}
+
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i + 1);
+}
+
+function toIdMap(granted: number[], ids: number[]): Record<number, boolean> {
+  const set = new Set(granted);
+  const map: Record<number, boolean> = {};
+  for (const id of ids) {
+    map[id] = set.has(id);
+  }
+  return map;
+}
+
+interface TCFApiCallMessage {
+  __tcfapiCall?: {
+    command?: unknown;
+    version?: number;
+    parameter?: unknown;
+    callId?: unknown;
+  };
+}
+
+/**
+ * Answer __tcfapiCall messages from nested frames
+ */
+function handlePostMessage(api: TCFApiFunction, event: MessageEvent): void {
+  let data: unknown = event.data;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return;
+    }
+  }
+
+  const call = typeof data === 'object' && data !== null ? (data as TCFApiCallMessage).__tcfapiCall : undefined;
+  if (!call || typeof call.command !== 'string' || !event.source) {
+    return;
+  }
+
+  const wasString = typeof event.data === 'string';
+  api(
+    call.command,
+    call.version,
+    (returnValue, success) => {
+      const message = { __tcfapiReturn: { returnValue, success, callId: call.callId } };
+      (event.source as Window).postMessage(wasString ? JSON.stringify(message) : message, '*');
+    },
+    call.parameter
+  );
+}
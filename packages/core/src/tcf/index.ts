@@ -0,0 +1,34 @@
+/**
+ * IAB Transparency & Consent Framework v2.2 support
+ */
+
+export {
+  encodeTCString,
+  decodeTCString,
+  consentStateToTCModel,
+  tcModelToConsentPreferences,
+  DEFAULT_TCF_PURPOSE_MAPPING,
+  TCF_PURPOSE_COUNT,
+  TCFRestrictionType,
+} from './tcString';
+
+export type {
+  TCModel,
+  TCModelOptions,
+  TCFChoices,
+  TCFPurposeMapping,
+  TCPublisherRestriction,
+} from './tcString';
+
+export { installTcfApi } from './cmpApi';
+
+export type {
+  TCData,
+  TCFApi,
+  TCFApiOptions,
+  TCFApiCallback,
+  TCFApiReturn,
+  TCFApiFunction,
+  TCFEventStatus,
+  TCFPingReturn,
+} from './cmpApi';
@@ -0,0 +1,30 @@
+/**
+ * Locator frames let CMP APIs be discovered from nested iframes
+ * (__tcfapiLocator for TCF, __gppLocator for GPP)
+ */
+
+export function addLocatorFrame(name: string): void {
+  if (typeof document === 'undefined' || (window.frames as any)[name]) {
+    return;
+  }
+
+  const insert = () => {
+    const iframe = document.createElement('iframe');
+    iframe.style.display = 'none';
+    iframe.name = name;
+    document.body.appendChild(iframe);
+  };
+
+  if (document.body) {
+    insert();
+  } else {
+    document.addEventListener('DOMContentLoaded', insert, { once: true });
+  }
+}
+
+export function removeLocatorFrame(name: string): void {
+  if (typeof document === 'undefined') {
+    return;
+  }
+  document.querySelector(`iframe[name="${name}"]`)?.remove();
+}
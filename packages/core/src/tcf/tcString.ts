@@ -0,0 +1,395 @@
+/**
+ * IAB TCF v2.2 TC string encoding and decoding
+ *
+ * Implements the core segment and the disclosed vendors segment of the
+ * Transparency & Consent String format.
+ */
+
+import type { ConsentState, ConsentPreferences, ConsentCategory } from '../types';
+import { BitReader, BitWriter } from './bits';
+
+const TC_STRING_VERSION = 2;
+const SEGMENT_TYPE_DISCLOSED_VENDORS = 1;
+const MAX_VENDOR_ID = 65535;
+const MAX_PURPOSES = 24;
+const MAX_SPECIAL_FEATURES = 12;
+
+/**
+ * Number of purposes defined by the TCF v2.2 policy
+ */
+export const TCF_PURPOSE_COUNT = 11;
+
+/**
+ * Publisher restriction types defined by the TCF
+ */
+export enum TCFRestrictionType {
+  NotAllowed = 0,
+  RequireConsent = 1,
+  RequireLegitimateInterest = 2,
+}
+
+export interface TCPublisherRestriction {
+  purposeId: number;
+  restrictionType: TCFRestrictionType;
+  vendorIds: number[];
+}
+
+/**
+ * Decoded representation of a TC string
+ * Id lists are sorted, 1-based TCF ids
+ */
+export interface TCModel {
+  version: number;
+  /** Creation time (milliseconds, stored with decisecond precision) */
+  created: number;
+  /** Last update time (milliseconds, stored with decisecond precision) */
+  lastUpdated: number;
+  cmpId: number;
+  cmpVersion: number;
+  consentScreen: number;
+  /** Two-letter ISO 639-1 language code */
+  consentLanguage: string;
+  vendorListVersion: number;
+  tcfPolicyVersion: number;
+  isServiceSpecific: boolean;
+  useNonStandardTexts: boolean;
+  specialFeatureOptIns: number[];
+  purposeConsents: number[];
+  purposeLegitimateInterests: number[];
+  purposeOneTreatment: boolean;
+  /** Two-letter ISO 3166-1 country code of the publisher */
+  publisherCC: string;
+  vendorConsents: number[];
+  vendorLegitimateInterests: number[];
+  publisherRestrictions: TCPublisherRestriction[];
+  /** Vendors disclosed to the user (optional segment, omitted when empty) */
+  disclosedVendors: number[];
+}
+
+/**
+ * Maps consent categories to the TCF purposes they cover
+ */
+export type TCFPurposeMapping = Record<ConsentCategory, number[]>;
+
+/**
+ * Default category to purpose mapping
+ * Purpose 1 (store/access information on a device) is covered by both
+ */
+export const DEFAULT_TCF_PURPOSE_MAPPING: TCFPurposeMapping = {
+  analytics: [1, 8, 9, 10],
+  marketing: [1, 2, 3, 4, 5, 6, 7, 11],
+};
+
+/**
+ * Explicit per-purpose and per-vendor choices that override the category mapping
+ */
+export interface TCFChoices {
+  purposeConsents?: Record<number, boolean>;
+  purposeLegitimateInterests?: Record<number, boolean>;
+  vendorConsents?: Record<number, boolean>;
+  vendorLegitimateInterests?: Record<number, boolean>;
+  specialFeatureOptIns?: Record<number, boolean>;
+}
+
+/**
+ * Static CMP metadata required to build a TC string
+ */
+export interface TCModelOptions {
+  /** CMP id registered with the IAB */
+  cmpId: number;
+  /** CMP version (default: 1) */
+  cmpVersion?: number;
+  /** Global Vendor List version the choices were made against */
+  vendorListVersion: number;
+  /** TCF policy version (default: 4, TCF v2.2) */
+  tcfPolicyVersion?: number;
+  /** Screen number in the CMP where consent was given (default: 1) */
+  consentScreen?: number;
+  /** Language the UI was shown in (default: 'EN') */
+  consentLanguage?: string;
+  /** Publisher country code (default: 'AA', unknown) */
+  publisherCC?: string;
+  /** Whether the string only applies to this service (default: true) */
+  isServiceSpecific?: boolean;
+  useNonStandardTexts?: boolean;
+  purposeOneTreatment?: boolean;
+  /** Category to purpose mapping (default: DEFAULT_TCF_PURPOSE_MAPPING) */
+  purposeMapping?: TCFPurposeMapping;
+  /**
+   * Vendors disclosed to the user, keyed by GVL vendor id
+   * A vendor receives consent only when all of its listed categories are granted
+   */
+  vendors?: Record<number, ConsentCategory[]>;
+  publisherRestrictions?: TCPublisherRestriction[];
+}
+
+/**
+ * Encode a TC model as a TC string
+ */
+export function encodeTCString(model: TCModel): string {
+  const core = new BitWriter();
+  core.writeInt(TC_STRING_VERSION, 6);
+  core.writeInt(toDeciseconds(model.created), 36);
+  core.writeInt(toDeciseconds(model.lastUpdated), 36);
+  core.writeInt(model.cmpId, 12);
+  core.writeInt(model.cmpVersion, 12);
+  core.writeInt(model.consentScreen, 6);
+  core.writeLetters(model.consentLanguage);
+  core.writeInt(model.vendorListVersion, 12);
+  core.writeInt(model.tcfPolicyVersion, 6);
+  core.writeBool(model.isServiceSpecific);
+  core.writeBool(model.useNonStandardTexts);
+  core.writeBitfield(model.specialFeatureOptIns, MAX_SPECIAL_FEATURES);
+  core.writeBitfield(model.purposeConsents, MAX_PURPOSES);
+  core.writeBitfield(model.purposeLegitimateInterests, MAX_PURPOSES);
+  core.writeBool(model.purposeOneTreatment);
+  core.writeLetters(model.publisherCC);
+  writeVendorSection(core, model.vendorConsents);
+  writeVendorSection(core, model.vendorLegitimateInterests);
+
+  core.writeInt(model.publisherRestrictions.length, 12);
+  for (const restriction of model.publisherRestrictions) {
+    core.writeInt(restriction.purposeId, 6);
+    core.writeInt(restriction.restrictionType, 2);
+    writeRanges(core, restriction.vendorIds);
+  }
+
+  const segments = [core.toBase64Url()];
+
+  if (model.disclosedVendors.length > 0) {
+    const disclosed = new BitWriter();
+    disclosed.writeInt(SEGMENT_TYPE_DISCLOSED_VENDORS, 3);
+    writeVendorSection(disclosed, model.disclosedVendors);
+    segments.push(disclosed.toBase64Url());
+  }
+
+  return segments.join('.');
+}
+
+/**
+ * Decode a TC string into a TC model
+ * @throws Error if the string is malformed or not a v2 TC string
+ */
+export function decodeTCString(tcString: string): TCModel {
+  if (typeof tcString !== 'string' || tcString.length === 0) {
+    throw new Error('Invalid TC string: must be a non-empty string');
+  }
+
+  const [coreSegment, ...extraSegments] = tcString.split('.');
+
+  try {
+    const core = BitReader.fromBase64Url(coreSegment);
+    const version = core.readInt(6);
+    if (version !== TC_STRING_VERSION) {
+      throw new Error(`unsupported version ${version}`);
+    }
+
+    const model: TCModel = {
+      version,
+      created: core.readInt(36) * 100,
+      lastUpdated: core.readInt(36) * 100,
+      cmpId: core.readInt(12),
+      cmpVersion: core.readInt(12),
+      consentScreen: core.readInt(6),
+      consentLanguage: core.readLetters(),
+      vendorListVersion: core.readInt(12),
+      tcfPolicyVersion: core.readInt(6),
+      isServiceSpecific: core.readBool(),
+      useNonStandardTexts: core.readBool(),
+      specialFeatureOptIns: core.readBitfield(MAX_SPECIAL_FEATURES),
+      purposeConsents: core.readBitfield(MAX_PURPOSES),
+      purposeLegitimateInterests: core.readBitfield(MAX_PURPOSES),
+      purposeOneTreatment: core.readBool(),
+      publisherCC: core.readLetters(),
+      vendorConsents: readVendorSection(core),
+      vendorLegitimateInterests: readVendorSection(core),
+      publisherRestrictions: [],
+      disclosedVendors: [],
+    };
+
+    const restrictionCount = core.readInt(12);
+    for (let i = 0; i < restrictionCount; i++) {
+      model.publisherRestrictions.push({
+        purposeId: core.readInt(6),
+        restrictionType: core.readInt(2),
+        vendorIds: readRanges(core),
+      });
+    }
+
+    for (const segment of extraSegments) {
+      const reader = BitReader.fromBase64Url(segment);
+      const segmentType = reader.readInt(3);
+      if (segmentType === SEGMENT_TYPE_DISCLOSED_VENDORS) {
+        model.disclosedVendors = readVendorSection(reader);
+      }
+      // Other segment types (publisher TC, allowed vendors) are ignored
+    }
+
+    return model;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid TC string: ${message}`);
+  }
+}
+
+/**
+ * Build a TC model from a consent state and optional explicit choices
+ * A null state (no decision yet) produces a model with nothing granted
+ */
+export function consentStateToTCModel(
+  state: ConsentState | null,
+  options: TCModelOptions,
+  choices: TCFChoices = {}
+): TCModel {
+  const mapping = options.purposeMapping ?? DEFAULT_TCF_PURPOSE_MAPPING;
+  const vendors = options.vendors ?? {};
+  const timestamp = state?.timestamp ?? Date.now();
+
+  const purposes = new Set<number>();
+  if (state) {
+    for (const [category, purposeIds] of Object.entries(mapping)) {
+      if (state[category] === true) {
+        purposeIds.forEach((id) => purposes.add(id));
+      }
+    }
+  }
+
+  const vendorIds = Object.keys(vendors).map(Number);
+  const vendorConsents = vendorIds.filter((id) =>
+    state !== null && vendors[id].every((category) => state[category] === true)
+  );
+
+  return {
+    version: TC_STRING_VERSION,
+    created: timestamp,
+    lastUpdated: timestamp,
+    cmpId: options.cmpId,
+    cmpVersion: options.cmpVersion ?? 1,
+    consentScreen: options.consentScreen ?? 1,
+    consentLanguage: (options.consentLanguage ?? 'EN').toUpperCase(),
+    vendorListVersion: options.vendorListVersion,
+    tcfPolicyVersion: options.tcfPolicyVersion ?? 4,
+    isServiceSpecific: options.isServiceSpecific ?? true,
+    useNonStandardTexts: options.useNonStandardTexts ?? false,
+    specialFeatureOptIns: applyChoices([], choices.specialFeatureOptIns),
+    purposeConsents: applyChoices(Array.from(purposes), choices.purposeConsents),
+    purposeLegitimateInterests: applyChoices([], choices.purposeLegitimateInterests),
+    purposeOneTreatment: options.purposeOneTreatment ?? false,
+    publisherCC: (options.publisherCC ?? 'AA').toUpperCase(),
+    vendorConsents: applyChoices(vendorConsents, choices.vendorConsents),
+    vendorLegitimateInterests: applyChoices([], choices.vendorLegitimateInterests),
+    publisherRestrictions: options.publisherRestrictions ?? [],
+    disclosedVendors: vendorIds.sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Derive category preferences from a TC model
+ * A category is granted when every purpose it maps to has consent
+ */
+export function tcModelToConsentPreferences(
+  model: TCModel,
+  purposeMapping: TCFPurposeMapping = DEFAULT_TCF_PURPOSE_MAPPING
+): ConsentPreferences {
+  const granted = new Set(model.purposeConsents);
+  const preferences: ConsentPreferences = {
+    analytics: false,
+    marketing: false,
+  };
+
+  for (const [category, purposeIds] of Object.entries(purposeMapping)) {
+    preferences[category] = purposeIds.length > 0 && purposeIds.every((id) => granted.has(id));
+  }
+
+  return preferences;
+}
+
+function toDeciseconds(milliseconds: number): number {
+  return Math.round(milliseconds / 100);
+}
+
+function applyChoices(base: number[], overrides: Record<number, boolean> = {}): number[] {
+  const result = new Set(base);
+  for (const [id, granted] of Object.entries(overrides)) {
+    if (granted) {
+      result.add(Number(id));
+    } else {
+      result.delete(Number(id));
+    }
+  }
+  return Array.from(result).sort((a, b) => a - b);
+}
+
+/**
+ * Group sorted ids into [start, end] runs
+ */
+function toRanges(ids: number[]): Array<[number, number]> {
+  const sorted = Array.from(new Set(ids)).sort((a, b) => a - b);
+  const ranges: Array<[number, number]> = [];
+  for (const id of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === id - 1) {
+      last[1] = id;
+    } else {
+      ranges.push([id, id]);
+    }
+  }
+  return ranges;
+}
+
+function writeRanges(writer: BitWriter, ids: number[]): void {
+  const ranges = toRanges(ids);
+  writer.writeInt(ranges.length, 12);
+  for (const [start, end] of ranges) {
+    writer.writeBool(start !== end);
+    writer.writeInt(start, 16);
+    if (start !== end) {
+      writer.writeInt(end, 16);
+    }
+  }
+}
+
+function readRanges(reader: BitReader): number[] {
+  const ids: number[] = [];
+  const count = reader.readInt(12);
+  for (let i = 0; i < count; i++) {
+    const isRange = reader.readBool();
+    const start = reader.readInt(16);
+    const end = isRange ? reader.readInt(16) : start;
+    if (end < start) {
+      throw new Error('vendor range end precedes start');
+    }
+    for (let id = start; id <= end; id++) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Write a vendor section using whichever of bitfield or range encoding is shorter
+ */
+function writeVendorSection(writer: BitWriter, ids: number[]): void {
+  const maxVendorId = ids.length > 0 ? Math.max(...ids) : 0;
+  if (maxVendorId > MAX_VENDOR_ID) {
+    throw new Error(`Vendor id ${maxVendorId} exceeds ${MAX_VENDOR_ID}`);
+  }
+
+  const rangeWriter = new BitWriter();
+  writeRanges(rangeWriter, ids);
+
+  writer.writeInt(maxVendorId, 16);
+  if (rangeWriter.length < maxVendorId) {
+    writer.writeBool(true);
+    writer.writeBits(rangeWriter.toBits());
+  } else {
+    writer.writeBool(false);
+    writer.writeBitfield(ids, maxVendorId);
+  }
+}
+
+function readVendorSection(reader: BitReader): number[] {
+  const maxVendorId = reader.readInt(16);
+  const isRangeEncoding = reader.readBool();
+  return isRangeEncoding ? readRanges(reader) : reader.readBitfield(maxVendorId);
+}
@@ -0,0 +1,459 @@
+/**
+ * Built-in translations for the default labels
+ * Shared by the React components and the banner element
+ */
+
+import { resolveLocale } from './locale';
+
+/**
+ * Default labels for one locale
+ */
+export interface ConsentTranslation {
+  banner: {
+    acceptButton: string;
+    rejectButton: string;
+    customizeButton: string;
+    learnMoreText: string;
+    managePreferencesText: string;
+    optOutButton: string;
+    acknowledgeButton: string;
+  };
+  preferences: {
+    title: string;
+    saveButton: string;
+    acceptAllButton: string;
+    rejectAllButton: string;
+    alwaysActiveLabel: string;
+    closeButtonLabel: string;
+    cookiesLabel: string;
+  };
+  accessibility: {
+    bannerLabel: string;
+    preferencesLabel: string;
+  };
+  /** Click-to-load embed placeholder; {provider} and {category} are filled in */
+  embed: {
+    title: string;
+    description: string;
+    loadOnceButton: string;
+    alwaysAllowButton: string;
+  };
+}
+
+/**
+ * Default labels per locale, used when content leaves a label unset
+ * Keys are BCP 47 tags; lookups follow fallback chains ('pt-BR' -> 'pt' -> 'en')
+ */
+export const defaultTranslations: Record<string, ConsentTranslation> = {
+  en: {
+    banner: {
+      acceptButton: 'Accept All',
+      rejectButton: 'Reject All',
+      customizeButton: 'Customize',
+      learnMoreText: 'Learn more',
+      managePreferencesText: 'Manage preferences',
+      optOutButton: 'Do Not Sell or Share My Personal Information',
+      acknowledgeButton: 'Got it',
+    },
+    preferences: {
+      title: 'Cookie preferences',
+      saveButton: 'Save choices',
+      acceptAllButton: 'Accept all',
+      rejectAllButton: 'Reject all',
+      alwaysActiveLabel: 'Always active',
+      closeButtonLabel: 'Close',
+      cookiesLabel: 'Cookies used',
+    },
+    accessibility: {
+      bannerLabel: 'Cookie consent banner',
+      preferencesLabel: 'Cookie preferences',
+    },
+    embed: {
+      title: 'Content from {provider}',
+      description:
+        'This embed may set cookies and share data with {provider}. It is blocked until you allow {category} cookies.',
+      loadOnceButton: 'Load this once',
+      alwaysAllowButton: 'Always allow {category}',
+    },
+  },
+  de: {
+    banner: {
+      acceptButton: 'Alle akzeptieren',
+      rejectButton: 'Alle ablehnen',
+      customizeButton: 'Anpassen',
+      learnMoreText: 'Mehr erfahren',
+      managePreferencesText: 'Einstellungen verwalten',
+      optOutButton: 'Meine personenbezogenen Daten nicht verkaufen oder weitergeben',
+      acknowledgeButton: 'Verstanden',
+    },
+    preferences: {
+      title: 'Cookie-Einstellungen',
+      saveButton: 'Auswahl speichern',
+      acceptAllButton: 'Alle akzeptieren',
+      rejectAllButton: 'Alle ablehnen',
+      alwaysActiveLabel: 'Immer aktiv',
+      closeButtonLabel: 'Schließen',
+      cookiesLabel: 'Verwendete Cookies',
+    },
+    accessibility: {
+      bannerLabel: 'Cookie-Zustimmungsbanner',
+      preferencesLabel: 'Cookie-Einstellungen',
+    },
+    embed: {
+      title: 'Inhalt von {provider}',
+      description:
+        'Dieser eingebettete Inhalt kann Cookies setzen und Daten an {provider} übermitteln. Er ist blockiert, bis Sie {category}-Cookies erlauben.',
+      loadOnceButton: 'Einmalig laden',
+      alwaysAllowButton: '{category} immer erlauben',
+    },
+  },
+  fr: {
+    banner: {
+      acceptButton: 'Tout accepter',
+      rejectButton: 'Tout refuser',
+      customizeButton: 'Personnaliser',
+      learnMoreText: 'En savoir plus',
+      managePreferencesText: 'Gérer les préférences',
+      optOutButton: 'Ne pas vendre ni partager mes informations personnelles',
+      acknowledgeButton: "J'ai compris",
+    },
+    preferences: {
+      title: 'Préférences des cookies',
+      saveButton: 'Enregistrer mes choix',
+      acceptAllButton: 'Tout accepter',
+      rejectAllButton: 'Tout refuser',
+      alwaysActiveLabel: 'Toujours actif',
+      closeButtonLabel: 'Fermer',
+      cookiesLabel: 'Cookies utilisés',
+    },
+    accessibility: {
+      bannerLabel: 'Bannière de consentement aux cookies',
+      preferencesLabel: 'Préférences des cookies',
+    },
+    embed: {
+      title: 'Contenu de {provider}',
+      description:
+        "Ce contenu intégré peut déposer des cookies et partager des données avec {provider}. Il est bloqué tant que vous n'autorisez pas les cookies {category}.",
+      loadOnceButton: 'Charger cette fois',
+      alwaysAllowButton: 'Toujours autoriser {category}',
+    },
+  },
+  es: {
+    banner: {
+      acceptButton: 'Aceptar todo',
+      rejectButton: 'Rechazar todo',
+      customizeButton: 'Personalizar',
+      learnMoreText: 'Más información',
+      managePreferencesText: 'Gestionar preferencias',
+      optOutButton: 'No vender ni compartir mi información personal',
+      acknowledgeButton: 'Entendido',
+    },
+    preferences: {
+      title: 'Preferencias de cookies',
+      saveButton: 'Guardar selección',
+      acceptAllButton: 'Aceptar todo',
+      rejectAllButton: 'Rechazar todo',
+      alwaysActiveLabel: 'Siempre activas',
+      closeButtonLabel: 'Cerrar',
+      cookiesLabel: 'Cookies utilizadas',
+    },
+    accessibility: {
+      bannerLabel: 'Banner de consentimiento de cookies',
+      preferencesLabel: 'Preferencias de cookies',
+    },
+    embed: {
+      title: 'Contenido de {provider}',
+      description:
+        'Este contenido insertado puede instalar cookies y compartir datos con {provider}. Está bloqueado hasta que permitas las cookies de {category}.',
+      loadOnceButton: 'Cargar solo esta vez',
+      alwaysAllowButton: 'Permitir siempre {category}',
+    },
+  },
+  it: {
+    banner: {
+      acceptButton: 'Accetta tutti',
+      rejectButton: 'Rifiuta tutti',
+      customizeButton: 'Personalizza',
+      learnMoreText: 'Scopri di più',
+      managePreferencesText: 'Gestisci preferenze',
+      optOutButton: 'Non vendere o condividere le mie informazioni personali',
+      acknowledgeButton: 'Ho capito',
+    },
+    preferences: {
+      title: 'Preferenze cookie',
+      saveButton: 'Salva le scelte',
+      acceptAllButton: 'Accetta tutti',
+      rejectAllButton: 'Rifiuta tutti',
+      alwaysActiveLabel: 'Sempre attivi',
+      closeButtonLabel: 'Chiudi',
+      cookiesLabel: 'Cookie utilizzati',
+    },
+    accessibility: {
+      bannerLabel: 'Banner di consenso ai cookie',
+      preferencesLabel: 'Preferenze cookie',
+    },
+    embed: {
+      title: 'Contenuto di {provider}',
+      description:
+        'Questo contenuto incorporato può impostare cookie e condividere dati con {provider}. È bloccato finché non consenti i cookie {category}.',
+      loadOnceButton: 'Carica solo questa volta',
+      alwaysAllowButton: 'Consenti sempre {category}',
+    },
+  },
+  pt: {
+    banner: {
+      acceptButton: 'Aceitar todos',
+      rejectButton: 'Rejeitar todos',
+      customizeButton: 'Personalizar',
+      learnMoreText: 'Saber mais',
+      managePreferencesText: 'Gerir preferências',
+      optOutButton: 'Não vender nem partilhar as minhas informações pessoais',
+      acknowledgeButton: 'Compreendi',
+    },
+    preferences: {
+      title: 'Preferências de cookies',
+      saveButton: 'Guardar escolhas',
+      acceptAllButton: 'Aceitar todos',
+      rejectAllButton: 'Rejeitar todos',
+      alwaysActiveLabel: 'Sempre ativos',
+      closeButtonLabel: 'Fechar',
+      cookiesLabel: 'Cookies utilizados',
+    },
+    accessibility: {
+      bannerLabel: 'Banner de consentimento de cookies',
+      preferencesLabel: 'Preferências de cookies',
+    },
+    embed: {
+      title: 'Conteúdo de {provider}',
+      description:
+        'Este conteúdo incorporado pode definir cookies e partilhar dados com {provider}. Está bloqueado até permitir cookies de {category}.',
+      loadOnceButton: 'Carregar só desta vez',
+      alwaysAllowButton: 'Permitir sempre {category}',
+    },
+  },
+  'pt-BR': {
+    banner: {
+      acceptButton: 'Aceitar todos',
+      rejectButton: 'Rejeitar todos',
+      customizeButton: 'Personalizar',
+      learnMoreText: 'Saiba mais',
+      managePreferencesText: 'Gerenciar preferências',
+      optOutButton: 'Não vender nem compartilhar minhas informações pessoais',
+      acknowledgeButton: 'Entendi',
+    },
+    preferences: {
+      title: 'Preferências de cookies',
+      saveButton: 'Salvar escolhas',
+      acceptAllButton: 'Aceitar todos',
+      rejectAllButton: 'Rejeitar todos',
+      alwaysActiveLabel: 'Sempre ativos',
+      closeButtonLabel: 'Fechar',
+      cookiesLabel: 'Cookies utilizados',
+    },
+    accessibility: {
+      bannerLabel: 'Banner de consentimento de cookies',
+      preferencesLabel: 'Preferências de cookies',
+    },
+    embed: {
+      title: 'Conteúdo de {provider}',
+      description:
+        'Este conteúdo incorporado pode definir cookies e compartilhar dados com {provider}. Ele fica bloqueado até você permitir cookies de {category}.',
+      loadOnceButton: 'Carregar só desta vez',
+      alwaysAllowButton: 'Sempre permitir {category}',
+    },
+  },
+  nl: {
+    banner: {
+      acceptButton: 'Alles accepteren',
+      rejectButton: 'Alles weigeren',
+      customizeButton: 'Aanpassen',
+      learnMoreText: 'Meer informatie',
+      managePreferencesText: 'Voorkeuren beheren',
+      optOutButton: 'Mijn persoonlijke gegevens niet verkopen of delen',
+      acknowledgeButton: 'Begrepen',
+    },
+    preferences: {
+      title: 'Cookievoorkeuren',
+      saveButton: 'Keuzes opslaan',
+      acceptAllButton: 'Alles accepteren',
+      rejectAllButton: 'Alles weigeren',
+      alwaysActiveLabel: 'Altijd actief',
+      closeButtonLabel: 'Sluiten',
+      cookiesLabel: 'Gebruikte cookies',
+    },
+    accessibility: {
+      bannerLabel: 'Cookietoestemmingsbanner',
+      preferencesLabel: 'Cookievoorkeuren',
+    },
+    embed: {
+      title: 'Inhoud van {provider}',
+      description:
+        'Deze ingesloten inhoud kan cookies plaatsen en gegevens delen met {provider}. Ze is geblokkeerd totdat je {category}-cookies toestaat.',
+      loadOnceButton: 'Eenmalig laden',
+      alwaysAllowButton: '{category} altijd toestaan',
+    },
+  },
+  pl: {
+    banner: {
+      acceptButton: 'Akceptuj wszystkie',
+      rejectButton: 'Odrzuć wszystkie',
+      customizeButton: 'Dostosuj',
+      learnMoreText: 'Dowiedz się więcej',
+      managePreferencesText: 'Zarządzaj preferencjami',
+      optOutButton: 'Nie sprzedawaj ani nie udostępniaj moich danych osobowych',
+      acknowledgeButton: 'Rozumiem',
+    },
+    preferences: {
+      title: 'Ustawienia plików cookie',
+      saveButton: 'Zapisz wybór',
+      acceptAllButton: 'Akceptuj wszystkie',
+      rejectAllButton: 'Odrzuć wszystkie',
+      alwaysActiveLabel: 'Zawsze aktywne',
+      closeButtonLabel: 'Zamknij',
+      cookiesLabel: 'Używane pliki cookie',
+    },
+    accessibility: {
+      bannerLabel: 'Baner zgody na pliki cookie',
+      preferencesLabel: 'Ustawienia plików cookie',
+    },
+    embed: {
+      title: 'Treść z {provider}',
+      description:
+        'Ta osadzona treść może zapisywać pliki cookie i udostępniać dane {provider}. Jest zablokowana, dopóki nie zezwolisz na pliki cookie {category}.',
+      loadOnceButton: 'Załaduj jednorazowo',
+      alwaysAllowButton: 'Zawsze zezwalaj: {category}',
+    },
+  },
+  sv: {
+    banner: {
+      acceptButton: 'Acceptera alla',
+      rejectButton: 'Avvisa alla',
+      customizeButton: 'Anpassa',
+      learnMoreText: 'Läs mer',
+      managePreferencesText: 'Hantera inställningar',
+      optOutButton: 'Sälj eller dela inte mina personuppgifter',
+      acknowledgeButton: 'Uppfattat',
+    },
+    preferences: {
+      title: 'Cookieinställningar',
+      saveButton: 'Spara val',
+      acceptAllButton: 'Acceptera alla',
+      rejectAllButton: 'Avvisa alla',
+      alwaysActiveLabel: 'Alltid aktiva',
+      closeButtonLabel: 'Stäng',
+      cookiesLabel: 'Cookies som används',
+    },
+    accessibility: {
+      bannerLabel: 'Banner för cookiesamtycke',
+      preferencesLabel: 'Cookieinställningar',
+    },
+    embed: {
+      title: 'Innehåll från {provider}',
+      description:
+        'Det här inbäddade innehållet kan sätta cookies och dela data med {provider}. Det är blockerat tills du tillåter {category}-cookies.',
+      loadOnceButton: 'Ladda en gång',
+      alwaysAllowButton: 'Tillåt alltid {category}',
+    },
+  },
+  da: {
+    banner: {
+      acceptButton: 'Accepter alle',
+      rejectButton: 'Afvis alle',
+      customizeButton: 'Tilpas',
+      learnMoreText: 'Læs mere',
+      managePreferencesText: 'Administrer præferencer',
+      optOutButton: 'Sælg eller del ikke mine personoplysninger',
+      acknowledgeButton: 'Forstået',
+    },
+    preferences: {
+      title: 'Cookieindstillinger',
+      saveButton: 'Gem valg',
+      acceptAllButton: 'Accepter alle',
+      rejectAllButton: 'Afvis alle',
+      alwaysActiveLabel: 'Altid aktive',
+      closeButtonLabel: 'Luk',
+      cookiesLabel: 'Anvendte cookies',
+    },
+    accessibility: {
+      bannerLabel: 'Banner for cookiesamtykke',
+      preferencesLabel: 'Cookieindstillinger',
+    },
+    embed: {
+      title: 'Indhold fra {provider}',
+      description:
+        'Dette indlejrede indhold kan sætte cookies og dele data med {provider}. Det er blokeret, indtil du tillader {category}-cookies.',
+      loadOnceButton: 'Indlæs denne gang',
+      alwaysAllowButton: 'Tillad altid {category}',
+    },
+  },
+  fi: {
+    banner: {
+      acceptButton: 'Hyväksy kaikki',
+      rejectButton: 'Hylkää kaikki',
+      customizeButton: 'Mukauta',
+      learnMoreText: 'Lue lisää',
+      managePreferencesText: 'Hallitse asetuksia',
+      optOutButton: 'Älä myy tai jaa henkilötietojani',
+      acknowledgeButton: 'Selvä',
+    },
+    preferences: {
+      title: 'Evästeasetukset',
+      saveButton: 'Tallenna valinnat',
+      acceptAllButton: 'Hyväksy kaikki',
+      rejectAllButton: 'Hylkää kaikki',
+      alwaysActiveLabel: 'Aina käytössä',
+      closeButtonLabel: 'Sulje',
+      cookiesLabel: 'Käytetyt evästeet',
+    },
+    accessibility: {
+      bannerLabel: 'Evästesuostumusbanneri',
+      preferencesLabel: 'Evästeasetukset',
+    },
+    embed: {
+      title: 'Sisältöä palvelusta {provider}',
+      description:
+        'Tämä upotettu sisältö voi asettaa evästeitä ja jakaa tietoja palvelulle {provider}. Se on estetty, kunnes sallit {category}-evästeet.',
+      loadOnceButton: 'Lataa kerran',
+      alwaysAllowButton: 'Salli aina {category}',
+    },
+  },
+  cs: {
+    banner: {
+      acceptButton: 'Přijmout vše',
+      rejectButton: 'Odmítnout vše',
+      customizeButton: 'Přizpůsobit',
+      learnMoreText: 'Další informace',
+      managePreferencesText: 'Spravovat předvolby',
+      optOutButton: 'Neprodávat ani nesdílet mé osobní údaje',
+      acknowledgeButton: 'Rozumím',
+    },
+    preferences: {
+      title: 'Nastavení cookies',
+      saveButton: 'Uložit volby',
+      acceptAllButton: 'Přijmout vše',
+      rejectAllButton: 'Odmítnout vše',
+      alwaysActiveLabel: 'Vždy aktivní',
+      closeButtonLabel: 'Zavřít',
+      cookiesLabel: 'Používané cookies',
+    },
+    accessibility: {
+      bannerLabel: 'Banner souhlasu s cookies',
+      preferencesLabel: 'Nastavení cookies',
+    },
+    embed: {
+      title: 'Obsah od {provider}',
+      description:
+        'Tento vložený obsah může ukládat cookies a sdílet data s {provider}. Je blokován, dokud nepovolíte cookies kategorie {category}.',
+      loadOnceButton: 'Načíst jednou',
+      alwaysAllowButton: 'Vždy povolit {category}',
+    },
+  },
+};
+
+/**
+ * Built-in labels for a locale, following its fallback chain down to English
+ */
+export function getTranslation(locale: string | null | undefined): ConsentTranslation {
+  const resolved = resolveLocale(Object.keys(defaultTranslations), locale ? [locale] : []);
+  return defaultTranslations[resolved];
+}
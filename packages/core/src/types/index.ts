@@ -6,6 +6,17 @@
 
 export type ConsentCategory = 'essential' | 'analytics' | 'marketing' | string;
 
+/**
+ * Where a consent decision came from
+ * 'user' for an explicit choice, otherwise the privacy signal that applied it
+ */
+export type ConsentSource = 'user' | PrivacySignal;
+
+/**
+ * Browser privacy signals: Global Privacy Control and Do Not Track
+ */
+export type PrivacySignal = 'gpc' | 'dnt';
+
 export interface ConsentState {
   version: number;
   essential: boolean; // Always true - required for core functionality
@@ -13,7 +24,10 @@ export interface ConsentState {
   marketing: boolean; // Facebook Pixel, LinkedIn Insight Tag, etc.
   timestamp: number; // When consent was given (milliseconds)
   expiresAt: number; // When consent expires (milliseconds)
-  [key: string]: boolean | number; // Support for custom categories
+  source?: ConsentSource; // How the decision was made (absent on older records)
+  undecided?: string[]; // Categories added by a version migration and not yet decided
+  locale?: string; // Locale of the consent text the user saw (BCP 47, e.g. 'pt-BR')
+  [key: string]: boolean | number | string | string[] | undefined; // Support for custom categories
 }
 
 export interface ConsentPreferences {
@@ -24,15 +38,139 @@ export interface ConsentPreferences {
 
 export type ConsentChangeListener = (state: ConsentState) => void;
 
+/**
+ * Migrates a stored consent state from one version to the next
+ * Return the state with categories renamed, merged or removed as needed;
+ * categories missing from the result are denied and marked undecided
+ */
+export type ConsentMigration = (state: ConsentState) => ConsentState;
+
 /**
  * Storage adapter interface for pluggable storage backends
  */
 export interface StorageAdapter {
   getItem(key: string): string | null | Promise<string | null>;
-  setItem(key: string, value: string): void | Promise<void>;
+  setItem(key: string, value: string, options?: StorageSetOptions): void | Promise<void>;
   removeItem(key: string): void | Promise<void>;
 }
 
+/**
+ * Details of the record being written, for adapters that expire entries
+ */
+export interface StorageSetOptions {
+  /** When the consent record expires (ms since epoch) */
+  expiresAt?: number;
+}
+
+/**
+ * How consent records are written to storage
+ * - 'json': readable JSON with named categories
+ * - 'compact': versioned web-safe Base64 with one bit per category in registry order and
+ *   a fingerprint of the category names
+ */
+export type ConsentStorageFormat = 'json' | 'compact';
+
+/**
+ * A cookie or storage entry set by a category
+ */
+export interface CookieDeclaration {
+  /** Cookie or storage key name; '*' matches any characters (e.g. '_ga_*') */
+  name: string;
+  /** Where the entry lives (default: 'cookie') */
+  storage?: 'cookie' | 'localStorage' | 'sessionStorage';
+  /** Who sets it (first party or vendor name) */
+  provider?: string;
+  /** Human-readable lifetime, e.g. '2 years' or 'Session' */
+  duration: string;
+  /** What it is used for */
+  purpose: string;
+}
+
+/**
+ * A third party that processes data under a category
+ */
+export interface VendorDeclaration {
+  name: string;
+  description?: string;
+  privacyPolicyUrl?: string;
+}
+
+/**
+ * Metadata describing a consent category
+ */
+export interface CategoryDefinition {
+  label: string;
+  description: string;
+  /** Always granted and cannot be turned off (default: false; always true for essential) */
+  required?: boolean;
+  vendors?: VendorDeclaration[];
+  cookies?: CookieDeclaration[];
+}
+
+/**
+ * Category registry keyed by category name
+ * Keys other than essential/analytics/marketing are added as custom categories
+ */
+export type CategoryRegistry = Record<string, CategoryDefinition>;
+
+/**
+ * Privacy signal handling (GPC / DNT)
+ */
+export interface PrivacySignalConfig {
+  /**
+   * Signals to honor, checked in order (default: ['gpc'])
+   */
+  honor?: PrivacySignal[];
+
+  /**
+   * Preferences applied when a signal is detected (default: { marketing: false })
+   * With nothing stored it overrides the profile defaults and isn't saved; categories
+   * not listed keep their default, or their stored value when overriding a decision
+   */
+  optOut?: Partial<ConsentPreferences>;
+
+  /**
+   * Apply the opt-out over an existing stored decision (default: false)
+   */
+  overrideStored?: boolean;
+}
+
+/**
+ * Signature produced by a ConsentSigner
+ */
+export interface ConsentSignature {
+  signature: string;
+  /** Id of the key used, stored as __keyId to support key rotation */
+  keyId?: string;
+}
+
+/**
+ * Signs and verifies canonical consent data for integrity checks
+ */
+export interface ConsentSigner {
+  sign(data: string): Promise<ConsentSignature>;
+  /** Resolves false for a mismatch; rejects when the signature can't be checked (stored consent is kept) */
+  verify(data: string, signature: ConsentSignature): Promise<boolean>;
+}
+
+/**
+ * AES-GCM key used to encrypt new records
+ */
+export interface ConsentEncryptionKey {
+  key: CryptoKey;
+  /** Id stored in the envelope to support key rotation (letters, digits, '_' or '-') */
+  keyId?: string;
+}
+
+/**
+ * Supplies AES-GCM keys for encrypted-at-rest consent records
+ */
+export interface ConsentKeyProvider {
+  getEncryptionKey(): Promise<ConsentEncryptionKey>;
+  /** Key named by an envelope (keyId is absent for envelopes written without one); null if unknown */
+  getDecryptionKey(keyId?: string): Promise<CryptoKey | null>;
+}
+
 /**
  * Configuration options for ConsentManager
  */
@@ -52,16 +190,45 @@ export interface ConsentManagerConfig {
    */
   version?: number;
 
+  /**
+   * Migrations keyed by the version they upgrade from (to version + 1)
+   * Stored consent without a full migration path is cleared
+   */
+  migrations?: Record<number, ConsentMigration>;
+
+  /**
+   * Show the banner again when a migration adds undecided categories (default: false)
+   */
+  repromptForNewCategories?: boolean;
+
   /**
    * Custom storage adapter (default: localStorage)
    */
   storage?: StorageAdapter;
 
+  /**
+   * Format used when writing consent (default: 'json')
+   * Both formats are always read, so switching formats keeps existing consent
+   */
+  storageFormat?: ConsentStorageFormat;
+
+  /**
+   * Custom category lists of earlier releases, in registry order
+   * Compact records written under one of them are read under its names, so migrations
+   * can rename them; records from an unknown list prompt again without being cleared
+   */
+  previousCustomCategories?: string[][];
+
   /**
    * Additional consent categories beyond essential, analytics, marketing
    */
   customCategories?: string[];
 
+  /**
+   * Category metadata: labels, descriptions, vendors and cookie declarations
+   */
+  categories?: CategoryRegistry;
+
   /**
    * Callback fired when consent changes
    */
@@ -77,6 +244,121 @@ export interface ConsentManagerConfig {
    * Prevents tampering with consent data in storage
    */
   enableIntegrity?: boolean;
+
+  /**
+   * Signer used for integrity signatures (default: a per-device secret in localStorage)
+   * Use createKeyRingSigner or createRemoteSigner for server-verifiable signatures
+   */
+  signer?: ConsentSigner;
+
+  /**
+   * Encrypt stored records with AES-GCM using keys from this provider (default: disabled)
+   * Plain records are still read and are encrypted on the next load; records that fail
+   * to decrypt are cleared like records that fail integrity checks
+   */
+  encryption?: ConsentKeyProvider;
+
+  /**
+   * Honor browser privacy signals at load time (default: disabled)
+   * Pass true for GPC with the default opt-out
+   */
+  privacySignals?: boolean | PrivacySignalConfig;
+
+  /**
+   * Keep consent in sync across tabs and windows (default: true)
+   * Changes are re-validated (signature, schema, expiry) before listeners are notified
+   */
+  sync?: boolean | ConsentSyncConfig;
+
+  /**
+   * Regulation profiles by name, merged over the built-in 'gdpr', 'us' and 'notice' profiles
+   */
+  profiles?: Record<string, RegulationProfile>;
+
+  /**
+   * Visitor region supplied by the host, e.g. from an edge geo header ('DE', 'US-CA')
+   * Selects the profile whose regions match; otherwise defaultProfile applies
+   */
+  region?: string;
+
+  /**
+   * Profile used when no profile matches the region (default: 'gdpr')
+   */
+  defaultProfile?: string;
+
+  /**
+   * Locale of the consent text shown to the user (BCP 47, e.g. 'pt-BR')
+   * Stored with each decision; update it with setLocale() when the UI language changes
+   */
+  locale?: string;
+
+  /**
+   * Consent read on the server, e.g. readConsentFromCookieHeader(...).state
+   * Trusted until stored consent is verified; listeners are notified if they disagree
+   */
+  initialState?: ConsentState | null;
+}
+
+/**
+ * How consent works before the user decides
+ * - 'opt-in': nothing optional is granted until the user agrees (GDPR)
+ * - 'opt-out': granted by default; the user can opt out ("Do Not Sell or Share")
+ * - 'notice-only': granted; the user is informed but has no choices
+ */
+export type ConsentModel = 'opt-in' | 'opt-out' | 'notice-only';
+
+/**
+ * Banner layout for a regulation profile
+ */
+export type BannerVariant = 'opt-in' | 'opt-out' | 'notice';
+
+/**
+ * Consent rules for a set of regions
+ */
+export interface RegulationProfile {
+  model: ConsentModel;
+  /** ISO 3166-1 alpha-2 or ISO 3166-2 codes, e.g. ['DE', 'US-CA'] */
+  regions?: string[];
+  /**
+   * State of each optional category before a decision
+   * (default: denied for 'opt-in', granted otherwise)
+   */
+  defaults?: Record<string, boolean>;
+  /**
+   * Optional categories the user can change; others stay at their default
+   * (default: all optional categories, none for 'notice-only')
+   */
+  revocable?: string[];
+  /** Banner to show (default: follows the model) */
+  banner?: BannerVariant;
+}
+
+/**
+ * Regulation profile after defaults are applied
+ */
+export interface ResolvedRegulationProfile {
+  name: string;
+  model: ConsentModel;
+  regions: string[];
+  defaults: Record<string, boolean>;
+  revocable: string[];
+  banner: BannerVariant;
+}
+
+/**
+ * Cross-tab synchronization settings
+ */
+export interface ConsentSyncConfig {
+  /** Announce changes over BroadcastChannel where available (default: true) */
+  broadcastChannel?: boolean;
+  /**
+   * Milliseconds between checks for CookieStorageAdapter and IndexedDBStorageAdapter,
+   * which have no change event
+   * (default: 2000, 0 disables polling)
+   */
+  pollInterval?: number;
+  /** Re-check storage when the page becomes visible again (default: true) */
+  revalidateOnFocus?: boolean;
 }
 
 /**
@@ -89,4 +371,6 @@ export interface ConsentDebugInfo {
   daysRemaining: number | null;
   storageKey: string;
   version: number;
+  privacySignal: PrivacySignal | null; // Honored signal detected at load time
+  profile: string; // Regulation profile selected for the region
 }
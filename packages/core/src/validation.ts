@@ -4,6 +4,13 @@
  */
 
 import { z } from 'zod';
+import type {
+  CategoryRegistry,
+  ConsentMigration,
+  ConsentSyncConfig,
+  PrivacySignalConfig,
+  RegulationProfile,
+} from './types';
 
 // Maximum values for security constraints
 const MAX_TIMESTAMP = 8640000000000000; // JavaScript max date
@@ -12,7 +19,18 @@ const MAX_CUSTOM_CATEGORIES = 50;
 const MAX_CATEGORY_NAME_LENGTH = 100;
 const VALID_CATEGORY_NAME_REGEX = /^[a-zA-Z0-9_-]+$/;
 const MAX_STORAGE_KEY_LENGTH = 256;
+const MAX_LABEL_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_DECLARATIONS_PER_CATEGORY = 500;
 const VALID_STORAGE_KEY_REGEX = /^[a-zA-Z0-9_-]+$/;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const MIN_POLL_INTERVAL_MS = 250;
+const MAX_POLL_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_PROFILES = 50;
+const MAX_REGIONS_PER_PROFILE = 500;
+const VALID_REGION_REGEX = /^[A-Za-z0-9]{2}(-[A-Za-z0-9]{1,3})?$/; // Also allows codes like T1 from edge geo headers
+const MAX_LOCALE_LENGTH = 35;
+const VALID_LOCALE_REGEX = /^[A-Za-z]{2,8}(-[A-Za-z0-9]{1,8})*$/; // BCP 47 language tag
 
 /**
  * Schema for validating consent state from storage
@@ -25,8 +43,71 @@ export const ConsentStateSchema = z.object({
   marketing: z.boolean(),
   timestamp: z.number().int().min(MIN_TIMESTAMP).max(MAX_TIMESTAMP),
   expiresAt: z.number().int().min(MIN_TIMESTAMP).max(MAX_TIMESTAMP),
+  source: z.enum(['user', 'gpc', 'dnt']).optional(),
+  undecided: z.array(z.string()).max(MAX_CUSTOM_CATEGORIES).optional(),
+  locale: z.string().max(MAX_LOCALE_LENGTH).regex(VALID_LOCALE_REGEX).optional(),
 }).catchall(z.boolean()); // Custom categories must be boolean
 
+/**
+ * Schema for privacy signal configuration
+ */
+const PrivacySignalConfigSchema = z.object({
+  honor: z.array(z.enum(['gpc', 'dnt'])).optional(),
+  optOut: z.record(z.string(), z.boolean()).optional(),
+  overrideStored: z.boolean().optional(),
+});
+
+/**
+ * Schema for cross-tab sync configuration
+ */
+const SyncConfigSchema = z.object({
+  broadcastChannel: z.boolean().optional(),
+  pollInterval: z.number().int().max(MAX_POLL_INTERVAL_MS)
+    .refine((ms) => ms === 0 || ms >= MIN_POLL_INTERVAL_MS, {
+      message: `Poll interval must be 0 or at least ${MIN_POLL_INTERVAL_MS}ms`,
+    })
+    .optional(),
+  revalidateOnFocus: z.boolean().optional(),
+}).strict();
+
+/**
+ * Schema for regulation profiles
+ */
+const RegulationProfileSchema = z.object({
+  model: z.enum(['opt-in', 'opt-out', 'notice-only']),
+  regions: z.array(z.string().regex(VALID_REGION_REGEX, 'Invalid region code'))
+    .max(MAX_REGIONS_PER_PROFILE)
+    .optional(),
+  defaults: z.record(z.string(), z.boolean()).optional(),
+  revocable: z.array(z.string()).optional(),
+  banner: z.enum(['opt-in', 'opt-out', 'notice']).optional(),
+}).strict();
+
+/**
+ * Schemas for the category registry
+ */
+const CookieDeclarationSchema = z.object({
+  name: z.string().min(1).max(MAX_STORAGE_KEY_LENGTH),
+  storage: z.enum(['cookie', 'localStorage', 'sessionStorage']).optional(),
+  provider: z.string().max(MAX_LABEL_LENGTH).optional(),
+  duration: z.string().max(MAX_LABEL_LENGTH),
+  purpose: z.string().max(MAX_DESCRIPTION_LENGTH),
+}).strict();
+
+const VendorDeclarationSchema = z.object({
+  name: z.string().min(1).max(MAX_LABEL_LENGTH),
+  description: z.string().max(MAX_DESCRIPTION_LENGTH).optional(),
+  privacyPolicyUrl: z.url().optional(),
+}).strict();
+
+const CategoryDefinitionSchema = z.object({
+  label: z.string().min(1).max(MAX_LABEL_LENGTH),
+  description: z.string().max(MAX_DESCRIPTION_LENGTH),
+  required: z.boolean().optional(),
+  vendors: z.array(VendorDeclarationSchema).max(MAX_DECLARATIONS_PER_CATEGORY).optional(),
+  cookies: z.array(CookieDeclarationSchema).max(MAX_DECLARATIONS_PER_CATEGORY).optional(),
+}).strict();
+
 /**
  * Validate and sanitize consent state from untrusted storage
  * Creates a clean object without prototype pollution risk
@@ -54,6 +135,12 @@ export function validateConsentState(
     clean.marketing = parsed.marketing;
     clean.timestamp = parsed.timestamp;
     clean.expiresAt = parsed.expiresAt;
+    if (parsed.source !== undefined) {
+      clean.source = parsed.source;
+    }
+    if (parsed.locale !== undefined) {
+      clean.locale = parsed.locale;
+    }
 
     // Only copy expected custom categories (prevent unexpected properties)
     for (const category of customCategories) {
@@ -62,6 +149,15 @@ export function validateConsentState(
       }
     }
 
+    // Only keep undecided entries that are known categories
+    if (parsed.undecided !== undefined) {
+      const known = ['analytics', 'marketing', ...customCategories];
+      const undecided = parsed.undecided.filter((category) => known.includes(category));
+      if (undecided.length > 0) {
+        clean.undecided = undecided;
+      }
+    }
+
     // Validate timestamp logic
     if (clean.expiresAt <= clean.timestamp) {
       return { success: false, error: 'expiresAt must be after timestamp' };
@@ -89,6 +185,21 @@ export function validateConsentState(
   }
 }
 
+/**
+ * Names of category-like (boolean) keys in an untrusted stored object
+ * Used to keep categories from older versions until migrations have run
+ */
+export function getStoredCategoryNames(data: unknown): string[] {
+  if (typeof data !== 'object' || data === null) {
+    return [];
+  }
+  return Object.keys(data).filter(
+    (key) =>
+      typeof (data as Record<string, unknown>)[key] === 'boolean' &&
+      validateCustomCategories([key]).success
+  );
+}
+
 /**
  * Validate custom category names
  * Prevents injection attacks and ensures safe storage keys
@@ -138,7 +249,7 @@ export function validateCustomCategories(
     }
 
     // Reserved names (prevent overriding built-in properties)
-    const reserved = ['version', 'essential', 'analytics', 'marketing', 'timestamp', 'expiresAt', '__proto__', 'constructor', 'prototype'];
+    const reserved = ['version', 'essential', 'analytics', 'marketing', 'timestamp', 'expiresAt', 'source', 'undecided', 'locale', '__proto__', 'constructor', 'prototype'];
     if (reserved.includes(category.toLowerCase())) {
       return {
         success: false,
@@ -153,6 +264,28 @@ export function validateCustomCategories(
   return { success: true, data: validated };
 }
 
+/**
+ * Validate the custom category lists of earlier releases
+ */
+export function validatePreviousCustomCategories(
+  lists: unknown
+): { success: true; data: string[][] } | { success: false; error: string } {
+  if (!Array.isArray(lists)) {
+    return { success: false, error: 'Previous custom categories must be an array of category lists' };
+  }
+
+  const validated: string[][] = [];
+  for (const list of lists) {
+    const validation = validateCustomCategories(list);
+    if (!validation.success) {
+      return validation;
+    }
+    validated.push(validation.data);
+  }
+
+  return { success: true, data: validated };
+}
+
 /**
  * Validate and sanitize storage key
  * Prevents cookie injection attacks
@@ -223,3 +356,206 @@ export function validateVersion(
 
   return { success: true, data: version };
 }
+
+/**
+ * Validate privacy signal configuration
+ * Normalizes `true` to the default GPC opt-out
+ */
+export function validatePrivacySignals(
+  config: unknown,
+  customCategories: string[] = []
+): { success: true; data: Required<PrivacySignalConfig> | null } | { success: false; error: string } {
+  if (config === undefined || config === false) {
+    return { success: true, data: null };
+  }
+
+  const input = config === true ? {} : config;
+  const parsed = PrivacySignalConfigSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: `Validation failed: ${parsed.error.issues[0].message}` };
+  }
+
+  const optOut = parsed.data.optOut ?? { marketing: false };
+  const known = ['analytics', 'marketing', ...customCategories];
+  for (const category of Object.keys(optOut)) {
+    if (!known.includes(category)) {
+      return { success: false, error: `Unknown category in opt-out: "${category}"` };
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      honor: parsed.data.honor ?? ['gpc'],
+      optOut,
+      overrideStored: parsed.data.overrideStored ?? false,
+    },
+  };
+}
+
+/**
+ * Validate cross-tab sync configuration
+ * Returns null when sync is disabled
+ */
+export function validateSyncConfig(
+  config: unknown
+): { success: true; data: Required<ConsentSyncConfig> | null } | { success: false; error: string } {
+  if (config === false) {
+    return { success: true, data: null };
+  }
+
+  const input = config === undefined || config === true ? {} : config;
+  const parsed = SyncConfigSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: `Validation failed: ${parsed.error.issues[0].message}` };
+  }
+
+  return {
+    success: true,
+    data: {
+      broadcastChannel: parsed.data.broadcastChannel ?? true,
+      pollInterval: parsed.data.pollInterval ?? DEFAULT_POLL_INTERVAL_MS,
+      revalidateOnFocus: parsed.data.revalidateOnFocus ?? true,
+    },
+  };
+}
+
+/**
+ * Validate regulation profiles
+ * Categories in defaults and revocable must be optional categories
+ */
+export function validateRegulationProfiles(
+  profiles: unknown,
+  optionalCategories: string[]
+): { success: true; data: Record<string, RegulationProfile> } | { success: false; error: string } {
+  if (typeof profiles !== 'object' || profiles === null || Array.isArray(profiles)) {
+    return { success: false, error: 'Regulation profiles must be an object' };
+  }
+
+  const names = Object.keys(profiles);
+  if (names.length > MAX_PROFILES) {
+    return { success: false, error: `Too many regulation profiles (max ${MAX_PROFILES})` };
+  }
+
+  const validated: Record<string, RegulationProfile> = {};
+  for (const name of names) {
+    const nameValidation = validateCustomCategories([name]);
+    if (!nameValidation.success) {
+      return { success: false, error: `Invalid profile name "${name}": ${nameValidation.error}` };
+    }
+
+    const parsed = RegulationProfileSchema.safeParse((profiles as Record<string, unknown>)[name]);
+    if (!parsed.success) {
+      return { success: false, error: `Profile "${name}": ${parsed.error.issues[0].message}` };
+    }
+
+    const categories = [...Object.keys(parsed.data.defaults ?? {}), ...(parsed.data.revocable ?? [])];
+    for (const category of categories) {
+      if (!optionalCategories.includes(category)) {
+        return { success: false, error: `Profile "${name}": unknown or required category "${category}"` };
+      }
+    }
+
+    validated[name] = parsed.data;
+  }
+
+  return { success: true, data: validated };
+}
+
+/**
+ * Validate a region code (ISO 3166-1 alpha-2 or ISO 3166-2)
+ */
+export function validateRegion(
+  region: unknown
+): { success: true; data: string } | { success: false; error: string } {
+  if (typeof region !== 'string' || !VALID_REGION_REGEX.test(region)) {
+    return { success: false, error: `Invalid region code: "${String(region)}"` };
+  }
+  return { success: true, data: region.toUpperCase() };
+}
+
+/**
+ * Validate a locale (BCP 47 language tag, e.g. 'en', 'pt-BR')
+ */
+export function validateLocale(
+  locale: unknown
+): { success: true; data: string } | { success: false; error: string } {
+  if (typeof locale !== 'string' || locale.length > MAX_LOCALE_LENGTH || !VALID_LOCALE_REGEX.test(locale)) {
+    return { success: false, error: `Invalid locale: "${String(locale)}"` };
+  }
+  return { success: true, data: locale };
+}
+
+/**
+ * Validate the category registry
+ * Keys follow the custom category rules, except that built-in categories may be described
+ */
+export function validateCategoryRegistry(
+  registry: unknown
+): { success: true; data: CategoryRegistry } | { success: false; error: string } {
+  if (typeof registry !== 'object' || registry === null || Array.isArray(registry)) {
+    return { success: false, error: 'Category registry must be an object' };
+  }
+
+  const builtIn = ['essential', 'analytics', 'marketing'];
+  const names = Object.keys(registry);
+  const customValidation = validateCustomCategories(names.filter((name) => !builtIn.includes(name)));
+  if (!customValidation.success) {
+    return customValidation;
+  }
+
+  const clean: CategoryRegistry = {};
+  for (const name of names) {
+    const parsed = CategoryDefinitionSchema.safeParse((registry as Record<string, unknown>)[name]);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      const path = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+      return { success: false, error: `Category "${name}"${path}: ${issue.message}` };
+    }
+
+    if (name === 'essential' && parsed.data.required === false) {
+      return { success: false, error: 'Category "essential" is always required' };
+    }
+
+    clean[name] = parsed.data;
+  }
+
+  return { success: true, data: clean };
+}
+
+/**
+ * Validate consent version migrations
+ * Keys must be versions below the current version; values must be functions
+ */
+export function validateMigrations(
+  migrations: unknown,
+  currentVersion: number
+): { success: true; data: Record<number, ConsentMigration> } | { success: false; error: string } {
+  if (typeof migrations !== 'object' || migrations === null || Array.isArray(migrations)) {
+    return { success: false, error: 'Migrations must be an object' };
+  }
+
+  const validated: Record<number, ConsentMigration> = {};
+  for (const [key, migrate] of Object.entries(migrations)) {
+    const fromVersion = Number(key);
+    const versionValidation = validateVersion(fromVersion);
+    if (!versionValidation.success) {
+      return { success: false, error: `Invalid migration key "${key}": ${versionValidation.error}` };
+    }
+
+    if (fromVersion >= currentVersion) {
+      return {
+        success: false,
+        error: `Migration from version ${fromVersion} must be below the current version ${currentVersion}`
+      };
+    }
+
+    if (typeof migrate !== 'function') {
+      return { success: false, error: `Migration from version ${fromVersion} must be a function` };
+    }
+
+    validated[fromVersion] = migrate as ConsentMigration;
+  }
+
+  return { success: true, data: validated };
+}
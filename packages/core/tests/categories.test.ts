@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { ConsentManager, MemoryStorageAdapter, type ConsentManagerConfig } from '../src';
+
+function createManager(config: ConsentManagerConfig): ConsentManager {
+  return new ConsentManager({ storage: new MemoryStorageAdapter(), enableIntegrity: false, sync: false, ...config });
+}
+
+const newsletter = { label: 'Newsletter', description: 'Email campaign tracking' };
+
+describe('category registry', () => {
+  it('adds registry entries as custom categories after the built-ins', () => {
+    const manager = createManager({
+      customCategories: ['preferences'],
+      categories: {
+        analytics: { label: 'Statistics', description: 'Usage measurement' },
+        newsletter,
+        security: { label: 'Security', description: 'Fraud prevention', required: true },
+      },
+    });
+
+    expect(manager.getCategories()).toEqual(['essential', 'analytics', 'marketing', 'preferences', 'newsletter', 'security']);
+    expect(manager.getCategoryDefinition('analytics')?.label).toBe('Statistics');
+    expect(manager.isCategoryRequired('security')).toBe(true);
+    expect(manager.isCategoryRevocable('security')).toBe(false);
+  });
+
+  it('does not duplicate a category listed in both customCategories and the registry', () => {
+    const manager = createManager({ customCategories: ['newsletter'], categories: { newsletter } });
+    expect(manager.getCategories()).toEqual(['essential', 'analytics', 'marketing', 'newsletter']);
+  });
+
+  it('rejects duplicate custom categories', () => {
+    expect(() => createManager({ customCategories: ['newsletter', 'newsletter'] })).toThrow(
+      'Invalid custom categories: Duplicate category: "newsletter"'
+    );
+  });
+
+  it.each(['timestamp', 'Locale', 'constructor', 'undecided'])('rejects the reserved name "%s"', (name) => {
+    expect(() => createManager({ categories: { [name]: newsletter } })).toThrow(
+      `Invalid category registry: Category name "${name}" is reserved`
+    );
+  });
+
+  it('rejects names with invalid characters', () => {
+    expect(() => createManager({ categories: { 'news letter': newsletter } })).toThrow(/contains invalid characters/);
+  });
+
+  it('rejects incomplete definitions and declarations', () => {
+    expect(() => createManager({ categories: { newsletter: { label: 'Newsletter' } as never } })).toThrow(
+      /^Invalid category registry: Category "newsletter" at description:/
+    );
+    expect(() =>
+      createManager({
+        categories: { newsletter: { ...newsletter, cookies: [{ name: '', duration: '1 year', purpose: 'Tracking' }] } },
+      })
+    ).toThrow(/Category "newsletter" at cookies\.0\.name:/);
+    expect(() => createManager({ categories: { newsletter: { ...newsletter, extra: true } as never } })).toThrow(
+      /Category "newsletter"/
+    );
+  });
+
+  it('keeps essential required', () => {
+    expect(() =>
+      createManager({ categories: { essential: { label: 'Essential', description: 'Site operation', required: false } } })
+    ).toThrow('Invalid category registry: Category "essential" is always required');
+  });
+
+  it('rejects unknown categories in privacy signal preferences', () => {
+    expect(() => createManager({ privacySignals: { optOut: { newsletter: false } } })).toThrow(
+      'Invalid privacy signals: Unknown category in opt-out: "newsletter"'
+    );
+    expect(() =>
+      createManager({ categories: { newsletter }, privacySignals: { optOut: { newsletter: false } } })
+    ).not.toThrow();
+  });
+
+  it('rejects unknown or required categories in profile preferences', () => {
+    expect(() =>
+      createManager({ profiles: { strict: { model: 'opt-in', defaults: { newsletter: true } } } })
+    ).toThrow('Invalid regulation profiles: Profile "strict": unknown or required category "newsletter"');
+    expect(() =>
+      createManager({
+        categories: { security: { label: 'Security', description: 'Fraud prevention', required: true } },
+        profiles: { strict: { model: 'opt-in', revocable: ['security'] } },
+      })
+    ).toThrow('Invalid regulation profiles: Profile "strict": unknown or required category "security"');
+  });
+
+  it('ignores preferences for categories outside the registry', async () => {
+    const manager = createManager({ categories: { newsletter } });
+    const state = await manager.setPreferences({ analytics: true, marketing: false, newsletter: true, unknown: true });
+
+    expect(state).toMatchObject({ analytics: true, marketing: false, newsletter: true });
+    expect(state).not.toHaveProperty('unknown');
+  });
+});
@@ -0,0 +1,201 @@
+// @vitest-environment happy-dom
+// @vitest-environment-options { "url": "https://shop.example.com/blog/post" }
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConsentManager, MemoryStorageAdapter, installConsentCleanup, type ConsentCleanupReport } from '../src';
+
+function createManager(storage = new MemoryStorageAdapter()): ConsentManager {
+  return new ConsentManager({
+    storage,
+    enableIntegrity: false,
+    sync: false,
+    categories: {
+      analytics: {
+        label: 'Analytics',
+        description: 'Usage statistics',
+        cookies: [
+          { name: '_ga', duration: '2 years', purpose: 'Distinguishes users' },
+          { name: '_ga_*', duration: '2 years', purpose: 'Keeps session state' },
+          { name: 'ab.test', storage: 'localStorage', duration: 'Persistent', purpose: 'Experiments' },
+        ],
+      },
+      marketing: {
+        label: 'Marketing',
+        description: 'Personalized ads',
+        cookies: [{ name: 'ads_*', storage: 'sessionStorage', duration: 'Session', purpose: 'Ad frequency' }],
+      },
+    },
+  });
+}
+
+function setCookies(...names: string[]): void {
+  for (const name of names) {
+    document.cookie = `${name}=1; path=/`;
+  }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  localStorage.clear();
+  sessionStorage.clear();
+  for (const name of document.cookie.split('; ').map((cookie) => cookie.split('=')[0])) {
+    document.cookie = `${name}=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+  }
+});
+
+describe('installConsentCleanup', () => {
+  it('matches declared names with wildcards only where declared', async () => {
+    const manager = createManager();
+    await manager.getConsent();
+    setCookies('_ga', '_ga_ABC123', '_gat', 'session');
+    localStorage.setItem('ab.test', '1');
+    localStorage.setItem('abxtest', '1');
+    sessionStorage.setItem('ads_seen', '3');
+
+    const report = installConsentCleanup(manager).purge(['analytics', 'marketing']);
+
+    expect(report.cookies.sort()).toEqual(['_ga', '_ga_ABC123']);
+    expect(report.localStorage).toEqual(['ab.test']);
+    expect(report.sessionStorage).toEqual(['ads_seen']);
+    expect(localStorage.getItem('abxtest')).toBe('1');
+    expect(sessionStorage.getItem('ads_seen')).toBeNull();
+  });
+
+  it('expires cookies on the host, its parent domains and parent paths', async () => {
+    const manager = createManager();
+    await manager.getConsent();
+    setCookies('_ga');
+    const set = vi.spyOn(document, 'cookie', 'set');
+
+    installConsentCleanup(manager, { domains: ['.example.org'], paths: ['/shop'] }).purge(['analytics']);
+
+    const written = set.mock.calls.map(([cookie]) => cookie);
+    expect(written.every((cookie) => cookie.startsWith('_ga=; max-age=0; expires=Thu, 01 Jan 1970'))).toBe(true);
+    const targets = written.map((cookie) => {
+      const path = /path=([^;]+)/.exec(cookie)?.[1];
+      const domain = /domain=([^;]+)/.exec(cookie)?.[1] ?? 'host';
+      return `${domain} ${path}${cookie.endsWith('; partitioned') ? ' partitioned' : ''}`;
+    });
+    for (const domain of ['host', '.shop.example.com', '.example.com', '.example.org']) {
+      for (const path of ['/', '/blog', '/blog/post', '/shop']) {
+        expect(targets).toContain(`${domain} ${path}`);
+        expect(targets).toContain(`${domain} ${path} partitioned`);
+      }
+    }
+    expect(targets).not.toContain('.com /');
+    expect(targets).toHaveLength(32);
+    expect(written.every((cookie) => /; secure(; partitioned)?$/.test(cookie))).toBe(true);
+  });
+
+  it('deletes __Secure- and __Host- cookies with the attributes they require', async () => {
+    const manager = new ConsentManager({
+      storage: new MemoryStorageAdapter(),
+      enableIntegrity: false,
+      sync: false,
+      categories: {
+        analytics: {
+          label: 'Analytics',
+          description: 'Usage statistics',
+          cookies: [
+            { name: '__Secure-stats', duration: '1 year', purpose: 'Distinguishes users' },
+            { name: '__Host-stats', duration: '1 year', purpose: 'Keeps session state' },
+          ],
+        },
+      },
+    });
+    await manager.getConsent();
+    document.cookie = '__Secure-stats=1; path=/; secure';
+    document.cookie = '__Host-stats=1; path=/; secure';
+    expect(document.cookie).toContain('__Host-stats=1');
+    const set = vi.spyOn(document, 'cookie', 'set');
+
+    const report = installConsentCleanup(manager).purge(['analytics']);
+
+    expect(report.cookies.sort()).toEqual(['__Host-stats', '__Secure-stats']);
+    expect(document.cookie).toBe('');
+    // __Host- cookies can't carry a domain or another path
+    const hostWrites = set.mock.calls.map(([cookie]) => cookie).filter((cookie) => cookie.startsWith('__Host-'));
+    expect(hostWrites).toEqual([
+      '__Host-stats=; max-age=0; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/; secure',
+      '__Host-stats=; max-age=0; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/; secure; partitioned',
+    ]);
+  });
+
+  it('reports only cookies that are gone afterwards', async () => {
+    const manager = createManager();
+    await manager.getConsent();
+    setCookies('_ga', '_ga_KEEP');
+    // A cookie the page can read but not delete, e.g. one set on a domain that isn't covered
+    let proto = Object.getPrototypeOf(document);
+    while (!Object.prototype.hasOwnProperty.call(proto, 'cookie')) {
+      proto = Object.getPrototypeOf(proto);
+    }
+    const writeCookie = Object.getOwnPropertyDescriptor(proto, 'cookie')!.set!;
+    vi.spyOn(document, 'cookie', 'set').mockImplementation((value: string) => {
+      if (!value.startsWith('_ga_KEEP=')) {
+        writeCookie.call(document, value);
+      }
+    });
+
+    const report = installConsentCleanup(manager).purge(['analytics']);
+
+    expect(report.cookies).toEqual(['_ga']);
+    expect(document.cookie).toBe('_ga_KEEP=1');
+  });
+
+  it('purges a category when it becomes denied, once', async () => {
+    const manager = createManager();
+    await manager.getConsent();
+    const onCleanup = vi.fn<(report: ConsentCleanupReport) => void>();
+    installConsentCleanup(manager, { onCleanup });
+    await manager.acceptAll();
+
+    setCookies('_ga');
+    await manager.setPreferences({ analytics: false, marketing: true });
+    expect(onCleanup).toHaveBeenCalledTimes(1);
+    expect(onCleanup.mock.calls[0][0]).toMatchObject({ categories: ['analytics'], cookies: ['_ga'] });
+
+    // Analytics was already denied, so only marketing is purged (and has nothing to remove)
+    setCookies('_ga');
+    await manager.setPreferences({ analytics: false, marketing: false });
+    expect(onCleanup).toHaveBeenCalledTimes(1);
+    expect(document.cookie).toContain('_ga=1');
+  });
+
+  it('purges everything on withdrawal', async () => {
+    const manager = createManager();
+    await manager.acceptAll();
+    installConsentCleanup(manager);
+    await Promise.resolve();
+
+    setCookies('_ga_XYZ');
+    sessionStorage.setItem('ads_shown', '1');
+    await manager.withdrawConsent();
+
+    expect(document.cookie).not.toContain('_ga_XYZ');
+    expect(sessionStorage.getItem('ads_shown')).toBeNull();
+  });
+
+  it('purges categories stored consent already denies at load', async () => {
+    const storage = new MemoryStorageAdapter();
+    await createManager(storage).setPreferences({ analytics: false, marketing: true });
+    setCookies('_ga');
+
+    const manager = createManager(storage);
+    installConsentCleanup(manager);
+    await manager.getConsent();
+    await Promise.resolve();
+
+    expect(document.cookie).not.toContain('_ga');
+  });
+
+  it('stops purging once destroyed', async () => {
+    const manager = createManager();
+    await manager.acceptAll();
+    const cleanup = installConsentCleanup(manager);
+    cleanup.destroy();
+
+    setCookies('_ga');
+    await manager.rejectAll();
+    expect(document.cookie).toContain('_ga=1');
+  });
+});
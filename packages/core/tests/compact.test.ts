@@ -0,0 +1,236 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  CompactCategoryMismatchError,
+  ConsentManager,
+  MemoryStorageAdapter,
+  decodeCompactConsent,
+  encodeCompactConsent,
+  isCompactConsent,
+  signConsentState,
+  toCompactPrecision,
+  type ConsentState,
+} from '../src';
+
+const CATEGORIES = ['essential', 'analytics', 'marketing', 'preferences', 'social_media'];
+
+function createState(overrides: Partial<ConsentState> = {}): ConsentState {
+  return {
+    version: 3,
+    essential: true,
+    analytics: true,
+    marketing: false,
+    preferences: false,
+    social_media: true,
+    timestamp: 1705320000000,
+    expiresAt: 1705320000000 + 365 * 24 * 60 * 60 * 1000,
+    source: 'user',
+    ...overrides,
+  };
+}
+
+describe('encodeCompactConsent', () => {
+  it('round-trips custom categories', () => {
+    const state = createState();
+    const encoded = encodeCompactConsent(state, CATEGORIES);
+
+    expect(isCompactConsent(encoded)).toBe(true);
+    expect(decodeCompactConsent(encoded, CATEGORIES)).toEqual(state);
+  });
+
+  it('round-trips locale and undecided categories', () => {
+    const state = createState({ locale: 'pt-BR', undecided: ['preferences', 'social_media'], source: 'gpc' });
+    expect(decodeCompactConsent(encodeCompactConsent(state, CATEGORIES), CATEGORIES)).toEqual(state);
+
+    // An empty list is kept apart from no list at all
+    const none = createState({ undecided: [] });
+    expect(decodeCompactConsent(encodeCompactConsent(none, CATEGORIES), CATEGORIES)).toEqual(none);
+  });
+
+  it('round-trips non-ASCII locales', () => {
+    const state = createState({ locale: 'zh-Hant-TW-x-ü' });
+    expect(decodeCompactConsent(encodeCompactConsent(state, CATEGORIES), CATEGORIES).locale).toBe('zh-Hant-TW-x-ü');
+  });
+
+  it('leaves out a missing source', () => {
+    const { source: _source, ...state } = createState();
+    const decoded = decodeCompactConsent(encodeCompactConsent(state, CATEGORIES), CATEGORIES);
+    expect(decoded).toEqual(state);
+    expect('source' in decoded).toBe(false);
+  });
+
+  it('stores HMAC signatures as raw bits and other signatures as strings', async () => {
+    const signed = { ...(await signConsentState(createState(), 'test-secret')), __keyId: 'key-2026' };
+    const custom = { ...createState(), __signature: 'ed25519:abc+/=' };
+
+    expect(decodeCompactConsent(encodeCompactConsent(signed, CATEGORIES), CATEGORIES)).toEqual(signed);
+    expect(decodeCompactConsent(encodeCompactConsent(custom, CATEGORIES), CATEGORIES)).toEqual(custom);
+    // 256 bits take 43 characters; stored as a string, the signature alone would take 79
+    expect(encodeCompactConsent(signed, CATEGORIES).length).toBeLessThan(80);
+  });
+
+  it('leaves categories registered after the record was written unset', () => {
+    const { social_media: _socialMedia, ...state } = createState({ preferences: true });
+    const encoded = encodeCompactConsent(state, CATEGORIES.slice(0, 4));
+    const decoded = decodeCompactConsent(encoded, CATEGORIES);
+    expect(decoded.preferences).toBe(true);
+    expect(decoded.social_media).toBeUndefined();
+  });
+
+  it.each([
+    ['unregistered categories', createState({ tracking: true })],
+    ['missing categories', createState({ social_media: undefined })],
+    ['unregistered undecided categories', createState({ undecided: ['tracking'] })],
+    ['unknown sources', createState({ source: 'import' as ConsentState['source'] })],
+    ['sub-decisecond timestamps', createState({ timestamp: 1705320000001 })],
+    ['non-string locales', createState({ locale: 42 as unknown as string })],
+  ])('rejects %s', (_, state) => {
+    expect(() => encodeCompactConsent(state, CATEGORIES)).toThrow(/^Invalid compact consent/);
+  });
+
+  it('rejects more than 63 categories', () => {
+    const categories = Array.from({ length: 64 }, (_, i) => `category_${i}`);
+    const state = { ...createState(), ...Object.fromEntries(categories.map((name) => [name, false])) };
+    expect(() => encodeCompactConsent(state, categories)).toThrow(/at most 63 categories/);
+  });
+});
+
+describe('decodeCompactConsent', () => {
+  const encoded = encodeCompactConsent(createState({ locale: 'en', undecided: ['social_media'] }), CATEGORIES);
+
+  it.each([
+    ['an empty string', ''],
+    ['a JSON record', '{"analytics":true}'],
+    ['characters outside web-safe Base64', `${encoded.slice(0, 10)}+/`],
+  ])('rejects %s', (_, value) => {
+    expect(() => decodeCompactConsent(value, CATEGORIES)).toThrow(/^Invalid compact consent/);
+  });
+
+  it('rejects truncated records', () => {
+    // Trailing 'A's may be byte padding; cutting any other character loses data
+    const dataLength = encoded.replace(/A+$/, '').length;
+    for (let length = 1; length < dataLength; length++) {
+      expect(() => decodeCompactConsent(encoded.slice(0, length), CATEGORIES)).toThrow(/^Invalid compact consent/);
+    }
+  });
+
+  it('rejects unsupported format versions', () => {
+    // The first character holds the 6-bit format version
+    expect(() => decodeCompactConsent(`C${encoded.slice(1)}`, CATEGORIES)).toThrow(/unsupported format version 2/);
+  });
+
+  it.each([
+    ['removed', CATEGORIES.slice(0, 3)],
+    ['renamed', ['essential', 'analytics', 'marketing', 'functional', 'social_media']],
+    ['reordered', ['essential', 'analytics', 'marketing', 'social_media', 'preferences']],
+  ])('refuses to read records once categories are %s', (_, categories) => {
+    expect(() => decodeCompactConsent(encoded, categories)).toThrow(CompactCategoryMismatchError);
+    expect(() => decodeCompactConsent(encoded, categories)).toThrow(/5 categories from an unknown category list/);
+  });
+
+  it('reads records under the earlier category list that wrote them', () => {
+    const renamed = ['essential', 'analytics', 'marketing', 'functional', 'social_media', 'video'];
+    const state = createState({ preferences: true, undecided: ['preferences'] });
+    const decoded = decodeCompactConsent(encodeCompactConsent(state, CATEGORIES), renamed, [
+      ['essential', 'analytics', 'marketing', 'other'],
+      CATEGORIES,
+    ]);
+    expect(decoded).toEqual(state);
+    expect('functional' in decoded).toBe(false);
+  });
+});
+
+describe('toCompactPrecision', () => {
+  it('rounds timestamps down to deciseconds', () => {
+    const state = toCompactPrecision(createState({ timestamp: 1705320000099, expiresAt: 1705320000101 }));
+    expect(state.timestamp).toBe(1705320000000);
+    expect(state.expiresAt).toBe(1705320000100);
+  });
+});
+
+describe('ConsentManager with compact storage', () => {
+  it('stores and reloads custom categories and the locale', async () => {
+    const storage = new MemoryStorageAdapter();
+    const config = {
+      storage,
+      storageFormat: 'compact' as const,
+      customCategories: ['preferences', 'social_media'],
+      locale: 'de-AT',
+      sync: false,
+    };
+    const manager = new ConsentManager(config);
+    const state = await manager.setPreferences({ analytics: false, marketing: true, social_media: true });
+    manager.destroy();
+
+    const stored = storage.getItem('cookie_consent');
+    expect(stored).not.toBeNull();
+    expect(isCompactConsent(stored as string)).toBe(true);
+
+    const reloaded = new ConsentManager(config);
+    expect(await reloaded.getConsent()).toEqual(state);
+    expect(state).toMatchObject({ marketing: true, preferences: false, social_media: true, locale: 'de-AT' });
+    reloaded.destroy();
+  });
+
+  it('migrates records written under an earlier category list by name', async () => {
+    const storage = new MemoryStorageAdapter();
+    const base = { storage, storageFormat: 'compact' as const, sync: false };
+    await new ConsentManager({ ...base, customCategories: ['preferences', 'social_media'] }).setPreferences({
+      analytics: false,
+      marketing: false,
+      preferences: false,
+      social_media: true,
+    });
+
+    const manager = new ConsentManager({
+      ...base,
+      customCategories: ['social_media'],
+      previousCustomCategories: [['preferences', 'social_media']],
+      version: 2,
+      migrations: {
+        1: ({ preferences: _preferences, ...state }) => state,
+      },
+    });
+
+    expect(await manager.getConsent()).toMatchObject({ version: 2, analytics: false, social_media: true });
+    expect(manager.getConsentSync()).not.toHaveProperty('preferences');
+    manager.destroy();
+  });
+
+  it('prompts again for records from an unknown category list and keeps them', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const storage = new MemoryStorageAdapter();
+    const base = { storage, storageFormat: 'compact' as const, enableIntegrity: false, sync: false };
+    await new ConsentManager({ ...base, customCategories: ['preferences', 'social_media'] }).setPreferences({
+      analytics: false,
+      marketing: false,
+      preferences: false,
+      social_media: true,
+    });
+    const stored = storage.getItem('cookie_consent');
+
+    const migration = vi.fn((state: ConsentState) => state);
+    const manager = new ConsentManager({
+      ...base,
+      customCategories: ['social_media', 'preferences'],
+      version: 2,
+      migrations: { 1: migration },
+    });
+
+    expect(await manager.getConsent()).toBeNull();
+    expect(manager.needsConsentPrompt()).toBe(true);
+    expect(migration).not.toHaveBeenCalled();
+    expect(storage.getItem('cookie_consent')).toBe(stored);
+    expect(error).not.toHaveBeenCalled();
+
+    // The next decision replaces the record
+    await manager.acceptAll();
+    expect(storage.getItem('cookie_consent')).not.toBe(stored);
+    manager.destroy();
+  });
+
+  it('rejects invalid earlier category lists', () => {
+    expect(() => new ConsentManager({ previousCustomCategories: [['analytics']] })).toThrow(
+      'Invalid previous custom categories: Category name "analytics" is reserved'
+    );
+  });
+});
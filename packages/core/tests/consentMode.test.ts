@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ConsentManager,
+  MemoryStorageAdapter,
+  installGoogleConsentMode,
+  mapConsentStateToSignals,
+  type ConsentManagerConfig,
+} from '../src';
+
+function createManager(config: ConsentManagerConfig = {}): ConsentManager {
+  return new ConsentManager({ storage: new MemoryStorageAdapter(), enableIntegrity: false, sync: false, ...config });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('mapConsentStateToSignals', () => {
+  it('grants only essential-backed signals before a decision', () => {
+    expect(mapConsentStateToSignals(null)).toEqual({
+      ad_storage: 'denied',
+      ad_user_data: 'denied',
+      ad_personalization: 'denied',
+      analytics_storage: 'denied',
+      functionality_storage: 'granted',
+      security_storage: 'granted',
+    });
+  });
+
+  it('maps custom categories and requires every mapped category', () => {
+    const mapping = {
+      personalization_storage: ['preferences'],
+      ad_personalization: ['marketing', 'preferences'],
+    };
+    const preferences = { analytics: false, marketing: true, preferences: true };
+    expect(mapConsentStateToSignals(preferences, mapping)).toEqual({
+      personalization_storage: 'granted',
+      ad_personalization: 'granted',
+    });
+    expect(mapConsentStateToSignals({ ...preferences, preferences: false }, mapping)).toEqual({
+      personalization_storage: 'denied',
+      ad_personalization: 'denied',
+    });
+  });
+});
+
+describe('installGoogleConsentMode', () => {
+  it('sends defaults with wait_for_update, then region defaults and settings', () => {
+    const gtag = vi.fn();
+    installGoogleConsentMode(createManager(), {
+      gtag,
+      waitForUpdate: 500,
+      regions: [{ region: ['US-CA'], signals: { ad_storage: 'granted' } }],
+      adsDataRedaction: true,
+      urlPassthrough: false,
+    });
+
+    expect(gtag.mock.calls).toEqual([
+      ['consent', 'default', { ...mapConsentStateToSignals(null), wait_for_update: 500 }],
+      ['consent', 'default', { ad_storage: 'granted', region: ['US-CA'], wait_for_update: 500 }],
+      ['set', 'ads_data_redaction', true],
+      ['set', 'url_passthrough', false],
+    ]);
+  });
+
+  it("defaults to the regulation profile's defaults", () => {
+    const gtag = vi.fn();
+    installGoogleConsentMode(createManager({ region: 'US' }), { gtag });
+    expect(gtag).toHaveBeenCalledWith('consent', 'default', expect.objectContaining({ analytics_storage: 'granted' }));
+  });
+
+  it('sends an update when consent changes, and only when signals change', async () => {
+    const gtag = vi.fn();
+    const manager = createManager({ customCategories: ['preferences'] });
+    const consentMode = installGoogleConsentMode(manager, {
+      gtag,
+      mapping: { analytics_storage: ['analytics'], personalization_storage: ['preferences'] },
+    });
+    await manager.getConsent();
+    gtag.mockClear();
+
+    await manager.setPreferences({ analytics: true, marketing: false, preferences: true });
+    await manager.setPreferences({ analytics: true, marketing: true, preferences: true });
+    expect(gtag.mock.calls).toEqual([
+      ['consent', 'update', { analytics_storage: 'granted', personalization_storage: 'granted' }],
+    ]);
+    expect(consentMode.getSignals()).toEqual({ analytics_storage: 'granted', personalization_storage: 'granted' });
+  });
+
+  it('sends a denied update on withdrawal', async () => {
+    const gtag = vi.fn();
+    const manager = createManager();
+    installGoogleConsentMode(manager, { gtag });
+    await manager.acceptAll();
+    gtag.mockClear();
+
+    await manager.withdrawConsent();
+    expect(gtag).toHaveBeenCalledWith('consent', 'update', mapConsentStateToSignals(null));
+  });
+
+  it('sends an update for consent already stored', async () => {
+    const storage = new MemoryStorageAdapter();
+    await createManager({ storage }).acceptAll();
+    const gtag = vi.fn();
+    const manager = createManager({ storage });
+    installGoogleConsentMode(manager, { gtag });
+    await manager.getConsent();
+    await Promise.resolve();
+
+    expect(gtag).toHaveBeenLastCalledWith('consent', 'update', expect.objectContaining({ ad_storage: 'granted' }));
+  });
+
+  it('stops sending updates once destroyed and survives gtag errors', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const gtag = vi.fn(() => {
+      throw new Error('blocked');
+    });
+    const manager = createManager();
+    const consentMode = installGoogleConsentMode(manager, { gtag });
+    expect(error).toHaveBeenCalledWith('[ConsentMode] Error calling gtag:', expect.any(Error));
+
+    consentMode.destroy();
+    gtag.mockClear();
+    await manager.acceptAll();
+    expect(gtag).not.toHaveBeenCalled();
+  });
+});
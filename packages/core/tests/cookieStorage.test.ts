@@ -0,0 +1,185 @@
+// @vitest-environment happy-dom
+// @vitest-environment-options { "url": "https://example.com/" }
+import { afterEach, describe, expect, it, onTestFinished, vi } from 'vitest';
+import { CookieSizeError, CookieStorageAdapter, MAX_COOKIE_SIZE } from '../src';
+import {
+  parseCookies,
+  readCookieValue,
+  serializeChunkedCookie,
+  validateCookieOptions,
+} from '../src/storage/cookieStorage';
+
+// Name/value pairs of the given Set-Cookie strings, as a browser would send them back
+function toCookieMap(cookies: string[]): Map<string, string> {
+  return parseCookies(cookies.map((cookie) => cookie.split(';')[0]).join('; '));
+}
+
+function isExpired(cookie: string): boolean {
+  return cookie.endsWith('; max-age=0');
+}
+
+// Record document.cookie writes and serve reads from them, so assertions
+// don't depend on how happy-dom's jar handles expiry
+function recordCookieWrites(): string[] {
+  const writes: string[] = [];
+  // One own property for both accessors: spying on each separately doesn't restore cleanly
+  Object.defineProperty(document, 'cookie', {
+    configurable: true,
+    get: () => {
+      const jar = new Map<string, string>();
+      for (const cookie of writes) {
+        const pair = cookie.split(';')[0];
+        const name = pair.slice(0, pair.indexOf('='));
+        if (isExpired(cookie)) {
+          jar.delete(name);
+        } else {
+          jar.set(name, pair);
+        }
+      }
+      return [...jar.values()].join('; ');
+    },
+    set: (cookie: string) => {
+      writes.push(cookie);
+    },
+  });
+  onTestFinished(() => {
+    Reflect.deleteProperty(document, 'cookie');
+  });
+  return writes;
+}
+
+function clearCookies(): void {
+  for (const name of parseCookies(document.cookie).keys()) {
+    document.cookie = `${name}=; path=/; secure; max-age=0`;
+  }
+}
+
+afterEach(() => {
+  clearCookies();
+  vi.restoreAllMocks();
+});
+
+describe('cookie chunking', () => {
+  it('keeps values that fit in one cookie', () => {
+    const cookies = serializeChunkedCookie('cookie_consent', 'small');
+    expect(cookies).toHaveLength(1);
+    expect(cookies[0]).toMatch(/^cookie_consent=small; /);
+  });
+
+  it('splits oversized values and reassembles them', () => {
+    const value = 'é'.repeat(1000) + 'x'.repeat(3000);
+    const cookies = serializeChunkedCookie('cookie_consent', value);
+
+    expect(cookies.length).toBeGreaterThan(1);
+    expect(cookies.at(-1)).toMatch(new RegExp(`^cookie_consent=chunks%3A${cookies.length - 1};`));
+    // Browsers count the name and value, not the "="
+    for (const cookie of cookies) {
+      expect(cookie.split(';')[0].length - 1).toBeLessThanOrEqual(MAX_COOKIE_SIZE);
+    }
+    expect(readCookieValue(toCookieMap(cookies), 'cookie_consent')).toBe(value);
+  });
+
+  it('keeps surrogate pairs in one chunk', () => {
+    const value = '🍪'.repeat(500);
+    const cookies = serializeChunkedCookie('cookie_consent', value);
+    expect(readCookieValue(toCookieMap(cookies), 'cookie_consent')).toBe(value);
+  });
+
+  it('reads nothing when a chunk is missing', () => {
+    const cookies = serializeChunkedCookie('cookie_consent', 'x'.repeat(6000));
+    const map = toCookieMap(cookies);
+    map.delete('cookie_consent.1');
+    expect(readCookieValue(map, 'cookie_consent')).toBeNull();
+  });
+
+  it('throws CookieSizeError when the value needs too many cookies', () => {
+    expect(() => serializeChunkedCookie('cookie_consent', 'x'.repeat(5000), { maxChunks: 1 })).toThrow(CookieSizeError);
+
+    try {
+      serializeChunkedCookie('cookie_consent', 'x'.repeat(20000), { maxChunks: 3 });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CookieSizeError);
+      expect(error).toMatchObject({ cookieName: 'cookie_consent', size: 20014 });
+      expect((error as CookieSizeError).limit).toBeLessThan(3 * MAX_COOKIE_SIZE);
+    }
+  });
+});
+
+describe('cookie options', () => {
+  it('rejects __Host- cookies that are not secure, on a subpath or with a domain', () => {
+    expect(validateCookieOptions({ hostPrefix: true }).success).toBe(true);
+    expect(validateCookieOptions({ hostPrefix: true, secure: false }).success).toBe(false);
+    expect(validateCookieOptions({ hostPrefix: true, path: '/app' }).success).toBe(false);
+    expect(validateCookieOptions({ hostPrefix: true, domain: 'example.com' }).success).toBe(false);
+    expect(() => new CookieStorageAdapter({ hostPrefix: true, secure: false })).toThrow(/__Host-/);
+  });
+
+  it('rejects partitioned cookies that are not secure', () => {
+    expect(validateCookieOptions({ partitioned: true }).success).toBe(true);
+    expect(() => new CookieStorageAdapter({ partitioned: true, secure: false })).toThrow(/Partitioned/);
+  });
+
+  it('rejects chunk limits out of range', () => {
+    expect(validateCookieOptions({ maxChunks: 0 }).success).toBe(false);
+    expect(validateCookieOptions({ maxChunks: 11 }).success).toBe(false);
+    expect(validateCookieOptions({ maxChunks: 1.5 }).success).toBe(false);
+  });
+
+  it('writes the configured attributes', () => {
+    const [cookie] = serializeChunkedCookie('__Host-cookie_consent', 'v', { partitioned: true, maxAge: 60 });
+    expect(cookie).toBe('__Host-cookie_consent=v; path=/; secure; samesite=Lax; partitioned; max-age=60');
+  });
+});
+
+describe('CookieStorageAdapter', () => {
+  it('stores values under the __Host- prefix', () => {
+    const storage = new CookieStorageAdapter({ hostPrefix: true });
+    storage.setItem('cookie_consent', 'stored');
+
+    expect(parseCookies(document.cookie).get('__Host-cookie_consent')).toBe('stored');
+    expect(storage.getItem('cookie_consent')).toBe('stored');
+  });
+
+  it('expires the cookie with the consent record', () => {
+    const set = vi.spyOn(document, 'cookie', 'set');
+    new CookieStorageAdapter().setItem('cookie_consent', 'stored', { expiresAt: Date.now() + 90_500 });
+    expect(set).toHaveBeenCalledWith(expect.stringMatching(/; max-age=90$/));
+  });
+
+  it('chunks large values and expires chunks left over from a longer one', () => {
+    const writes = recordCookieWrites();
+    const storage = new CookieStorageAdapter();
+    const large = 'x'.repeat(10000);
+    storage.setItem('cookie_consent', large);
+    expect(toCookieMap(writes).get('cookie_consent')).toBe('chunks:3');
+    expect(readCookieValue(toCookieMap(writes), 'cookie_consent')).toBe(large);
+
+    const rewriteStart = writes.length;
+    storage.setItem('cookie_consent', 'x'.repeat(5000));
+    const rewrite = writes.slice(rewriteStart);
+    expect(rewrite).toContainEqual(expect.stringMatching(/^cookie_consent\.2=; .*max-age=0$/));
+    expect(readCookieValue(toCookieMap(rewrite.filter((cookie) => !isExpired(cookie))), 'cookie_consent')).toBe(
+      'x'.repeat(5000)
+    );
+
+    const removeStart = writes.length;
+    storage.removeItem('cookie_consent');
+    const removed = writes.slice(removeStart);
+    expect(removed.map((cookie) => cookie.split('=')[0])).toEqual([
+      'cookie_consent',
+      'cookie_consent.0',
+      'cookie_consent.1',
+    ]);
+    expect(removed.every(isExpired)).toBe(true);
+  });
+
+  it('throws CookieSizeError before writing anything', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const storage = new CookieStorageAdapter({ maxChunks: 1 });
+    storage.setItem('cookie_consent', 'kept');
+
+    expect(() => storage.setItem('cookie_consent', 'x'.repeat(5000))).toThrow(CookieSizeError);
+    expect(storage.getItem('cookie_consent')).toBe('kept');
+  });
+});
@@ -0,0 +1,308 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ConsentManager,
+  MemoryStorageAdapter,
+  canonicalizeConsentState,
+  createRemoteSigner,
+  createSecretSigner,
+  generateSignature,
+  getSignatureFormat,
+  signConsentState,
+  verifyConsentState,
+  verifySignature,
+  SignerUnavailableError,
+  type ConsentSigner,
+  type ConsentState,
+} from '../src';
+import { createSignerRequestHandler } from '../src/server';
+
+// RFC 4231 test cases whose keys and data are ASCII (secrets are UTF-8 encoded)
+const RFC_4231_VECTORS = [
+  {
+    name: 'test case 1',
+    key: '\x0b'.repeat(20),
+    data: 'Hi There',
+    hmac: 'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7',
+  },
+  {
+    name: 'test case 2',
+    key: 'Jefe',
+    data: 'what do ya want for nothing?',
+    hmac: '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+  },
+];
+
+function createState(overrides: Partial<ConsentState> = {}): ConsentState {
+  const timestamp = Date.now();
+  return {
+    version: 1,
+    essential: true,
+    analytics: true,
+    marketing: false,
+    timestamp,
+    expiresAt: timestamp + 30 * 24 * 60 * 60 * 1000,
+    source: 'user',
+    ...overrides,
+  };
+}
+
+// Keep getRandomValues, drop subtle, like insecure origins and older WebViews
+function withoutWebCrypto(): void {
+  const nodeCrypto = globalThis.crypto;
+  vi.stubGlobal('crypto', { getRandomValues: nodeCrypto.getRandomValues.bind(nodeCrypto) });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('generateSignature', () => {
+  it.each(RFC_4231_VECTORS)('matches RFC 4231 $name with Web Crypto', async ({ key, data, hmac }) => {
+    expect(await generateSignature(data, key)).toBe(`v1.${hmac}`);
+  });
+
+  it.each(RFC_4231_VECTORS)('matches RFC 4231 $name with the JS fallback', async ({ key, data, hmac }) => {
+    withoutWebCrypto();
+    expect(await generateSignature(data, key)).toBe(`v1.${hmac}`);
+  });
+
+  it('produces identical output with and without Web Crypto for long keys and multibyte data', async () => {
+    const key = 'k'.repeat(131);
+    const data = 'consent ✓ für alle 🍪 '.repeat(20);
+    const expected = await generateSignature(data, key);
+
+    withoutWebCrypto();
+    expect(await generateSignature(data, key)).toBe(expected);
+  });
+});
+
+describe('getSignatureFormat', () => {
+  it('detects each signature format', () => {
+    const hex = 'a'.repeat(64);
+    expect(getSignatureFormat(`v1.${hex}`)).toBe('v1');
+    expect(getSignatureFormat(hex)).toBe('legacy-hmac');
+    expect(getSignatureFormat('1a2b3c4d')).toBe('legacy-hash');
+    expect(getSignatureFormat('v2.abc')).toBe('unknown');
+    expect(getSignatureFormat(`v1.${hex.toUpperCase()}`)).toBe('unknown');
+  });
+});
+
+describe('verifySignature', () => {
+  const secret = 'test-secret';
+  const data = '{"analytics":true}';
+
+  it('accepts v1 signatures', async () => {
+    const signature = await generateSignature(data, secret);
+    expect(await verifySignature(data, signature, secret)).toBe(true);
+  });
+
+  it('accepts unversioned (legacy) HMAC signatures', async () => {
+    const signature = (await generateSignature(data, secret)).slice('v1.'.length);
+    expect(await verifySignature(data, signature, secret)).toBe(true);
+  });
+
+  it('rejects legacy 32-bit hashes', async () => {
+    expect(await verifySignature(data, '1a2b3c4d', secret)).toBe(false);
+  });
+
+  it('rejects signatures for other data or secrets', async () => {
+    const signature = await generateSignature(data, secret);
+    expect(await verifySignature('{"analytics":false}', signature, secret)).toBe(false);
+    expect(await verifySignature(data, signature, 'other-secret')).toBe(false);
+  });
+
+  it('verifies with the JS fallback', async () => {
+    const signature = await generateSignature(data, secret);
+    withoutWebCrypto();
+    expect(await verifySignature(data, signature, secret)).toBe(true);
+  });
+});
+
+describe('verifyConsentState', () => {
+  const secret = 'test-secret';
+
+  it('round-trips a signed state', async () => {
+    const state = createState();
+    const signed = await signConsentState(state, secret);
+
+    expect(signed.__signature).toMatch(/^v1\.[0-9a-f]{64}$/);
+    const result = await verifyConsentState(signed, secret);
+    expect(result.valid).toBe(true);
+    expect(result.legacySignature).toBe(false);
+    expect(result.state).toEqual(state);
+  });
+
+  it('flags legacy HMAC signatures for re-signing', async () => {
+    const state = createState();
+    const signature = (await generateSignature(canonicalizeConsentState(state), secret)).slice('v1.'.length);
+
+    const result = await verifyConsentState({ ...state, __signature: signature }, secret);
+    expect(result.valid).toBe(true);
+    expect(result.legacySignature).toBe(true);
+  });
+
+  it('reports a signer that cannot check the signature as unavailable', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const signed = await signConsentState(createState(), 'test-secret');
+    const failing: ConsentSigner = {
+      sign: () => Promise.reject(new Error('down')),
+      verify: () => Promise.reject(new Error('down')),
+    };
+    expect(await verifyConsentState(signed, failing)).toEqual({ valid: false, state: null, unavailable: true });
+  });
+
+  it('rejects legacy hashes, missing signatures and tampered states', async () => {
+    const state = createState();
+    const signed = await signConsentState(state, secret);
+
+    expect((await verifyConsentState({ ...state, __signature: '1a2b3c4d' }, secret)).valid).toBe(false);
+    expect((await verifyConsentState({ ...state }, secret)).valid).toBe(false);
+    expect((await verifyConsentState({ ...signed, marketing: true }, secret)).valid).toBe(false);
+  });
+});
+
+describe('ConsentManager integrity', () => {
+  const secret = 'test-secret';
+
+  async function load(stored: object): Promise<{ state: ConsentState | null; stored: string | null }> {
+    const storage = new MemoryStorageAdapter();
+    storage.setItem('cookie_consent', JSON.stringify(stored));
+    const manager = new ConsentManager({ storage, signer: createSecretSigner(secret), sync: false });
+    const state = await manager.getConsent();
+    manager.destroy();
+    return { state, stored: storage.getItem('cookie_consent') };
+  }
+
+  it('upgrades legacy HMAC signatures to v1 on load', async () => {
+    const state = createState();
+    const signature = (await generateSignature(canonicalizeConsentState(state), secret)).slice('v1.'.length);
+
+    const result = await load({ ...state, __signature: signature });
+    expect(result.state?.analytics).toBe(true);
+
+    const rewritten = JSON.parse(result.stored!);
+    expect(rewritten.__signature).toMatch(/^v1\./);
+    expect((await verifyConsentState(rewritten, secret)).legacySignature).toBe(false);
+  });
+
+  it('keeps v1 records as they are', async () => {
+    const signed = await signConsentState(createState(), secret);
+    const result = await load(signed);
+    expect(result.state?.analytics).toBe(true);
+    expect(result.stored).toBe(JSON.stringify(signed));
+  });
+
+  it('clears records signed with a legacy 32-bit hash', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = await load({ ...createState(), __signature: '1a2b3c4d' });
+    expect(result.state).toBeNull();
+    expect(result.stored).toBeNull();
+  });
+});
+
+describe('createRemoteSigner', () => {
+  const secret = 'remote-secret';
+  const handler = createSignerRequestHandler(() => createSecretSigner(secret));
+
+  // Route requests to the handler, or fail them while the endpoint is "down"
+  function createEndpoint() {
+    const endpoint = { down: false, requests: 0 };
+    const fetchImpl = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      endpoint.requests++;
+      if (endpoint.down) {
+        throw new TypeError('Failed to fetch');
+      }
+      return handler(new Request(new URL(String(input), 'https://example.com'), init));
+    });
+    const signer = createRemoteSigner({ endpoint: '/api/consent/sign', fetch: fetchImpl as typeof fetch });
+    return { endpoint, fetchImpl, signer };
+  }
+
+  it('signs and verifies through the endpoint', async () => {
+    const { fetchImpl, signer } = createEndpoint();
+    const signed = await signConsentState(createState(), signer);
+
+    expect(await verifyConsentState(signed, secret)).toMatchObject({ valid: true });
+    expect((await verifyConsentState(signed, signer)).valid).toBe(true);
+    expect((await verifyConsentState({ ...signed, marketing: true }, signer)).valid).toBe(false);
+    expect(fetchImpl).toHaveBeenCalledWith(
+      '/api/consent/sign',
+      expect.objectContaining({ method: 'POST', credentials: 'include' })
+    );
+  });
+
+  it('throws SignerUnavailableError when the endpoint cannot answer', async () => {
+    const data = canonicalizeConsentState(createState());
+    const signature = { signature: 'v1.00' };
+    const respond = (response: Response) =>
+      createRemoteSigner({ endpoint: '/sign', fetch: (async () => response) as typeof fetch });
+
+    const { endpoint, signer } = createEndpoint();
+    endpoint.down = true;
+    await expect(signer.verify(data, signature)).rejects.toBeInstanceOf(SignerUnavailableError);
+    await expect(signer.sign(data)).rejects.toThrow('Signer endpoint could not be reached');
+    await expect(respond(new Response('', { status: 503 })).verify(data, signature)).rejects.toThrow(
+      'Signer endpoint responded with 503'
+    );
+    await expect(respond(new Response('<html>')).verify(data, signature)).rejects.toThrow(
+      'Signer endpoint returned invalid JSON'
+    );
+    await expect(respond(new Response('{}')).verify(data, signature)).rejects.toThrow(
+      'Signer endpoint returned no verification result'
+    );
+  });
+
+  it('keeps stored consent while the endpoint is down and applies it once it is back', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { endpoint, signer } = createEndpoint();
+    const signed = await signConsentState(createState(), secret);
+    const storage = new MemoryStorageAdapter();
+    storage.setItem('cookie_consent', JSON.stringify(signed));
+    const manager = new ConsentManager({ storage, signer, sync: false });
+
+    endpoint.down = true;
+    expect(await manager.getConsent()).toBeNull();
+    expect(storage.getItem('cookie_consent')).toBe(JSON.stringify(signed));
+
+    expect(await manager.revalidate()).toBeNull();
+    expect(storage.getItem('cookie_consent')).toBe(JSON.stringify(signed));
+
+    endpoint.down = false;
+    const listener = vi.fn();
+    manager.onChange(listener);
+    expect(await manager.revalidate()).toMatchObject({ analytics: true });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ analytics: true }));
+    manager.destroy();
+  });
+
+  it('keeps the current state when a revalidation cannot be verified', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { endpoint, signer } = createEndpoint();
+    const storage = new MemoryStorageAdapter();
+    storage.setItem('cookie_consent', JSON.stringify(await signConsentState(createState(), secret)));
+    const manager = new ConsentManager({ storage, signer, sync: false });
+    await manager.getConsent();
+    const listener = vi.fn();
+    manager.onChange(listener);
+    listener.mockClear();
+
+    endpoint.down = true;
+    expect(await manager.revalidate()).toMatchObject({ analytics: true });
+    expect(manager.getConsentSync()).toMatchObject({ analytics: true });
+    expect(listener).not.toHaveBeenCalled();
+    manager.destroy();
+  });
+
+  it('still clears a record whose signature does not match', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { signer } = createEndpoint();
+    const signed = await signConsentState(createState(), secret);
+    const storage = new MemoryStorageAdapter();
+    storage.setItem('cookie_consent', JSON.stringify({ ...signed, marketing: true }));
+    const manager = new ConsentManager({ storage, signer, sync: false });
+
+    expect(await manager.getConsent()).toBeNull();
+    expect(storage.getItem('cookie_consent')).toBeNull();
+    manager.destroy();
+  });
+});
@@ -0,0 +1,264 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConsentManager, MemoryStorageAdapter } from '../src';
+import {
+  CookieConsentBannerElement,
+  defineCookieConsentBanner,
+  type CookieConsentErrorEventDetail,
+  type CookieConsentEventDetail,
+} from '../src/element';
+
+function createBanner(attributes: Record<string, unknown> = {}): CookieConsentBannerElement {
+  const banner = document.createElement('cookie-consent-banner');
+  for (const [name, value] of Object.entries(attributes)) {
+    banner.setAttribute(name, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+  return banner;
+}
+
+function createManager(): ConsentManager {
+  return new ConsentManager({ storage: new MemoryStorageAdapter(), enableIntegrity: false, sync: false });
+}
+
+function query<T extends Element = HTMLElement>(banner: CookieConsentBannerElement, selector: string): T | null {
+  return banner.shadowRoot?.querySelector<T>(selector) ?? null;
+}
+
+// Resolve once the banner dispatches the event
+function nextEvent<T = CookieConsentEventDetail>(banner: CookieConsentBannerElement, type: string): Promise<T> {
+  return new Promise((resolve) => {
+    banner.addEventListener(type, (event) => resolve((event as CustomEvent<T>).detail), { once: true });
+  });
+}
+
+afterEach(() => {
+  document.body.replaceChildren();
+  document.documentElement.lang = '';
+  vi.restoreAllMocks();
+});
+
+describe('<cookie-consent-banner>', () => {
+  it('is registered on import', () => {
+    expect(customElements.get('cookie-consent-banner')).toBe(CookieConsentBannerElement);
+    expect(document.createElement('cookie-consent-banner')).toBeInstanceOf(CookieConsentBannerElement);
+  });
+
+  it('reads options from JSON attributes', async () => {
+    const banner = createBanner({
+      content: { title: 'We use cookies', acceptButton: 'Allow all' },
+      behavior: { showDelay: 0 },
+      config: { storage: 'memory', enableIntegrity: false, sync: false },
+    });
+    document.body.append(banner);
+
+    // Showing waits on stored consent, showDelay and the entry transition
+    await vi.waitFor(() => {
+      expect(query(banner, '.root')?.classList.contains('visible')).toBe(true);
+    });
+    expect(banner.shadowRoot).not.toBeNull();
+    expect(query(banner, '[part="title"]')?.textContent).toBe('We use cookies');
+    expect(query(banner, '[part~="accept-button"]')?.textContent).toBe('Allow all');
+  });
+
+  it('prefers properties over attributes and re-renders on change', () => {
+    const banner = createBanner({ content: { title: 'From attribute' } });
+    banner.manager = createManager();
+    banner.content = { title: 'From property' };
+    document.body.append(banner);
+    banner.show();
+
+    expect(query(banner, '[part="title"]')?.textContent).toBe('From property');
+    banner.content = { title: 'Updated' };
+    expect(query(banner, '[part="title"]')?.textContent).toBe('Updated');
+  });
+
+  it('ignores invalid JSON attributes', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const banner = createBanner({ content: '{not json' });
+    expect(banner.content).toEqual({});
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('"content"'), expect.any(Error));
+  });
+
+  it('renders text as text, never as HTML', () => {
+    const banner = createBanner();
+    banner.manager = createManager();
+    banner.content = { title: '<img src=x onerror=alert(1)>' };
+    document.body.append(banner);
+    banner.show();
+
+    expect(query(banner, 'img')).toBeNull();
+    expect(query(banner, '[part="title"]')?.textContent).toBe('<img src=x onerror=alert(1)>');
+  });
+
+  it('accepts all and dispatches consent-accept', async () => {
+    const manager = createManager();
+    const banner = createBanner();
+    banner.manager = manager;
+    document.body.append(banner);
+    banner.show();
+
+    const accepted = nextEvent(banner, 'consent-accept');
+    query(banner, '[part~="accept-button"]')?.click();
+    const { state } = await accepted;
+
+    expect(state).toMatchObject({ analytics: true, marketing: true });
+    expect(manager.getConsentSync()).toEqual(state);
+  });
+
+  it('rejects all and dispatches consent-reject and consent-change', async () => {
+    const manager = createManager();
+    const banner = createBanner();
+    banner.manager = manager;
+    document.body.append(banner);
+    banner.show();
+
+    const rejected = nextEvent(banner, 'consent-reject');
+    const changed = nextEvent(banner, 'consent-change');
+    query(banner, '[part~="reject-button"]')?.click();
+
+    expect((await rejected).state).toMatchObject({ analytics: false, marketing: false });
+    expect((await changed).state).toMatchObject({ analytics: false, marketing: false });
+  });
+
+  it('saves the choices made in the preferences panel', async () => {
+    const manager = createManager();
+    const banner = createBanner();
+    banner.manager = manager;
+    document.body.append(banner);
+    await manager.getConsent();
+    banner.openPreferences();
+
+    const toggles = banner.shadowRoot?.querySelectorAll<HTMLElement>('[role="switch"]') ?? [];
+    expect(toggles).toHaveLength(2);
+    toggles[0].click();
+    expect(toggles[0].getAttribute('aria-checked')).toBe('true');
+
+    const saved = nextEvent(banner, 'consent-save');
+    query(banner, '[part~="save-button"]')?.click();
+    expect((await saved).state).toMatchObject({ analytics: true, marketing: false });
+  });
+
+  it('destroys the manager it created when removed', () => {
+    const banner = createBanner({ config: { storage: 'memory', sync: false } });
+    document.body.append(banner);
+    const manager = banner.manager;
+    expect(manager).toBeInstanceOf(ConsentManager);
+    const destroy = vi.spyOn(manager as ConsentManager, 'destroy');
+
+    banner.remove();
+    expect(destroy).toHaveBeenCalledTimes(1);
+    expect(banner.manager).toBeNull();
+  });
+
+  it('leaves a shared manager running when removed or replaced', () => {
+    const shared = createManager();
+    const destroy = vi.spyOn(shared, 'destroy');
+    const banner = createBanner();
+    banner.manager = shared;
+    document.body.append(banner);
+    expect(banner.manager).toBe(shared);
+
+    banner.manager = createManager();
+    banner.remove();
+    expect(destroy).not.toHaveBeenCalled();
+  });
+
+  it('stops reacting to its manager after being removed', async () => {
+    const manager = createManager();
+    const banner = createBanner();
+    banner.manager = manager;
+    document.body.append(banner);
+    banner.remove();
+
+    const listener = vi.fn();
+    banner.addEventListener('consent-change', listener);
+    await manager.acceptAll();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('keeps properties set before the element was defined', () => {
+    const manager = createManager();
+    const banner = document.createElement('late-consent-banner') as CookieConsentBannerElement;
+    banner.content = { title: 'Set early' };
+    banner.locale = 'de';
+    banner.manager = manager;
+    document.body.append(banner);
+
+    defineCookieConsentBanner('late-consent-banner');
+    expect(banner).toBeInstanceOf(CookieConsentBannerElement);
+    expect(Object.prototype.hasOwnProperty.call(banner, 'content')).toBe(false);
+    expect(banner.manager).toBe(manager);
+    expect(banner.getAttribute('locale')).toBe('de');
+    banner.show();
+    expect(query(banner, '[part="title"]')?.textContent).toBe('Set early');
+  });
+
+  it('dispatches consent-error and stays open when a decision cannot be saved', async () => {
+    const manager = createManager();
+    const failure = new Error('Rate limit exceeded');
+    vi.spyOn(manager, 'acceptAll').mockRejectedValue(failure);
+    vi.spyOn(manager, 'setPreferences').mockRejectedValue(failure);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const banner = createBanner();
+    banner.manager = manager;
+    document.body.append(banner);
+    banner.show();
+
+    const accepted = vi.fn();
+    banner.addEventListener('consent-accept', accepted);
+    const acceptError = nextEvent<CookieConsentErrorEventDetail>(banner, 'consent-error');
+    query(banner, '[part~="accept-button"]')?.click();
+    expect(await acceptError).toEqual({ action: 'accept', error: failure });
+    expect(accepted).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledWith('[CookieConsentBanner] Error saving consent:', failure);
+
+    await manager.getConsent();
+    banner.openPreferences();
+    const saveError = nextEvent<CookieConsentErrorEventDetail>(banner, 'consent-error');
+    query(banner, '[part~="save-button"]')?.click();
+    expect((await saveError).action).toBe('save');
+    expect(query(banner, '.preferences')).not.toBeNull();
+    expect(query(banner, '.banner')).not.toBeNull();
+  });
+
+  it('picks content from locales for the page language and records the locale', async () => {
+    document.documentElement.lang = 'pt-BR';
+    const manager = createManager();
+    const banner = createBanner({
+      locales: { en: { title: 'Cookies' }, pt: { title: 'Cookies (pt)' } },
+      'preferences-locales': { en: { title: 'Preferences' }, pt: { title: 'Preferências' } },
+    });
+    banner.manager = manager;
+    document.body.append(banner);
+    banner.show();
+
+    expect(query(banner, '[part="title"]')?.textContent).toBe('Cookies (pt)');
+    expect(query(banner, '[part~="reject-button"]')?.textContent).toBe('Rejeitar todos');
+    expect(manager.getLocale()).toBe('pt');
+
+    banner.locale = 'fr';
+    expect(query(banner, '[part="title"]')?.textContent).toBe('Cookies');
+    banner.setAttribute('default-locale', 'pt');
+    expect(query(banner, '[part="title"]')?.textContent).toBe('Cookies (pt)');
+
+    await manager.getConsent();
+    banner.openPreferences();
+    expect(query(banner, '.preferences h2')?.textContent).toBe('Preferências');
+
+    const accepted = nextEvent(banner, 'consent-accept');
+    query(banner, '[part~="accept-button"]')?.click();
+    expect((await accepted).state.locale).toBe('pt');
+  });
+
+  it('translates the default labels for the locale', () => {
+    const banner = createBanner({ locale: 'de-AT', content: { title: 'Cookies', rejectButton: 'Nein danke' } });
+    banner.manager = createManager();
+    document.body.append(banner);
+    banner.show();
+
+    expect(query(banner, '[part~="accept-button"]')?.textContent).toBe('Alle akzeptieren');
+    expect(query(banner, '[part~="reject-button"]')?.textContent).toBe('Nein danke');
+    expect(query(banner, '[part="banner"]')?.getAttribute('aria-label')).toBe('Cookie-Zustimmungsbanner');
+    expect(banner.manager?.getLocale()).toBe('de-AT');
+  });
+});
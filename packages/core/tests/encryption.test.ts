@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ConsentManager,
+  MemoryStorageAdapter,
+  createKeyRingKeyProvider,
+  decryptConsentRecord,
+  encryptConsentRecord,
+  isEncryptedConsent,
+} from '../src';
+
+// Raw 256-bit keys in web-safe Base64
+const KEY_A = 'A'.repeat(43);
+const KEY_B = 'B'.repeat(43);
+
+const record = '{"version":1,"essential":true,"analytics":true,"marketing":false}';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('encryptConsentRecord', () => {
+  it('round-trips a record through an envelope', async () => {
+    const provider = createKeyRingKeyProvider({ keys: { a: KEY_A }, currentKeyId: 'a' });
+    const envelope = await encryptConsentRecord(record, provider, 'cookie_consent');
+
+    expect(envelope).toMatch(/^e1\.a\.[A-Za-z0-9_-]{16}\.[A-Za-z0-9_-]+$/);
+    expect(isEncryptedConsent(envelope)).toBe(true);
+    expect(envelope).not.toContain('analytics');
+    expect(await decryptConsentRecord(envelope, provider, 'cookie_consent')).toBe(record);
+  });
+
+  it('uses a fresh IV for every envelope', async () => {
+    const provider = createKeyRingKeyProvider({ keys: { a: KEY_A }, currentKeyId: 'a' });
+    const first = await encryptConsentRecord(record, provider, 'cookie_consent');
+    const second = await encryptConsentRecord(record, provider, 'cookie_consent');
+    expect(first).not.toBe(second);
+  });
+
+  it('rejects key ids that would break the envelope', async () => {
+    const key = await crypto.subtle.importKey('raw', new Uint8Array(32), { name: 'AES-GCM' }, false, ['encrypt']);
+    const provider = { getEncryptionKey: async () => ({ key, keyId: 'a.b' }), getDecryptionKey: async () => null };
+    await expect(encryptConsentRecord(record, provider, 'cookie_consent')).rejects.toThrow(/key id/);
+  });
+});
+
+describe('decryptConsentRecord', () => {
+  it('returns null for a tampered ciphertext', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = createKeyRingKeyProvider({ keys: { a: KEY_A }, currentKeyId: 'a' });
+    const envelope = await encryptConsentRecord(record, provider, 'cookie_consent');
+    const last = envelope.at(-1) === 'A' ? 'B' : 'A';
+
+    expect(await decryptConsentRecord(envelope.slice(0, -1) + last, provider, 'cookie_consent')).toBeNull();
+  });
+
+  it('returns null for the wrong key or storage key', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const envelope = await encryptConsentRecord(
+      record,
+      createKeyRingKeyProvider({ keys: { a: KEY_A }, currentKeyId: 'a' }),
+      'cookie_consent'
+    );
+    const wrongKey = createKeyRingKeyProvider({ keys: { a: KEY_B }, currentKeyId: 'a' });
+    const rightKey = createKeyRingKeyProvider({ keys: { a: KEY_A }, currentKeyId: 'a' });
+
+    expect(await decryptConsentRecord(envelope, wrongKey, 'cookie_consent')).toBeNull();
+    expect(await decryptConsentRecord(envelope, rightKey, 'other_key')).toBeNull();
+  });
+
+  it('returns null for unknown key ids and malformed envelopes', async () => {
+    const provider = createKeyRingKeyProvider({ keys: { a: KEY_A }, currentKeyId: 'a' });
+    const envelope = await encryptConsentRecord(record, provider, 'cookie_consent');
+    const other = createKeyRingKeyProvider({ keys: { b: KEY_A }, currentKeyId: 'b' });
+
+    expect(await decryptConsentRecord(envelope, other, 'cookie_consent')).toBeNull();
+    expect(await decryptConsentRecord('e1.a.short.data', provider, 'cookie_consent')).toBeNull();
+    expect(await decryptConsentRecord(record, provider, 'cookie_consent')).toBeNull();
+  });
+});
+
+describe('createKeyRingKeyProvider', () => {
+  it('decrypts records written with a retired key after rotation', async () => {
+    const before = createKeyRingKeyProvider({ keys: { a: KEY_A }, currentKeyId: 'a' });
+    const old = await encryptConsentRecord(record, before, 'cookie_consent');
+
+    const after = createKeyRingKeyProvider({ keys: { a: KEY_A, b: KEY_B }, currentKeyId: 'b' });
+    const rotated = await encryptConsentRecord(record, after, 'cookie_consent');
+
+    expect(rotated.startsWith('e1.b.')).toBe(true);
+    expect(await decryptConsentRecord(old, after, 'cookie_consent')).toBe(record);
+    expect(await decryptConsentRecord(rotated, after, 'cookie_consent')).toBe(record);
+  });
+
+  it('validates key ids and raw keys', async () => {
+    expect(() => createKeyRingKeyProvider({ keys: { a: KEY_A }, currentKeyId: 'b' })).toThrow(/Unknown current key id/);
+    expect(() => createKeyRingKeyProvider({ keys: { 'a.b': KEY_A }, currentKeyId: 'a.b' })).toThrow(/Invalid/);
+
+    const short = createKeyRingKeyProvider({ keys: { a: 'AAAA' }, currentKeyId: 'a' });
+    await expect(short.getEncryptionKey()).rejects.toThrow(/128 or 256 bits/);
+  });
+});
+
+describe('ConsentManager encryption', () => {
+  function createManager(storage: MemoryStorageAdapter, keys: Record<string, string>, currentKeyId: string) {
+    return new ConsentManager({
+      storage,
+      sync: false,
+      encryption: createKeyRingKeyProvider({ keys, currentKeyId }),
+    });
+  }
+
+  it('stores encrypted records and reads them back after rotating keys', async () => {
+    const storage = new MemoryStorageAdapter();
+    const manager = createManager(storage, { a: KEY_A }, 'a');
+    const state = await manager.acceptAll();
+    expect(storage.getItem('cookie_consent')?.startsWith('e1.a.')).toBe(true);
+
+    const rotated = createManager(storage, { a: KEY_A, b: KEY_B }, 'b');
+    expect(await rotated.getConsent()).toEqual(state);
+  });
+
+  it('encrypts plain records once encryption is enabled', async () => {
+    const storage = new MemoryStorageAdapter();
+    const state = await new ConsentManager({ storage, sync: false }).acceptAll();
+    expect(storage.getItem('cookie_consent')?.startsWith('{')).toBe(true);
+
+    const manager = createManager(storage, { a: KEY_A }, 'a');
+    expect(await manager.getConsent()).toEqual(state);
+    expect(storage.getItem('cookie_consent')?.startsWith('e1.a.')).toBe(true);
+  });
+
+  it('clears records it cannot decrypt', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const storage = new MemoryStorageAdapter();
+    await createManager(storage, { a: KEY_A }, 'a').acceptAll();
+
+    const manager = createManager(storage, { a: KEY_B }, 'a');
+    expect(await manager.getConsent()).toBeNull();
+    expect(storage.getItem('cookie_consent')).toBeNull();
+  });
+});
@@ -0,0 +1,354 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ConsentManager,
+  MemoryStorageAdapter,
+  consentStateToGppSections,
+  decodeGppString,
+  encodeGppString,
+  installGppApi,
+  type GppApi,
+  type GppEvent,
+  type GppSection,
+  type GppSectionName,
+} from '../src';
+import { BitReader, BitWriter, decodeBase64Url, encodeBase64Url } from '../src/tcf/bits';
+
+// usnat as published in the IAB GPP examples: notices given, nothing opted out, GPC off
+const IAB_USNAT_STRING = 'DBABLA~BVQqAAAAAgA.QA';
+const IAB_USNAT_SECTION: GppSection = {
+  Version: 1,
+  SharingNotice: 1,
+  SaleOptOutNotice: 1,
+  SharingOptOutNotice: 1,
+  TargetedAdvertisingOptOutNotice: 1,
+  SensitiveDataProcessingOptOutNotice: 0,
+  SensitiveDataLimitUseNotice: 0,
+  SaleOptOut: 2,
+  SharingOptOut: 2,
+  TargetedAdvertisingOptOut: 2,
+  SensitiveDataProcessing: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  KnownChildSensitiveDataConsents: [0, 0],
+  PersonalDataConsents: 0,
+  MspaCoveredTransaction: 2,
+  MspaOptOutOptionMode: 0,
+  MspaServiceProviderMode: 0,
+  Gpc: false,
+};
+
+// One string per state section, with every field set; checked against @iabgpp/cmpapi
+const SECTION_VECTORS: Array<{ name: GppSectionName; gppString: string; section: GppSection }> = [
+  {
+    name: 'usca',
+    gppString: 'DBABBg~BVoYYZoI.QA',
+    section: {
+      Version: 1,
+      SaleOptOutNotice: 1,
+      SharingOptOutNotice: 1,
+      SensitiveDataLimitUseNotice: 1,
+      SaleOptOut: 2,
+      SharingOptOut: 2,
+      SensitiveDataProcessing: [0, 1, 2, 0, 1, 2, 0, 1, 2],
+      KnownChildSensitiveDataConsents: [1, 2],
+      PersonalDataConsents: 2,
+      MspaCoveredTransaction: 0,
+      MspaOptOutOptionMode: 0,
+      MspaServiceProviderMode: 2,
+      Gpc: false,
+    },
+  },
+  {
+    name: 'usva',
+    gppString: 'DBABRg~BZYYYVY',
+    section: {
+      Version: 1,
+      SharingNotice: 1,
+      SaleOptOutNotice: 2,
+      TargetedAdvertisingOptOutNotice: 1,
+      SaleOptOut: 1,
+      TargetedAdvertisingOptOut: 2,
+      SensitiveDataProcessing: [0, 1, 2, 0, 1, 2, 0, 1],
+      KnownChildSensitiveDataConsents: 1,
+      MspaCoveredTransaction: 1,
+      MspaOptOutOptionMode: 1,
+      MspaServiceProviderMode: 2,
+    },
+  },
+  {
+    name: 'usco',
+    gppString: 'DBABJg~BVmSSoA.YA',
+    section: {
+      Version: 1,
+      SharingNotice: 1,
+      SaleOptOutNotice: 1,
+      TargetedAdvertisingOptOutNotice: 1,
+      SaleOptOut: 2,
+      TargetedAdvertisingOptOut: 1,
+      SensitiveDataProcessing: [2, 1, 0, 2, 1, 0, 2],
+      KnownChildSensitiveDataConsents: 2,
+      MspaCoveredTransaction: 2,
+      MspaOptOutOptionMode: 0,
+      MspaServiceProviderMode: 0,
+      Gpc: true,
+    },
+  },
+  {
+    name: 'usut',
+    gppString: 'DBABFg~BlVWgZZA',
+    section: {
+      Version: 1,
+      SharingNotice: 2,
+      SaleOptOutNotice: 1,
+      TargetedAdvertisingOptOutNotice: 1,
+      SensitiveDataProcessingOptOutNotice: 1,
+      SaleOptOut: 1,
+      TargetedAdvertisingOptOut: 1,
+      SensitiveDataProcessing: [1, 1, 2, 2, 0, 0, 1, 2],
+      KnownChildSensitiveDataConsents: 1,
+      MspaCoveredTransaction: 1,
+      MspaOptOutOptionMode: 2,
+      MspaServiceProviderMode: 1,
+    },
+  },
+  {
+    name: 'usct',
+    gppString: 'DBABVg~BWUFoGIA.QA',
+    section: {
+      Version: 1,
+      SharingNotice: 1,
+      SaleOptOutNotice: 1,
+      TargetedAdvertisingOptOutNotice: 2,
+      SaleOptOut: 1,
+      TargetedAdvertisingOptOut: 1,
+      SensitiveDataProcessing: [0, 0, 1, 1, 2, 2, 0, 0],
+      KnownChildSensitiveDataConsents: [1, 2, 0],
+      MspaCoveredTransaction: 2,
+      MspaOptOutOptionMode: 0,
+      MspaServiceProviderMode: 0,
+      Gpc: false,
+    },
+  },
+];
+
+describe('Fibonacci coding', () => {
+  it.each([
+    [1, '11'],
+    [2, '011'],
+    [3, '0011'],
+    [4, '1011'],
+    [5, '00011'],
+    [7, '01011'],
+    [12, '101011'],
+  ])('encodes %i as %s', (value, bits) => {
+    const writer = new BitWriter();
+    writer.writeFibonacci(value);
+    expect(writer.toBits()).toBe(bits);
+    expect(new BitReader(bits).readFibonacci()).toBe(value);
+  });
+
+  it('round-trips consecutive values', () => {
+    const writer = new BitWriter();
+    for (let value = 1; value <= 200; value++) {
+      writer.writeFibonacci(value);
+    }
+    const reader = new BitReader(writer.toBits());
+    for (let value = 1; value <= 200; value++) {
+      expect(reader.readFibonacci()).toBe(value);
+    }
+    expect(reader.remaining).toBe(0);
+  });
+
+  it('rejects values below 1', () => {
+    expect(() => new BitWriter().writeFibonacci(0)).toThrow(/positive integer/);
+  });
+});
+
+describe('web-safe Base64', () => {
+  it('zero-pads to a whole byte, then to whole characters', () => {
+    expect(encodeBase64Url('1')).toBe('gA');
+    expect(encodeBase64Url('000011')).toBe('DA');
+    expect(encodeBase64Url('111111111111111111111111')).toBe('____');
+  });
+
+  it('decodes without padding characters', () => {
+    expect(decodeBase64Url('gA')).toBe('100000000000');
+    expect(() => decodeBase64Url('gA==')).toThrow(/web-safe Base64/);
+    expect(() => decodeBase64Url('g+')).toThrow(/web-safe Base64/);
+  });
+});
+
+describe('decodeGppString', () => {
+  it('decodes the IAB usnat example', () => {
+    expect(decodeGppString(IAB_USNAT_STRING)).toEqual({
+      sectionIds: [7],
+      sections: { usnat: IAB_USNAT_SECTION },
+    });
+  });
+
+  it.each(SECTION_VECTORS)('decodes a $name section', ({ name, gppString, section }) => {
+    expect(decodeGppString(gppString).sections).toEqual({ [name]: section });
+  });
+
+  it('lists unsupported sections without decoding them', () => {
+    // uspv1 (6) before usnat (7)
+    expect(decodeGppString('DBABzw~1YNN~BVQqAAAAAgA.QA')).toEqual({
+      sectionIds: [6, 7],
+      sections: { usnat: IAB_USNAT_SECTION },
+    });
+    // tcfeuv2 (2) and uspv1 (6): a gap between single ids
+    const tcString = 'CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA';
+    expect(decodeGppString(`DBACNYA~${tcString}~1YNN`)).toEqual({ sectionIds: [2, 6], sections: {} });
+  });
+
+  it.each([
+    ['a non-GPP header', 'CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA'],
+    ['a missing section', 'DBABLA'],
+    ['an extra section', `${IAB_USNAT_STRING}~BVQqAAAAAgA`],
+    ['a truncated section', 'DBABLA~BVQ'],
+    ['an unsupported section version', 'DBABLA~CVQqAAAAAgA.QA'],
+    ['invalid characters', 'DBABLA~BVQq+AAAAgA'],
+  ])('rejects %s', (_, gppString) => {
+    expect(() => decodeGppString(gppString)).toThrow(/^Invalid GPP string/);
+  });
+});
+
+describe('encodeGppString', () => {
+  it('reproduces the IAB usnat example', () => {
+    expect(encodeGppString({ usnat: IAB_USNAT_SECTION })).toBe(IAB_USNAT_STRING);
+  });
+
+  it.each(SECTION_VECTORS)('encodes a $name section', ({ name, gppString, section }) => {
+    expect(encodeGppString({ [name]: section })).toBe(gppString);
+  });
+
+  it('encodes consecutive section ids as one Fibonacci range', () => {
+    const gpcSections = new Set<GppSectionName>(['usnat', 'usca', 'usco', 'usct']);
+    const sections = Object.fromEntries(
+      (['usct', 'usnat', 'usut', 'usca', 'usco', 'usva'] as GppSectionName[]).map((name) => [
+        name,
+        { Version: 1, MspaCoveredTransaction: 2, ...(gpcSections.has(name) ? { Gpc: false } : {}) },
+      ])
+    );
+
+    // Sections are written in id order
+    const encoded = encodeGppString(sections);
+    expect(encoded).toBe('DBABrGA~BAAAAAAAAgA.QA~BAAAAACA.QA~BAAAACA~BAAAAIA.QA~BAAAAAgA~BAAAAAIA.QA');
+    expect(decodeGppString(encoded).sectionIds).toEqual([7, 8, 9, 10, 11, 12]);
+  });
+
+  it('encodes gaps between section ids as separate entries', () => {
+    const sections = consentStateToGppSections(null, { sections: ['usnat', 'usco', 'usct'] });
+    const encoded = encodeGppString(sections);
+    expect(encoded.split('~')[0]).toBe('DBADLGY');
+    expect(decodeGppString(encoded)).toEqual({ sectionIds: [7, 10, 12], sections });
+  });
+
+  it('omits the GPC subsection when Gpc is unset', () => {
+    const { Gpc: _, ...section } = IAB_USNAT_SECTION;
+    expect(encodeGppString({ usnat: section })).toBe('DBABLA~BVQqAAAAAgA');
+  });
+
+  it('rejects unsupported sections', () => {
+    expect(() => encodeGppString({ uspv1: { Version: 1 } } as never)).toThrow(/Unsupported GPP section/);
+  });
+});
+
+describe('consentStateToGppSections', () => {
+  it('matches the IAB example when marketing is granted', () => {
+    const sections = consentStateToGppSections({ analytics: true, marketing: true });
+    expect(encodeGppString(sections)).toBe(IAB_USNAT_STRING);
+  });
+
+  it('opts out of sale, sharing and targeted advertising when marketing is denied', () => {
+    const { usnat } = consentStateToGppSections({ analytics: true, marketing: false });
+    expect(usnat).toMatchObject({ SaleOptOut: 1, SharingOptOut: 1, TargetedAdvertisingOptOut: 1 });
+  });
+
+  it('treats GPC as an opt-out unless told not to', () => {
+    const granted = { analytics: true, marketing: true };
+    expect(consentStateToGppSections(granted, {}, true).usnat).toMatchObject({ SaleOptOut: 1, Gpc: true });
+    expect(consentStateToGppSections(granted, { honorGpc: false }, true).usnat).toMatchObject({
+      SaleOptOut: 2,
+      Gpc: true,
+    });
+  });
+
+  it('encodes MSPA modes', () => {
+    const { usnat } = consentStateToGppSections(null, { mspaCoveredTransaction: true, mspaMode: 'service-provider' });
+    expect(usnat).toMatchObject({ MspaCoveredTransaction: 1, MspaOptOutOptionMode: 2, MspaServiceProviderMode: 1 });
+  });
+});
+
+describe('installGppApi', () => {
+  let api: GppApi | null = null;
+
+  afterEach(() => {
+    api?.destroy();
+    api = null;
+  });
+
+  it('emits signalStatus once, when stored consent has been read', async () => {
+    const manager = new ConsentManager({ storage: new MemoryStorageAdapter(), sync: false, enableIntegrity: false });
+    api = installGppApi(manager, { cmpId: 1 });
+
+    const events: GppEvent[] = [];
+    window.__gpp?.('addEventListener', (event) => events.push(event as GppEvent));
+    await manager.getConsent();
+    await vi.waitFor(() => expect(events.some((event) => event.eventName === 'signalStatus')).toBe(true));
+
+    await manager.acceptAll();
+    await manager.rejectAll();
+
+    const statusEvents = events.filter((event) => event.eventName === 'signalStatus');
+    expect(statusEvents).toHaveLength(1);
+    expect(statusEvents[0].data).toBe('ready');
+    expect(events.filter((event) => event.eventName === 'sectionChange').length).toBeGreaterThan(0);
+    expect(events[events.length - 1].pingData.signalStatus).toBe('ready');
+    manager.destroy();
+  });
+
+  it('answers ping and getField', async () => {
+    const manager = new ConsentManager({ storage: new MemoryStorageAdapter(), sync: false, enableIntegrity: false });
+    api = installGppApi(manager, { cmpId: 42 });
+    await manager.acceptAll();
+
+    const ping = vi.fn();
+    window.__gpp?.('ping', ping);
+    expect(ping).toHaveBeenCalledWith(expect.objectContaining({ cmpId: 42, gppString: IAB_USNAT_STRING }), true);
+
+    const field = vi.fn();
+    window.__gpp?.('getField', field, 'usnat.SaleOptOut');
+    expect(field).toHaveBeenCalledWith(2, true);
+    manager.destroy();
+  });
+
+  it('follows the GPC signal honored by the manager', async () => {
+    vi.stubGlobal('navigator', { ...navigator, globalPrivacyControl: true });
+    try {
+      const ignoring = new ConsentManager({ storage: new MemoryStorageAdapter(), sync: false, enableIntegrity: false });
+      api = installGppApi(ignoring);
+      await ignoring.acceptAll();
+      const field = vi.fn();
+      window.__gpp?.('getField', field, 'usnat.Gpc');
+      expect(field).toHaveBeenCalledWith(false, true);
+      api.destroy();
+      ignoring.destroy();
+
+      const honoring = new ConsentManager({
+        storage: new MemoryStorageAdapter(),
+        sync: false,
+        enableIntegrity: false,
+        privacySignals: true,
+      });
+      api = installGppApi(honoring);
+      await honoring.getConsent();
+      window.__gpp?.('getField', field, 'usnat.Gpc');
+      expect(field).toHaveBeenLastCalledWith(true, true);
+      window.__gpp?.('getField', field, 'usnat.SaleOptOut');
+      expect(field).toHaveBeenLastCalledWith(1, true);
+      honoring.destroy();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { ConsentManager, IndexedDBStorageAdapter } from '../src';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('IndexedDBStorageAdapter', () => {
+  it('opens the database on first use, once', async () => {
+    const factory = new IDBFactory();
+    const open = vi.spyOn(factory, 'open');
+    const storage = new IndexedDBStorageAdapter({ indexedDB: factory });
+    expect(open).not.toHaveBeenCalled();
+
+    await Promise.all([storage.getItem('cookie_consent'), storage.setItem('cookie_consent', 'a')]);
+    await storage.getItem('cookie_consent');
+    expect(open).toHaveBeenCalledTimes(1);
+    expect(open).toHaveBeenCalledWith('cookie-consent', undefined);
+    expect(await storage.getBackend()).toBe('indexeddb');
+  });
+
+  it('reads, writes and removes records', async () => {
+    const storage = new IndexedDBStorageAdapter({ indexedDB: new IDBFactory() });
+
+    expect(await storage.getItem('cookie_consent')).toBeNull();
+    await storage.setItem('cookie_consent', '{"analytics":true}');
+    expect(await storage.getItem('cookie_consent')).toBe('{"analytics":true}');
+    await storage.setItem('cookie_consent', '{"analytics":false}');
+    expect(await storage.getItem('cookie_consent')).toBe('{"analytics":false}');
+
+    await storage.removeItem('cookie_consent');
+    expect(await storage.getItem('cookie_consent')).toBeNull();
+  });
+
+  it('keeps records across connections', async () => {
+    const factory = new IDBFactory();
+    const first = new IndexedDBStorageAdapter({ indexedDB: factory });
+    await first.setItem('cookie_consent', 'stored');
+    await first.close();
+
+    expect(await first.getItem('cookie_consent')).toBe('stored');
+    expect(await new IndexedDBStorageAdapter({ indexedDB: factory }).getItem('cookie_consent')).toBe('stored');
+  });
+
+  it('adds its object store to an existing database', async () => {
+    const factory = new IDBFactory();
+    const consent = new IndexedDBStorageAdapter({ indexedDB: factory });
+    await consent.setItem('cookie_consent', 'consent');
+    await consent.close();
+
+    const other = new IndexedDBStorageAdapter({ indexedDB: factory, storeName: 'other' });
+    await other.setItem('cookie_consent', 'other');
+    expect(await other.getItem('cookie_consent')).toBe('other');
+    expect(await consent.getItem('cookie_consent')).toBe('consent');
+  });
+
+  it('falls back to memory when IndexedDB is missing', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const storage = new IndexedDBStorageAdapter();
+
+    expect(await storage.getBackend()).toBe('memory');
+    await storage.setItem('cookie_consent', 'in memory');
+    expect(await storage.getItem('cookie_consent')).toBe('in memory');
+    await storage.removeItem('cookie_consent');
+    expect(await storage.getItem('cookie_consent')).toBeNull();
+  });
+
+  it('falls back to memory when the database cannot be opened', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const factory = new IDBFactory();
+    vi.spyOn(factory, 'open').mockImplementation(() => {
+      throw new DOMException('The operation is insecure.', 'SecurityError');
+    });
+    const storage = new IndexedDBStorageAdapter({ indexedDB: factory });
+
+    await storage.setItem('cookie_consent', 'in memory');
+    expect(await storage.getItem('cookie_consent')).toBe('in memory');
+    expect(await storage.getBackend()).toBe('memory');
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to memory when an upgrade stays blocked', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const factory = new IDBFactory();
+    await new IndexedDBStorageAdapter({ indexedDB: factory }).setItem('cookie_consent', 'consent');
+
+    // A connection that ignores versionchange, like a stale tab
+    const held = await new Promise<IDBDatabase>((resolve) => {
+      const request = factory.open('cookie-consent');
+      request.onsuccess = () => resolve(request.result);
+    });
+    const onBlocked = vi.fn();
+    const storage = new IndexedDBStorageAdapter({ indexedDB: factory, storeName: 'other', onBlocked, blockedTimeout: 20 });
+
+    await storage.setItem('cookie_consent', 'in memory');
+    expect(onBlocked).toHaveBeenCalledTimes(1);
+    expect(await storage.getBackend()).toBe('memory');
+    expect(await storage.getItem('cookie_consent')).toBe('in memory');
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('using memory storage'), expect.any(Error));
+    held.close();
+  });
+
+  it('stores consent for a ConsentManager', async () => {
+    const factory = new IDBFactory();
+    const manager = new ConsentManager({ storage: new IndexedDBStorageAdapter({ indexedDB: factory }), sync: false });
+    const state = await manager.acceptAll();
+    manager.destroy();
+
+    const reloaded = new ConsentManager({ storage: new IndexedDBStorageAdapter({ indexedDB: factory }), sync: false });
+    expect(await reloaded.getConsent()).toEqual(state);
+    reloaded.destroy();
+  });
+});
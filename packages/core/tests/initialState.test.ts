@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ConsentManager,
+  MemoryStorageAdapter,
+  type ConsentManagerConfig,
+  type ConsentState,
+  type StorageAdapter,
+} from '../src';
+
+/**
+ * Memory storage whose first read waits until released, to decide while loading
+ */
+class SlowStorageAdapter implements StorageAdapter {
+  private storage = new MemoryStorageAdapter();
+  private release: () => void = () => {};
+  private gate = new Promise<void>((resolve) => {
+    this.release = resolve;
+  });
+
+  async getItem(key: string): Promise<string | null> {
+    // Read first, then wait: the value returned predates any write made meanwhile
+    const value = this.storage.getItem(key);
+    await this.gate;
+    return value;
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+
+  finishLoading(): void {
+    this.release();
+  }
+}
+
+function createState(overrides: Partial<ConsentState> = {}): ConsentState {
+  const timestamp = Date.now();
+  return {
+    version: 1,
+    essential: true,
+    analytics: false,
+    marketing: false,
+    timestamp,
+    expiresAt: timestamp + 30 * 24 * 60 * 60 * 1000,
+    ...overrides,
+  };
+}
+
+function createManager(
+  storage: StorageAdapter,
+  initialState?: ConsentState,
+  config: Partial<ConsentManagerConfig> = {}
+) {
+  return new ConsentManager({ storage, initialState, enableIntegrity: false, sync: false, ...config });
+}
+
+async function readStored(storage: StorageAdapter): Promise<ConsentState | null> {
+  const value = await storage.getItem('cookie_consent');
+  return value ? JSON.parse(value) : null;
+}
+
+describe('initial state', () => {
+  it('reconciles with stored consent once it has been read', async () => {
+    const storage = new SlowStorageAdapter();
+    storage.setItem('cookie_consent', JSON.stringify(createState({ analytics: true })));
+    const manager = createManager(storage, createState());
+    const changes: Array<ConsentState | null> = [];
+    manager.onChange((state) => changes.push(state));
+
+    expect(manager.getConsentSync()?.analytics).toBe(false);
+    storage.finishLoading();
+
+    expect((await manager.getConsent())?.analytics).toBe(true);
+    expect(changes.map((state) => state?.analytics)).toEqual([false, true]);
+    manager.destroy();
+  });
+
+  it('keeps a decision made while the initial state is being checked', async () => {
+    const storage = new SlowStorageAdapter();
+    storage.setItem('cookie_consent', JSON.stringify(createState({ analytics: true, marketing: true })));
+    const manager = createManager(storage, createState({ analytics: true, marketing: true }));
+    const changes: Array<ConsentState | null> = [];
+    manager.onChange((state) => changes.push(state));
+
+    await manager.rejectAll();
+    storage.finishLoading();
+
+    const state = await manager.getConsent();
+    expect(state).toMatchObject({ analytics: false, marketing: false });
+    expect(manager.getConsentSync()).toBe(state);
+    expect(changes.at(-1)).toMatchObject({ analytics: false, marketing: false });
+    manager.destroy();
+  });
+
+  it('keeps a decision made while loading without an initial state', async () => {
+    const storage = new SlowStorageAdapter();
+    storage.setItem('cookie_consent', JSON.stringify(createState({ analytics: true })));
+    const manager = createManager(storage);
+
+    await manager.acceptAll();
+    storage.finishLoading();
+
+    expect(await manager.getConsent()).toMatchObject({ analytics: true, marketing: true });
+    manager.destroy();
+  });
+
+  it('keeps a withdrawal made while loading', async () => {
+    const storage = new SlowStorageAdapter();
+    storage.setItem('cookie_consent', JSON.stringify(createState({ analytics: true })));
+    const manager = createManager(storage, createState({ analytics: true }));
+
+    await manager.withdrawConsent();
+    storage.finishLoading();
+
+    expect(await manager.getConsent()).toBeNull();
+    expect(manager.needsConsentPrompt()).toBe(true);
+    manager.destroy();
+  });
+
+  it('keeps a decision made while an expired record is loading in storage', async () => {
+    const storage = new SlowStorageAdapter();
+    storage.setItem('cookie_consent', JSON.stringify(createState({ timestamp: Date.now() - 2000, expiresAt: Date.now() - 1000 })));
+    const manager = createManager(storage);
+
+    await manager.acceptAll();
+    storage.finishLoading();
+
+    expect((await manager.getConsent())?.analytics).toBe(true);
+    expect(await readStored(storage)).toMatchObject({ analytics: true, marketing: true });
+    manager.destroy();
+  });
+
+  it('keeps a decision made while an older version is being migrated in storage', async () => {
+    const storage = new SlowStorageAdapter();
+    storage.setItem('cookie_consent', JSON.stringify(createState()));
+    const manager = createManager(storage, undefined, { version: 2, migrations: { 1: (state) => state } });
+
+    await manager.acceptAll();
+    storage.finishLoading();
+
+    expect((await manager.getConsent())?.analytics).toBe(true);
+    expect(await readStored(storage)).toMatchObject({ version: 2, analytics: true, marketing: true });
+    manager.destroy();
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ConsentManager,
+  MemoryStorageAdapter,
+  createSecretSigner,
+  signConsentState,
+  verifyConsentState,
+  type ConsentManagerConfig,
+  type ConsentState,
+  type SignedConsentState,
+} from '../src';
+import { migrateConsentState } from '../src/migrations';
+
+const signer = createSecretSigner('migration-test-secret');
+
+function createState(overrides: Partial<ConsentState> = {}): ConsentState {
+  const timestamp = Date.now() - 1000;
+  return {
+    version: 1,
+    essential: true,
+    analytics: true,
+    marketing: false,
+    timestamp,
+    expiresAt: timestamp + 60_000,
+    ...overrides,
+  };
+}
+
+async function createManager(
+  stored: ConsentState,
+  config: ConsentManagerConfig
+): Promise<{ manager: ConsentManager; storage: MemoryStorageAdapter }> {
+  const storage = new MemoryStorageAdapter();
+  storage.setItem('cookie_consent', JSON.stringify(await signConsentState(stored, signer)));
+  const manager = new ConsentManager({ storage, signer, sync: false, ...config });
+  return { manager, storage };
+}
+
+describe('migrateConsentState', () => {
+  const context = { version: 3, customCategories: [], requiredCategories: [] };
+
+  it('runs each step of the chain in order', () => {
+    const calls: number[] = [];
+    const result = migrateConsentState(createState({ tracking: true } as Partial<ConsentState>), {
+      ...context,
+      migrations: {
+        1: ({ tracking, ...state }) => {
+          calls.push(1);
+          return { ...state, analytics: tracking === true };
+        },
+        2: (state) => {
+          calls.push(2);
+          return { ...state, marketing: state.analytics };
+        },
+      },
+    });
+
+    expect(calls).toEqual([1, 2]);
+    expect(result).toEqual({
+      success: true,
+      data: expect.objectContaining({ version: 3, analytics: true, marketing: true }),
+    });
+    expect(result.success && result.data).not.toHaveProperty('tracking');
+  });
+
+  it('denies categories new to the target version and marks them undecided', () => {
+    const result = migrateConsentState(createState(), {
+      version: 2,
+      migrations: { 1: (state) => state },
+      customCategories: ['newsletter', 'security'],
+      requiredCategories: ['security'],
+    });
+
+    expect(result.success && result.data).toMatchObject({ newsletter: false, security: true, undecided: ['newsletter'] });
+  });
+
+  it('rejects a gap in the chain', () => {
+    const result = migrateConsentState(createState(), { ...context, migrations: { 1: (state) => state } });
+    expect(result).toEqual({ success: false, error: 'No migration registered for version 2' });
+  });
+
+  it('rejects a downgrade and reports a failing step', () => {
+    expect(migrateConsentState(createState({ version: 4 }), { ...context, migrations: {} })).toEqual({
+      success: false,
+      error: 'Cannot downgrade from version 4',
+    });
+    const failing = migrateConsentState(createState(), {
+      ...context,
+      migrations: {
+        1: () => {
+          throw new Error('bad data');
+        },
+      },
+    });
+    expect(failing).toEqual({ success: false, error: 'Migration from version 1 failed: bad data' });
+  });
+});
+
+describe('ConsentManager migrations', () => {
+  it('migrates a stored record through several versions and re-signs it', async () => {
+    const { manager, storage } = await createManager(createState(), {
+      version: 3,
+      migrations: {
+        1: (state) => ({ ...state, marketing: state.analytics }),
+        2: (state) => state,
+      },
+    });
+
+    const state = await manager.getConsent();
+    expect(state).toMatchObject({ version: 3, analytics: true, marketing: true });
+
+    const stored = JSON.parse(storage.getItem('cookie_consent')!) as SignedConsentState;
+    expect(stored.version).toBe(3);
+    const verification = await verifyConsentState(stored, signer);
+    expect(verification.valid).toBe(true);
+    expect(verification.state).toEqual(state);
+  });
+
+  it('only migrates once', async () => {
+    const migrate = vi.fn((state: ConsentState) => state);
+    const { manager, storage } = await createManager(createState(), { version: 2, migrations: { 1: migrate } });
+    await manager.getConsent();
+    manager.destroy();
+
+    await new ConsentManager({ storage, signer, sync: false, version: 2, migrations: { 1: migrate } }).getConsent();
+    expect(migrate).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the decision but re-prompts for new categories when configured', async () => {
+    const config: ConsentManagerConfig = {
+      version: 2,
+      migrations: { 1: (state) => state },
+      categories: { newsletter: { label: 'Newsletter', description: 'Email campaign tracking' } },
+    };
+    const { manager } = await createManager(createState(), config);
+    await manager.getConsent();
+    expect(manager.getUndecidedCategories()).toEqual(['newsletter']);
+    expect(manager.hasConsentForSync('analytics')).toBe(true);
+    expect(manager.hasConsentForSync('newsletter')).toBe(false);
+    expect(manager.needsConsentPrompt()).toBe(false);
+
+    const { manager: reprompting } = await createManager(createState(), { ...config, repromptForNewCategories: true });
+    await reprompting.getConsent();
+    expect(reprompting.needsConsentPrompt()).toBe(true);
+
+    await reprompting.setPreferences({ analytics: true, marketing: false, newsletter: true });
+    expect(reprompting.getUndecidedCategories()).toEqual([]);
+    expect(reprompting.needsConsentPrompt()).toBe(false);
+  });
+
+  it('clears a record with a gap in the chain and prompts again', async () => {
+    const { manager, storage } = await createManager(createState(), {
+      version: 3,
+      migrations: { 1: (state) => state },
+    });
+
+    expect(await manager.getConsent()).toBeNull();
+    expect(storage.getItem('cookie_consent')).toBeNull();
+    expect(manager.needsConsentPrompt()).toBe(true);
+  });
+
+  it('rejects migrations from the current version or later', () => {
+    expect(() => new ConsentManager({ version: 2, migrations: { 2: (state) => state } })).toThrow(
+      'Invalid migrations: Migration from version 2 must be below the current version 2'
+    );
+  });
+});
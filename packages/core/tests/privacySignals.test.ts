@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConsentManager, MemoryStorageAdapter, type ConsentManagerConfig } from '../src';
+
+function createManager(config: ConsentManagerConfig = {}) {
+  const storage = new MemoryStorageAdapter();
+  const manager = new ConsentManager({
+    storage,
+    sync: false,
+    enableIntegrity: false,
+    privacySignals: { honor: ['gpc'], optOut: { marketing: false } },
+    ...config,
+  });
+  return { manager, storage };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('privacy signals', () => {
+  it('applies the opt-out to the defaults without saving when nothing is stored', async () => {
+    vi.stubGlobal('navigator', { globalPrivacyControl: true });
+    const { manager, storage } = createManager({ defaultProfile: 'us' });
+
+    expect(await manager.getConsent()).toBeNull();
+    expect(storage.getItem('cookie_consent')).toBeNull();
+    expect(manager.getPrivacySignal()).toBe('gpc');
+    expect(manager.needsConsentPrompt()).toBe(true);
+    expect(manager.getDefaultPreferences()).toEqual({ analytics: true, marketing: false });
+    expect(manager.hasConsentForSync('marketing')).toBe(false);
+    expect(manager.hasConsentForSync('analytics')).toBe(true);
+    manager.destroy();
+  });
+
+  it('leaves the defaults alone without a signal', async () => {
+    vi.stubGlobal('navigator', {});
+    const { manager } = createManager({ defaultProfile: 'us' });
+
+    await manager.getConsent();
+    expect(manager.getPrivacySignal()).toBeNull();
+    expect(manager.getDefaultPreferences()).toEqual({ analytics: true, marketing: true });
+    manager.destroy();
+  });
+
+  it('overrides a stored decision when configured to', async () => {
+    const { manager: first, storage } = createManager();
+    await first.acceptAll();
+    first.destroy();
+
+    vi.stubGlobal('navigator', { globalPrivacyControl: true });
+    const manager = new ConsentManager({
+      storage,
+      sync: false,
+      enableIntegrity: false,
+      privacySignals: { honor: ['gpc'], optOut: { marketing: false }, overrideStored: true },
+    });
+
+    const state = await manager.getConsent();
+    expect(state).toMatchObject({ analytics: true, marketing: false, source: 'gpc' });
+    expect(JSON.parse(storage.getItem('cookie_consent')!)).toMatchObject({ marketing: false, source: 'gpc' });
+    manager.destroy();
+  });
+
+  it('keeps a stored decision by default', async () => {
+    const { manager: first, storage } = createManager();
+    await first.acceptAll();
+    first.destroy();
+
+    vi.stubGlobal('navigator', { globalPrivacyControl: true });
+    const { manager } = createManager({ storage });
+
+    expect(await manager.getConsent()).toMatchObject({ marketing: true, source: 'user' });
+    manager.destroy();
+  });
+});
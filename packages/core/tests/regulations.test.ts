@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ConsentManager,
+  DEFAULT_REGULATION_PROFILES,
+  MemoryStorageAdapter,
+  findProfileForRegion,
+  resolveRegulationProfile,
+  type ConsentManagerConfig,
+  type ConsentState,
+} from '../src';
+
+function createManager(config: ConsentManagerConfig = {}): ConsentManager {
+  return new ConsentManager({ storage: new MemoryStorageAdapter(), enableIntegrity: false, sync: false, ...config });
+}
+
+describe('findProfileForRegion', () => {
+  // Custom profiles first, as ConsentManager merges them
+  const profiles = {
+    california: { model: 'opt-out' as const, regions: ['US-CA'] },
+    swiss: { model: 'opt-in' as const, regions: ['ch'] },
+    ...DEFAULT_REGULATION_PROFILES,
+  };
+
+  it('matches built-in regions by country code, ignoring case', () => {
+    expect(findProfileForRegion('DE', DEFAULT_REGULATION_PROFILES)).toBe('gdpr');
+    expect(findProfileForRegion('gb', DEFAULT_REGULATION_PROFILES)).toBe('gdpr');
+    expect(findProfileForRegion('US', DEFAULT_REGULATION_PROFILES)).toBe('us');
+  });
+
+  it('prefers an exact subdivision code over its country', () => {
+    expect(findProfileForRegion('US-CA', profiles)).toBe('california');
+    expect(findProfileForRegion('US-NY', profiles)).toBe('us');
+  });
+
+  it('prefers custom profiles over built-ins for the same region', () => {
+    expect(findProfileForRegion('CH', profiles)).toBe('swiss');
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(findProfileForRegion('JP', profiles)).toBeNull();
+    expect(findProfileForRegion('JP-13', profiles)).toBeNull();
+  });
+});
+
+describe('resolveRegulationProfile', () => {
+  const categories = ['analytics', 'marketing', 'preferences'];
+
+  it('denies everything by default under opt-in and lets the user change it', () => {
+    expect(resolveRegulationProfile('gdpr', { model: 'opt-in' }, categories)).toEqual({
+      name: 'gdpr',
+      model: 'opt-in',
+      regions: [],
+      defaults: { analytics: false, marketing: false, preferences: false },
+      revocable: categories,
+      banner: 'opt-in',
+    });
+  });
+
+  it('grants everything by default under opt-out', () => {
+    const resolved = resolveRegulationProfile('us', DEFAULT_REGULATION_PROFILES.us, categories);
+    expect(resolved.defaults).toEqual({ analytics: true, marketing: true, preferences: true });
+    expect(resolved.revocable).toEqual(categories);
+    expect(resolved.banner).toBe('opt-out');
+  });
+
+  it('grants everything and allows no changes under notice-only', () => {
+    const resolved = resolveRegulationProfile('notice', { model: 'notice-only' }, categories);
+    expect(resolved.defaults).toEqual({ analytics: true, marketing: true, preferences: true });
+    expect(resolved.revocable).toEqual([]);
+    expect(resolved.banner).toBe('notice');
+  });
+
+  it('applies explicit defaults, revocable categories and banner', () => {
+    const resolved = resolveRegulationProfile(
+      'custom',
+      { model: 'notice-only', defaults: { marketing: false }, revocable: ['analytics', 'unknown'], banner: 'opt-in' },
+      categories
+    );
+    expect(resolved.defaults).toEqual({ analytics: true, marketing: false, preferences: true });
+    expect(resolved.revocable).toEqual(['analytics']);
+    expect(resolved.banner).toBe('opt-in');
+  });
+});
+
+describe('ConsentManager regulation profiles', () => {
+  it('selects the profile for the region, falling back to the default profile', async () => {
+    expect(createManager({ region: 'FR' }).getRegulationProfile().name).toBe('gdpr');
+    expect(createManager({ region: 'US-TX' }).getRegulationProfile().name).toBe('us');
+    expect(createManager({ region: 'JP' }).getRegulationProfile().name).toBe('gdpr');
+    expect(createManager({ region: 'JP', defaultProfile: 'notice' }).getRegulationProfile().name).toBe('notice');
+    expect(
+      createManager({ region: 'CH', profiles: { swiss: { model: 'opt-out', regions: ['CH'] } } }).getRegulationProfile()
+    ).toMatchObject({ name: 'swiss', model: 'opt-out' });
+    expect((await createManager({ region: 'US' }).getDebugInfo()).profile).toBe('us');
+  });
+
+  it('stores the withdrawal under an opt-out profile instead of falling back to granted defaults', async () => {
+    const manager = createManager({ region: 'US' });
+    await manager.acceptAll();
+    const rejectAll = vi.spyOn(manager, 'rejectAll');
+    const listener = vi.fn<(state: ConsentState) => void>();
+    manager.onChange(listener);
+    listener.mockClear();
+
+    await manager.withdrawConsent();
+
+    expect(rejectAll).toHaveBeenCalledTimes(1);
+    expect(manager.getConsentSync()).toMatchObject({ analytics: false, marketing: false });
+    expect(manager.hasConsentForSync('analytics')).toBe(false);
+    expect(manager.needsConsentPrompt()).toBe(false);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ analytics: false, marketing: false }));
+  });
+
+  it('clears the record on withdrawal under opt-in', async () => {
+    const manager = createManager({ region: 'DE' });
+    await manager.acceptAll();
+    const rejectAll = vi.spyOn(manager, 'rejectAll');
+
+    await manager.withdrawConsent();
+
+    expect(rejectAll).not.toHaveBeenCalled();
+    expect(manager.getConsentSync()).toBeNull();
+    expect(manager.needsConsentPrompt()).toBe(true);
+  });
+
+  it('records notice-only acknowledgements with the profile defaults', async () => {
+    const manager = createManager({ region: 'JP', defaultProfile: 'notice' });
+    expect(manager.getDefaultPreferences()).toEqual({ analytics: true, marketing: true });
+    expect(manager.isCategoryRevocable('analytics')).toBe(false);
+
+    const state = await manager.rejectAll();
+    expect(state).toMatchObject({ analytics: true, marketing: true });
+  });
+
+  it('only honors choices for revocable categories', async () => {
+    const manager = createManager({
+      region: 'BR',
+      profiles: { lgpd: { model: 'notice-only', regions: ['BR'], revocable: ['marketing'], defaults: { analytics: false } } },
+    });
+
+    const state = await manager.setPreferences({ analytics: true, marketing: false });
+    expect(state).toMatchObject({ analytics: false, marketing: false });
+    expect(await manager.acceptAll()).toMatchObject({ analytics: false, marketing: true });
+  });
+});
@@ -0,0 +1,214 @@
+// @vitest-environment happy-dom
+// @vitest-environment-options { "url": "https://example.com/", "settings": { "handleDisabledFileLoadingAsSuccess": true } }
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConsentManager, MemoryStorageAdapter, installScriptBlocker, type ScriptBlocker } from '../src';
+
+let manager: ConsentManager;
+let blocker: ScriptBlocker | undefined;
+// Inserted external scripts, held until a test settles them with a load or error event
+let held: Map<string, (type?: 'load' | 'error') => void>;
+
+beforeEach(() => {
+  manager = new ConsentManager({ storage: new MemoryStorageAdapter() });
+  held = new Map();
+  const dispatch = HTMLScriptElement.prototype.dispatchEvent;
+  const released = new WeakSet<Event>();
+  vi.spyOn(HTMLScriptElement.prototype, 'dispatchEvent').mockImplementation(function (
+    this: HTMLScriptElement,
+    event: Event
+  ) {
+    if ((event.type === 'load' || event.type === 'error') && !released.has(event)) {
+      held.set(this.getAttribute('src')!, (type = 'load') => {
+        const settled = new Event(type);
+        released.add(settled);
+        dispatch.call(this, settled);
+      });
+      return true;
+    }
+    return dispatch.call(this, event);
+  });
+});
+
+afterEach(() => {
+  blocker?.destroy();
+  blocker = undefined;
+  manager.destroy();
+  document.body.innerHTML = '';
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+function install(options: Parameters<typeof installScriptBlocker>[1] = {}): ScriptBlocker {
+  blocker = installScriptBlocker(manager, { observe: false, ...options });
+  return blocker;
+}
+
+function activeScripts(): HTMLScriptElement[] {
+  return Array.from(document.querySelectorAll<HTMLScriptElement>('script[data-consent-activated]')).filter(
+    (script) => script.type !== 'text/plain'
+  );
+}
+
+describe('installScriptBlocker', () => {
+  it('leaves scripts blocked until their categories are granted', async () => {
+    document.body.innerHTML = `
+      <script type="text/plain" data-consent-category="analytics" id="a">track()</script>
+      <script type="text/plain" data-consent-category="analytics marketing" id="b">ads()</script>`;
+    install();
+    await manager.getConsent();
+    await blocker!.activate();
+    expect(activeScripts()).toEqual([]);
+
+    await manager.setPreferences({ analytics: true });
+    await blocker!.activate();
+    expect(activeScripts().map((script) => script.id)).toEqual(['a']);
+    expect(document.getElementById('b')!.type).toBe('text/plain');
+
+    await manager.acceptAll();
+    await blocker!.activate();
+    expect(activeScripts().map((script) => script.id)).toEqual(['a', 'b']);
+  });
+
+  it('runs essential scripts without consent', async () => {
+    document.body.innerHTML = '<script type="text/plain" data-consent-category="essential" id="e">init()</script>';
+    await install().activate();
+
+    const [script] = activeScripts();
+    expect(script.id).toBe('e');
+    expect(script.text).toBe('init()');
+  });
+
+  it('copies attributes, module type and nonce onto the clone', async () => {
+    document.body.innerHTML = `
+      <script type="text/plain" data-consent-category="analytics" data-consent-type="module"
+        src="/widget.js" nonce="abc123" crossorigin="anonymous" id="m"></script>`;
+    document.getElementById('m')!.nonce = 'abc123';
+    await manager.setPreferences({ analytics: true });
+    const activation = install().activate();
+    await vi.waitFor(() => expect(held.has('/widget.js')).toBe(true));
+    held.get('/widget.js')!();
+    await activation;
+
+    const [script] = activeScripts();
+    expect(script.type).toBe('module');
+    expect(script.hasAttribute('data-consent-type')).toBe(false);
+    expect(script.nonce).toBe('abc123');
+    expect(script.getAttribute('crossorigin')).toBe('anonymous');
+    expect(script.getAttribute('data-consent-category')).toBe('analytics');
+  });
+
+  it('waits for each blocking external script before running the next', async () => {
+    document.body.innerHTML = `
+      <script type="text/plain" data-consent-category="analytics" src="/first.js" id="first"></script>
+      <script type="text/plain" data-consent-category="analytics" id="inline">after()</script>
+      <script type="text/plain" data-consent-category="analytics" src="/second.js" id="second"></script>`;
+    const onActivate = vi.fn();
+    await manager.setPreferences({ analytics: true });
+    const activation = install({ onActivate }).activate();
+
+    await vi.waitFor(() => expect(held.has('/first.js')).toBe(true));
+    expect(onActivate.mock.calls.map(([script]) => script.id)).toEqual(['first']);
+
+    held.get('/first.js')!();
+    await vi.waitFor(() => expect(held.has('/second.js')).toBe(true));
+    held.get('/second.js')!();
+    await activation;
+
+    expect(onActivate.mock.calls.map(([script]) => script.id)).toEqual(['first', 'inline', 'second']);
+    expect(onActivate).toHaveBeenCalledWith(expect.any(HTMLScriptElement), ['analytics']);
+  });
+
+  it('does not hold the queue for async scripts', async () => {
+    document.body.innerHTML = `
+      <script type="text/plain" data-consent-category="analytics" src="/async.js" async id="async"></script>
+      <script type="text/plain" data-consent-category="analytics" id="inline">after()</script>`;
+    await manager.setPreferences({ analytics: true });
+    await install().activate();
+
+    expect(activeScripts().map((script) => script.id)).toEqual(['async', 'inline']);
+    expect(activeScripts()[0].async).toBe(true);
+  });
+
+  it('moves on after a script that never loads', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    document.body.innerHTML = `
+      <script type="text/plain" data-consent-category="analytics" src="/hangs.js" id="hangs"></script>
+      <script type="text/plain" data-consent-category="analytics" id="inline">after()</script>`;
+    await manager.setPreferences({ analytics: true });
+    const activation = install({ loadTimeout: 5000 }).activate();
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(activeScripts().map((script) => script.id)).toEqual(['hangs']);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await activation;
+    expect(activeScripts().map((script) => script.id)).toEqual(['hangs', 'inline']);
+    expect(console.warn).toHaveBeenCalledWith('[ScriptBlocker] Timed out waiting for script:', 'https://example.com/hangs.js');
+  });
+
+  it('moves on after a script fails to load', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    document.body.innerHTML = `
+      <script type="text/plain" data-consent-category="analytics" src="/broken.js" id="broken"></script>
+      <script type="text/plain" data-consent-category="analytics" id="inline">after()</script>`;
+    await manager.setPreferences({ analytics: true });
+    const activation = install().activate();
+
+    const broken = document.getElementById('broken')!;
+    await vi.waitFor(() => expect(held.has('/broken.js')).toBe(true));
+    held.get('/broken.js')!('error');
+    await activation;
+
+    expect(broken.isConnected).toBe(false);
+    expect(activeScripts().map((script) => script.id)).toEqual(['broken', 'inline']);
+    expect(console.error).toHaveBeenCalledWith('[ScriptBlocker] Failed to load script:', 'https://example.com/broken.js');
+  });
+
+  it('never runs a script twice', async () => {
+    document.body.innerHTML = '<script type="text/plain" data-consent-category="analytics" id="a">track()</script>';
+    const onActivate = vi.fn();
+    await manager.setPreferences({ analytics: true });
+    install({ onActivate });
+
+    await Promise.all([blocker!.activate(), blocker!.activate()]);
+    await manager.acceptAll();
+    await blocker!.activate();
+
+    expect(onActivate).toHaveBeenCalledTimes(1);
+    expect(activeScripts()).toHaveLength(1);
+  });
+
+  it('releases scripts when consent is granted through the manager', async () => {
+    document.body.innerHTML = '<script type="text/plain" data-consent-category="marketing" id="ads">ads()</script>';
+    const onActivate = vi.fn();
+    install({ onActivate });
+    await manager.getConsent();
+
+    await manager.acceptAll();
+    await vi.waitFor(() => expect(onActivate).toHaveBeenCalledTimes(1));
+    expect(activeScripts().map((script) => script.id)).toEqual(['ads']);
+  });
+
+  it('picks up blocked scripts added after installation', async () => {
+    const onActivate = vi.fn();
+    await manager.setPreferences({ analytics: true });
+    install({ observe: true, onActivate });
+
+    document.body.insertAdjacentHTML(
+      'beforeend',
+      '<script type="text/plain" data-consent-category="analytics" id="late">late()</script>'
+    );
+    await vi.waitFor(() => expect(onActivate).toHaveBeenCalledTimes(1));
+    expect(activeScripts().map((script) => script.id)).toEqual(['late']);
+  });
+
+  it('stops activating after destroy', async () => {
+    document.body.innerHTML = '<script type="text/plain" data-consent-category="analytics" id="a">track()</script>';
+    install().destroy();
+
+    await manager.acceptAll();
+    await blocker!.activate();
+    expect(activeScripts()).toEqual([]);
+  });
+});
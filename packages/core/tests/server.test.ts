@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createConsentState,
+  createSecretSigner,
+  createSignerRequestHandler,
+  readConsentFromCookieHeader,
+  readConsentFromRequest,
+  serializeConsentCookies,
+  verifyStoredConsent,
+  type ConsentState,
+} from '../src/server';
+import { canonicalizeConsentState, signConsentState } from '../src';
+
+const SECRET = 'server-secret-with-enough-entropy';
+
+function createState(overrides: Partial<ConsentState> = {}): ConsentState {
+  const timestamp = Date.now();
+  return {
+    version: 1,
+    essential: true,
+    analytics: true,
+    marketing: false,
+    timestamp,
+    expiresAt: timestamp + 30 * 24 * 60 * 60 * 1000,
+    source: 'user',
+    ...overrides,
+  };
+}
+
+// Cookie header a browser would send back for the given Set-Cookie values
+function toCookieHeader(setCookies: string[]): string {
+  return setCookies
+    .filter((cookie) => !cookie.includes('max-age=0'))
+    .map((cookie) => cookie.split(';')[0])
+    .join('; ');
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('verifyStoredConsent', () => {
+  it('reports missing consent', async () => {
+    expect(await verifyStoredConsent(null)).toEqual({ status: 'missing', state: null });
+    expect(await verifyStoredConsent('')).toEqual({ status: 'missing', state: null });
+  });
+
+  it('accepts a record signed with the secret', async () => {
+    const state = createState();
+    const stored = JSON.stringify(await signConsentState(state, SECRET));
+
+    expect(await verifyStoredConsent(stored, { secret: SECRET })).toEqual({ status: 'valid', state, migrated: false });
+  });
+
+  it('reports records that are not consent as invalid', async () => {
+    expect((await verifyStoredConsent('not json')).status).toBe('invalid');
+    expect((await verifyStoredConsent('[1,2]')).status).toBe('invalid');
+    expect((await verifyStoredConsent(JSON.stringify({ analytics: 'yes' }))).status).toBe('invalid');
+  });
+
+  it('reports changed or unsigned records as tampered', async () => {
+    const signed = await signConsentState(createState(), SECRET);
+
+    const changed = JSON.stringify({ ...signed, marketing: true });
+    expect((await verifyStoredConsent(changed, { secret: SECRET })).status).toBe('tampered');
+    expect((await verifyStoredConsent(JSON.stringify(createState()), { secret: SECRET })).status).toBe('tampered');
+    expect((await verifyStoredConsent(JSON.stringify(signed), { secret: 'another-secret' })).status).toBe('tampered');
+  });
+
+  it('reports a signer that cannot verify as unavailable', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stored = JSON.stringify(await signConsentState(createState(), SECRET));
+    const signer = { sign: () => Promise.reject(new Error('down')), verify: () => Promise.reject(new Error('down')) };
+
+    expect(await verifyStoredConsent(stored, { signer })).toEqual({
+      status: 'unavailable',
+      state: null,
+      error: 'Signer could not verify the signature',
+    });
+  });
+
+  it('reports expired records', async () => {
+    const timestamp = Date.now() - 2000;
+    const stored = JSON.stringify(createState({ timestamp, expiresAt: timestamp + 1000 }));
+    expect(await verifyStoredConsent(stored)).toEqual({ status: 'expired', state: null });
+  });
+
+  it('migrates older versions and reports versions without a migration path', async () => {
+    const stored = JSON.stringify(createState({ version: 1 }));
+
+    const migrated = await verifyStoredConsent(stored, {
+      version: 2,
+      migrations: { 1: (state) => ({ ...state, marketing: true }) },
+    });
+    expect(migrated).toMatchObject({ status: 'valid', migrated: true, state: { version: 2, marketing: true } });
+    expect((await verifyStoredConsent(stored, { version: 2 })).status).toBe('version-mismatch');
+  });
+});
+
+describe('cookie round trip', () => {
+  it('reads back the cookies it writes, including chunked and compact records', async () => {
+    const options = { secret: SECRET, customCategories: ['functional'], storageFormat: 'compact' as const };
+    const state = createConsentState({ analytics: true, marketing: false, functional: true }, options);
+    const cookies = await serializeConsentCookies(state, options);
+
+    const result = await readConsentFromCookieHeader(`other=1; ${toCookieHeader(cookies)}`, options);
+    expect(result).toEqual({ status: 'valid', state, migrated: false });
+  });
+
+  it('migrates compact records from an earlier category list and reports unknown lists', async () => {
+    const options = { secret: SECRET, customCategories: ['functional'], storageFormat: 'compact' as const };
+    const state = createConsentState({ analytics: true, marketing: false, functional: true }, options);
+    const header = toCookieHeader(await serializeConsentCookies(state, options));
+
+    const renamed = {
+      ...options,
+      customCategories: ['personalization'],
+      version: 2,
+      migrations: { 1: ({ functional, ...rest }: ConsentState) => ({ ...rest, personalization: functional }) },
+    };
+    expect(await readConsentFromCookieHeader(header, renamed)).toMatchObject({
+      status: 'version-mismatch',
+      state: null,
+    });
+    expect(
+      await readConsentFromCookieHeader(header, { ...renamed, previousCustomCategories: [['functional']] })
+    ).toMatchObject({ status: 'valid', migrated: true, state: { version: 2, personalization: true } });
+  });
+
+  it('reads consent from a Request', async () => {
+    const state = createState();
+    const cookies = await serializeConsentCookies(state, { secret: SECRET, hostPrefix: true });
+    const request = new Request('https://example.com/', { headers: { cookie: toCookieHeader(cookies) } });
+
+    expect((await readConsentFromRequest(request, { secret: SECRET, hostPrefix: true })).state).toEqual(state);
+    expect((await readConsentFromRequest(request, { secret: SECRET })).status).toBe('missing');
+  });
+});
+
+describe('createSignerRequestHandler', () => {
+  const handler = createSignerRequestHandler(() => createSecretSigner(SECRET));
+
+  function post(body: unknown): Request {
+    return new Request('https://example.com/api/consent-signer', {
+      method: 'POST',
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+  }
+
+  it('signs and verifies canonical consent states', async () => {
+    const data = canonicalizeConsentState(createState());
+
+    const signed = await handler(post({ action: 'sign', data }));
+    expect(signed.status).toBe(200);
+    const { signature } = await signed.json();
+    expect(signature).toMatch(/^v1\./);
+
+    const verified = await handler(post({ action: 'verify', data, signature }));
+    expect(await verified.json()).toEqual({ valid: true });
+  });
+
+  it('refuses to sign anything but a canonical consent state', async () => {
+    const state = createState();
+    const payloads = [
+      'arbitrary string',
+      JSON.stringify({ hello: 'world' }),
+      JSON.stringify(state),
+      canonicalizeConsentState(state) + ' ',
+    ];
+
+    for (const data of payloads) {
+      const response = await handler(post({ action: 'sign', data }));
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Data is not a consent state' });
+    }
+  });
+
+  it('answers verification of anything but a consent state with valid: false', async () => {
+    const response = await handler(post({ action: 'verify', data: 'arbitrary string', signature: 'v1.00' }));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ valid: false });
+  });
+
+  it('rejects other methods and malformed requests', async () => {
+    expect((await handler(new Request('https://example.com/', { method: 'GET' }))).status).toBe(405);
+    expect((await handler(post('{not json'))).status).toBe(400);
+    expect((await handler(post({ action: 'sign' }))).status).toBe(400);
+    const data = canonicalizeConsentState(createState());
+    expect((await handler(post({ action: 'delete', data }))).status).toBe(400);
+  });
+
+  it('hides signer errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = createSignerRequestHandler(() => {
+      throw new Error('key store down');
+    });
+    const response = await failing(post({ action: 'sign', data: canonicalizeConsentState(createState()) }));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Signer unavailable' });
+  });
+});
@@ -0,0 +1,90 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConsentManager, LocalStorageAdapter, type ConsentState } from '../src';
+
+const managers: ConsentManager[] = [];
+
+// Each manager stands in for a tab sharing localStorage
+function createTab(sync: boolean = true): ConsentManager {
+  const manager = new ConsentManager({
+    storage: new LocalStorageAdapter(),
+    sync: sync ? { broadcastChannel: false, revalidateOnFocus: false } : false,
+  });
+  managers.push(manager);
+  return manager;
+}
+
+// The storage event other tabs receive after a write
+function dispatchStorageEvent(key: string | null): void {
+  window.dispatchEvent(new StorageEvent('storage', { key, newValue: key ? localStorage.getItem(key) : null }));
+}
+
+afterEach(() => {
+  managers.splice(0).forEach((manager) => manager.destroy());
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
+
+describe('cross-tab sync', () => {
+  it('revalidates and applies consent saved in another tab', async () => {
+    const tab = createTab();
+    await tab.getConsent();
+    const listener = vi.fn<(state: ConsentState) => void>();
+    tab.onChange(listener);
+
+    const state = await createTab(false).acceptAll();
+    dispatchStorageEvent('cookie_consent');
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(state));
+    expect(tab.getConsentSync()).toEqual(state);
+  });
+
+  it('rejects a tampered record and reports it as a withdrawal', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const tab = createTab();
+    await tab.acceptAll();
+    const listener = vi.fn<(state: ConsentState) => void>();
+    tab.onChange(listener);
+    // onChange reports the current state right away
+    listener.mockClear();
+
+    const stored = JSON.parse(localStorage.getItem('cookie_consent')!);
+    localStorage.setItem('cookie_consent', JSON.stringify({ ...stored, marketing: false }));
+    dispatchStorageEvent('cookie_consent');
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+    expect(listener.mock.calls[0][0]).toMatchObject({ analytics: false, marketing: false });
+    expect(tab.getConsentSync()).toBeNull();
+    expect(localStorage.getItem('cookie_consent')).toBeNull();
+  });
+
+  it('treats localStorage.clear() in another tab as a withdrawal', async () => {
+    const tab = createTab();
+    await tab.acceptAll();
+    const listener = vi.fn();
+    tab.onChange(listener);
+    // onChange reports the current state right away
+    listener.mockClear();
+
+    localStorage.clear();
+    dispatchStorageEvent(null);
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+    expect(tab.getConsentSync()).toBeNull();
+  });
+
+  it('ignores other keys and stops after destroy', async () => {
+    const tab = createTab();
+    await tab.getConsent();
+    const revalidate = vi.spyOn(tab, 'revalidate');
+
+    localStorage.setItem('other', 'value');
+    dispatchStorageEvent('other');
+    expect(revalidate).not.toHaveBeenCalled();
+
+    tab.destroy();
+    await createTab(false).acceptAll();
+    dispatchStorageEvent('cookie_consent');
+    expect(revalidate).not.toHaveBeenCalled();
+  });
+});
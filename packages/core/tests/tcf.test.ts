@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TCFRestrictionType,
+  consentStateToTCModel,
+  decodeTCString,
+  encodeTCString,
+  tcModelToConsentPreferences,
+  type ConsentState,
+  type TCModel,
+} from '../src';
+
+// Sample strings from the IAB TCF v2 documentation, decoded with @iabtcf/core
+const IAB_SAMPLES: Array<{ tcString: string; model: TCModel }> = [
+  {
+    tcString: 'COvFyGBOvFyGBAbAAAENAPCAAOAAAAAAAAAAAEEUACCKAAA',
+    model: {
+      version: 2,
+      created: 1582243059300,
+      lastUpdated: 1582243059300,
+      cmpId: 27,
+      cmpVersion: 0,
+      consentScreen: 0,
+      consentLanguage: 'EN',
+      vendorListVersion: 15,
+      tcfPolicyVersion: 2,
+      isServiceSpecific: false,
+      useNonStandardTexts: false,
+      specialFeatureOptIns: [],
+      purposeConsents: [1, 2, 3],
+      purposeLegitimateInterests: [],
+      purposeOneTreatment: false,
+      publisherCC: 'AA',
+      vendorConsents: [2, 6, 8],
+      vendorLegitimateInterests: [2, 6, 8],
+      publisherRestrictions: [],
+      disclosedVendors: [],
+    },
+  },
+  {
+    tcString: 'CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA',
+    model: {
+      version: 2,
+      created: 1650492000000,
+      lastUpdated: 1650492000000,
+      cmpId: 31,
+      cmpVersion: 640,
+      consentScreen: 1,
+      consentLanguage: 'EN',
+      vendorListVersion: 126,
+      tcfPolicyVersion: 2,
+      isServiceSpecific: true,
+      useNonStandardTexts: false,
+      specialFeatureOptIns: [],
+      purposeConsents: [],
+      purposeLegitimateInterests: [],
+      purposeOneTreatment: false,
+      publisherCC: 'DE',
+      vendorConsents: [],
+      vendorLegitimateInterests: [],
+      publisherRestrictions: [],
+      disclosedVendors: [],
+    },
+  },
+];
+
+// TCF v2.2 string with ranges, restrictions and disclosed vendors, encoded by @iabtcf/core
+// (which pads to whole Base64 groups, so our encoding only differs in trailing 'A's)
+const IAB_V22_STRING =
+  'CP4cy6AP4cy6AEsACBENCWEoAOLAAEIAAAYgF5wA4AAgAUAfQBeYF5wAgABALzABCQAYAFAAWAAA.IF5wA4AAgAWAfQBeYAAA';
+const IAB_V22_MODEL: TCModel = {
+  version: 2,
+  created: 1705320000000,
+  lastUpdated: 1705320000000,
+  cmpId: 300,
+  cmpVersion: 2,
+  consentScreen: 1,
+  consentLanguage: 'EN',
+  vendorListVersion: 150,
+  tcfPolicyVersion: 4,
+  isServiceSpecific: true,
+  useNonStandardTexts: false,
+  specialFeatureOptIns: [1],
+  purposeConsents: [1, 2, 3, 7, 9, 10],
+  purposeLegitimateInterests: [2, 7],
+  purposeOneTreatment: false,
+  publisherCC: 'DE',
+  vendorConsents: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 500, 755],
+  vendorLegitimateInterests: [2, 755],
+  publisherRestrictions: [{ purposeId: 2, restrictionType: TCFRestrictionType.RequireConsent, vendorIds: [10, 11] }],
+  disclosedVendors: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 500, 755],
+};
+
+function createState(overrides: Partial<ConsentState> = {}): ConsentState {
+  return {
+    version: 1,
+    essential: true,
+    analytics: false,
+    marketing: false,
+    timestamp: 1705320000000,
+    expiresAt: 1705320000000 + 365 * 24 * 60 * 60 * 1000,
+    ...overrides,
+  };
+}
+
+describe('decodeTCString', () => {
+  it.each(IAB_SAMPLES)('decodes IAB sample $tcString', ({ tcString, model }) => {
+    expect(decodeTCString(tcString)).toEqual(model);
+  });
+
+  it('decodes a v2.2 string with publisher restrictions and disclosed vendors', () => {
+    expect(decodeTCString(IAB_V22_STRING)).toEqual(IAB_V22_MODEL);
+  });
+
+  it('ignores segments it does not implement', () => {
+    // Publisher TC segment (type 3) appended to the first sample
+    const { tcString, model } = IAB_SAMPLES[0];
+    expect(decodeTCString(`${tcString}.YAAAAAAAAAAA`)).toEqual(model);
+  });
+
+  it.each([
+    ['an empty string', ''],
+    ['a v1 consent string', 'BOEFEAyOEFEAyAHABDENAI4AAAB9vABAASA'],
+    ['invalid characters', 'CO+vFyGB'],
+    ['a truncated string', 'COvFyGBOvFyGBAbAAAEN'],
+  ])('rejects %s', (_, tcString) => {
+    expect(() => decodeTCString(tcString)).toThrow(/^Invalid TC string/);
+  });
+});
+
+describe('encodeTCString', () => {
+  it.each(IAB_SAMPLES)('reproduces IAB sample $tcString', ({ tcString, model }) => {
+    expect(encodeTCString(model)).toBe(tcString);
+  });
+
+  it('matches the reference encoding up to trailing padding', () => {
+    const encoded = encodeTCString(IAB_V22_MODEL);
+    const strip = (value: string) => value.split('.').map((segment) => segment.replace(/A+$/, ''));
+    expect(strip(encoded)).toEqual(strip(IAB_V22_STRING));
+    expect(decodeTCString(encoded)).toEqual(IAB_V22_MODEL);
+  });
+
+  it('uses range encoding for sparse vendors and a bitfield for dense ones', () => {
+    const sparse = { ...IAB_V22_MODEL, vendorConsents: [1, 65535], disclosedVendors: [] };
+    const dense = { ...IAB_V22_MODEL, vendorConsents: [1, 3, 5, 7, 9, 11], disclosedVendors: [] };
+
+    // A 65535-bit bitfield alone would take over 10,000 characters
+    expect(encodeTCString(sparse).length).toBeLessThan(100);
+    expect(decodeTCString(encodeTCString(sparse)).vendorConsents).toEqual([1, 65535]);
+    expect(decodeTCString(encodeTCString(dense)).vendorConsents).toEqual([1, 3, 5, 7, 9, 11]);
+  });
+
+  it('rounds timestamps to deciseconds', () => {
+    const model = { ...IAB_V22_MODEL, created: 1705320000049, lastUpdated: 1705320000051 };
+    const decoded = decodeTCString(encodeTCString(model));
+    expect(decoded.created).toBe(1705320000000);
+    expect(decoded.lastUpdated).toBe(1705320000100);
+  });
+
+  it('rejects vendor ids beyond 16 bits', () => {
+    expect(() => encodeTCString({ ...IAB_V22_MODEL, vendorConsents: [65536] })).toThrow(/exceeds/);
+  });
+});
+
+describe('consentStateToTCModel', () => {
+  const options = { cmpId: 300, vendorListVersion: 150, vendors: { 755: ['marketing'], 10: ['analytics'] } };
+
+  it('grants mapped purposes and vendors for granted categories', () => {
+    const model = consentStateToTCModel(createState({ analytics: true }), options);
+    expect(model.purposeConsents).toEqual([1, 8, 9, 10]);
+    expect(model.vendorConsents).toEqual([10]);
+    expect(model.disclosedVendors).toEqual([10, 755]);
+    expect(tcModelToConsentPreferences(model)).toEqual({ analytics: true, marketing: false });
+  });
+
+  it('grants nothing before a decision', () => {
+    const model = consentStateToTCModel(null, options);
+    expect(model.purposeConsents).toEqual([]);
+    expect(model.vendorConsents).toEqual([]);
+  });
+
+  it('applies explicit choices over the mapping', () => {
+    const model = consentStateToTCModel(createState({ marketing: true }), options, {
+      purposeConsents: { 2: false, 8: true },
+      vendorConsents: { 755: false },
+      specialFeatureOptIns: { 1: true },
+    });
+    expect(model.purposeConsents).toEqual([1, 3, 4, 5, 6, 7, 8, 11]);
+    expect(model.vendorConsents).toEqual([]);
+    expect(model.specialFeatureOptIns).toEqual([1]);
+  });
+
+  it('round-trips through a TC string', () => {
+    const model = consentStateToTCModel(createState({ analytics: true, marketing: true }), options);
+    const decoded = decodeTCString(encodeTCString(model));
+    expect(decoded).toEqual(model);
+    expect(tcModelToConsentPreferences(decoded)).toEqual({ analytics: true, marketing: true });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Consent Embed Component
+ *
+ * Click-to-load placeholder for third-party iframes (videos, maps, social widgets)
+ * that set cookies as soon as they load
+ */
+
+import React, { useEffect, useState } from 'react';
+import { formatCategoryName, type ConsentPreferences, type ConsentState } from '@kev1nramos/cookie-consent-core';
+import type { ConsentEmbedProps } from '../types';
+import { useRequiredManager } from '../hooks/useConsentManager';
+import { useHasConsent } from '../hooks/useHasConsent';
+import { mergeTheme } from '../utils/theme';
+import { getDocumentLocale, getTranslation } from '../utils/locale';
+
+/**
+ * Provider names for common embed hosts, matched against the src hostname
+ */
+const KNOWN_PROVIDERS: Array<[RegExp, string]> = [
+  [/(^|\.)(youtube\.com|youtube-nocookie\.com|youtu\.be)$/, 'YouTube'],
+  [/(^|\.)vimeo\.com$/, 'Vimeo'],
+  [/(^|\.)google\.[a-z.]+$/, 'Google'],
+  [/(^|\.)openstreetmap\.org$/, 'OpenStreetMap'],
+  [/(^|\.)spotify\.com$/, 'Spotify'],
+  [/(^|\.)(twitter\.com|x\.com)$/, 'X'],
+  [/(^|\.)facebook\.com$/, 'Facebook'],
+  [/(^|\.)instagram\.com$/, 'Instagram'],
+  [/(^|\.)linkedin\.com$/, 'LinkedIn'],
+  [/(^|\.)tiktok\.com$/, 'TikTok'],
+];
+
+function detectProvider(src: string): string {
+  try {
+    const { hostname } = new URL(src, 'https://localhost');
+    return KNOWN_PROVIDERS.find(([pattern]) => pattern.test(hostname))?.[1] ?? hostname;
+  } catch {
+    return src;
+  }
+}
+
+function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+export function ConsentEmbed({
+  src,
+  title,
+  category,
+  provider,
+  width = '100%',
+  height,
+  aspectRatio = '16 / 9',
+  allow,
+  iframeProps,
+  theme: userTheme,
+  content = {},
+  locale,
+  manager: existingManager,
+  onLoadOnce,
+  onAlwaysAllow,
+  className = '',
+  style = {},
+}: ConsentEmbedProps) {
+  const manager = useRequiredManager('ConsentEmbed', existingManager);
+  const granted = useHasConsent(category, { manager });
+  const [loadOnce, setLoadOnce] = useState(false);
+
+  // <html lang> is read after mount so the first client render matches the server's
+  const [documentLocale, setDocumentLocale] = useState<string | null>(null);
+  useEffect(() => {
+    setDocumentLocale(getDocumentLocale());
+  }, []);
+  const theme = mergeTheme(userTheme);
+
+  const frameStyle: React.CSSProperties = {
+    width,
+    ...(height !== undefined ? { height } : { aspectRatio }),
+    borderRadius: theme.borderRadius,
+    overflow: 'hidden',
+    ...style,
+  };
+
+  if (granted || loadOnce) {
+    return (
+      <div className={className} style={frameStyle}>
+        <iframe
+          loading="lazy"
+          style={{ width: '100%', height: '100%', border: 0, display: 'block' }}
+          {...iframeProps}
+          src={src}
+          title={title}
+          allow={allow}
+        />
+      </div>
+    );
+  }
+
+  // Unset labels come from the built-in translations
+  const translation = getTranslation(locale ?? documentLocale);
+  const values = {
+    provider: provider ?? detectProvider(src),
+    category: manager.getCategoryDefinition(category)?.label ?? formatCategoryName(category),
+  };
+  const {
+    title: placeholderTitle = translation.embed.title,
+    description = translation.embed.description,
+    loadOnceButton = translation.embed.loadOnceButton,
+    alwaysAllowButton = translation.embed.alwaysAllowButton,
+  } = content;
+
+  const handleLoadOnce = () => {
+    setLoadOnce(true);
+    onLoadOnce?.();
+  };
+
+  // Grant the embed's category and keep every other choice as it is
+  const handleAlwaysAllow = async () => {
+    const preferences: ConsentPreferences = {
+      analytics: manager.hasConsentForSync('analytics'),
+      marketing: manager.hasConsentForSync('marketing'),
+    };
+    for (const name of manager.getCategories()) {
+      if (!manager.isCategoryRequired(name)) {
+        preferences[name] = manager.hasConsentForSync(name);
+      }
+    }
+    preferences[category] = true;
+
+    let state: ConsentState;
+    try {
+      state = await manager.setPreferences(preferences);
+    } catch (error) {
+      // Rate limited or storage failed; the placeholder stays until consent is saved
+      console.error('[ConsentEmbed] Error saving consent:', error);
+      return;
+    }
+    onAlwaysAllow?.(state);
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '0.625rem 1.25rem',
+    borderRadius: theme.borderRadius,
+    fontSize: '0.875rem',
+    fontWeight: 'bold',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      className={className}
+      role="region"
+      aria-label={title}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        textAlign: 'center',
+        gap: theme.spacing.gap,
+        padding: theme.spacing.padding,
+        boxSizing: 'border-box',
+        backgroundColor: theme.colors.banner,
+        color: theme.colors.text,
+        fontFamily: theme.fonts.family,
+        ...frameStyle,
+      }}
+    >
+      <h3 style={{ fontSize: '1rem', fontWeight: 'bold', margin: 0, color: theme.colors.text }}>
+        {fillTemplate(placeholderTitle, values)}
+      </h3>
+      <div style={{ fontSize: '0.875rem', lineHeight: 1.6, color: theme.colors.textSecondary, maxWidth: '32rem' }}>
+        {typeof description === 'string' ? fillTemplate(description, values) : description}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '0.75rem' }}>
+        <button
+          onClick={handleLoadOnce}
+          style={{
+            ...buttonStyle,
+            backgroundColor: theme.colors.secondaryButton,
+            color: theme.colors.secondaryButtonText,
+            border: '1px solid rgba(255, 255, 255, 0.3)',
+          }}
+        >
+          {fillTemplate(loadOnceButton, values)}
+        </button>
+        <button
+          onClick={handleAlwaysAllow}
+          style={{
+            ...buttonStyle,
+            backgroundColor: theme.colors.cta,
+            color: theme.colors.ctaText,
+            border: 'none',
+          }}
+        >
+          {fillTemplate(alwaysAllowButton, values)}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Consent Gate Component
+ *
+ * Renders its children only once the given categories are consented
+ */
+
+import React, { useSyncExternalStore } from 'react';
+import type { ConsentGateProps } from '../types';
+import { useRequiredManager } from '../hooks/useConsentManager';
+import { useHasConsent } from '../hooks/useHasConsent';
+import { getConsentStore } from '../utils/consentStore';
+
+export function ConsentGate({
+  category,
+  match = 'all',
+  fallback = null,
+  pending,
+  manager: existingManager,
+  children,
+}: ConsentGateProps) {
+  const manager = useRequiredManager('ConsentGate', existingManager);
+  const store = getConsentStore(manager);
+  const isLoading = useSyncExternalStore(
+    store.subscribe,
+    () => store.getSnapshot().isLoading,
+    () => store.getServerSnapshot().isLoading
+  );
+  const granted = useHasConsent(category, { match, manager });
+
+  if (isLoading) {
+    return <>{pending === undefined ? fallback : pending}</>;
+  }
+  return <>{granted ? children : fallback}</>;
+}
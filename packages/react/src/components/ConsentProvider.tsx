@@ -0,0 +1,27 @@
+/**
+ * Consent Provider Component
+ *
+ * Shares one ConsentManager with every consent hook and component below it
+ */
+
+import React, { createContext } from 'react';
+import { ConsentManager } from '@kev1nramos/cookie-consent-core';
+import type { ConsentProviderProps } from '../types';
+import { useOwnedManager } from '../hooks/useOwnedManager';
+
+export const ConsentContext = createContext<ConsentManager | null>(null);
+
+export function ConsentProvider({
+  config,
+  manager: existingManager,
+  initialState,
+  children,
+}: ConsentProviderProps) {
+  // Create the manager once, unless one is passed in; later config changes are ignored
+  const manager = useOwnedManager(
+    existingManager,
+    () => new ConsentManager(initialState !== undefined ? { ...config, initialState } : config || {})
+  );
+
+  return <ConsentContext.Provider value={manager}>{children}</ConsentContext.Provider>;
+}
@@ -5,36 +5,72 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import { validateLocale, type ConsentState } from '@kev1nramos/cookie-consent-core';
 import type { CookieConsentBannerProps } from '../types';
-import { defaultTheme } from '../types';
-import { useConsentManager } from '../hooks/useConsentManager';
+import { useManagerConsent, useResolvedManager } from '../hooks/useConsentManager';
 import { useIsMobile } from '../hooks/useMediaQuery';
+import { mergeTheme } from '../utils/theme';
+import {
+  DEFAULT_LOCALE,
+  getBrowserLocales,
+  getDocumentLocale,
+  getTranslation,
+  resolveLocale,
+} from '../utils/locale';
+import { CookiePreferencesModal } from './CookiePreferencesModal';
 
 export function CookieConsentBanner({
   theme: userTheme,
-  content,
+  content: singleContent,
+  locales,
+  preferencesLocales,
+  locale: requestedLocale,
+  defaultLocale = DEFAULT_LOCALE,
   links = {},
   behavior = {},
   accessibility = {},
   config,
+  initialState,
   onAcceptAll,
   onRejectAll,
+  onSavePreferences,
+  preferences,
   LinkComponent = 'a',
   className = '',
   style = {},
 }: CookieConsentBannerProps) {
   const [showBanner, setShowBanner] = useState(false);
   const [isVisible, setIsVisible] = useState(false);
-  const { hasConsent, acceptAll, rejectAll } = useConsentManager(config);
+  const [showPreferences, setShowPreferences] = useState(false);
+  // Outside a ConsentProvider the banner owns its manager
+  const { needsPrompt, acceptAll, rejectAll, manager } = useManagerConsent(
+    useResolvedManager(initialState !== undefined ? { ...config, initialState } : config)
+  );
   const isMobile = useIsMobile(640);
 
   // Merge user theme with defaults
-  const theme = {
-    colors: { ...defaultTheme.colors, ...userTheme?.colors },
-    fonts: { ...defaultTheme.fonts, ...userTheme?.fonts },
-    borderRadius: userTheme?.borderRadius ?? defaultTheme.borderRadius,
-    spacing: { ...defaultTheme.spacing, ...userTheme?.spacing },
-  };
+  const theme = mergeTheme(userTheme);
+
+  // With locales, pick the best match for the page or the visitor; a single
+  // content object is assumed to be in the page language
+  const documentLocale = getDocumentLocale();
+  const detectedLocales = documentLocale ? [documentLocale, ...getBrowserLocales()] : getBrowserLocales();
+  const locale = locales
+    ? resolveLocale(Object.keys(locales), requestedLocale ? [requestedLocale] : detectedLocales, defaultLocale)
+    : requestedLocale ?? documentLocale ?? defaultLocale;
+  const content = (locales ? locales[locale] : singleContent) ?? { title: '', description: '' };
+  const preferencesContent = preferencesLocales
+    ? preferencesLocales[resolveLocale(Object.keys(preferencesLocales), [locale], defaultLocale)]
+    : preferences;
+  const translation = getTranslation(locale);
+
+  // Record which text the user saw with their decision
+  useEffect(() => {
+    manager.setLocale(validateLocale(locale).success ? locale : null);
+  }, [manager, locale]);
+
+  // Layout follows the regulation profile selected for the visitor's region
+  const variant = manager.getRegulationProfile().banner;
 
   // Merge behavior defaults
   const {
@@ -43,17 +79,18 @@ export function CookieConsentBanner({
     backdropBlur = true,
     closeOnBackdropClick = false,
     animationDuration = 300,
+    showCustomizeButton = true,
   } = behavior;
 
   // Merge accessibility defaults
   const {
-    bannerLabel = 'Cookie consent banner',
+    bannerLabel = translation.accessibility.bannerLabel,
     acceptButtonLabel,
     rejectButtonLabel,
   } = accessibility;
 
   useEffect(() => {
-    if (!hasConsent) {
+    if (needsPrompt) {
       const timer = setTimeout(() => {
         setShowBanner(true);
         // Trigger animation
@@ -62,7 +99,7 @@ export function CookieConsentBanner({
 
       return () => clearTimeout(timer);
     }
-  }, [hasConsent, showDelay]);
+  }, [needsPrompt, showDelay]);
 
   const handleAcceptAll = async () => {
     await acceptAll();
@@ -76,6 +113,11 @@ export function CookieConsentBanner({
     closeBanner();
   };
 
+  const handleSavePreferences = (state: ConsentState) => {
+    onSavePreferences?.(state);
+    closeBanner();
+  };
+
   const closeBanner = () => {
     setIsVisible(false);
     setTimeout(() => setShowBanner(false), animationDuration);
@@ -87,6 +129,27 @@ export function CookieConsentBanner({
     }
   };
 
+  const preferencesModal = (
+    <CookiePreferencesModal
+      isOpen={showPreferences}
+      onClose={() => setShowPreferences(false)}
+      theme={userTheme}
+      content={preferencesContent}
+      locale={locale}
+      accessibility={accessibility}
+      manager={manager}
+      onSave={handleSavePreferences}
+      onAcceptAll={() => {
+        onAcceptAll?.();
+        closeBanner();
+      }}
+      onRejectAll={() => {
+        onRejectAll?.();
+        closeBanner();
+      }}
+    />
+  );
+
   if (!showBanner) {
     return null;
   }
@@ -210,7 +273,7 @@ export function CookieConsentBanner({
                       onMouseOver={(e: any) => (e.target.style.opacity = '0.8')}
                       onMouseOut={(e: any) => (e.target.style.opacity = '1')}
                     >
-                      {content.learnMoreText || 'Learn more'}
+                      {content.learnMoreText || translation.banner.learnMoreText}
                     </LinkComponent>
                   </>
                 )}
@@ -228,7 +291,7 @@ export function CookieConsentBanner({
                       onMouseOver={(e: any) => (e.target.style.opacity = '1')}
                       onMouseOut={(e: any) => (e.target.style.opacity = '0.9')}
                     >
-                      {content.managePreferencesText || 'Manage preferences'}
+                      {content.managePreferencesText || translation.banner.managePreferencesText}
                     </LinkComponent>
                   </>
                 )}
@@ -244,33 +307,58 @@ export function CookieConsentBanner({
                 flexShrink: 0,
               }}
             >
-              <button
-                onClick={handleRejectAll}
-                style={{
-                  padding: '0.625rem 1.25rem',
-                  borderRadius: theme.borderRadius,
-                  fontSize: '0.875rem',
-                  fontWeight: 'bold',
-                  transition: 'all 150ms',
-                  backgroundColor: theme.colors.secondaryButton,
-                  color: theme.colors.secondaryButtonText,
-                  border: `1px solid rgba(255, 255, 255, 0.3)`,
-                  cursor: 'pointer',
-                }}
-                aria-label={rejectButtonLabel}
-                onMouseOver={(e) => {
-                  e.currentTarget.style.transform = 'scale(1.02)';
-                  e.currentTarget.style.backgroundColor = 'rgba(255, 255, 255, 0.25)';
-                }}
-                onMouseOut={(e) => {
-                  e.currentTarget.style.transform = 'scale(1)';
-                  e.currentTarget.style.backgroundColor = theme.colors.secondaryButton!;
-                }}
-                onMouseDown={(e) => (e.currentTarget.style.transform = 'scale(0.98)')}
-                onMouseUp={(e) => (e.currentTarget.style.transform = 'scale(1.02)')}
-              >
-                {content.rejectButton || 'Reject All'}
-              </button>
+              {showCustomizeButton && variant !== 'notice' && (
+                <button
+                  onClick={() => setShowPreferences(true)}
+                  style={{
+                    padding: '0.625rem 1.25rem',
+                    borderRadius: theme.borderRadius,
+                    fontSize: '0.875rem',
+                    fontWeight: 'bold',
+                    transition: 'all 150ms',
+                    backgroundColor: 'transparent',
+                    color: theme.colors.secondaryButtonText,
+                    border: `1px solid rgba(255, 255, 255, 0.3)`,
+                    cursor: 'pointer',
+                  }}
+                  aria-haspopup="dialog"
+                  onMouseOver={(e) => (e.currentTarget.style.transform = 'scale(1.02)')}
+                  onMouseOut={(e) => (e.currentTarget.style.transform = 'scale(1)')}
+                >
+                  {content.customizeButton || translation.banner.customizeButton}
+                </button>
+              )}
+              {variant !== 'notice' && (
+                <button
+                  onClick={handleRejectAll}
+                  style={{
+                    padding: '0.625rem 1.25rem',
+                    borderRadius: theme.borderRadius,
+                    fontSize: '0.875rem',
+                    fontWeight: 'bold',
+                    transition: 'all 150ms',
+                    backgroundColor: theme.colors.secondaryButton,
+                    color: theme.colors.secondaryButtonText,
+                    border: `1px solid rgba(255, 255, 255, 0.3)`,
+                    cursor: 'pointer',
+                  }}
+                  aria-label={rejectButtonLabel}
+                  onMouseOver={(e) => {
+                    e.currentTarget.style.transform = 'scale(1.02)';
+                    e.currentTarget.style.backgroundColor = 'rgba(255, 255, 255, 0.25)';
+                  }}
+                  onMouseOut={(e) => {
+                    e.currentTarget.style.transform = 'scale(1)';
+                    e.currentTarget.style.backgroundColor = theme.colors.secondaryButton!;
+                  }}
+                  onMouseDown={(e) => (e.currentTarget.style.transform = 'scale(0.98)')}
+                  onMouseUp={(e) => (e.currentTarget.style.transform = 'scale(1.02)')}
+                >
+                  {variant === 'opt-out'
+                    ? content.optOutButton || translation.banner.optOutButton
+                    : content.rejectButton || translation.banner.rejectButton}
+                </button>
+              )}
               <button
                 onClick={handleAcceptAll}
                 style={{
@@ -296,12 +384,16 @@ export function CookieConsentBanner({
                 onMouseDown={(e) => (e.currentTarget.style.transform = 'scale(0.98)')}
                 onMouseUp={(e) => (e.currentTarget.style.transform = 'scale(1.02)')}
               >
-                {content.acceptButton || 'Accept All'}
+                {variant === 'opt-in'
+                  ? content.acceptButton || translation.banner.acceptButton
+                  : content.acknowledgeButton || translation.banner.acknowledgeButton}
               </button>
             </div>
           </div>
         </div>
       </div>
+
+      {preferencesModal}
     </>
   );
 }
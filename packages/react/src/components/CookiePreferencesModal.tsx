@@ -0,0 +1,365 @@
+/**
+ * Cookie Preferences Modal Component
+ *
+ * Preferences center with per-category toggles for essential, analytics,
+ * marketing and custom categories
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { formatCategoryName, validateLocale, type ConsentPreferences } from '@kev1nramos/cookie-consent-core';
+import type { CookiePreferencesModalProps } from '../types';
+import { useManagerConsent, useResolvedManager } from '../hooks/useConsentManager';
+import { useIsMobile } from '../hooks/useMediaQuery';
+import { mergeTheme } from '../utils/theme';
+import { DEFAULT_LOCALE, getDocumentLocale, getTranslation } from '../utils/locale';
+
+const FOCUSABLE_SELECTOR =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), summary, [tabindex]:not([tabindex="-1"])';
+
+export function CookiePreferencesModal({
+  isOpen,
+  onClose,
+  theme: userTheme,
+  content = {},
+  locale,
+  accessibility = {},
+  config,
+  manager: sharedManager,
+  onSave,
+  onAcceptAll,
+  onRejectAll,
+  className = '',
+  style = {},
+}: CookiePreferencesModalProps) {
+  const { consent, manager } = useManagerConsent(useResolvedManager(config, sharedManager));
+  const [choices, setChoices] = useState<Record<string, boolean>>({});
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+  const isMobile = useIsMobile(640);
+  const theme = mergeTheme(userTheme);
+
+  const categories = manager.getCategories();
+  // Only categories the active regulation profile lets the user change get a toggle
+  const optionalCategories = categories.filter((category) => manager.isCategoryRevocable(category));
+  const defaults = manager.getDefaultPreferences();
+
+  // Unset labels come from the built-in translations
+  const activeLocale = locale ?? getDocumentLocale() ?? DEFAULT_LOCALE;
+  const translation = getTranslation(activeLocale);
+
+  const {
+    title = translation.preferences.title,
+    description,
+    saveButton = translation.preferences.saveButton,
+    acceptAllButton = translation.preferences.acceptAllButton,
+    rejectAllButton = translation.preferences.rejectAllButton,
+    alwaysActiveLabel = translation.preferences.alwaysActiveLabel,
+    closeButtonLabel = translation.preferences.closeButtonLabel,
+    cookiesLabel = translation.preferences.cookiesLabel,
+  } = content;
+
+  const { preferencesLabel = translation.accessibility.preferencesLabel } = accessibility;
+
+  // Record which text the user saw with their decision
+  useEffect(() => {
+    manager.setLocale(validateLocale(activeLocale).success ? activeLocale : null);
+  }, [manager, activeLocale]);
+
+  // Reset toggles to the stored choice (or the profile's defaults) each time the modal opens
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const initialDefaults = manager.getDefaultPreferences();
+    const initial: Record<string, boolean> = {};
+    for (const category of manager.getCategories()) {
+      if (manager.isCategoryRevocable(category)) {
+        initial[category] = consent ? consent[category] === true : initialDefaults[category] === true;
+      }
+    }
+    setChoices(initial);
+  }, [isOpen, consent, manager]);
+
+  // Focus the dialog, keep Tab inside it and close on Escape; focus returns on close
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const previousFocus = document.activeElement;
+    dialogRef.current?.focus();
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onCloseRef.current();
+        return;
+      }
+      const dialog = dialogRef.current;
+      if (event.key !== 'Tab' || !dialog) {
+        return;
+      }
+      const focusable = Array.from(dialog.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const active = document.activeElement;
+      if (!first) {
+        event.preventDefault();
+      } else if (event.shiftKey && (active === first || active === dialog || !dialog.contains(active))) {
+        event.preventDefault();
+        last.focus();
+      } else if (!event.shiftKey && (active === last || !dialog.contains(active))) {
+        event.preventDefault();
+        first.focus();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      if (previousFocus instanceof HTMLElement) {
+        previousFocus.focus();
+      }
+    };
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    const preferences: ConsentPreferences = {
+      analytics: choices.analytics ?? false,
+      marketing: choices.marketing ?? false,
+    };
+    for (const category of optionalCategories) {
+      preferences[category] = choices[category] ?? false;
+    }
+    // Stay open on failure so the choice isn't silently lost
+    try {
+      const state = await manager.setPreferences(preferences);
+      onSave?.(state);
+      onClose();
+    } catch (error) {
+      console.error('[CookiePreferencesModal] Error saving consent:', error);
+    }
+  };
+
+  const handleAcceptAll = async () => {
+    try {
+      await manager.acceptAll();
+      onAcceptAll?.();
+      onClose();
+    } catch (error) {
+      console.error('[CookiePreferencesModal] Error saving consent:', error);
+    }
+  };
+
+  const handleRejectAll = async () => {
+    try {
+      await manager.rejectAll();
+      onRejectAll?.();
+      onClose();
+    } catch (error) {
+      console.error('[CookiePreferencesModal] Error saving consent:', error);
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '0.625rem 1.25rem',
+    borderRadius: theme.borderRadius,
+    fontSize: '0.875rem',
+    fontWeight: 'bold',
+    cursor: 'pointer',
+  };
+
+  const secondaryButtonStyle: React.CSSProperties = {
+    ...buttonStyle,
+    backgroundColor: theme.colors.secondaryButton,
+    color: theme.colors.secondaryButtonText,
+    border: '1px solid rgba(255, 255, 255, 0.3)',
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        style={{
+          position: 'fixed',
+          inset: 0,
+          backgroundColor: theme.colors.backdrop,
+          zIndex: 10000,
+        }}
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      {/* Modal */}
+      <div
+        ref={dialogRef}
+        tabIndex={-1}
+        role="dialog"
+        aria-modal="true"
+        aria-label={preferencesLabel}
+        className={className}
+        style={{
+          position: 'fixed',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          width: isMobile ? 'calc(100% - 2rem)' : '100%',
+          maxWidth: '560px',
+          maxHeight: 'calc(100vh - 2rem)',
+          overflowY: 'auto',
+          zIndex: 10001,
+          backgroundColor: theme.colors.banner,
+          color: theme.colors.text,
+          fontFamily: theme.fonts.family,
+          borderRadius: theme.borderRadius,
+          padding: theme.spacing.padding,
+          outline: 'none',
+          ...style,
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: theme.spacing.gap }}>
+          <h2 style={{ fontSize: '1.125rem', fontWeight: 'bold', margin: 0, color: theme.colors.text }}>
+            {title}
+          </h2>
+          <button
+            onClick={onClose}
+            aria-label={closeButtonLabel}
+            style={{
+              background: 'none',
+              border: 'none',
+              color: theme.colors.text,
+              fontSize: '1.25rem',
+              lineHeight: 1,
+              cursor: 'pointer',
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        {description && (
+          <div style={{ fontSize: '0.875rem', lineHeight: 1.6, color: theme.colors.textSecondary, marginTop: '0.5rem' }}>
+            {description}
+          </div>
+        )}
+
+        {/* Categories */}
+        <ul style={{ listStyle: 'none', padding: 0, margin: `${theme.spacing.gap} 0` }}>
+          {categories.map((category) => {
+            // Content overrides take precedence over the manager's category registry
+            const categoryContent = content.categories?.[category] ?? {};
+            const definition = manager.getCategoryDefinition(category);
+            const label = categoryContent.label ?? definition?.label ?? formatCategoryName(category);
+            const categoryDescription = categoryContent.description ?? definition?.description;
+            const cookies = definition?.cookies ?? [];
+            const isRequired = manager.isCategoryRequired(category);
+            const isRevocable = manager.isCategoryRevocable(category);
+            const isAlwaysActive = isRequired || (!isRevocable && defaults[category] === true);
+            const checked = isAlwaysActive || choices[category] === true;
+            const labelId = `cookie-category-${category}`;
+
+            return (
+              <li
+                key={category}
+                style={{
+                  padding: '0.75rem 0',
+                  borderTop: '1px solid rgba(255, 255, 255, 0.2)',
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: theme.spacing.gap }}>
+                  <span id={labelId} style={{ fontWeight: 'bold', fontSize: '0.9375rem' }}>
+                    {label}
+                  </span>
+                  {isAlwaysActive ? (
+                    <span style={{ fontSize: '0.8125rem', color: theme.colors.textSecondary }}>
+                      {alwaysActiveLabel}
+                    </span>
+                  ) : isRevocable && (
+                    <button
+                      role="switch"
+                      aria-checked={checked}
+                      aria-labelledby={labelId}
+                      onClick={() => setChoices((prev) => ({ ...prev, [category]: !checked }))}
+                      style={{
+                        position: 'relative',
+                        width: '2.75rem',
+                        height: '1.5rem',
+                        flexShrink: 0,
+                        borderRadius: '9999px',
+                        border: 'none',
+                        cursor: 'pointer',
+                        backgroundColor: checked ? theme.colors.cta : theme.colors.secondaryButton,
+                        transition: 'background-color 150ms',
+                      }}
+                    >
+                      <span
+                        style={{
+                          position: 'absolute',
+                          top: '0.1875rem',
+                          left: checked ? '1.4375rem' : '0.1875rem',
+                          width: '1.125rem',
+                          height: '1.125rem',
+                          borderRadius: '9999px',
+                          backgroundColor: theme.colors.ctaText,
+                          transition: 'left 150ms',
+                        }}
+                      />
+                    </button>
+                  )}
+                </div>
+                {categoryDescription && (
+                  <div style={{ fontSize: '0.8125rem', lineHeight: 1.5, color: theme.colors.textSecondary, marginTop: '0.25rem' }}>
+                    {categoryDescription}
+                  </div>
+                )}
+                {cookies.length > 0 && (
+                  <details style={{ fontSize: '0.8125rem', color: theme.colors.textSecondary, marginTop: '0.5rem' }}>
+                    <summary style={{ cursor: 'pointer' }}>
+                      {cookiesLabel} ({cookies.length})
+                    </summary>
+                    <ul style={{ paddingLeft: '1rem', margin: '0.25rem 0 0' }}>
+                      {cookies.map((cookie) => (
+                        <li key={cookie.name}>
+                          <code>{cookie.name}</code> · {cookie.duration} · {cookie.purpose}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {/* Actions */}
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: isMobile ? 'column' : 'row',
+            justifyContent: 'flex-end',
+            gap: '0.75rem',
+          }}
+        >
+          <button onClick={handleRejectAll} style={secondaryButtonStyle}>
+            {rejectAllButton}
+          </button>
+          <button onClick={handleAcceptAll} style={secondaryButtonStyle}>
+            {acceptAllButton}
+          </button>
+          <button
+            onClick={handleSave}
+            style={{
+              ...buttonStyle,
+              backgroundColor: theme.colors.cta,
+              color: theme.colors.ctaText,
+              border: 'none',
+            }}
+          >
+            {saveButton}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * React hook for the consent shared by ConsentProvider
+ */
+
+import { useContext } from 'react';
+import { ConsentContext } from '../components/ConsentProvider';
+import { useManagerConsent, type UseConsentManagerReturn } from './useConsentManager';
+
+/**
+ * Read and update consent through the nearest ConsentProvider's manager
+ */
+export function useConsent(): UseConsentManagerReturn {
+  const manager = useContext(ConsentContext);
+  if (!manager) {
+    throw new Error('useConsent must be used within a ConsentProvider');
+  }
+  return useManagerConsent(manager);
+}
@@ -2,8 +2,11 @@
  * React hook for managing cookie consent
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useCallback, useContext, useSyncExternalStore } from 'react';
 import { ConsentManager, type ConsentState, type ConsentManagerConfig } from '@kev1nramos/cookie-consent-core';
+import { ConsentContext } from '../components/ConsentProvider';
+import { getConsentStore } from '../utils/consentStore';
+import { useOwnedManager } from './useOwnedManager';
 
 export interface UseConsentManagerReturn {
   /** Current consent state */
@@ -12,6 +15,10 @@ export interface UseConsentManagerReturn {
   hasConsent: boolean;
   /** Loading state */
   isLoading: boolean;
+  /** Whether the banner should be shown (no decision, or undecided categories when re-prompting) */
+  needsPrompt: boolean;
+  /** Categories added by a version migration and not yet decided */
+  undecidedCategories: string[];
   /** Accept all cookies */
   acceptAll: () => Promise<void>;
   /** Reject all cookies */
@@ -27,51 +34,85 @@ export interface UseConsentManagerReturn {
 }
 
 /**
- * Hook for managing cookie consent with React
+ * Resolve the manager a hook works with: the one passed in, else the nearest
+ * ConsentProvider's, else its own (config only applies to its own manager)
+ * Its own manager is destroyed when the component unmounts
  */
-export function useConsentManager(config?: ConsentManagerConfig): UseConsentManagerReturn {
-  const managerRef = useRef<ConsentManager>(new ConsentManager(config || {}));
-  const [consent, setConsent] = useState<ConsentState | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  const manager = managerRef.current;
+export function useResolvedManager(
+  config?: ConsentManagerConfig,
+  existingManager?: ConsentManager
+): ConsentManager {
+  const contextManager = useContext(ConsentContext);
+  return useOwnedManager(existingManager ?? contextManager, () => new ConsentManager(config || {}));
+}
 
-  useEffect(() => {
-    // Load initial consent state
-    manager.getConsent().then((state) => {
-      setConsent(state);
-      setIsLoading(false);
-    });
+/**
+ * Resolve the manager passed in, else the nearest ConsentProvider's
+ * For hooks and components that only read consent, where a manager of their own
+ * would never see a decision; `name` is used in the error
+ */
+export function useRequiredManager(name: string, existingManager?: ConsentManager): ConsentManager {
+  const manager = useContext(ConsentContext);
+  if (existingManager) {
+    return existingManager;
+  }
+  if (!manager) {
+    throw new Error(`${name} must be used within a ConsentProvider or be given a manager`);
+  }
+  return manager;
+}
 
-    // Subscribe to consent changes
-    const unsubscribe = manager.onChange((newState) => {
-      setConsent(newState);
-    });
+/**
+ * Hook for managing cookie consent with React
+ * Uses the manager passed in, else the nearest ConsentProvider's, else its own
+ * (config only applies to its own manager, which is destroyed on unmount and logs a warning with `debug`)
+ */
+export function useConsentManager(
+  config?: ConsentManagerConfig,
+  existingManager?: ConsentManager
+): UseConsentManagerReturn {
+  const contextManager = useContext(ConsentContext);
+  const manager = useOwnedManager(existingManager ?? contextManager, () => {
+    if (config?.debug) {
+      console.warn(
+        '[useConsentManager] No ConsentProvider or manager found, creating a separate ConsentManager. ' +
+        'Other components only see its changes through storage; wrap the app in a ConsentProvider to share one.'
+      );
+    }
+    return new ConsentManager(config || {});
+  });
+  return useManagerConsent(manager);
+}
 
-    return unsubscribe;
-  }, [manager]);
+/**
+ * Consent state and actions for a resolved manager
+ */
+export function useManagerConsent(manager: ConsentManager): UseConsentManagerReturn {
+  const store = getConsentStore(manager);
+  const { consent, isLoading, needsPrompt } = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    store.getServerSnapshot
+  );
 
+  // State updates arrive through the store's onChange subscription
   const acceptAll = useCallback(async () => {
-    const newState = await manager.acceptAll();
-    setConsent(newState);
+    await manager.acceptAll();
   }, [manager]);
 
   const rejectAll = useCallback(async () => {
-    const newState = await manager.rejectAll();
-    setConsent(newState);
+    await manager.rejectAll();
   }, [manager]);
 
   const setPreferences = useCallback(
     async (preferences: { analytics: boolean; marketing: boolean; [key: string]: boolean }) => {
-      const newState = await manager.setPreferences(preferences);
-      setConsent(newState);
+      await manager.setPreferences(preferences);
     },
     [manager]
   );
 
   const withdrawConsent = useCallback(async () => {
     await manager.withdrawConsent();
-    setConsent(null);
   }, [manager]);
 
   const hasConsentFor = useCallback(
@@ -85,6 +126,8 @@ export function useConsentManager(config?: ConsentManagerConfig): UseConsentMana
     consent,
     hasConsent: consent !== null,
     isLoading,
+    needsPrompt,
+    undecidedCategories: Array.isArray(consent?.undecided) ? consent.undecided : [],
     acceptAll,
     rejectAll,
     setPreferences,
@@ -0,0 +1,38 @@
+/**
+ * React hook for reactive per-category consent checks
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { ConsentManager } from '@kev1nramos/cookie-consent-core';
+import { getConsentStore } from '../utils/consentStore';
+import { useRequiredManager } from './useConsentManager';
+
+export interface UseHasConsentOptions {
+  /** Require every category ('all') or at least one ('any') (default: 'all') */
+  match?: 'all' | 'any';
+  /** Manager to read from (default: the nearest ConsentProvider's) */
+  manager?: ConsentManager;
+}
+
+/**
+ * Whether the given categories are consented, re-rendering when consent changes
+ * Returns false while stored consent is loading; use isLoading from useConsent()
+ * to tell pending apart from denied. Throws outside a ConsentProvider unless a manager is passed.
+ */
+export function useHasConsent(category: string | string[], options: UseHasConsentOptions = {}): boolean {
+  const manager = useRequiredManager('useHasConsent', options.manager);
+  const store = getConsentStore(manager);
+  const categories = Array.isArray(category) ? category : [category];
+  const matches = (check: (category: string) => boolean) =>
+    options.match === 'any' ? categories.some(check) : categories.every(check);
+
+  return useSyncExternalStore(
+    store.subscribe,
+    () => !store.getSnapshot().isLoading && matches((name) => manager.hasConsentForSync(name)),
+    () => {
+      // The server only knows the initial state
+      const { consent, isLoading } = store.getServerSnapshot();
+      return !isLoading && matches((name) => consent?.[name] === true);
+    }
+  );
+}
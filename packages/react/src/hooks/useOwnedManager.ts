@@ -0,0 +1,48 @@
+/**
+ * Lifecycle of ConsentManagers created by components
+ */
+
+import { useEffect, useRef } from 'react';
+import type { ConsentManager } from '@kev1nramos/cookie-consent-core';
+
+/**
+ * Use the shared manager when there is one, else create one for this component
+ * and destroy it (cross-tab sync, listeners) when the component unmounts
+ */
+export function useOwnedManager(
+  sharedManager: ConsentManager | null | undefined,
+  create: () => ConsentManager
+): ConsentManager {
+  // A lazy ref rather than useState: StrictMode calls state initializers twice,
+  // and the discarded manager would keep syncing with nothing to destroy it
+  const ownedRef = useRef<ConsentManager | null>(null);
+  let manager = sharedManager;
+  if (!manager) {
+    manager = ownedRef.current ?? create();
+    ownedRef.current = manager;
+  }
+  const ownedManager = sharedManager ? null : manager;
+
+  const pendingDestroy = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => {
+    if (!ownedManager) {
+      return;
+    }
+    // StrictMode unmounts and remounts effects at once; keep the manager if it comes back
+    if (pendingDestroy.current) {
+      clearTimeout(pendingDestroy.current);
+      pendingDestroy.current = null;
+    }
+    return () => {
+      pendingDestroy.current = setTimeout(() => {
+        pendingDestroy.current = null;
+        ownedManager.destroy();
+        if (ownedRef.current === ownedManager) {
+          ownedRef.current = null;
+        }
+      }, 0);
+    };
+  }, [ownedManager]);
+
+  return manager;
+}
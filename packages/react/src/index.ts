@@ -5,8 +5,15 @@
  */
 
 export { CookieConsentBanner } from './components/CookieConsentBanner';
+export { CookiePreferencesModal } from './components/CookiePreferencesModal';
+export { ConsentProvider } from './components/ConsentProvider';
+export { ConsentGate } from './components/ConsentGate';
+export { ConsentEmbed } from './components/ConsentEmbed';
 export { useConsentManager } from './hooks/useConsentManager';
+export { useConsent } from './hooks/useConsent';
+export { useHasConsent } from './hooks/useHasConsent';
 export { useMediaQuery, useIsMobile } from './hooks/useMediaQuery';
+export { defaultTranslations, resolveLocale, getLocaleFallbackChain } from './utils/locale';
 
 export type {
   CookieConsentTheme,
@@ -15,8 +22,19 @@ export type {
   CookieConsentBehavior,
   CookieConsentAccessibility,
   CookieConsentBannerProps,
+  CookieCategoryContent,
+  CookiePreferencesContent,
+  CookiePreferencesModalProps,
+  CookieConsentTranslation,
+  ConsentProviderProps,
+  ConsentGateProps,
+  ConsentEmbedContent,
+  ConsentEmbedProps,
 } from './types';
 
+export type { UseConsentManagerReturn } from './hooks/useConsentManager';
+export type { UseHasConsentOptions } from './hooks/useHasConsent';
+
 export { defaultTheme } from './types';
 
 // Re-export core types for convenience
@@ -3,7 +3,12 @@
  */
 
 import type { ReactNode } from 'react';
-import type { ConsentManagerConfig } from '@kev1nramos/cookie-consent-core';
+import type {
+  ConsentManager,
+  ConsentManagerConfig,
+  ConsentState,
+  ConsentTranslation,
+} from '@kev1nramos/cookie-consent-core';
 
 /**
  * Theme configuration for cookie consent banner
@@ -56,8 +61,69 @@ export interface CookieConsentContent {
   learnMoreText?: string;
   /** Manage preferences link text */
   managePreferencesText?: string;
+  /** Customize button text (opens the preferences modal) */
+  customizeButton?: string;
+  /** Opt-out button text for the 'opt-out' variant (default: 'Do Not Sell or Share My Personal Information') */
+  optOutButton?: string;
+  /** Dismiss button text for the 'opt-out' and 'notice' variants (default: 'Got it') */
+  acknowledgeButton?: string;
 }
 
+/**
+ * Label and description for a category in the preferences modal
+ * Overrides the manager's category registry
+ */
+export interface CookieCategoryContent {
+  /** Category label (default: capitalized category name) */
+  label?: string;
+  /** Category description */
+  description?: string | ReactNode;
+}
+
+/**
+ * Content/copy for the preferences modal
+ */
+export interface CookiePreferencesContent {
+  /** Modal title (default: 'Cookie preferences') */
+  title?: string;
+  /** Modal description */
+  description?: string | ReactNode;
+  /** Save button text (default: 'Save choices') */
+  saveButton?: string;
+  /** Accept all button text (default: 'Accept all') */
+  acceptAllButton?: string;
+  /** Reject all button text (default: 'Reject all') */
+  rejectAllButton?: string;
+  /** Label shown instead of a toggle for essential cookies (default: 'Always active') */
+  alwaysActiveLabel?: string;
+  /** ARIA label for the close button (default: 'Close') */
+  closeButtonLabel?: string;
+  /** Summary text for a category's cookie declarations (default: 'Cookies used') */
+  cookiesLabel?: string;
+  /** Per-category labels and descriptions, keyed by category name */
+  categories?: Record<string, CookieCategoryContent>;
+}
+
+/**
+ * Content/copy for an embed placeholder
+ * '{provider}' and '{category}' in strings are replaced with the embed's provider and category label
+ */
+export interface ConsentEmbedContent {
+  /** Placeholder title (default: 'Content from {provider}') */
+  title?: string;
+  /** Explanation of what loading the embed does */
+  description?: string | ReactNode;
+  /** Button that loads the embed without storing consent (default: 'Load this once') */
+  loadOnceButton?: string;
+  /** Button that grants the category (default: 'Always allow {category}') */
+  alwaysAllowButton?: string;
+}
+
+/**
+ * Default labels for one locale (see defaultTranslations)
+ */
+export type CookieConsentTranslation = ConsentTranslation;
+
 /**
  * Links configuration for cookie policy and settings
  */
@@ -84,6 +150,8 @@ export interface CookieConsentBehavior {
   closeOnBackdropClick?: boolean;
   /** Animation duration in milliseconds (default: 300) */
   animationDuration?: number;
+  /** Show a Customize button that opens the preferences modal (default: true) */
+  showCustomizeButton?: boolean;
 }
 
 /**
@@ -96,6 +164,8 @@ export interface CookieConsentAccessibility {
   acceptButtonLabel?: string;
   /** ARIA label for reject button */
   rejectButtonLabel?: string;
+  /** ARIA label for preferences modal (default: 'Cookie preferences') */
+  preferencesLabel?: string;
 }
 
 /**
@@ -104,8 +174,19 @@ export interface CookieConsentAccessibility {
 export interface CookieConsentBannerProps {
   /** Theme configuration */
   theme?: Partial<CookieConsentTheme>;
-  /** Content/copy */
-  content: CookieConsentContent;
+  /** Content/copy (required unless locales is provided) */
+  content?: CookieConsentContent;
+  /** Content per locale, keyed by BCP 47 tag ('en', 'pt-BR') */
+  locales?: Record<string, CookieConsentContent>;
+  /** Preferences modal content per locale, keyed like locales */
+  preferencesLocales?: Record<string, CookiePreferencesContent>;
+  /**
+   * Locale to display (default: <html lang>, then navigator.languages when locales is provided)
+   * Falls back along its chain, e.g. 'pt-BR' -> 'pt' -> defaultLocale
+   */
+  locale?: string;
+  /** Locale used when no requested locale is available (default: 'en') */
+  defaultLocale?: string;
   /** Links configuration */
   links?: CookieConsentLinks;
   /** Behavior configuration */
@@ -114,10 +195,16 @@ export interface CookieConsentBannerProps {
   accessibility?: CookieConsentAccessibility;
   /** Consent manager configuration */
   config?: ConsentManagerConfig;
+  /** Consent read on the server; suppresses the banner until storage disagrees (ignored inside a ConsentProvider) */
+  initialState?: ConsentState | null;
   /** Callback when user accepts all cookies */
   onAcceptAll?: () => void;
   /** Callback when user rejects all cookies */
   onRejectAll?: () => void;
+  /** Callback when user saves choices from the preferences modal */
+  onSavePreferences?: (state: ConsentState) => void;
+  /** Content for the preferences modal opened by the Customize button */
+  preferences?: CookiePreferencesContent;
   /** Custom link component (for Next.js Link, React Router Link, etc.) */
   LinkComponent?: React.ComponentType<any> | 'a';
   /** Custom className for banner */
@@ -126,6 +213,108 @@ export interface CookieConsentBannerProps {
   style?: React.CSSProperties;
 }
 
+/**
+ * Props for CookiePreferencesModal component
+ */
+export interface CookiePreferencesModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Called when the modal should close (Escape, close button, or after an action) */
+  onClose: () => void;
+  /** Theme configuration */
+  theme?: Partial<CookieConsentTheme>;
+  /** Content/copy */
+  content?: CookiePreferencesContent;
+  /** Locale for the built-in default labels (default: <html lang>, then 'en') */
+  locale?: string;
+  /** Accessibility configuration */
+  accessibility?: CookieConsentAccessibility;
+  /** Consent manager configuration (ignored when manager is provided) */
+  config?: ConsentManagerConfig;
+  /** Existing consent manager to share, e.g. the banner's */
+  manager?: ConsentManager;
+  /** Callback after choices are saved */
+  onSave?: (state: ConsentState) => void;
+  /** Callback when user accepts all cookies */
+  onAcceptAll?: () => void;
+  /** Callback when user rejects all cookies */
+  onRejectAll?: () => void;
+  /** Custom className for modal */
+  className?: string;
+  /** Custom styles for modal */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Props for ConsentProvider component
+ */
+export interface ConsentProviderProps {
+  /** Consent manager configuration (read once; ignored when manager is provided) */
+  config?: ConsentManagerConfig;
+  /** Existing consent manager to share */
+  manager?: ConsentManager;
+  /** Consent read on the server from the consent cookie, trusted until storage is verified */
+  initialState?: ConsentState | null;
+  children?: ReactNode;
+}
+
+/**
+ * Props for ConsentGate component
+ */
+export interface ConsentGateProps {
+  /** Category, or categories, that must be consented */
+  category: string | string[];
+  /** Require every category ('all') or at least one ('any') (default: 'all') */
+  match?: 'all' | 'any';
+  /** Rendered when consent is missing (default: nothing) */
+  fallback?: ReactNode;
+  /** Rendered while stored consent is loading (default: fallback) */
+  pending?: ReactNode;
+  /** Manager to read from (default: the nearest ConsentProvider's) */
+  manager?: ConsentManager;
+  children?: ReactNode;
+}
+
+/**
+ * Props for ConsentEmbed component
+ */
+export interface ConsentEmbedProps {
+  /** Embed URL, loaded only once the category is granted or "Load this once" is clicked */
+  src: string;
+  /** Accessible iframe title, e.g. 'Product tour video' */
+  title: string;
+  /** Category the embed needs, e.g. 'marketing' */
+  category: string;
+  /** Provider name shown in the placeholder (default: detected from src, e.g. 'YouTube') */
+  provider?: string;
+  /** Width (default: '100%') */
+  width?: number | string;
+  /** Height; when omitted the embed keeps aspectRatio */
+  height?: number | string;
+  /** Aspect ratio when no height is set (default: '16 / 9') */
+  aspectRatio?: string;
+  /** iframe allow attribute, e.g. 'autoplay; encrypted-media; picture-in-picture' */
+  allow?: string;
+  /** Extra iframe attributes; src, title and allow always come from the props above */
+  iframeProps?: Omit<React.IframeHTMLAttributes<HTMLIFrameElement>, 'src' | 'title' | 'allow'>;
+  /** Theme configuration (same as the banner) */
+  theme?: Partial<CookieConsentTheme>;
+  /** Content/copy */
+  content?: ConsentEmbedContent;
+  /** Locale for the built-in default labels (default: <html lang>, then 'en') */
+  locale?: string;
+  /** Manager to read from and update (default: the nearest ConsentProvider's; required outside one) */
+  manager?: ConsentManager;
+  /** Callback after "Load this once" */
+  onLoadOnce?: () => void;
+  /** Callback after "Always allow" stores consent */
+  onAlwaysAllow?: (state: ConsentState) => void;
+  /** Custom className for the placeholder and iframe wrapper */
+  className?: string;
+  /** Custom styles for the placeholder and iframe wrapper */
+  style?: React.CSSProperties;
+}
+
 /**
  * Default theme values
  */
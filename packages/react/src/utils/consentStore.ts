@@ -0,0 +1,101 @@
+/**
+ * External store over a ConsentManager for useSyncExternalStore
+ */
+
+import type { ConsentManager, ConsentState } from '@kev1nramos/cookie-consent-core';
+
+export interface ConsentSnapshot {
+  /** Current consent state (null before a decision, after withdrawal, or while loading) */
+  consent: ConsentState | null;
+  /** Stored consent hasn't been read yet and no initial state was provided */
+  isLoading: boolean;
+  /** Whether the banner should be shown */
+  needsPrompt: boolean;
+}
+
+export interface ConsentStore {
+  subscribe(onStoreChange: () => void): () => void;
+  getSnapshot(): ConsentSnapshot;
+  getServerSnapshot(): ConsentSnapshot;
+}
+
+// Without an initial state nothing is known about the visitor on the server
+const SERVER_SNAPSHOT: ConsentSnapshot = { consent: null, isLoading: true, needsPrompt: false };
+
+// One store per manager, shared by every hook using it
+const stores = new WeakMap<ConsentManager, ConsentStore>();
+
+/**
+ * Get the store for a manager, creating it on first use
+ */
+export function getConsentStore(manager: ConsentManager): ConsentStore {
+  let store = stores.get(manager);
+  if (!store) {
+    store = createConsentStore(manager);
+    stores.set(manager, store);
+  }
+  return store;
+}
+
+function createConsentStore(manager: ConsentManager): ConsentStore {
+  const listeners = new Set<() => void>();
+  let unsubscribeManager: (() => void) | null = null;
+  let loaded = false;
+
+  // A server-provided initial state is trusted until storage has been verified
+  const initialState = manager.getInitialState();
+  const serverSnapshot: ConsentSnapshot = initialState
+    ? { consent: initialState, isLoading: false, needsPrompt: false }
+    : SERVER_SNAPSHOT;
+
+  const readSnapshot = (): ConsentSnapshot => {
+    const isLoading = !loaded && !initialState;
+    return {
+      // Read the cached state: a withdrawal notifies with a "reject all" state but clears consent
+      consent: manager.getConsentSync(),
+      isLoading,
+      needsPrompt: !isLoading && manager.needsConsentPrompt(),
+    };
+  };
+  let snapshot = readSnapshot();
+
+  // Replace the snapshot only when something changed, so renders can bail out
+  const refresh = () => {
+    const next = readSnapshot();
+    if (
+      next.consent !== snapshot.consent ||
+      next.isLoading !== snapshot.isLoading ||
+      next.needsPrompt !== snapshot.needsPrompt
+    ) {
+      snapshot = next;
+      listeners.forEach((listener) => listener());
+    }
+  };
+
+  // Stored consent is loaded without notifying listeners
+  manager.getConsent().then(() => {
+    loaded = true;
+    refresh();
+  });
+
+  return {
+    subscribe: (onStoreChange) => {
+      listeners.add(onStoreChange);
+      // One manager listener per store, including changes from other tabs
+      if (!unsubscribeManager) {
+        unsubscribeManager = manager.onChange(refresh);
+        // Catch up on changes made while nobody was subscribed
+        refresh();
+      }
+      return () => {
+        listeners.delete(onStoreChange);
+        if (listeners.size === 0 && unsubscribeManager) {
+          unsubscribeManager();
+          unsubscribeManager = null;
+        }
+      };
+    },
+    getSnapshot: () => snapshot,
+    getServerSnapshot: () => serverSnapshot,
+  };
+}
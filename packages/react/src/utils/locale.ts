@@ -0,0 +1,13 @@
+/**
+ * Locale detection, fallback resolution and built-in translations, shared with the banner element
+ */
+
+export {
+  DEFAULT_LOCALE,
+  getLocaleFallbackChain,
+  resolveLocale,
+  getDocumentLocale,
+  getBrowserLocales,
+  getTranslation,
+  defaultTranslations,
+} from '@kev1nramos/cookie-consent-core';
@@ -0,0 +1,185 @@
+// @vitest-environment happy-dom
+import React, { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  ConsentManager,
+  MemoryStorageAdapter,
+  type ConsentManagerConfig,
+  type ConsentState,
+} from '@kev1nramos/cookie-consent-core';
+import { ConsentEmbed } from '../src';
+import type { ConsentEmbedProps } from '../src/types';
+
+let root: Root | null = null;
+let container: HTMLElement;
+
+interface HappyDOMFetchSettings {
+  happyDOM: { settings: { fetch: { interceptor: { beforeAsyncRequest: () => Promise<Response> } | null } } };
+}
+
+beforeAll(() => {
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  // Only the iframe's attributes matter here; answer its page request with an empty page
+  (window as unknown as HappyDOMFetchSettings).happyDOM.settings.fetch.interceptor = {
+    beforeAsyncRequest: async () => new Response(''),
+  };
+});
+
+afterAll(() => {
+  (window as unknown as HappyDOMFetchSettings).happyDOM.settings.fetch.interceptor = null;
+});
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+  document.body.innerHTML = '';
+  vi.restoreAllMocks();
+});
+
+const VIDEO_SRC = 'https://www.youtube-nocookie.com/embed/abc123';
+
+function createManager(config: ConsentManagerConfig = {}): ConsentManager {
+  return new ConsentManager({ storage: new MemoryStorageAdapter(), enableIntegrity: false, sync: false, ...config });
+}
+
+function Embed(props: Partial<ConsentEmbedProps> & { manager: ConsentManager; id?: string }) {
+  const { id = 'video', ...rest } = props;
+  return (
+    <div id={id}>
+      <ConsentEmbed src={VIDEO_SRC} title="Product tour" category="marketing" {...rest} />
+    </div>
+  );
+}
+
+async function render(element: React.ReactElement): Promise<void> {
+  container = document.body.appendChild(document.createElement('div'));
+  root = createRoot(container);
+  await act(async () => {
+    root!.render(element);
+  });
+}
+
+function button(text: string, scope: ParentNode = document): HTMLButtonElement {
+  const match = Array.from(scope.querySelectorAll('button')).find((element) => element.textContent === text);
+  if (!match) {
+    throw new Error(`No button "${text}"`);
+  }
+  return match;
+}
+
+async function click(element: HTMLElement): Promise<void> {
+  await act(async () => {
+    element.click();
+  });
+}
+
+describe('ConsentEmbed', () => {
+  it('shows a placeholder naming the provider until the category is granted', async () => {
+    const manager = createManager();
+    await manager.getConsent();
+    await render(<Embed manager={manager} />);
+
+    expect(container.querySelector('iframe')).toBeNull();
+    expect(container.querySelector('[role="region"]')!.getAttribute('aria-label')).toBe('Product tour');
+    expect(container.querySelector('h3')!.textContent).toBe('Content from YouTube');
+    expect(button('Always allow Marketing')).toBeDefined();
+
+    await act(async () => {
+      await manager.acceptAll();
+    });
+    const iframe = container.querySelector('iframe')!;
+    expect(iframe.getAttribute('src')).toBe(VIDEO_SRC);
+    expect(iframe.getAttribute('title')).toBe('Product tour');
+    expect(container.querySelector('[role="region"]')).toBeNull();
+  });
+
+  it('renders the iframe at once when the category is already granted', async () => {
+    const manager = createManager();
+    await manager.setPreferences({ analytics: false, marketing: true });
+    await render(<Embed manager={manager} allow="autoplay" iframeProps={{ referrerPolicy: 'no-referrer' }} />);
+
+    const iframe = container.querySelector('iframe')!;
+    expect(iframe.getAttribute('allow')).toBe('autoplay');
+    expect(iframe.getAttribute('referrerpolicy')).toBe('no-referrer');
+  });
+
+  it('loads once without storing consent or unblocking other embeds', async () => {
+    const manager = createManager();
+    await manager.getConsent();
+    const setPreferences = vi.spyOn(manager, 'setPreferences');
+    const onLoadOnce = vi.fn();
+    await render(
+      <>
+        <Embed manager={manager} onLoadOnce={onLoadOnce} />
+        <Embed manager={manager} id="map" src="https://www.openstreetmap.org/export/embed.html" title="Office map" />
+      </>
+    );
+
+    await click(button('Load this once', container.querySelector('#video')!));
+
+    expect(onLoadOnce).toHaveBeenCalledTimes(1);
+    expect(container.querySelector('#video iframe')).not.toBeNull();
+    expect(container.querySelector('#map iframe')).toBeNull();
+    expect(container.querySelector('#map h3')!.textContent).toBe('Content from OpenStreetMap');
+    expect(setPreferences).not.toHaveBeenCalled();
+    expect(manager.getConsentSync()).toBeNull();
+  });
+
+  it('grants the category on "always allow" and keeps the other choices', async () => {
+    const manager = createManager({
+      categories: {
+        personalization: { label: 'Personalization', description: 'Remembered choices' },
+        support_chat: { label: 'Support chat', description: 'Live chat widget' },
+        security: { label: 'Security', description: 'Fraud prevention', required: true },
+      },
+    });
+    await manager.setPreferences({ analytics: true, marketing: false, personalization: true, support_chat: false });
+    const onAlwaysAllow = vi.fn<(state: ConsentState) => void>();
+    await render(
+      <>
+        <Embed manager={manager} onAlwaysAllow={onAlwaysAllow} />
+        <Embed manager={manager} id="chat" category="support_chat" title="Chat" />
+      </>
+    );
+
+    await click(button('Always allow Marketing'));
+
+    expect(manager.getConsentSync()).toMatchObject({
+      analytics: true,
+      marketing: true,
+      personalization: true,
+      support_chat: false,
+      security: true,
+    });
+    expect(onAlwaysAllow).toHaveBeenCalledWith(expect.objectContaining({ marketing: true, analytics: true }));
+    expect(container.querySelector('#video iframe')).not.toBeNull();
+    expect(container.querySelector('#chat iframe')).toBeNull();
+  });
+
+  it('keeps the placeholder when saving fails', async () => {
+    const manager = createManager();
+    await manager.getConsent();
+    vi.spyOn(manager, 'setPreferences').mockRejectedValue(new Error('Rate limit exceeded'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onAlwaysAllow = vi.fn();
+    await render(<Embed manager={manager} onAlwaysAllow={onAlwaysAllow} />);
+
+    await click(button('Always allow Marketing'));
+
+    expect(error).toHaveBeenCalledWith('[ConsentEmbed] Error saving consent:', expect.any(Error));
+    expect(onAlwaysAllow).not.toHaveBeenCalled();
+    expect(container.querySelector('iframe')).toBeNull();
+  });
+
+  it('uses the built-in labels for the locale and fills content templates', async () => {
+    const manager = createManager();
+    await manager.getConsent();
+    await render(
+      <Embed manager={manager} locale="de-AT" provider="Acme Video" content={{ title: '{provider} ({category})' }} />
+    );
+
+    expect(container.querySelector('h3')!.textContent).toBe('Acme Video (Marketing)');
+    expect(button('Einmalig laden')).toBeDefined();
+  });
+});
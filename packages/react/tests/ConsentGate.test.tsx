@@ -0,0 +1,171 @@
+// @vitest-environment happy-dom
+import React, { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ConsentManager, MemoryStorageAdapter, type ConsentManagerConfig } from '@kev1nramos/cookie-consent-core';
+import { ConsentGate, ConsentProvider, useHasConsent } from '../src';
+import type { ConsentGateProps } from '../src/types';
+
+let root: Root | null = null;
+let container: HTMLElement;
+
+beforeAll(() => {
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+  document.body.innerHTML = '';
+  vi.restoreAllMocks();
+});
+
+function createManager(config: ConsentManagerConfig = {}): ConsentManager {
+  return new ConsentManager({ storage: new MemoryStorageAdapter(), enableIntegrity: false, sync: false, ...config });
+}
+
+async function render(element: React.ReactElement): Promise<void> {
+  container = document.body.appendChild(document.createElement('div'));
+  root = createRoot(container);
+  await act(async () => {
+    root!.render(element);
+  });
+}
+
+function Gate(props: Omit<ConsentGateProps, 'children' | 'fallback'>) {
+  return (
+    <ConsentGate fallback={<span>blocked</span>} {...props}>
+      <span>granted</span>
+    </ConsentGate>
+  );
+}
+
+function HasConsent({ category, match }: { category: string | string[]; match?: 'all' | 'any' }) {
+  return <>{String(useHasConsent(category, { match }))}</>;
+}
+
+describe('ConsentGate', () => {
+  it('requires every category by default, or any one with match="any"', async () => {
+    const manager = createManager();
+    await manager.setPreferences({ analytics: true, marketing: false });
+
+    await render(
+      <ConsentProvider manager={manager}>
+        <div id="single"><Gate category="analytics" /></div>
+        <div id="all"><Gate category={['analytics', 'marketing']} /></div>
+        <div id="any"><Gate category={['analytics', 'marketing']} match="any" /></div>
+        <div id="none"><Gate category={['marketing', 'preferences']} match="any" /></div>
+      </ConsentProvider>
+    );
+
+    expect(container.querySelector('#single')!.textContent).toBe('granted');
+    expect(container.querySelector('#all')!.textContent).toBe('blocked');
+    expect(container.querySelector('#any')!.textContent).toBe('granted');
+    expect(container.querySelector('#none')!.textContent).toBe('blocked');
+  });
+
+  it('renders pending while stored consent loads, then the outcome', async () => {
+    const storage = new MemoryStorageAdapter();
+    await createManager({ storage }).acceptAll();
+    const manager = createManager({ storage });
+
+    container = document.body.appendChild(document.createElement('div'));
+    root = createRoot(container);
+    act(() => {
+      root!.render(<Gate category="analytics" manager={manager} pending={<span>loading</span>} />);
+    });
+    expect(container.textContent).toBe('loading');
+
+    await act(async () => {
+      await manager.getConsent();
+    });
+    expect(container.textContent).toBe('granted');
+  });
+
+  it('falls back to the fallback while loading when no pending is given', () => {
+    const html = renderToString(<Gate category="analytics" manager={createManager()} />);
+    expect(html).toBe('<span>blocked</span>');
+  });
+
+  it('shows the children on the server when the initial state grants the category', () => {
+    const timestamp = Date.now();
+    const manager = createManager({
+      initialState: { version: 1, essential: true, analytics: true, marketing: false, timestamp, expiresAt: timestamp + 60_000 },
+    });
+    expect(renderToString(<Gate category="analytics" manager={manager} />)).toBe('<span>granted</span>');
+    expect(renderToString(<Gate category="marketing" manager={manager} />)).toBe('<span>blocked</span>');
+  });
+
+  it('re-renders when consent changes through the manager', async () => {
+    const manager = createManager();
+    await render(<Gate category="marketing" manager={manager} />);
+    expect(container.textContent).toBe('blocked');
+
+    await act(async () => {
+      await manager.acceptAll();
+    });
+    expect(container.textContent).toBe('granted');
+
+    await act(async () => {
+      await manager.withdrawConsent();
+    });
+    expect(container.textContent).toBe('blocked');
+  });
+
+  it('throws outside a ConsentProvider without a manager', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderToString(<Gate category="analytics" />)).toThrow(
+      'ConsentGate must be used within a ConsentProvider or be given a manager'
+    );
+  });
+});
+
+describe('useHasConsent', () => {
+  it('matches all or any of the categories and follows changes', async () => {
+    const manager = createManager();
+    await manager.getConsent();
+
+    await render(
+      <ConsentProvider manager={manager}>
+        <div id="all"><HasConsent category={['analytics', 'marketing']} /></div>
+        <div id="any"><HasConsent category={['analytics', 'marketing']} match="any" /></div>
+      </ConsentProvider>
+    );
+    expect(container.querySelector('#all')!.textContent).toBe('false');
+    expect(container.querySelector('#any')!.textContent).toBe('false');
+
+    await act(async () => {
+      await manager.setPreferences({ analytics: true, marketing: false });
+    });
+    expect(container.querySelector('#all')!.textContent).toBe('false');
+    expect(container.querySelector('#any')!.textContent).toBe('true');
+
+    await act(async () => {
+      await manager.acceptAll();
+    });
+    expect(container.querySelector('#all')!.textContent).toBe('true');
+  });
+
+  it('returns false while stored consent loads', async () => {
+    const storage = new MemoryStorageAdapter();
+    await createManager({ storage }).acceptAll();
+    const manager = createManager({ storage });
+
+    container = document.body.appendChild(document.createElement('div'));
+    root = createRoot(container);
+    act(() => {
+      root!.render(
+        <ConsentProvider manager={manager}>
+          <HasConsent category="analytics" />
+        </ConsentProvider>
+      );
+    });
+    expect(container.textContent).toBe('false');
+
+    await act(async () => {
+      await manager.getConsent();
+    });
+    expect(container.textContent).toBe('true');
+  });
+});
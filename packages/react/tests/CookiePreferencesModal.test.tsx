@@ -0,0 +1,195 @@
+// @vitest-environment happy-dom
+import React, { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ConsentManager, MemoryStorageAdapter, type ConsentManagerConfig } from '@kev1nramos/cookie-consent-core';
+import { CookiePreferencesModal } from '../src';
+import type { CookiePreferencesModalProps } from '../src/types';
+
+let root: Root | null = null;
+let container: HTMLElement;
+
+beforeAll(() => {
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+  document.body.innerHTML = '';
+  vi.restoreAllMocks();
+});
+
+function createManager(config: ConsentManagerConfig = {}): ConsentManager {
+  return new ConsentManager({ storage: new MemoryStorageAdapter(), enableIntegrity: false, sync: false, ...config });
+}
+
+async function render(props: Partial<CookiePreferencesModalProps> & { manager: ConsentManager }): Promise<void> {
+  await props.manager.getConsent();
+  container = document.body.appendChild(document.createElement('div'));
+  root = createRoot(container);
+  await act(async () => {
+    root!.render(<CookiePreferencesModal isOpen onClose={() => {}} {...props} />);
+  });
+}
+
+function switches(): Record<string, boolean> {
+  const result: Record<string, boolean> = {};
+  for (const toggle of document.querySelectorAll<HTMLButtonElement>('[role="switch"]')) {
+    result[document.getElementById(toggle.getAttribute('aria-labelledby')!)!.textContent!] =
+      toggle.getAttribute('aria-checked') === 'true';
+  }
+  return result;
+}
+
+function button(text: string): HTMLButtonElement {
+  const match = Array.from(document.querySelectorAll('button')).find((element) => element.textContent === text);
+  if (!match) {
+    throw new Error(`No button "${text}"`);
+  }
+  return match;
+}
+
+async function click(element: HTMLElement): Promise<void> {
+  await act(async () => {
+    element.click();
+  });
+}
+
+function pressKey(key: string, shiftKey = false): void {
+  act(() => {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key, shiftKey, bubbles: true }));
+  });
+}
+
+describe('CookiePreferencesModal', () => {
+  it('renders nothing while closed', async () => {
+    await render({ manager: createManager(), isOpen: false });
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('shows a toggle per revocable category and marks required ones always active', async () => {
+    const manager = createManager({
+      categories: {
+        security: { label: 'Security', description: 'Fraud prevention', required: true },
+        personalization: { label: 'Personalization', description: 'Remembered choices' },
+      },
+    });
+    await render({ manager });
+
+    expect(switches()).toEqual({ Analytics: false, Marketing: false, Personalization: false });
+    const alwaysActive = Array.from(document.querySelectorAll('li')).filter((item) =>
+      item.textContent!.includes('Always active')
+    );
+    expect(alwaysActive.map((item) => item.querySelector('span')!.textContent)).toEqual(['Essential', 'Security']);
+  });
+
+  it('shows categories the profile does not let the user change without a toggle', async () => {
+    const manager = createManager({
+      profiles: { strict: { model: 'opt-in', regions: ['XX'], revocable: ['analytics'], defaults: { marketing: true } } },
+      region: 'XX',
+    });
+    await render({ manager });
+
+    expect(switches()).toEqual({ Analytics: false });
+    const marketing = Array.from(document.querySelectorAll('li')).find((item) => item.textContent!.startsWith('Marketing'))!;
+    expect(marketing.textContent).toContain('Always active');
+  });
+
+  it('starts from the stored choice and saves the toggled preferences', async () => {
+    const manager = createManager();
+    await manager.setPreferences({ analytics: true, marketing: false });
+    const onSave = vi.fn();
+    const onClose = vi.fn();
+    await render({ manager, onSave, onClose });
+    expect(switches()).toEqual({ Analytics: true, Marketing: false });
+
+    await click(document.querySelector<HTMLButtonElement>('[aria-labelledby="cookie-category-marketing"]')!);
+    await click(document.querySelector<HTMLButtonElement>('[aria-labelledby="cookie-category-analytics"]')!);
+    expect(switches()).toEqual({ Analytics: false, Marketing: true });
+
+    await click(button('Save choices'));
+    expect(manager.getConsentSync()).toMatchObject({ essential: true, analytics: false, marketing: true });
+    expect(onSave).toHaveBeenCalledWith(manager.getConsentSync());
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts or rejects everything', async () => {
+    const manager = createManager();
+    const onAcceptAll = vi.fn();
+    const onRejectAll = vi.fn();
+    const onClose = vi.fn();
+    await render({ manager, onAcceptAll, onRejectAll, onClose });
+
+    await click(button('Accept all'));
+    expect(manager.getConsentSync()).toMatchObject({ analytics: true, marketing: true });
+    expect(onAcceptAll).toHaveBeenCalledTimes(1);
+
+    await click(button('Reject all'));
+    expect(manager.getConsentSync()).toMatchObject({ analytics: false, marketing: false });
+    expect(onRejectAll).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledTimes(2);
+  });
+
+  it('stays open and logs when saving fails', async () => {
+    const manager = createManager();
+    const error = new Error('storage full');
+    vi.spyOn(manager, 'setPreferences').mockRejectedValue(error);
+    vi.spyOn(manager, 'acceptAll').mockRejectedValue(error);
+    vi.spyOn(manager, 'rejectAll').mockRejectedValue(error);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onSave = vi.fn();
+    const onClose = vi.fn();
+    await render({ manager, onSave, onClose });
+
+    await click(button('Save choices'));
+    await click(button('Accept all'));
+    await click(button('Reject all'));
+
+    expect(console.error).toHaveBeenCalledTimes(3);
+    expect(console.error).toHaveBeenCalledWith('[CookiePreferencesModal] Error saving consent:', error);
+    expect(onSave).not.toHaveBeenCalled();
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('keeps focus inside the dialog and returns it on close', async () => {
+    const opener = document.body.appendChild(document.createElement('button'));
+    opener.focus();
+    const manager = createManager();
+    await render({ manager });
+
+    const dialog = document.querySelector<HTMLElement>('[role="dialog"]')!;
+    expect(document.activeElement).toBe(dialog);
+    const focusable = Array.from(dialog.querySelectorAll<HTMLElement>('button'));
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    pressKey('Tab', true);
+    expect(document.activeElement).toBe(last);
+    pressKey('Tab');
+    expect(document.activeElement).toBe(first);
+    pressKey('Tab', true);
+    expect(document.activeElement).toBe(last);
+
+    await act(async () => {
+      root!.render(<CookiePreferencesModal isOpen={false} onClose={() => {}} manager={manager} />);
+    });
+    expect(document.activeElement).toBe(opener);
+  });
+
+  it('closes on Escape', async () => {
+    const onClose = vi.fn();
+    await render({ manager: createManager(), onClose });
+    pressKey('Escape');
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('records the locale shown with the decision', async () => {
+    const manager = createManager();
+    await render({ manager, locale: 'de-DE' });
+
+    expect(button('Auswahl speichern')).toBeTruthy();
+    await click(button('Auswahl speichern'));
+    expect(manager.getConsentSync()?.locale).toBe('de-DE');
+  });
+});
@@ -0,0 +1,146 @@
+// @vitest-environment happy-dom
+import React, { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ConsentManager, MemoryStorageAdapter } from '@kev1nramos/cookie-consent-core';
+import { ConsentProvider, CookieConsentBanner, getLocaleFallbackChain, resolveLocale } from '../src';
+import type { CookieConsentBannerProps } from '../src/types';
+import { getTranslation } from '../src/utils/locale';
+
+let root: Root | null = null;
+
+beforeAll(() => {
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+  document.body.innerHTML = '';
+  document.documentElement.lang = '';
+  vi.restoreAllMocks();
+});
+
+const locales: NonNullable<CookieConsentBannerProps['locales']> = {
+  en: { title: 'Cookies', description: 'We use cookies.' },
+  pt: { title: 'Cookies (pt)', description: 'Usamos cookies.' },
+  de: { title: 'Cookies (de)', description: 'Wir verwenden Cookies.' },
+};
+
+function createManager(storage = new MemoryStorageAdapter()): ConsentManager {
+  return new ConsentManager({ storage, enableIntegrity: false, sync: false });
+}
+
+async function renderBanner(props: Partial<CookieConsentBannerProps>, manager = createManager()): Promise<void> {
+  root = createRoot(document.body.appendChild(document.createElement('div')));
+  await act(async () => {
+    root!.render(
+      <ConsentProvider manager={manager}>
+        <CookieConsentBanner behavior={{ showDelay: 0, animationDuration: 0 }} {...props} />
+      </ConsentProvider>
+    );
+  });
+  // The banner appears after its show delay and a short animation timer
+  await act(() => new Promise((resolve) => setTimeout(resolve, 20)));
+  expect(document.querySelector('h2')).not.toBeNull();
+}
+
+function button(text: string): HTMLButtonElement {
+  const match = Array.from(document.querySelectorAll('button')).find((element) => element.textContent === text);
+  if (!match) {
+    throw new Error(`No button "${text}"`);
+  }
+  return match;
+}
+
+describe('getLocaleFallbackChain', () => {
+  it('lists the tag and each shorter prefix, accepting underscores', () => {
+    expect(getLocaleFallbackChain('zh-Hant-TW')).toEqual(['zh-Hant-TW', 'zh-Hant', 'zh']);
+    expect(getLocaleFallbackChain('pt_BR')).toEqual(['pt-BR', 'pt']);
+  });
+});
+
+describe('resolveLocale', () => {
+  it('falls back from a region to its language, then to the default locale', () => {
+    expect(resolveLocale(['en', 'pt', 'pt-BR'], ['pt-BR'])).toBe('pt-BR');
+    expect(resolveLocale(['en', 'pt'], ['pt-BR'])).toBe('pt');
+    expect(resolveLocale(['en', 'de'], ['pt-BR'])).toBe('en');
+  });
+
+  it('tries each requested locale before the default one', () => {
+    expect(resolveLocale(['en', 'de', 'fr'], ['pt-BR', 'fr-CA', 'de'])).toBe('fr');
+    expect(resolveLocale(['en', 'de'], ['ja'], 'de')).toBe('de');
+  });
+
+  it('matches case-insensitively and returns the available spelling', () => {
+    expect(resolveLocale(['en', 'pt-BR'], ['PT-br'])).toBe('pt-BR');
+  });
+
+  it('returns the first available locale when nothing matches', () => {
+    expect(resolveLocale(['fr', 'de'], ['ja'])).toBe('fr');
+    expect(resolveLocale([], ['ja'])).toBe('en');
+  });
+});
+
+describe('getTranslation', () => {
+  it('follows the fallback chain down to English', () => {
+    expect(getTranslation('pt-PT').banner.acceptButton).toBe('Aceitar todos');
+    expect(getTranslation('de-AT').banner.acceptButton).toBe('Alle akzeptieren');
+    expect(getTranslation('ja').banner.acceptButton).toBe('Accept All');
+    expect(getTranslation(null).banner.acceptButton).toBe('Accept All');
+  });
+});
+
+describe('CookieConsentBanner locale selection', () => {
+  it('prefers the locale prop, then <html lang>, then the browser languages', async () => {
+    document.documentElement.lang = 'pt-BR';
+    vi.spyOn(navigator, 'languages', 'get').mockReturnValue(['de-DE']);
+
+    await renderBanner({ locales, locale: 'de' });
+    expect(document.querySelector('h2')!.textContent).toBe('Cookies (de)');
+    act(() => root!.unmount());
+
+    await renderBanner({ locales });
+    expect(document.querySelector('h2')!.textContent).toBe('Cookies (pt)');
+    expect(button('Aceitar todos')).toBeDefined();
+    act(() => root!.unmount());
+
+    document.documentElement.lang = '';
+    await renderBanner({ locales });
+    expect(document.querySelector('h2')!.textContent).toBe('Cookies (de)');
+  });
+
+  it('records the shown locale with the decision and restores it with the stored record', async () => {
+    const storage = new MemoryStorageAdapter();
+    const manager = createManager(storage);
+    await manager.getConsent();
+    document.documentElement.lang = 'pt-BR';
+
+    await renderBanner({ locales }, manager);
+    expect(manager.getLocale()).toBe('pt');
+    await act(async () => {
+      button('Aceitar todos').click();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    });
+
+    expect(manager.getConsentSync()?.locale).toBe('pt');
+    manager.destroy();
+
+    const reloaded = createManager(storage);
+    expect(await reloaded.getConsent()).toMatchObject({ analytics: true, locale: 'pt' });
+    // A new manager only records a locale once one is set again
+    expect(reloaded.getLocale()).toBeNull();
+    reloaded.destroy();
+  });
+
+  it('records the locale set on the manager and stops when it is cleared', async () => {
+    const manager = createManager();
+    manager.setLocale('fr-CA');
+    expect((await manager.acceptAll()).locale).toBe('fr-CA');
+
+    manager.setLocale(null);
+    expect(await manager.rejectAll()).not.toHaveProperty('locale');
+    expect(() => manager.setLocale('not a locale')).toThrow('Invalid locale');
+    manager.destroy();
+  });
+});
@@ -0,0 +1,197 @@
+// @vitest-environment happy-dom
+import React, { act, StrictMode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ConsentManager,
+  MemoryStorageAdapter,
+  type ConsentManagerConfig,
+  type ConsentState,
+} from '@kev1nramos/cookie-consent-core';
+import { ConsentProvider, useConsentManager, type UseConsentManagerReturn } from '../src';
+import { getConsentStore } from '../src/utils/consentStore';
+
+let root: Root | null = null;
+
+beforeAll(() => {
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+  document.body.innerHTML = '';
+  vi.restoreAllMocks();
+});
+
+let config: ConsentManagerConfig;
+
+beforeEach(() => {
+  config = { storage: new MemoryStorageAdapter(), enableIntegrity: false, sync: false };
+});
+
+function createState(): ConsentState {
+  const timestamp = Date.now();
+  return { version: 1, essential: true, analytics: true, marketing: false, timestamp, expiresAt: timestamp + 60_000 };
+}
+
+// Collects what each rendered consumer saw, by name
+function Consumer({
+  name,
+  results,
+  config: ownConfig,
+}: {
+  name: string;
+  results: Record<string, UseConsentManagerReturn>;
+  config?: ConsentManagerConfig;
+}) {
+  results[name] = useConsentManager(ownConfig);
+  return <span data-name={name}>{String(results[name].consent?.analytics ?? 'none')}</span>;
+}
+
+async function render(element: React.ReactElement): Promise<void> {
+  root = createRoot(document.body.appendChild(document.createElement('div')));
+  await act(async () => {
+    root!.render(element);
+  });
+}
+
+// Owned managers are destroyed on a timer, so StrictMode remounts can keep them
+async function flushTimers(): Promise<void> {
+  await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+}
+
+describe('useConsentManager', () => {
+  it('shares one manager between every consumer of a provider', async () => {
+    const results: Record<string, UseConsentManagerReturn> = {};
+    await render(
+      <ConsentProvider config={config}>
+        <Consumer name="banner" results={results} />
+        <Consumer name="footer" results={results} />
+      </ConsentProvider>
+    );
+
+    expect(results.banner.manager).toBeInstanceOf(ConsentManager);
+    expect(results.footer.manager).toBe(results.banner.manager);
+
+    const manager = results.banner.manager;
+    await act(async () => {
+      await results.banner.acceptAll();
+    });
+    expect(results.footer.consent?.analytics).toBe(true);
+    expect(document.querySelector('[data-name="footer"]')!.textContent).toBe('true');
+
+    // Re-rendering the provider keeps its manager
+    await act(async () => {
+      root!.render(
+        <ConsentProvider config={{ ...config, debug: true }}>
+          <Consumer name="banner" results={results} />
+        </ConsentProvider>
+      );
+    });
+    expect(results.banner.manager).toBe(manager);
+  });
+
+  it('creates its own manager outside a provider and only warns with debug', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const results: Record<string, UseConsentManagerReturn> = {};
+    await render(<Consumer name="quiet" results={results} config={config} />);
+    expect(results.quiet.manager).toBeInstanceOf(ConsentManager);
+    expect(warn).not.toHaveBeenCalled();
+
+    await act(async () => {
+      root!.render(
+        <>
+          <Consumer name="quiet" results={results} config={config} />
+          <Consumer name="debug" results={results} config={{ ...config, debug: true }} />
+        </>
+      );
+    });
+    expect(results.debug.manager).not.toBe(results.quiet.manager);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('[useConsentManager]');
+
+    // Destroy the debug manager while its logging is still silenced
+    act(() => root!.unmount());
+    root = null;
+    await flushTimers();
+  });
+
+  it('renders the server snapshot until stored consent is read', async () => {
+    const manager = new ConsentManager(config);
+    const results: Record<string, UseConsentManagerReturn> = {};
+
+    renderToString(
+      <ConsentProvider manager={manager}>
+        <Consumer name="server" results={results} />
+      </ConsentProvider>
+    );
+    expect(results.server).toMatchObject({ consent: null, isLoading: true, needsPrompt: false, hasConsent: false });
+    expect(getConsentStore(manager).getServerSnapshot()).toEqual({ consent: null, isLoading: true, needsPrompt: false });
+    manager.destroy();
+  });
+
+  it('renders the initial state as the server snapshot', () => {
+    const initialState = createState();
+    const results: Record<string, UseConsentManagerReturn> = {};
+
+    const html = renderToString(
+      <ConsentProvider config={config} initialState={initialState}>
+        <Consumer name="server" results={results} />
+      </ConsentProvider>
+    );
+    expect(html).toContain('true');
+    expect(results.server).toMatchObject({ consent: initialState, isLoading: false, needsPrompt: false });
+    results.server.manager.destroy();
+  });
+
+  it('keeps its own manager through StrictMode remounts and destroys it on unmount', async () => {
+    const destroy = vi.spyOn(ConsentManager.prototype, 'destroy');
+    const results: Record<string, UseConsentManagerReturn> = {};
+    await render(
+      <StrictMode>
+        <Consumer name="owned" results={results} config={config} />
+      </StrictMode>
+    );
+    await flushTimers();
+
+    const manager = results.owned.manager;
+    expect(destroy.mock.contexts).not.toContain(manager);
+    await act(async () => {
+      await results.owned.acceptAll();
+    });
+    expect(document.querySelector('[data-name="owned"]')!.textContent).toBe('true');
+
+    act(() => root!.unmount());
+    root = null;
+    await flushTimers();
+    expect(destroy.mock.contexts).toContain(manager);
+  });
+
+  it('never destroys a manager it was given', async () => {
+    const destroy = vi.spyOn(ConsentManager.prototype, 'destroy');
+    await render(
+      <StrictMode>
+        <ConsentProvider config={config}>
+          <Consumer name="shared" results={{}} />
+        </ConsentProvider>
+      </StrictMode>
+    );
+    const manager = new ConsentManager(config);
+    await act(async () => {
+      root!.render(
+        <ConsentProvider manager={manager}>
+          <Consumer name="shared" results={{}} />
+        </ConsentProvider>
+      );
+    });
+
+    act(() => root!.unmount());
+    root = null;
+    await flushTimers();
+    expect(destroy.mock.contexts).not.toContain(manager);
+    manager.destroy();
+  });
+});
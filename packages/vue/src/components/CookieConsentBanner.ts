@@ -0,0 +1,348 @@
+/**
+ * Cookie Consent Banner Component
+ *
+ * Fully themeable, accessible, GDPR-compliant cookie consent banner
+ */
+
+import {
+  defineComponent,
+  h,
+  onBeforeUnmount,
+  onMounted,
+  ref,
+  watch,
+  type CSSProperties,
+  type PropType,
+} from 'vue';
+import {
+  validateLocale,
+  type ConsentManager,
+  type ConsentManagerConfig,
+  type ConsentState,
+} from '@kev1nramos/cookie-consent-core';
+import {
+  defaultLabels,
+  type CookieConsentAccessibility,
+  type CookieConsentBehavior,
+  type CookieConsentContent,
+  type CookieConsentLinks,
+  type CookieConsentTheme,
+  type CookiePreferencesContent,
+} from '../types';
+import { useConsent, useResolvedManager } from '../composables/useConsent';
+import { useIsMobile } from '../composables/useMediaQuery';
+import { mergeTheme } from '../utils/theme';
+import { CookiePreferencesModal } from './CookiePreferencesModal';
+
+export const CookieConsentBanner = defineComponent({
+  name: 'CookieConsentBanner',
+  props: {
+    theme: Object as PropType<Partial<CookieConsentTheme>>,
+    content: { type: Object as PropType<CookieConsentContent>, default: () => ({ title: '', description: '' }) },
+    locale: String,
+    links: { type: Object as PropType<CookieConsentLinks>, default: () => ({}) },
+    behavior: { type: Object as PropType<CookieConsentBehavior>, default: () => ({}) },
+    accessibility: { type: Object as PropType<CookieConsentAccessibility>, default: () => ({}) },
+    config: Object as PropType<ConsentManagerConfig>,
+    manager: Object as PropType<ConsentManager>,
+    initialState: { type: Object as PropType<ConsentState | null>, default: undefined },
+    preferences: Object as PropType<CookiePreferencesContent>,
+  },
+  emits: {
+    acceptAll: () => true,
+    rejectAll: () => true,
+    savePreferences: (_state: ConsentState) => true,
+  },
+  setup(props, { emit, slots }) {
+    const showBanner = ref(false);
+    const isVisible = ref(false);
+    const showPreferences = ref(false);
+    const manager = useResolvedManager(
+      props.initialState !== undefined ? { ...props.config, initialState: props.initialState } : props.config,
+      props.manager
+    );
+    const { needsPrompt, acceptAll, rejectAll } = useConsent(manager);
+    const isMobile = useIsMobile(640);
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const later = (callback: () => void, delay: number) => {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        callback();
+      }, delay);
+      timers.add(timer);
+    };
+
+    const clearTimers = () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+
+    // Timers and the document only exist in the browser
+    onMounted(() => {
+      // Record which text the user saw with their decision
+      watch(
+        () => props.locale,
+        (requested) => {
+          const locale = requested ?? (document.documentElement.lang || 'en');
+          manager.setLocale(validateLocale(locale).success ? locale : null);
+        },
+        { immediate: true }
+      );
+
+      watch(
+        [needsPrompt, () => props.behavior.showDelay ?? 1000],
+        ([prompt, showDelay]) => {
+          clearTimers();
+          if (prompt) {
+            later(() => {
+              showBanner.value = true;
+              // Trigger animation
+              later(() => (isVisible.value = true), 10);
+            }, showDelay);
+          }
+        },
+        { immediate: true }
+      );
+    });
+
+    onBeforeUnmount(clearTimers);
+
+    const closeBanner = () => {
+      isVisible.value = false;
+      later(() => (showBanner.value = false), props.behavior.animationDuration ?? 300);
+    };
+
+    const handleAcceptAll = async () => {
+      await acceptAll();
+      emit('acceptAll');
+      closeBanner();
+    };
+
+    const handleRejectAll = async () => {
+      await rejectAll();
+      emit('rejectAll');
+      closeBanner();
+    };
+
+    return () => {
+      const theme = mergeTheme(props.theme);
+      const { content, links } = props;
+      const labels = defaultLabels.banner;
+
+      // Layout follows the regulation profile selected for the visitor's region
+      const variant = manager.getRegulationProfile().banner;
+
+      // Merge behavior defaults
+      const {
+        position = 'bottom',
+        backdropBlur = true,
+        closeOnBackdropClick = false,
+        animationDuration = 300,
+        showCustomizeButton = true,
+      } = props.behavior;
+
+      // Merge accessibility defaults
+      const {
+        bannerLabel = defaultLabels.accessibility.bannerLabel,
+        acceptButtonLabel,
+        rejectButtonLabel,
+      } = props.accessibility;
+
+      const preferencesModal = h(CookiePreferencesModal, {
+        isOpen: showPreferences.value,
+        onClose: () => (showPreferences.value = false),
+        theme: props.theme,
+        content: props.preferences,
+        accessibility: props.accessibility,
+        manager,
+        onSave: (state: ConsentState) => {
+          emit('savePreferences', state);
+          closeBanner();
+        },
+        onAcceptAll: () => {
+          emit('acceptAll');
+          closeBanner();
+        },
+        onRejectAll: () => {
+          emit('rejectAll');
+          closeBanner();
+        },
+      });
+
+      if (!showBanner.value) {
+        return preferencesModal;
+      }
+
+      const buttonStyle: CSSProperties = {
+        padding: '0.625rem 1.25rem',
+        borderRadius: theme.borderRadius,
+        fontSize: '0.875rem',
+        fontWeight: 'bold',
+        transition: 'all 150ms',
+        cursor: 'pointer',
+      };
+
+      const bannerPositionStyle: CSSProperties =
+        position === 'center'
+          ? {
+              top: '50%',
+              left: '50%',
+              right: 'auto',
+              transform: isVisible.value ? 'translate(-50%, -50%)' : 'translate(-50%, -50%) scale(0.95)',
+              maxWidth: '600px',
+              borderRadius: theme.borderRadius,
+              margin: '0 1rem',
+            }
+          : position === 'top'
+            ? { top: 0, transform: isVisible.value ? 'translateY(0)' : 'translateY(-100%)' }
+            : { bottom: 0, transform: isVisible.value ? 'translateY(0)' : 'translateY(100%)' };
+
+      const actions = [
+        showCustomizeButton && variant !== 'notice'
+          ? h(
+              'button',
+              {
+                type: 'button',
+                onClick: () => (showPreferences.value = true),
+                style: {
+                  ...buttonStyle,
+                  backgroundColor: 'transparent',
+                  color: theme.colors.secondaryButtonText,
+                  border: '1px solid rgba(255, 255, 255, 0.3)',
+                },
+                'aria-haspopup': 'dialog',
+              },
+              content.customizeButton || labels.customizeButton
+            )
+          : null,
+        variant !== 'notice'
+          ? h(
+              'button',
+              {
+                type: 'button',
+                onClick: handleRejectAll,
+                style: {
+                  ...buttonStyle,
+                  backgroundColor: theme.colors.secondaryButton,
+                  color: theme.colors.secondaryButtonText,
+                  border: '1px solid rgba(255, 255, 255, 0.3)',
+                },
+                'aria-label': rejectButtonLabel,
+              },
+              variant === 'opt-out'
+                ? content.optOutButton || labels.optOutButton
+                : content.rejectButton || labels.rejectButton
+            )
+          : null,
+        h(
+          'button',
+          {
+            type: 'button',
+            onClick: handleAcceptAll,
+            style: { ...buttonStyle, backgroundColor: theme.colors.cta, color: theme.colors.ctaText, border: 'none' },
+            'aria-label': acceptButtonLabel,
+          },
+          variant === 'opt-in'
+            ? content.acceptButton || labels.acceptButton
+            : content.acknowledgeButton || labels.acknowledgeButton
+        ),
+      ];
+
+      return [
+        // Backdrop
+        h('div', {
+          style: {
+            position: 'fixed',
+            inset: 0,
+            backgroundColor: theme.colors.backdrop,
+            backdropFilter: backdropBlur ? 'blur(4px)' : 'none',
+            WebkitBackdropFilter: backdropBlur ? 'blur(4px)' : 'none',
+            zIndex: 9998,
+            transition: `opacity ${animationDuration}ms ease-out`,
+            opacity: isVisible.value ? 1 : 0,
+          },
+          onClick: () => closeOnBackdropClick && closeBanner(),
+          'aria-hidden': 'true',
+        }),
+
+        // Banner
+        h(
+          'div',
+          {
+            style: {
+              position: 'fixed',
+              left: 0,
+              right: 0,
+              zIndex: 9999,
+              backgroundColor: theme.colors.banner,
+              color: theme.colors.text,
+              fontFamily: theme.fonts.family,
+              transition: `all ${animationDuration}ms ease-out`,
+              ...bannerPositionStyle,
+            },
+            role: 'dialog',
+            'aria-live': 'polite',
+            'aria-label': bannerLabel,
+          },
+          h(
+            'div',
+            { style: { width: '100%', padding: theme.spacing.padding, maxWidth: '1280px', margin: '0 auto' } },
+            h('div', { style: { display: 'flex', flexDirection: 'column', gap: theme.spacing.gap } }, [
+              // Content
+              h('div', { style: { flex: 1, minWidth: 0 } }, [
+                h(
+                  'h2',
+                  { style: { fontSize: '1.125rem', fontWeight: 'bold', marginBottom: '0.5rem', color: theme.colors.text } },
+                  content.title
+                ),
+                h('div', { style: { fontSize: '0.875rem', lineHeight: 1.6, color: theme.colors.textSecondary } }, [
+                  slots.description ? slots.description() : content.description,
+                  links.cookiePolicy
+                    ? [
+                        ' ',
+                        h(
+                          'a',
+                          { href: links.cookiePolicy, style: { color: theme.colors.links, textDecoration: 'underline' } },
+                          content.learnMoreText || labels.learnMoreText
+                        ),
+                      ]
+                    : null,
+                  links.cookieSettings
+                    ? [
+                        ' · ',
+                        h(
+                          'a',
+                          {
+                            href: links.cookieSettings,
+                            style: { color: theme.colors.textSecondary, textDecoration: 'underline', fontSize: '0.875rem' },
+                          },
+                          content.managePreferencesText || labels.managePreferencesText
+                        ),
+                      ]
+                    : null,
+                ]),
+              ]),
+
+              // Actions
+              h(
+                'div',
+                {
+                  style: {
+                    display: 'flex',
+                    flexDirection: isMobile.value ? 'column' : 'row',
+                    gap: '0.75rem',
+                    flexShrink: 0,
+                  },
+                },
+                actions
+              ),
+            ])
+          )
+        ),
+
+        preferencesModal,
+      ];
+    };
+  },
+});
@@ -0,0 +1,365 @@
+/**
+ * Cookie Preferences Modal Component
+ *
+ * Preferences center with per-category toggles for essential, analytics,
+ * marketing and custom categories
+ */
+
+import {
+  defineComponent,
+  h,
+  nextTick,
+  onBeforeUnmount,
+  ref,
+  watch,
+  type CSSProperties,
+  type PropType,
+} from 'vue';
+import {
+  formatCategoryName,
+  type ConsentManager,
+  type ConsentManagerConfig,
+  type ConsentPreferences,
+  type ConsentState,
+} from '@kev1nramos/cookie-consent-core';
+import {
+  defaultLabels,
+  type CookieConsentAccessibility,
+  type CookieConsentTheme,
+  type CookiePreferencesContent,
+} from '../types';
+import { useConsent, useResolvedManager } from '../composables/useConsent';
+import { useIsMobile } from '../composables/useMediaQuery';
+import { mergeTheme } from '../utils/theme';
+
+export const CookiePreferencesModal = defineComponent({
+  name: 'CookiePreferencesModal',
+  props: {
+    isOpen: { type: Boolean, required: true },
+    theme: Object as PropType<Partial<CookieConsentTheme>>,
+    content: { type: Object as PropType<CookiePreferencesContent>, default: () => ({}) },
+    accessibility: { type: Object as PropType<CookieConsentAccessibility>, default: () => ({}) },
+    config: Object as PropType<ConsentManagerConfig>,
+    manager: Object as PropType<ConsentManager>,
+  },
+  emits: {
+    close: () => true,
+    save: (_state: ConsentState) => true,
+    acceptAll: () => true,
+    rejectAll: () => true,
+  },
+  setup(props, { emit, slots }) {
+    const manager = useResolvedManager(props.config, props.manager);
+    const { consent } = useConsent(manager);
+    const choices = ref<Record<string, boolean>>({});
+    const dialogRef = ref<HTMLElement | null>(null);
+    const isMobile = useIsMobile(640);
+
+    // Only categories the active regulation profile lets the user change get a toggle
+    const optionalCategories = () => manager.getCategories().filter((category) => manager.isCategoryRevocable(category));
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        emit('close');
+      }
+    };
+
+    // Reset toggles to the stored choice (or the profile's defaults) each time the modal opens,
+    // then focus the dialog and close on Escape
+    watch(
+      () => props.isOpen,
+      (isOpen) => {
+        if (typeof document === 'undefined') {
+          return;
+        }
+        document.removeEventListener('keydown', handleKeyDown);
+        if (!isOpen) {
+          return;
+        }
+        const defaults = manager.getDefaultPreferences();
+        const initial: Record<string, boolean> = {};
+        for (const category of optionalCategories()) {
+          initial[category] = consent.value ? consent.value[category] === true : defaults[category] === true;
+        }
+        choices.value = initial;
+        document.addEventListener('keydown', handleKeyDown);
+        nextTick(() => dialogRef.value?.focus());
+      },
+      { immediate: true }
+    );
+
+    onBeforeUnmount(() => document.removeEventListener('keydown', handleKeyDown));
+
+    const handleSave = async () => {
+      const preferences: ConsentPreferences = {
+        analytics: choices.value.analytics ?? false,
+        marketing: choices.value.marketing ?? false,
+      };
+      for (const category of optionalCategories()) {
+        preferences[category] = choices.value[category] ?? false;
+      }
+      const state = await manager.setPreferences(preferences);
+      emit('save', state);
+      emit('close');
+    };
+
+    const handleAcceptAll = async () => {
+      await manager.acceptAll();
+      emit('acceptAll');
+      emit('close');
+    };
+
+    const handleRejectAll = async () => {
+      await manager.rejectAll();
+      emit('rejectAll');
+      emit('close');
+    };
+
+    return () => {
+      if (!props.isOpen) {
+        return null;
+      }
+
+      const theme = mergeTheme(props.theme);
+      const defaults = manager.getDefaultPreferences();
+      const labels = defaultLabels.preferences;
+      const {
+        title = labels.title,
+        description,
+        saveButton = labels.saveButton,
+        acceptAllButton = labels.acceptAllButton,
+        rejectAllButton = labels.rejectAllButton,
+        alwaysActiveLabel = labels.alwaysActiveLabel,
+        closeButtonLabel = labels.closeButtonLabel,
+        cookiesLabel = labels.cookiesLabel,
+      } = props.content;
+      const { preferencesLabel = defaultLabels.accessibility.preferencesLabel } = props.accessibility;
+
+      const buttonStyle: CSSProperties = {
+        padding: '0.625rem 1.25rem',
+        borderRadius: theme.borderRadius,
+        fontSize: '0.875rem',
+        fontWeight: 'bold',
+        cursor: 'pointer',
+      };
+
+      const secondaryButtonStyle: CSSProperties = {
+        ...buttonStyle,
+        backgroundColor: theme.colors.secondaryButton,
+        color: theme.colors.secondaryButtonText,
+        border: '1px solid rgba(255, 255, 255, 0.3)',
+      };
+
+      const categoryItems = manager.getCategories().map((category) => {
+        // Content overrides take precedence over the manager's category registry
+        const categoryContent = props.content.categories?.[category] ?? {};
+        const definition = manager.getCategoryDefinition(category);
+        const label = categoryContent.label ?? definition?.label ?? formatCategoryName(category);
+        const categoryDescription = categoryContent.description ?? definition?.description;
+        const cookies = definition?.cookies ?? [];
+        const isRevocable = manager.isCategoryRevocable(category);
+        const isAlwaysActive = manager.isCategoryRequired(category) || (!isRevocable && defaults[category] === true);
+        const checked = isAlwaysActive || choices.value[category] === true;
+        const labelId = `cookie-category-${category}`;
+
+        const control = isAlwaysActive
+          ? h('span', { style: { fontSize: '0.8125rem', color: theme.colors.textSecondary } }, alwaysActiveLabel)
+          : isRevocable
+            ? h(
+                'button',
+                {
+                  type: 'button',
+                  role: 'switch',
+                  'aria-checked': checked,
+                  'aria-labelledby': labelId,
+                  onClick: () => {
+                    choices.value = { ...choices.value, [category]: !checked };
+                  },
+                  style: {
+                    position: 'relative',
+                    width: '2.75rem',
+                    height: '1.5rem',
+                    flexShrink: 0,
+                    borderRadius: '9999px',
+                    border: 'none',
+                    cursor: 'pointer',
+                    backgroundColor: checked ? theme.colors.cta : theme.colors.secondaryButton,
+                    transition: 'background-color 150ms',
+                  },
+                },
+                h('span', {
+                  style: {
+                    position: 'absolute',
+                    top: '0.1875rem',
+                    left: checked ? '1.4375rem' : '0.1875rem',
+                    width: '1.125rem',
+                    height: '1.125rem',
+                    borderRadius: '9999px',
+                    backgroundColor: theme.colors.ctaText,
+                    transition: 'left 150ms',
+                  },
+                })
+              )
+            : null;
+
+        return h(
+          'li',
+          { key: category, style: { padding: '0.75rem 0', borderTop: '1px solid rgba(255, 255, 255, 0.2)' } },
+          [
+            h(
+              'div',
+              {
+                style: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: theme.spacing.gap },
+              },
+              [h('span', { id: labelId, style: { fontWeight: 'bold', fontSize: '0.9375rem' } }, label), control]
+            ),
+            categoryDescription
+              ? h(
+                  'div',
+                  {
+                    style: {
+                      fontSize: '0.8125rem',
+                      lineHeight: 1.5,
+                      color: theme.colors.textSecondary,
+                      marginTop: '0.25rem',
+                    },
+                  },
+                  categoryDescription
+                )
+              : null,
+            cookies.length > 0
+              ? h('details', { style: { fontSize: '0.8125rem', color: theme.colors.textSecondary, marginTop: '0.5rem' } }, [
+                  h('summary', { style: { cursor: 'pointer' } }, `${cookiesLabel} (${cookies.length})`),
+                  h(
+                    'ul',
+                    { style: { paddingLeft: '1rem', margin: '0.25rem 0 0' } },
+                    cookies.map((cookie) =>
+                      h('li', { key: cookie.name }, [
+                        h('code', cookie.name),
+                        ` · ${cookie.duration} · ${cookie.purpose}`,
+                      ])
+                    )
+                  ),
+                ])
+              : null,
+          ]
+        );
+      });
+
+      return [
+        // Backdrop
+        h('div', {
+          style: { position: 'fixed', inset: 0, backgroundColor: theme.colors.backdrop, zIndex: 10000 },
+          onClick: () => emit('close'),
+          'aria-hidden': 'true',
+        }),
+
+        // Modal
+        h(
+          'div',
+          {
+            ref: dialogRef,
+            tabindex: -1,
+            role: 'dialog',
+            'aria-modal': 'true',
+            'aria-label': preferencesLabel,
+            style: {
+              position: 'fixed',
+              top: '50%',
+              left: '50%',
+              transform: 'translate(-50%, -50%)',
+              width: isMobile.value ? 'calc(100% - 2rem)' : '100%',
+              maxWidth: '560px',
+              maxHeight: 'calc(100vh - 2rem)',
+              overflowY: 'auto',
+              zIndex: 10001,
+              backgroundColor: theme.colors.banner,
+              color: theme.colors.text,
+              fontFamily: theme.fonts.family,
+              borderRadius: theme.borderRadius,
+              padding: theme.spacing.padding,
+              outline: 'none',
+            },
+          },
+          [
+            h(
+              'div',
+              {
+                style: {
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'flex-start',
+                  gap: theme.spacing.gap,
+                },
+              },
+              [
+                h('h2', { style: { fontSize: '1.125rem', fontWeight: 'bold', margin: 0, color: theme.colors.text } }, title),
+                h(
+                  'button',
+                  {
+                    type: 'button',
+                    onClick: () => emit('close'),
+                    'aria-label': closeButtonLabel,
+                    style: {
+                      background: 'none',
+                      border: 'none',
+                      color: theme.colors.text,
+                      fontSize: '1.25rem',
+                      lineHeight: 1,
+                      cursor: 'pointer',
+                    },
+                  },
+                  '×'
+                ),
+              ]
+            ),
+
+            slots.description || description
+              ? h(
+                  'div',
+                  {
+                    style: {
+                      fontSize: '0.875rem',
+                      lineHeight: 1.6,
+                      color: theme.colors.textSecondary,
+                      marginTop: '0.5rem',
+                    },
+                  },
+                  slots.description ? slots.description() : description
+                )
+              : null,
+
+            // Categories
+            h('ul', { style: { listStyle: 'none', padding: 0, margin: `${theme.spacing.gap} 0` } }, categoryItems),
+
+            // Actions
+            h(
+              'div',
+              {
+                style: {
+                  display: 'flex',
+                  flexDirection: isMobile.value ? 'column' : 'row',
+                  justifyContent: 'flex-end',
+                  gap: '0.75rem',
+                },
+              },
+              [
+                h('button', { type: 'button', onClick: handleRejectAll, style: secondaryButtonStyle }, rejectAllButton),
+                h('button', { type: 'button', onClick: handleAcceptAll, style: secondaryButtonStyle }, acceptAllButton),
+                h(
+                  'button',
+                  {
+                    type: 'button',
+                    onClick: handleSave,
+                    style: { ...buttonStyle, backgroundColor: theme.colors.cta, color: theme.colors.ctaText, border: 'none' },
+                  },
+                  saveButton
+                ),
+              ]
+            ),
+          ]
+        ),
+      ];
+    };
+  },
+});
@@ -0,0 +1,121 @@
+/**
+ * Vue composables for cookie consent
+ */
+
+import { computed, getCurrentScope, inject, onScopeDispose, type ComputedRef, type Ref } from 'vue';
+import {
+  ConsentManager,
+  type ConsentManagerConfig,
+  type ConsentPreferences,
+  type ConsentState,
+} from '@kev1nramos/cookie-consent-core';
+import { ConsentManagerKey } from '../plugin';
+import { getConsentStore, matchesConsent } from '../utils/consentStore';
+
+export interface UseConsentReturn {
+  /** Current consent state */
+  consent: Readonly<Ref<ConsentState | null>>;
+  /** Whether user has made a consent decision */
+  hasConsent: ComputedRef<boolean>;
+  /** Loading state */
+  isLoading: Readonly<Ref<boolean>>;
+  /** Whether the banner should be shown (no decision, or undecided categories when re-prompting) */
+  needsPrompt: Readonly<Ref<boolean>>;
+  /** Categories added by a version migration and not yet decided */
+  undecidedCategories: ComputedRef<string[]>;
+  /** Accept all cookies */
+  acceptAll: () => Promise<void>;
+  /** Reject all cookies */
+  rejectAll: () => Promise<void>;
+  /** Set custom preferences */
+  setPreferences: (preferences: ConsentPreferences) => Promise<void>;
+  /** Withdraw consent */
+  withdrawConsent: () => Promise<void>;
+  /** Check if specific category is consented (reactive in templates and computed) */
+  hasConsentFor: (category: string) => boolean;
+  /** Consent manager instance */
+  manager: ConsentManager;
+}
+
+export interface UseHasConsentOptions {
+  /** Require every category ('all') or at least one ('any') (default: 'all') */
+  match?: 'all' | 'any';
+  /** Manager to read from (default: the consent plugin's) */
+  manager?: ConsentManager;
+}
+
+/**
+ * Resolve the manager a composable works with: the one passed in, else the
+ * consent plugin's, else its own (config only applies to its own manager)
+ * Its own manager is destroyed with the component
+ */
+export function useResolvedManager(config?: ConsentManagerConfig, existingManager?: ConsentManager): ConsentManager {
+  const sharedManager = existingManager ?? inject(ConsentManagerKey, null);
+  if (sharedManager) {
+    return sharedManager;
+  }
+
+  const manager = new ConsentManager(config || {});
+  if (getCurrentScope()) {
+    onScopeDispose(() => manager.destroy());
+  }
+  return manager;
+}
+
+/**
+ * Resolve the manager passed in, else the consent plugin's, and throw without either
+ * For composables that only read consent, where a manager of their own would never
+ * see a decision; `name` is used in the error
+ */
+export function useRequiredManager(name: string, existingManager?: ConsentManager): ConsentManager {
+  const manager = existingManager ?? inject(ConsentManagerKey, null);
+  if (!manager) {
+    throw new Error(`${name} must be used within an app that installed createConsent() or be given a manager`);
+  }
+  return manager;
+}
+
+/**
+ * Read and update consent through the consent plugin's manager (or the one passed in)
+ */
+export function useConsent(existingManager?: ConsentManager): UseConsentReturn {
+  const manager = useRequiredManager('useConsent', existingManager);
+
+  const { consent, isLoading, needsPrompt } = getConsentStore(manager);
+
+  // State updates arrive through the store's onChange subscription
+  return {
+    consent,
+    hasConsent: computed(() => consent.value !== null),
+    isLoading,
+    needsPrompt,
+    undecidedCategories: computed(() => (Array.isArray(consent.value?.undecided) ? consent.value.undecided : [])),
+    acceptAll: async () => {
+      await manager.acceptAll();
+    },
+    rejectAll: async () => {
+      await manager.rejectAll();
+    },
+    setPreferences: async (preferences) => {
+      await manager.setPreferences(preferences);
+    },
+    withdrawConsent: async () => {
+      await manager.withdrawConsent();
+    },
+    hasConsentFor: (category) => matchesConsent(manager, [category]),
+    manager,
+  };
+}
+
+/**
+ * Whether the given categories are consented, updating when consent changes
+ * False while stored consent is loading; use isLoading from useConsent()
+ * to tell pending apart from denied
+ */
+export function useHasConsent(category: string | string[], options: UseHasConsentOptions = {}): ComputedRef<boolean> {
+  const manager = useRequiredManager('useHasConsent', options.manager);
+  const categories = Array.isArray(category) ? category : [category];
+  // Subscribe now rather than on first read, which may come after loading finished
+  getConsentStore(manager);
+  return computed(() => matchesConsent(manager, categories, options.match));
+}
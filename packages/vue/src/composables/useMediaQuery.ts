@@ -0,0 +1,39 @@
+/**
+ * Composable for responsive media queries
+ * SSR-safe with proper hydration support
+ */
+
+import { onBeforeUnmount, onMounted, ref, type Ref } from 'vue';
+
+/**
+ * Whether a media query matches
+ * False during SSR and until mounted to prevent hydration mismatches
+ */
+export function useMediaQuery(query: string): Readonly<Ref<boolean>> {
+  const matches = ref(false);
+  let mediaQuery: MediaQueryList | null = null;
+
+  const handler = (event: MediaQueryListEvent) => {
+    matches.value = event.matches;
+  };
+
+  onMounted(() => {
+    mediaQuery = window.matchMedia(query);
+    matches.value = mediaQuery.matches;
+    mediaQuery.addEventListener('change', handler);
+  });
+
+  onBeforeUnmount(() => {
+    mediaQuery?.removeEventListener('change', handler);
+  });
+
+  return matches;
+}
+
+/**
+ * Whether screen width is below a breakpoint
+ * SSR-safe
+ */
+export function useIsMobile(breakpoint: number = 640): Readonly<Ref<boolean>> {
+  return useMediaQuery(`(max-width: ${breakpoint - 1}px)`);
+}
@@ -0,0 +1,61 @@
+/**
+ * v-consent directive
+ *
+ * Hides an element until its category is consented, like v-show:
+ * v-consent="'analytics'", v-consent="['analytics', 'marketing']", v-consent.any="[...]"
+ */
+
+import { ref, watchEffect, type ObjectDirective, type Ref } from 'vue';
+import type { ConsentManager } from '@kev1nramos/cookie-consent-core';
+import { matchesConsent } from '../utils/consentStore';
+
+export type ConsentDirectiveValue = string | string[];
+
+interface ConsentBinding {
+  value: Ref<ConsentDirectiveValue>;
+  any: Ref<boolean>;
+  stop: () => void;
+}
+
+const bindings = new WeakMap<HTMLElement, ConsentBinding>();
+
+const toCategories = (value: ConsentDirectiveValue): string[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * Create the directive for a manager (registered as v-consent by the consent plugin)
+ */
+export function createConsentDirective(
+  manager: ConsentManager
+): ObjectDirective<HTMLElement, ConsentDirectiveValue> {
+  return {
+    beforeMount(el, binding) {
+      const value = ref(binding.value);
+      const any = ref(binding.modifiers.any === true);
+      // Restore the element's own display when consent is granted
+      const display = el.style.display === 'none' ? '' : el.style.display;
+
+      const stop = watchEffect(() => {
+        el.style.display = matchesConsent(manager, toCategories(value.value), any.value ? 'any' : 'all')
+          ? display
+          : 'none';
+      });
+      bindings.set(el, { value, any, stop });
+    },
+    updated(el, binding) {
+      const state = bindings.get(el);
+      if (state) {
+        state.value.value = binding.value;
+        state.any.value = binding.modifiers.any === true;
+      }
+    },
+    beforeUnmount(el) {
+      bindings.get(el)?.stop();
+      bindings.delete(el);
+    },
+    // The server only knows the initial state
+    getSSRProps(binding) {
+      const granted = matchesConsent(manager, toCategories(binding.value), binding.modifiers.any ? 'any' : 'all');
+      return granted ? {} : { style: { display: 'none' } };
+    },
+  };
+}
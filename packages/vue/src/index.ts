@@ -0,0 +1,43 @@
+/**
+ * @kev1nramos/cookie-consent-vue
+ *
+ * Vue 3 components, composables and directive for cookie consent management
+ */
+
+export { createConsent, ConsentManagerKey } from './plugin';
+export { CookieConsentBanner } from './components/CookieConsentBanner';
+export { CookiePreferencesModal } from './components/CookiePreferencesModal';
+export { useConsent, useHasConsent } from './composables/useConsent';
+export { useMediaQuery, useIsMobile } from './composables/useMediaQuery';
+export { createConsentDirective } from './directives/consent';
+
+export type {
+  CookieConsentTheme,
+  CookieConsentContent,
+  CookieConsentLinks,
+  CookieConsentBehavior,
+  CookieConsentAccessibility,
+  CookieConsentBannerProps,
+  CookieCategoryContent,
+  CookiePreferencesContent,
+  CookiePreferencesModalProps,
+  ConsentPluginOptions,
+} from './types';
+
+export type { ConsentPlugin } from './plugin';
+export type { UseConsentReturn, UseHasConsentOptions } from './composables/useConsent';
+export type { ConsentDirectiveValue } from './directives/consent';
+
+export { defaultTheme, defaultLabels } from './types';
+
+// Re-export core types for convenience
+export type {
+  ConsentState,
+  ConsentPreferences,
+  ConsentCategory,
+  ConsentChangeListener,
+  StorageAdapter,
+  ConsentManagerConfig,
+} from '@kev1nramos/cookie-consent-core';
+
+export { ConsentManager } from '@kev1nramos/cookie-consent-core';
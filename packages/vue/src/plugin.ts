@@ -0,0 +1,35 @@
+/**
+ * Consent Plugin
+ *
+ * Provides one ConsentManager to every composable and component in the app
+ * and registers the v-consent directive
+ */
+
+import type { InjectionKey, Plugin } from 'vue';
+import { ConsentManager } from '@kev1nramos/cookie-consent-core';
+import type { ConsentPluginOptions } from './types';
+import { createConsentDirective } from './directives/consent';
+
+export const ConsentManagerKey: InjectionKey<ConsentManager> = Symbol('ConsentManager');
+
+export type ConsentPlugin = Plugin & {
+  /** The manager provided to the app */
+  manager: ConsentManager;
+};
+
+/**
+ * Create the consent plugin: app.use(createConsent({ config }))
+ * Create one per app; on the server that means one per request
+ */
+export function createConsent({ config, manager, initialState }: ConsentPluginOptions = {}): ConsentPlugin {
+  const sharedManager =
+    manager ?? new ConsentManager(initialState !== undefined ? { ...config, initialState } : config || {});
+
+  return {
+    manager: sharedManager,
+    install(app) {
+      app.provide(ConsentManagerKey, sharedManager);
+      app.directive('consent', createConsentDirective(sharedManager));
+    },
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Vue Component Type Definitions
+ */
+
+import type { ConsentManager, ConsentManagerConfig, ConsentState } from '@kev1nramos/cookie-consent-core';
+
+/**
+ * Theme configuration for cookie consent banner
+ */
+export interface CookieConsentTheme {
+  colors: {
+    /** Banner background color (default: #8F93FF) */
+    banner: string;
+    /** Primary CTA button background (default: #27EAA6) */
+    cta: string;
+    /** CTA button text color (default: #FFFFFF) */
+    ctaText: string;
+    /** Banner text color (default: #FFFFFF) */
+    text: string;
+    /** Banner text secondary color (default: rgba(255,255,255,0.9)) */
+    textSecondary?: string;
+    /** Link color (default: #27EAA6) */
+    links: string;
+    /** Secondary button background (default: rgba(255,255,255,0.2)) */
+    secondaryButton?: string;
+    /** Secondary button text (default: #FFFFFF) */
+    secondaryButtonText?: string;
+    /** Backdrop color (default: rgba(0,0,0,0.2)) */
+    backdrop?: string;
+  };
+  fonts?: {
+    /** Font family (default: system font stack) */
+    family?: string;
+  };
+  borderRadius?: string;
+  spacing?: {
+    padding?: string;
+    gap?: string;
+  };
+}
+
+/**
+ * Content/copy for the cookie consent banner
+ * Use the `description` slot for rich content
+ */
+export interface CookieConsentContent {
+  /** Banner title */
+  title: string;
+  /** Banner description/message */
+  description: string;
+  /** Accept all button text */
+  acceptButton?: string;
+  /** Reject all button text */
+  rejectButton?: string;
+  /** Learn more link text */
+  learnMoreText?: string;
+  /** Manage preferences link text */
+  managePreferencesText?: string;
+  /** Customize button text (opens the preferences modal) */
+  customizeButton?: string;
+  /** Opt-out button text for the 'opt-out' variant (default: 'Do Not Sell or Share My Personal Information') */
+  optOutButton?: string;
+  /** Dismiss button text for the 'opt-out' and 'notice' variants (default: 'Got it') */
+  acknowledgeButton?: string;
+}
+
+/**
+ * Label and description for a category in the preferences modal
+ * Overrides the manager's category registry
+ */
+export interface CookieCategoryContent {
+  /** Category label (default: capitalized category name) */
+  label?: string;
+  /** Category description */
+  description?: string;
+}
+
+/**
+ * Content/copy for the preferences modal
+ */
+export interface CookiePreferencesContent {
+  /** Modal title (default: 'Cookie preferences') */
+  title?: string;
+  /** Modal description */
+  description?: string;
+  /** Save button text (default: 'Save choices') */
+  saveButton?: string;
+  /** Accept all button text (default: 'Accept all') */
+  acceptAllButton?: string;
+  /** Reject all button text (default: 'Reject all') */
+  rejectAllButton?: string;
+  /** Label shown instead of a toggle for essential cookies (default: 'Always active') */
+  alwaysActiveLabel?: string;
+  /** ARIA label for the close button (default: 'Close') */
+  closeButtonLabel?: string;
+  /** Summary text for a category's cookie declarations (default: 'Cookies used') */
+  cookiesLabel?: string;
+  /** Per-category labels and descriptions, keyed by category name */
+  categories?: Record<string, CookieCategoryContent>;
+}
+
+/**
+ * Links configuration for cookie policy and settings
+ */
+export interface CookieConsentLinks {
+  /** Cookie policy page URL */
+  cookiePolicy?: string;
+  /** Cookie settings/preferences page URL */
+  cookieSettings?: string;
+  /** Privacy policy page URL */
+  privacyPolicy?: string;
+}
+
+/**
+ * Behavior configuration
+ */
+export interface CookieConsentBehavior {
+  /** Delay before showing banner in milliseconds (default: 1000) */
+  showDelay?: number;
+  /** Banner position (default: 'bottom') */
+  position?: 'top' | 'bottom' | 'center';
+  /** Enable backdrop blur effect (default: true) */
+  backdropBlur?: boolean;
+  /** Close banner on backdrop click (default: false) */
+  closeOnBackdropClick?: boolean;
+  /** Animation duration in milliseconds (default: 300) */
+  animationDuration?: number;
+  /** Show a Customize button that opens the preferences modal (default: true) */
+  showCustomizeButton?: boolean;
+}
+
+/**
+ * Accessibility configuration
+ */
+export interface CookieConsentAccessibility {
+  /** ARIA label for banner (default: 'Cookie consent banner') */
+  bannerLabel?: string;
+  /** ARIA label for accept button */
+  acceptButtonLabel?: string;
+  /** ARIA label for reject button */
+  rejectButtonLabel?: string;
+  /** ARIA label for preferences modal (default: 'Cookie preferences') */
+  preferencesLabel?: string;
+}
+
+/**
+ * Props for CookieConsentBanner component
+ * Events: acceptAll, rejectAll, savePreferences(state)
+ */
+export interface CookieConsentBannerProps {
+  /** Theme configuration */
+  theme?: Partial<CookieConsentTheme>;
+  /** Content/copy */
+  content?: CookieConsentContent;
+  /** Locale of the content, recorded with the decision (default: <html lang>, then 'en') */
+  locale?: string;
+  /** Links configuration */
+  links?: CookieConsentLinks;
+  /** Behavior configuration */
+  behavior?: CookieConsentBehavior;
+  /** Accessibility configuration */
+  accessibility?: CookieConsentAccessibility;
+  /** Consent manager configuration (ignored when a manager is provided or installed) */
+  config?: ConsentManagerConfig;
+  /** Existing consent manager to use (default: the consent plugin's) */
+  manager?: ConsentManager;
+  /** Consent read on the server; suppresses the banner until storage disagrees (ignored with the plugin) */
+  initialState?: ConsentState | null;
+  /** Content for the preferences modal opened by the Customize button */
+  preferences?: CookiePreferencesContent;
+}
+
+/**
+ * Props for CookiePreferencesModal component
+ * Events: close, save(state), acceptAll, rejectAll
+ */
+export interface CookiePreferencesModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Theme configuration */
+  theme?: Partial<CookieConsentTheme>;
+  /** Content/copy */
+  content?: CookiePreferencesContent;
+  /** Accessibility configuration */
+  accessibility?: CookieConsentAccessibility;
+  /** Consent manager configuration (ignored when a manager is provided or installed) */
+  config?: ConsentManagerConfig;
+  /** Existing consent manager to share, e.g. the banner's */
+  manager?: ConsentManager;
+}
+
+/**
+ * Options for the consent plugin
+ */
+export interface ConsentPluginOptions {
+  /** Consent manager configuration (ignored when manager is provided) */
+  config?: ConsentManagerConfig;
+  /** Existing consent manager to share */
+  manager?: ConsentManager;
+  /** Consent read on the server from the consent cookie, trusted until storage is verified */
+  initialState?: ConsentState | null;
+}
+
+/**
+ * Default theme values
+ */
+export const defaultTheme: CookieConsentTheme = {
+  colors: {
+    banner: '#8F93FF',
+    cta: '#27EAA6',
+    ctaText: '#FFFFFF',
+    text: '#FFFFFF',
+    textSecondary: 'rgba(255, 255, 255, 0.9)',
+    links: '#27EAA6',
+    secondaryButton: 'rgba(255, 255, 255, 0.2)',
+    secondaryButtonText: '#FFFFFF',
+    backdrop: 'rgba(0, 0, 0, 0.2)',
+  },
+  fonts: {
+    family: 'system-ui, -apple-system, sans-serif',
+  },
+  borderRadius: '0.5rem',
+  spacing: {
+    padding: '1rem',
+    gap: '0.75rem',
+  },
+};
+
+/**
+ * Default English labels, used when content leaves a label unset
+ */
+export const defaultLabels = {
+  banner: {
+    acceptButton: 'Accept All',
+    rejectButton: 'Reject All',
+    customizeButton: 'Customize',
+    learnMoreText: 'Learn more',
+    managePreferencesText: 'Manage preferences',
+    optOutButton: 'Do Not Sell or Share My Personal Information',
+    acknowledgeButton: 'Got it',
+  },
+  preferences: {
+    title: 'Cookie preferences',
+    saveButton: 'Save choices',
+    acceptAllButton: 'Accept all',
+    rejectAllButton: 'Reject all',
+    alwaysActiveLabel: 'Always active',
+    closeButtonLabel: 'Close',
+    cookiesLabel: 'Cookies used',
+  },
+  accessibility: {
+    bannerLabel: 'Cookie consent banner',
+    preferencesLabel: 'Cookie preferences',
+  },
+};
@@ -0,0 +1,90 @@
+/**
+ * Reactive store over a ConsentManager, shared by composables, components and the directive
+ */
+
+import { ref, shallowReadonly, shallowRef, type Ref } from 'vue';
+import type { ConsentManager, ConsentState } from '@kev1nramos/cookie-consent-core';
+
+export interface ConsentStore {
+  /** Current consent state (null before a decision, after withdrawal, or while loading) */
+  consent: Readonly<Ref<ConsentState | null>>;
+  /** Stored consent hasn't been read yet and no initial state was provided */
+  isLoading: Readonly<Ref<boolean>>;
+  /** Whether the banner should be shown */
+  needsPrompt: Readonly<Ref<boolean>>;
+}
+
+// One store per manager, shared by every composable using it
+const stores = new WeakMap<ConsentManager, ConsentStore>();
+
+/**
+ * Get the store for a manager, creating it on first use
+ */
+export function getConsentStore(manager: ConsentManager): ConsentStore {
+  let store = stores.get(manager);
+  if (!store) {
+    store = createConsentStore(manager);
+    stores.set(manager, store);
+  }
+  return store;
+}
+
+function createConsentStore(manager: ConsentManager): ConsentStore {
+  // A server-provided initial state is trusted until storage has been verified
+  const initialState = manager.getInitialState();
+  const consent = shallowRef<ConsentState | null>(initialState);
+  const isLoading = ref(!initialState);
+  const needsPrompt = ref(false);
+
+  // Nothing is read on the server, so the first client render matches the server's
+  if (typeof window !== 'undefined') {
+    let loaded = false;
+
+    const refresh = () => {
+      // Read the cached state: a withdrawal notifies with a "reject all" state but clears consent
+      consent.value = manager.getConsentSync();
+      isLoading.value = !loaded && !initialState;
+      needsPrompt.value = !isLoading.value && manager.needsConsentPrompt();
+    };
+
+    // Lives as long as the manager, including changes from other tabs
+    manager.onChange(refresh);
+
+    // Stored consent is loaded without notifying listeners
+    // A failed read still ends loading, so components don't wait forever
+    manager
+      .getConsent()
+      .catch((error) => {
+        console.error('[ConsentStore] Error loading consent:', error);
+      })
+      .then(() => {
+        loaded = true;
+        refresh();
+      });
+  }
+
+  return {
+    consent: shallowReadonly(consent),
+    isLoading: shallowReadonly(isLoading),
+    needsPrompt: shallowReadonly(needsPrompt),
+  };
+}
+
+/**
+ * Whether the given categories are consented; reactive when read inside an effect
+ * False while stored consent is loading
+ */
+export function matchesConsent(
+  manager: ConsentManager,
+  categories: string[],
+  match: 'all' | 'any' = 'all'
+): boolean {
+  const { consent, isLoading } = getConsentStore(manager);
+  if (isLoading.value) {
+    return false;
+  }
+  // Track consent so effects re-run when it changes
+  void consent.value;
+  const check = (category: string) => manager.hasConsentForSync(category);
+  return match === 'any' ? categories.some(check) : categories.every(check);
+}
@@ -0,0 +1,23 @@
+/**
+ * Theme helpers shared by components
+ */
+
+import type { CookieConsentTheme } from '../types';
+import { defaultTheme } from '../types';
+
+export type ResolvedTheme = Required<CookieConsentTheme> & {
+  fonts: NonNullable<CookieConsentTheme['fonts']>;
+  spacing: NonNullable<CookieConsentTheme['spacing']>;
+};
+
+/**
+ * Merge a partial user theme with the defaults
+ */
+export function mergeTheme(userTheme?: Partial<CookieConsentTheme>): ResolvedTheme {
+  return {
+    colors: { ...defaultTheme.colors, ...userTheme?.colors },
+    fonts: { ...defaultTheme.fonts, ...userTheme?.fonts },
+    borderRadius: userTheme?.borderRadius ?? defaultTheme.borderRadius!,
+    spacing: { ...defaultTheme.spacing, ...userTheme?.spacing },
+  };
+}
@@ -0,0 +1,92 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest';
+import { createApp, defineComponent, h, nextTick, ref, resolveDirective, withDirectives, type App } from 'vue';
+import { ConsentManager, MemoryStorageAdapter } from '@kev1nramos/cookie-consent-core';
+import { createConsent } from '../src';
+
+const apps: App[] = [];
+
+afterEach(() => {
+  apps.splice(0).forEach((app) => app.unmount());
+});
+
+async function createLoadedManager(): Promise<ConsentManager> {
+  const manager = new ConsentManager({ storage: new MemoryStorageAdapter(), enableIntegrity: false, sync: false });
+  await manager.getConsent();
+  return manager;
+}
+
+// Render a div with v-consent bound to the value ref
+function mountWithDirective(
+  manager: ConsentManager,
+  value: ReturnType<typeof ref<string | string[]>>,
+  modifiers: Record<string, boolean> = {},
+  style = ''
+): HTMLElement {
+  const root = document.createElement('div');
+  const app = createApp(
+    defineComponent({
+      setup() {
+        return () =>
+          withDirectives(h('div', { id: 'target', style }), [[resolveDirective('consent')!, value.value, undefined, modifiers]]);
+      },
+    })
+  );
+  app.use(createConsent({ manager }));
+  app.mount(root);
+  apps.push(app);
+  return root.querySelector<HTMLElement>('#target')!;
+}
+
+// The store catches up with the manager after its own read has settled
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('v-consent', () => {
+  it('hides the element until its category is consented', async () => {
+    const manager = await createLoadedManager();
+    const el = mountWithDirective(manager, ref<string | string[]>('analytics'));
+    await settle();
+    expect(el.style.display).toBe('none');
+
+    await manager.acceptAll();
+    await nextTick();
+    expect(el.style.display).toBe('');
+
+    await manager.withdrawConsent();
+    await nextTick();
+    expect(el.style.display).toBe('none');
+  });
+
+  it('restores the element display when granted', async () => {
+    const manager = await createLoadedManager();
+    const el = mountWithDirective(manager, ref<string | string[]>('analytics'), {}, 'display: flex');
+    await manager.acceptAll();
+    await nextTick();
+    expect(el.style.display).toBe('flex');
+  });
+
+  it('requires every category unless .any is used', async () => {
+    const manager = await createLoadedManager();
+    const all = mountWithDirective(manager, ref<string | string[]>(['analytics', 'marketing']));
+    const any = mountWithDirective(manager, ref<string | string[]>(['analytics', 'marketing']), { any: true });
+    await manager.setPreferences({ analytics: true, marketing: false });
+    await nextTick();
+
+    expect(all.style.display).toBe('none');
+    expect(any.style.display).toBe('');
+  });
+
+  it('follows binding updates', async () => {
+    const manager = await createLoadedManager();
+    const value = ref<string | string[]>('analytics');
+    const el = mountWithDirective(manager, value);
+    await manager.setPreferences({ analytics: true, marketing: false });
+    await nextTick();
+    expect(el.style.display).toBe('');
+
+    value.value = 'marketing';
+    await nextTick();
+    await nextTick();
+    expect(el.style.display).toBe('none');
+  });
+});
@@ -0,0 +1,136 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createApp, defineComponent, h, type App } from 'vue';
+import { ConsentManager, MemoryStorageAdapter } from '@kev1nramos/cookie-consent-core';
+import { createConsent, ConsentManagerKey, useConsent, useHasConsent, type UseConsentReturn } from '../src';
+
+function createManager(): ConsentManager {
+  return new ConsentManager({ storage: new MemoryStorageAdapter(), enableIntegrity: false, sync: false });
+}
+
+let app: App | null = null;
+
+// Wait until stored consent has been read and the store has caught up
+async function loaded(manager: ConsentManager): Promise<void> {
+  await manager.getConsent();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+// Mount a component running setup, with or without the consent plugin
+function mount<T>(setup: () => T, plugin?: ReturnType<typeof createConsent>): T {
+  let result!: T;
+  app = createApp(
+    defineComponent({
+      setup() {
+        result = setup();
+        return () => h('div');
+      },
+    })
+  );
+  if (plugin) {
+    app.use(plugin);
+  }
+  app.mount(document.createElement('div'));
+  return result;
+}
+
+afterEach(() => {
+  app?.unmount();
+  app = null;
+  vi.restoreAllMocks();
+});
+
+describe('createConsent', () => {
+  it('provides one manager to the whole app', () => {
+    const plugin = createConsent({ manager: createManager() });
+    const injected = mount(() => useConsent().manager, plugin);
+    expect(injected).toBe(plugin.manager);
+  });
+
+  it('creates a manager from config and initial state', () => {
+    const timestamp = Date.now();
+    const initialState = {
+      version: 1,
+      essential: true,
+      analytics: true,
+      marketing: false,
+      timestamp,
+      expiresAt: timestamp + 60_000,
+    };
+    const plugin = createConsent({
+      config: { storage: new MemoryStorageAdapter(), enableIntegrity: false, sync: false },
+      initialState,
+    });
+
+    expect(plugin.manager).toBeInstanceOf(ConsentManager);
+    expect(plugin.manager.getInitialState()).toMatchObject({ analytics: true, marketing: false });
+  });
+
+  it('registers the v-consent directive', () => {
+    const plugin = createConsent({ manager: createManager() });
+    mount(() => null, plugin);
+    expect(app?.directive('consent')).toBeDefined();
+    expect(app?._context.provides[ConsentManagerKey as symbol]).toBe(plugin.manager);
+  });
+});
+
+describe('useConsent', () => {
+  it('updates its refs when consent changes', async () => {
+    const plugin = createConsent({ manager: createManager() });
+    const consent: UseConsentReturn = mount(() => useConsent(), plugin);
+    await loaded(plugin.manager);
+
+    expect(consent.isLoading.value).toBe(false);
+    expect(consent.needsPrompt.value).toBe(true);
+    expect(consent.hasConsent.value).toBe(false);
+
+    await consent.acceptAll();
+    expect(consent.consent.value).toMatchObject({ analytics: true, marketing: true });
+    expect(consent.needsPrompt.value).toBe(false);
+    expect(consent.hasConsentFor('analytics')).toBe(true);
+
+    await consent.withdrawConsent();
+    expect(consent.consent.value).toBeNull();
+    expect(consent.needsPrompt.value).toBe(true);
+  });
+
+  it('throws outside the plugin unless given a manager', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(() => mount(() => useConsent())).toThrow(/useConsent must be used within an app/);
+
+    const manager = createManager();
+    expect(mount(() => useConsent(manager)).manager).toBe(manager);
+  });
+});
+
+describe('useHasConsent', () => {
+  it('follows decisions made through the plugin manager', async () => {
+    const plugin = createConsent({ manager: createManager() });
+    const { analytics, either } = mount(
+      () => ({
+        analytics: useHasConsent('analytics'),
+        either: useHasConsent(['analytics', 'marketing'], { match: 'any' }),
+      }),
+      plugin
+    );
+    await loaded(plugin.manager);
+
+    expect(analytics.value).toBe(false);
+    await plugin.manager.setPreferences({ analytics: false, marketing: true });
+    expect(analytics.value).toBe(false);
+    expect(either.value).toBe(true);
+    await plugin.manager.acceptAll();
+    expect(analytics.value).toBe(true);
+  });
+
+  it('throws outside the plugin unless given a manager', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(() => mount(() => useHasConsent('analytics'))).toThrow(/useHasConsent must be used within an app/);
+
+    const manager = createManager();
+    const analytics = mount(() => useHasConsent('analytics', { manager }));
+    await loaded(manager);
+    await manager.acceptAll();
+    expect(analytics.value).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createSSRApp, defineComponent, h, resolveDirective, withDirectives } from 'vue';
+import { renderToString } from 'vue/server-renderer';
+import type { ConsentState } from '@kev1nramos/cookie-consent-core';
+import { createConsent, useConsent, useHasConsent } from '../src';
+
+function createState(overrides: Partial<ConsentState> = {}): ConsentState {
+  const timestamp = Date.now();
+  return {
+    version: 1,
+    essential: true,
+    analytics: false,
+    marketing: false,
+    timestamp,
+    expiresAt: timestamp + 30 * 24 * 60 * 60 * 1000,
+    ...overrides,
+  };
+}
+
+// Render on the server with one plugin per request, as Nuxt does
+function render(initialState?: ConsentState | null): Promise<string> {
+  const app = createSSRApp(
+    defineComponent({
+      setup() {
+        const { isLoading, needsPrompt } = useConsent();
+        const analytics = useHasConsent('analytics');
+        return () =>
+          h('main', [
+            h('p', { id: 'state' }, `loading=${isLoading.value} prompt=${needsPrompt.value} analytics=${analytics.value}`),
+            withDirectives(h('aside', 'Tracker'), [[resolveDirective('consent')!, 'marketing']]),
+          ]);
+      },
+    })
+  );
+  app.use(createConsent({ config: { sync: false }, initialState }));
+  return renderToString(app);
+}
+
+describe('server rendering', () => {
+  it('renders the loading state without reading storage', async () => {
+    expect(typeof window).toBe('undefined');
+    const html = await render();
+
+    expect(html).toContain('loading=true prompt=false analytics=false');
+    expect(html).toContain('<aside style="display:none;">Tracker</aside>');
+  });
+
+  it('renders the initial state read from the request', async () => {
+    const html = await render(createState({ analytics: true, marketing: true }));
+
+    expect(html).toContain('loading=false prompt=false analytics=true');
+    expect(html).toContain('<aside>Tracker</aside>');
+  });
+
+  it('hides v-consent elements the initial state denies', async () => {
+    const html = await render(createState({ analytics: true }));
+
+    expect(html).toContain('analytics=true');
+    expect(html).toContain('<aside style="display:none;">Tracker</aside>');
+  });
+
+  it('keeps requests apart', async () => {
+    const [granted, denied] = await Promise.all([
+      render(createState({ analytics: true })),
+      render(createState()),
+    ]);
+
+    expect(granted).toContain('analytics=true');
+    expect(denied).toContain('analytics=false');
+  });
+});